@@ -151,6 +151,7 @@ async function main() {
 
   const prompt = input.prompt || input.user_prompt || '';
   const sessionId = input.session_id || '';
+  const cwd = input.cwd || '';
 
   // Skip empty prompts
   if (!prompt) {
@@ -214,6 +215,7 @@ async function main() {
     const resp = await httpPost(API_PORT, '/context/suggest', {
       prompt,
       sessionId,
+      project: cwd,
     });
 
     if (resp.status === 200 && resp.body) {
@@ -28,6 +28,7 @@ INPUT=$(cat)
 # Extract prompt and session ID (exit cleanly if jq fails)
 PROMPT=$(echo "$INPUT" | jq -r '.prompt // .user_prompt // empty' 2>/dev/null) || exit 0
 SESSION_ID=$(echo "$INPUT" | jq -r '.session_id // empty' 2>/dev/null) || true
+CWD=$(echo "$INPUT" | jq -r '.cwd // empty' 2>/dev/null) || true
 
 # Skip empty prompts
 if [ -z "$PROMPT" ]; then
@@ -103,7 +104,8 @@ fi
 JSON_BODY=$(jq -n \
   --arg prompt "$PROMPT" \
   --arg sessionId "$SESSION_ID" \
-  '{prompt: $prompt, sessionId: $sessionId}')
+  --arg project "$CWD" \
+  '{prompt: $prompt, sessionId: $sessionId, project: $project}')
 
 # Call tier-agent API for context suggestions (5 second timeout)
 HTTP_CODE=$(curl -s --max-time 5 -o /tmp/context-inject-response.json -w '%{http_code}' \
@@ -24,7 +24,7 @@ import * as readline from 'readline';
 import type { TierName } from './types/instruction-protocol';
 import { getSessionCache, type SessionCacheData, type CachedToolUse, isRealUserPrompt } from './session-cache';
 import { legacyEncodeProjectPath } from './utils/path-utils';
-import { CostCalculator } from './cost-calculator';
+import { CostCalculator, addDailyUsage, type DailyUsage } from './cost-calculator';
 
 // ============================================================================
 // Session Cache Converter
@@ -210,7 +210,7 @@ function convertCacheToSessionData(
   // Calculate cost from tokens if no cost from result or per-message costUSD
   if (!data.totalCostUsd && cache.usage.inputTokens > 0) {
     const calc = new CostCalculator();
-    data.totalCostUsd = calc.calculateCost(cache.usage, cache.model).totalCost;
+    data.totalCostUsd = calc.calculateSessionCost(cache);
   }
 
   // Calculate per-model costs from tokens if not set (independent of totalCostUsd source)
@@ -219,12 +219,11 @@ function convertCacheToSessionData(
     for (const [modelName, mu] of Object.entries(data.modelUsage)) {
       if (!mu.costUsd && mu.inputTokens > 0) {
         if (!calc) calc = new CostCalculator();
-        mu.costUsd = calc.calculateCost({
-          inputTokens: mu.inputTokens,
-          outputTokens: mu.outputTokens,
-          cacheCreationInputTokens: mu.cacheCreationInputTokens,
-          cacheReadInputTokens: mu.cacheReadInputTokens,
-        }, modelName).totalCost;
+        mu.costUsd = calc.calculateSessionCost({
+          usage: mu,
+          lastTimestamp: cache.lastTimestamp,
+          usageByDay: cache.usageByDay,
+        }, modelName);
       }
     }
   }
@@ -1742,7 +1741,7 @@ function isActualGitCommand(cmd: string): boolean {
 /**
  * Extract git operations from tool uses
  */
-function extractGitOperationsFromToolUses(toolUses: ClaudeToolUse[]): GitOperation[] {
+export function extractGitOperationsFromToolUses(toolUses: ClaudeToolUse[]): GitOperation[] {
   const operations: GitOperation[] = [];
 
   for (const tool of toolUses) {
@@ -2930,6 +2929,7 @@ export class AgentSessionStore extends EventEmitter {
       costUsd: number;
       messageCount: number;
     }> = {};
+    const usageByDay: DailyUsage = {};
     let result: string | undefined;
     let errors: string[] | undefined;
     let success = false;
@@ -3223,6 +3223,14 @@ export class AgentSessionStore extends EventEmitter {
             mu.cacheReadInputTokens += cacheReadToks;
             mu.messageCount++;
           }
+          if (msgModel !== '<synthetic>') {
+            addDailyUsage(usageByDay, lastTimestamp || undefined, msgModel || '', {
+              inputTokens: inputToks,
+              outputTokens: outputToks,
+              cacheCreationInputTokens: cacheCreateToks,
+              cacheReadInputTokens: cacheReadToks,
+            });
+          }
         }
 
         // Accumulate per-message costUSD (pre-calculated by Claude Code)
@@ -3454,7 +3462,12 @@ export class AgentSessionStore extends EventEmitter {
     // Calculate cost if not set
     if (!totalCostUsd && usage.inputTokens > 0) {
       const calc = new CostCalculator();
-      totalCostUsd = calc.calculateCost(usage, model).totalCost;
+      totalCostUsd = calc.calculateSessionCost({
+        usage,
+        model,
+        lastTimestamp: lastTimestamp?.toISOString(),
+        usageByDay,
+      });
     }
 
     // Determine success if we have responses
@@ -3679,7 +3692,7 @@ export class AgentSessionStore extends EventEmitter {
         let cost = cd.totalCostUsd || cd.cumulativeCostUsd || 0;
         if (!cost && cd.usage && cd.usage.inputTokens > 0) {
           if (!calc) calc = new CostCalculator();
-          cost = calc.calculateCost(cd.usage, cd.model || '').totalCost;
+          cost = calc.calculateSessionCost(cd);
         }
         subagentCostUsd += cost;
 
@@ -3730,7 +3743,7 @@ export class AgentSessionStore extends EventEmitter {
           let costUsd: number | undefined = s.cacheData.totalCostUsd || s.cacheData.cumulativeCostUsd || 0;
           if (!costUsd && s.cacheData.usage && s.cacheData.usage.inputTokens > 0) {
             if (!calc) calc = new CostCalculator();
-            costUsd = calc.calculateCost(s.cacheData.usage, s.cacheData.model || '').totalCost;
+            costUsd = calc.calculateSessionCost(s.cacheData);
           }
           if (!costUsd) costUsd = undefined;
           const { usage: cachedUsage, modelUsage: cachedModelUsage } = s.cacheData;
@@ -3872,7 +3885,7 @@ export class AgentSessionStore extends EventEmitter {
         let costUsd: number | undefined = cacheData.totalCostUsd || cacheData.cumulativeCostUsd || 0;
         if (!costUsd && cacheData.usage && cacheData.usage.inputTokens > 0) {
           if (!calc) calc = new CostCalculator();
-          costUsd = calc.calculateCost(cacheData.usage, cacheData.model || '').totalCost;
+          costUsd = calc.calculateSessionCost(cacheData);
         }
         if (!costUsd) costUsd = undefined;
         const hasUsage = cacheData.usage && (cacheData.usage.inputTokens > 0 || cacheData.usage.outputTokens > 0);
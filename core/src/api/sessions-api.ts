@@ -202,18 +202,17 @@ export function createSessionsApiImpl(deps: SessionsApiDeps): SessionsApi {
             const calc = new CostCalculator();
 
             if (!totalCostUsd && cacheData?.usage && cacheData.usage.inputTokens > 0) {
-              totalCostUsd = calc.calculateCost(cacheData.usage, cacheData.model || '').totalCost;
+              totalCostUsd = calc.calculateSessionCost(cacheData);
             }
 
             if (modelUsageCopy) {
               for (const [mName, mu] of Object.entries(modelUsageCopy)) {
                 if (!mu.costUsd && mu.inputTokens > 0) {
-                  mu.costUsd = calc.calculateCost({
-                    inputTokens: mu.inputTokens,
-                    outputTokens: mu.outputTokens,
-                    cacheCreationInputTokens: mu.cacheCreationInputTokens,
-                    cacheReadInputTokens: mu.cacheReadInputTokens,
-                  }, mName).totalCost;
+                  mu.costUsd = calc.calculateSessionCost({
+                    usage: mu,
+                    lastTimestamp: cacheData?.lastTimestamp,
+                    usageByDay: cacheData?.usageByDay,
+                  }, mName);
                 }
               }
             }
@@ -0,0 +1,628 @@
+/**
+ * Budgets & Spend Alerts
+ *
+ * Spending caps per day, week or month, for everything (global), for one
+ * project, or per session. Spend is tracked incrementally: every session cache
+ * update adds the growth of that session's cost to a daily ledger, keyed by
+ * the day of the session's last message. Subagent spend counts toward its
+ * parent session. On start every cached session's current cost is taken as
+ * its baseline without being booked, so spend from before tracking began
+ * never lands on the day a session was last active. A session first seen
+ * later contributes its whole cost only if it has been active since then;
+ * older ones (parsed for the first time, e.g. when browsed) just get a
+ * baseline.
+ *
+ * When a budget's spend for the current period crosses its warning fraction
+ * or its cap, an alert is reported once per period (per session, for
+ * session budgets without a target) to listeners registered with onAlert();
+ * the REST server forwards them to SSE /stream as `budget_warning` and
+ * `budget_breach` events. For hard-cap budgets, any session in scope that
+ * keeps spending after the breach is aborted through the aborter set by the
+ * REST server (monitor or agent execution abort). Sessions lm-assist is not
+ * running, such as interactive terminals, cannot be aborted; the attempt is
+ * repeated on their next spend.
+ *
+ * State: ~/.lm-assist/budgets.json
+ * Singleton via getBudgets().
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDataDir } from './utils/path-utils';
+import { CostCalculator } from './cost-calculator';
+import type { SessionCacheData } from './session-cache';
+
+// ── Types ──────────────────────────────────────────
+
+export type BudgetScope = 'global' | 'project' | 'session';
+export type BudgetPeriod = 'day' | 'week' | 'month';
+export type BudgetLevel = 'ok' | 'warning' | 'breach';
+
+export const BUDGET_SCOPES: BudgetScope[] = ['global', 'project', 'session'];
+export const BUDGET_PERIODS: BudgetPeriod[] = ['day', 'week', 'month'];
+
+export interface Budget {
+  id: string;                    // B001
+  name: string;
+  scope: BudgetScope;
+  /** Project path (project scope) or session ID (session scope; omit to cap every session) */
+  target?: string;
+  period: BudgetPeriod;
+  capUsd: number;
+  /** Fraction of the cap that triggers a warning (0-1) */
+  warnAt: number;
+  /** Abort sessions in scope that keep spending after the cap is hit */
+  hardCap: boolean;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BudgetInput {
+  name?: string;
+  scope: BudgetScope;
+  target?: string;
+  period?: BudgetPeriod;
+  capUsd: number;
+  warnAt?: number;
+  hardCap?: boolean;
+  enabled?: boolean;
+}
+
+export interface BudgetAlert {
+  level: 'warning' | 'breach';
+  budgetId: string;
+  name: string;
+  scope: BudgetScope;
+  target?: string;
+  period: BudgetPeriod;
+  periodStart: string;
+  capUsd: number;
+  spentUsd: number;
+  /** Session whose spend crossed the threshold */
+  sessionId: string;
+  project: string;
+  hardCap: boolean;
+}
+
+export interface BudgetAbort {
+  budgetId: string;
+  name: string;
+  sessionId: string;
+  /** Monitor or agent execution that was aborted */
+  executionId: string;
+}
+
+export interface BudgetStatus extends Budget {
+  periodStart: string;
+  periodEnd: string;
+  spentUsd: number;
+  level: BudgetLevel;
+  /** Session budgets without a target: sessions at or over the warning level this period */
+  sessions?: Array<{ sessionId: string; project: string; spentUsd: number; level: BudgetLevel }>;
+}
+
+/** Aborts whatever execution is running a session; resolves to the aborted execution ID, or null */
+export type SessionAborter = (sessionId: string) => Promise<string | null>;
+
+interface DaySpend {
+  total: number;
+  projects: Record<string, number>;
+  sessions: Record<string, number>;
+}
+
+interface TrackedSession {
+  project: string;
+  /** Last seen cost of the session file (subagent files are tracked separately) */
+  costUsd: number;
+  seenAt: string;
+}
+
+interface BudgetFile {
+  budgets: Budget[];
+  nextId: number;
+  /** Session file key (sessionId, or parent/agentId for subagents) → last seen cost */
+  tracked: Record<string, TrackedSession>;
+  /** Local date (YYYY-MM-DD) → spend that day */
+  days: Record<string, DaySpend>;
+  /** budgetId:periodKey[:sessionId] → highest level already reported */
+  reported: Record<string, 'warning' | 'breach' | 'aborted'>;
+}
+
+// ── Constants ──────────────────────────────────────────
+
+const STATE_FILE = path.join(getDataDir(), 'budgets.json');
+
+/** Ledger days kept — enough for any month or week period */
+const RETENTION_DAYS = 62;
+const SAVE_DELAY_MS = 2000;
+const DEFAULT_WARN_AT = 0.8;
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = { day: 'Daily', week: 'Weekly', month: 'Monthly' };
+
+// ── Periods ──────────────────────────────────────────
+
+function dayKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * Local start and end of the period containing `now`. Weeks start on Monday.
+ */
+export function getPeriodRange(period: BudgetPeriod, now = new Date()): { start: Date; end: Date } {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const end = new Date(start);
+  if (period === 'day') {
+    end.setDate(end.getDate() + 1);
+  } else if (period === 'week') {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    end.setTime(start.getTime());
+    end.setDate(end.getDate() + 7);
+  } else {
+    start.setDate(1);
+    end.setTime(start.getTime());
+    end.setMonth(end.getMonth() + 1);
+  }
+  return { start, end };
+}
+
+function periodDays(period: BudgetPeriod, now = new Date()): string[] {
+  const { start } = getPeriodRange(period, now);
+  const days: string[] = [];
+  const today = dayKey(now);
+  for (const d = new Date(start); ; d.setDate(d.getDate() + 1)) {
+    const key = dayKey(d);
+    days.push(key);
+    if (key >= today) break;
+  }
+  return days;
+}
+
+function levelFor(spent: number, budget: Budget): BudgetLevel {
+  if (spent >= budget.capUsd) return 'breach';
+  if (spent >= budget.capUsd * budget.warnAt) return 'warning';
+  return 'ok';
+}
+
+// ── Cost Helpers ──────────────────────────────────────────
+
+let costCalculator: CostCalculator | null = null;
+
+function sessionCost(cacheData: SessionCacheData): number {
+  let cost = cacheData.totalCostUsd || cacheData.cumulativeCostUsd || 0;
+  if (!cost && cacheData.usage && cacheData.usage.inputTokens > 0) {
+    if (!costCalculator) costCalculator = new CostCalculator();
+    cost = costCalculator.calculateSessionCost(cacheData);
+  }
+  return cost;
+}
+
+/**
+ * Session that owns a cache entry, and the ledger key of its file. Subagent
+ * files (agent-<id>.jsonl, usually under <project>/<sessionId>/subagents/)
+ * report their parent's sessionId, so they are told apart by file name.
+ */
+function owningSession(sessionId: string, cacheData: SessionCacheData): { ownerId: string; key: string } {
+  const fileName = cacheData.filePath ? path.basename(cacheData.filePath, '.jsonl') : sessionId;
+  if (!fileName.startsWith('agent-')) return { ownerId: sessionId, key: sessionId };
+  const dir = path.dirname(cacheData.filePath);
+  const ownerId = path.basename(dir) === 'subagents' ? path.basename(path.dirname(dir)) : sessionId;
+  return { ownerId, key: `${ownerId}/${fileName}` };
+}
+
+// ── Budgets ──────────────────────────────────────────
+
+class Budgets {
+  private state: BudgetFile | null = null;
+  private alertListeners = new Set<(alert: BudgetAlert) => void>();
+  private abortListeners = new Set<(result: BudgetAbort) => void>();
+  private aborter: SessionAborter | null = null;
+  private aborting = new Set<string>();
+  private saveTimer: NodeJS.Timeout | null = null;
+  private started = false;
+  /** When tracking began (ms); sessions idle since then are only baselined */
+  private startedAt = Date.now();
+
+  /**
+   * Baseline the cached sessions and subscribe to session cache changes. Idempotent.
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    this.startedAt = Date.now();
+
+    try {
+      const { getSessionCache } = require('./session-cache');
+      const cache = getSessionCache();
+      this.baselineSessions(cache.allSessionsIncludingSubagents());
+      cache.onSessionChange((sessionId: string, cacheData: SessionCacheData) => {
+        this.recordSession(sessionId, cacheData);
+      });
+    } catch (err) {
+      console.warn('[Budgets] Failed to watch session changes:', err);
+    }
+  }
+
+  onAlert(listener: (alert: BudgetAlert) => void): () => void {
+    this.alertListeners.add(listener);
+    return () => { this.alertListeners.delete(listener); };
+  }
+
+  onAbort(listener: (result: BudgetAbort) => void): () => void {
+    this.abortListeners.add(listener);
+    return () => { this.abortListeners.delete(listener); };
+  }
+
+  setAborter(aborter: SessionAborter | null): void {
+    this.aborter = aborter;
+  }
+
+  // ── CRUD ──────────────────────────────────────────
+
+  list(): Budget[] {
+    return this.getState().budgets;
+  }
+
+  get(id: string): Budget | null {
+    return this.getState().budgets.find(b => b.id === id) || null;
+  }
+
+  create(input: BudgetInput): Budget {
+    const state = this.getState();
+    const now = new Date().toISOString();
+    const period = input.period || 'day';
+    const budget: Budget = {
+      id: `B${String(state.nextId++).padStart(3, '0')}`,
+      name: input.name?.trim() || `${PERIOD_LABELS[period]} ${input.scope}${input.target ? ` ${input.target}` : ''}`,
+      scope: input.scope,
+      target: input.target || undefined,
+      period,
+      capUsd: input.capUsd,
+      warnAt: input.warnAt ?? DEFAULT_WARN_AT,
+      hardCap: input.hardCap ?? false,
+      enabled: input.enabled ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    state.budgets.push(budget);
+    this.saveState();
+    return budget;
+  }
+
+  update(id: string, updates: Partial<BudgetInput>): Budget | null {
+    const budget = this.get(id);
+    if (!budget) return null;
+
+    if (updates.name !== undefined) budget.name = updates.name.trim() || budget.name;
+    if (updates.scope !== undefined) budget.scope = updates.scope;
+    if (updates.target !== undefined) budget.target = updates.target || undefined;
+    if (updates.period !== undefined) budget.period = updates.period;
+    if (updates.capUsd !== undefined) budget.capUsd = updates.capUsd;
+    if (updates.warnAt !== undefined) budget.warnAt = updates.warnAt;
+    if (updates.hardCap !== undefined) budget.hardCap = updates.hardCap;
+    if (updates.enabled !== undefined) budget.enabled = updates.enabled;
+    budget.updatedAt = new Date().toISOString();
+
+    // Thresholds may have moved — let the current period report again
+    this.clearReported(id);
+    this.saveState();
+    return budget;
+  }
+
+  delete(id: string): boolean {
+    const state = this.getState();
+    const before = state.budgets.length;
+    state.budgets = state.budgets.filter(b => b.id !== id);
+    if (state.budgets.length === before) return false;
+    this.clearReported(id);
+    this.saveState();
+    return true;
+  }
+
+  // ── Status ──────────────────────────────────────────
+
+  /**
+   * Spend and level of a budget for its current period.
+   */
+  getStatus(budget: Budget, now = new Date()): BudgetStatus {
+    const { start, end } = getPeriodRange(budget.period, now);
+    const days = periodDays(budget.period, now);
+    const status: BudgetStatus = {
+      ...budget,
+      periodStart: start.toISOString(),
+      periodEnd: end.toISOString(),
+      spentUsd: 0,
+      level: 'ok',
+    };
+
+    if (budget.scope === 'session' && !budget.target) {
+      // Every session has its own cap — report the worst
+      const state = this.getState();
+      const sessions = new Map<string, number>();
+      for (const day of days) {
+        for (const [sessionId, cost] of Object.entries(state.days[day]?.sessions || {})) {
+          sessions.set(sessionId, (sessions.get(sessionId) || 0) + cost);
+        }
+      }
+      status.sessions = [...sessions.entries()]
+        .map(([sessionId, spentUsd]) => ({
+          sessionId,
+          project: state.tracked[sessionId]?.project || '',
+          spentUsd,
+          level: levelFor(spentUsd, budget),
+        }))
+        .filter(s => s.level !== 'ok')
+        .sort((a, b) => b.spentUsd - a.spentUsd);
+      status.spentUsd = Math.max(0, ...sessions.values());
+    } else {
+      status.spentUsd = this.spendFor(budget, budget.target || '', days);
+    }
+
+    status.level = levelFor(status.spentUsd, budget);
+    return status;
+  }
+
+  getAllStatus(now = new Date()): BudgetStatus[] {
+    return this.list().map(b => this.getStatus(b, now));
+  }
+
+  /**
+   * Total spend for today, this week and this month.
+   */
+  getSpendSummary(now = new Date()): Record<BudgetPeriod, number> {
+    const state = this.getState();
+    const total = (period: BudgetPeriod) =>
+      periodDays(period, now).reduce((sum, day) => sum + (state.days[day]?.total || 0), 0);
+    return { day: total('day'), week: total('week'), month: total('month') };
+  }
+
+  // ── Tracking ──────────────────────────────────────────
+
+  /**
+   * Add a session's cost growth to the ledger and check the budgets it counts toward.
+   */
+  recordSession(sessionId: string, cacheData: SessionCacheData): void {
+    const state = this.getState();
+    const { ownerId, key } = owningSession(sessionId, cacheData);
+    const cost = sessionCost(cacheData);
+    const project = cacheData.cwd || state.tracked[ownerId]?.project || '';
+
+    const tracked = state.tracked[key];
+    const lastAt = cacheData.lastTimestamp ? new Date(cacheData.lastTimestamp).getTime() : NaN;
+    const delta = tracked ? cost - tracked.costUsd : (lastAt >= this.startedAt ? cost : 0);
+    state.tracked[key] = { project, costUsd: cost, seenAt: new Date().toISOString() };
+    if (key !== ownerId && !state.tracked[ownerId]) {
+      // Subagent seen before its parent — remember the project for status output
+      state.tracked[ownerId] = { project, costUsd: 0, seenAt: new Date().toISOString() };
+    }
+
+    // First seen but idle since tracking began, or a rewritten or truncated
+    // file — take the new cost as the baseline
+    if (delta <= 0) {
+      this.scheduleSave();
+      return;
+    }
+
+    const ts = cacheData.lastTimestamp ? new Date(cacheData.lastTimestamp) : new Date();
+    const at = isNaN(ts.getTime()) || ts.getTime() > Date.now() ? new Date() : ts;
+    if (Date.now() - at.getTime() <= RETENTION_DAYS * 24 * 60 * 60 * 1000) {
+      const day = state.days[dayKey(at)] || (state.days[dayKey(at)] = { total: 0, projects: {}, sessions: {} });
+      day.total += delta;
+      if (project) day.projects[project] = (day.projects[project] || 0) + delta;
+      day.sessions[ownerId] = (day.sessions[ownerId] || 0) + delta;
+      this.checkBudgets(ownerId, project);
+    }
+
+    this.scheduleSave();
+  }
+
+  /**
+   * Record the current cost of cached sessions not tracked yet, without
+   * booking it.
+   */
+  private baselineSessions(entries: Iterable<{ key: string; value: SessionCacheData }>): void {
+    const state = this.getState();
+    const now = new Date().toISOString();
+    let baselined = 0;
+    for (const { key: filePath, value } of entries) {
+      const cacheData = { ...value, filePath };
+      const { key } = owningSession(path.basename(filePath, '.jsonl'), cacheData);
+      if (state.tracked[key]) continue;
+      state.tracked[key] = { project: cacheData.cwd || '', costUsd: sessionCost(cacheData), seenAt: now };
+      baselined++;
+    }
+    if (baselined > 0) {
+      console.log(`[Budgets] Baselined ${baselined} cached sessions`);
+      this.scheduleSave();
+    }
+  }
+
+  private checkBudgets(sessionId: string, project: string): void {
+    const now = new Date();
+    for (const budget of this.getState().budgets) {
+      if (!budget.enabled || !this.inScope(budget, sessionId, project)) continue;
+
+      const perSession = budget.scope === 'session' && !budget.target;
+      const spent = this.spendFor(budget, perSession ? sessionId : budget.target || '', periodDays(budget.period, now));
+      const level = levelFor(spent, budget);
+      if (level === 'ok') continue;
+
+      const periodStart = getPeriodRange(budget.period, now).start;
+      const reportKey = `${budget.id}:${dayKey(periodStart)}${perSession ? `:${sessionId}` : ''}`;
+      const reported = this.getState().reported[reportKey];
+
+      if (!reported || (reported === 'warning' && level === 'breach')) {
+        this.getState().reported[reportKey] = level;
+        this.emitAlert({
+          level,
+          budgetId: budget.id,
+          name: budget.name,
+          scope: budget.scope,
+          target: budget.target,
+          period: budget.period,
+          periodStart: periodStart.toISOString(),
+          capUsd: budget.capUsd,
+          spentUsd: spent,
+          sessionId,
+          project,
+          hardCap: budget.hardCap,
+        });
+      }
+
+      if (level === 'breach' && budget.hardCap) {
+        const abortKey = `${budget.id}:${dayKey(periodStart)}:${sessionId}:abort`;
+        if (!this.getState().reported[abortKey]) this.abortSession(budget, sessionId, abortKey);
+      }
+    }
+  }
+
+  private inScope(budget: Budget, sessionId: string, project: string): boolean {
+    switch (budget.scope) {
+      case 'global': return true;
+      case 'project': return !!budget.target && budget.target === project;
+      case 'session': return !budget.target || budget.target === sessionId;
+    }
+  }
+
+  private spendFor(budget: Budget, target: string, days: string[]): number {
+    const state = this.getState();
+    let spent = 0;
+    for (const day of days) {
+      const spend = state.days[day];
+      if (!spend) continue;
+      if (budget.scope === 'global') spent += spend.total;
+      else if (budget.scope === 'project') spent += spend.projects[target] || 0;
+      else spent += spend.sessions[target] || 0;
+    }
+    return spent;
+  }
+
+  private emitAlert(alert: BudgetAlert): void {
+    for (const listener of this.alertListeners) {
+      try {
+        listener(alert);
+      } catch (err) {
+        console.error('[Budgets] Alert listener failed:', err);
+      }
+    }
+  }
+
+  /**
+   * Abort the session's execution, at most once per budget period.
+   */
+  private abortSession(budget: Budget, sessionId: string, abortKey: string): void {
+    if (!this.aborter || this.aborting.has(abortKey)) return;
+    this.aborting.add(abortKey);
+    this.aborter(sessionId).then(executionId => {
+      if (!executionId) return;
+      this.getState().reported[abortKey] = 'aborted';
+      this.scheduleSave();
+      console.log(`[Budgets] ${budget.name}: aborted execution ${executionId} (session ${sessionId})`);
+
+      const result: BudgetAbort = { budgetId: budget.id, name: budget.name, sessionId, executionId };
+      for (const listener of this.abortListeners) {
+        try {
+          listener(result);
+        } catch (err) {
+          console.error('[Budgets] Abort listener failed:', err);
+        }
+      }
+    }).catch(err => {
+      console.warn(`[Budgets] Failed to abort session ${sessionId}:`, err);
+    }).finally(() => {
+      this.aborting.delete(abortKey);
+    });
+  }
+
+  private clearReported(budgetId: string): void {
+    const reported = this.getState().reported;
+    for (const key of Object.keys(reported)) {
+      if (key.startsWith(`${budgetId}:`)) delete reported[key];
+    }
+  }
+
+  // ── State ──────────────────────────────────────────
+
+  private getState(): BudgetFile {
+    if (this.state) return this.state;
+
+    let state: BudgetFile = { budgets: [], nextId: 1, tracked: {}, days: {}, reported: {} };
+    try {
+      if (fs.existsSync(STATE_FILE)) {
+        const data = JSON.parse(fs.readFileSync(STATE_FILE, 'utf-8'));
+        if (data && Array.isArray(data.budgets)) {
+          state = {
+            budgets: data.budgets,
+            nextId: data.nextId || data.budgets.length + 1,
+            tracked: data.tracked || {},
+            days: data.days || {},
+            reported: data.reported || {},
+          };
+        }
+      }
+    } catch {
+      // Corrupt file — start empty rather than failing every session change
+    }
+    this.state = state;
+    return state;
+  }
+
+  /**
+   * Drop ledger days, tracked sessions and reports older than the retention window.
+   */
+  private prune(): void {
+    const state = this.getState();
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - RETENTION_DAYS);
+    const cutoffDay = dayKey(cutoff);
+    const cutoffIso = cutoff.toISOString();
+
+    for (const day of Object.keys(state.days)) {
+      if (day < cutoffDay) delete state.days[day];
+    }
+    for (const [key, tracked] of Object.entries(state.tracked)) {
+      if (tracked.seenAt < cutoffIso) delete state.tracked[key];
+    }
+    for (const key of Object.keys(state.reported)) {
+      const day = key.split(':')[1];
+      if (day && day < cutoffDay) delete state.reported[key];
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      try {
+        this.saveState();
+      } catch (err) {
+        console.warn('[Budgets] Failed to save state:', err);
+      }
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref?.();
+  }
+
+  private saveState(): void {
+    if (!this.state) return;
+    this.prune();
+    const dir = path.dirname(STATE_FILE);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(STATE_FILE, JSON.stringify(this.state));
+  }
+}
+
+// ── Singleton ──────────────────────────────────────────
+
+let instance: Budgets | null = null;
+
+export function getBudgets(): Budgets {
+  if (!instance) {
+    instance = new Budgets();
+  }
+  return instance;
+}
@@ -0,0 +1,370 @@
+/**
+ * Prompt-Cache Efficiency Analysis
+ *
+ * Walks a session's API requests in order and compares each one's cache reads
+ * with what the previous request left cached. Normally a request reads the
+ * whole cached prefix and writes only the newly appended turn; when it reads
+ * less and writes the difference again, the cache was busted and those tokens
+ * were paid at the write price instead of the read price.
+ *
+ * Each bust is attributed to what happened since the previous request:
+ *   - idle_gap              pause longer than the cache TTL (5 min, or 1 h when 1 h writes were used)
+ *   - compaction            context compacted (compact_boundary / compact summary)
+ *   - model_switch          request on a different model, which has its own cache
+ *   - system_prompt_change  init record with different model, tools, MCP servers or permission mode
+ *   - claude_md_edit        Write/Edit of a CLAUDE.md file
+ *   - unknown               nothing visible in the transcript
+ *
+ * The loss is estimated as rewritten tokens × (write price − read price),
+ * using the price in effect at the request's timestamp. Recommendations are
+ * derived from the loss per cause.
+ */
+
+import * as path from 'path';
+import { CostCalculator } from './cost-calculator';
+import { isRealUserPrompt, type SessionCacheData } from './session-cache';
+
+// ── Types ──────────────────────────────────────────
+
+export type CacheBustCause =
+  | 'idle_gap'
+  | 'compaction'
+  | 'model_switch'
+  | 'system_prompt_change'
+  | 'claude_md_edit'
+  | 'unknown';
+
+export interface CacheEvent {
+  type: Exclude<CacheBustCause, 'unknown'>;
+  lineIndex: number;
+  timestamp?: string;
+  detail: string;
+}
+
+export interface CacheRequest {
+  lineIndex: number;
+  timestamp?: string;
+  /** Real user prompts before this request (0 = first prompt's turn) */
+  turnIndex: number;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  cacheWrite1hTokens: number;
+  /** Cache reads / all input tokens */
+  hitRatio: number;
+  /** Seconds since the previous request */
+  gapSeconds?: number;
+  bust?: {
+    cause: CacheBustCause;
+    /** Every cause seen since the previous request, primary first */
+    causes: CacheBustCause[];
+    rewrittenTokens: number;
+    lostUsd: number;
+  };
+}
+
+export interface CacheRecommendation {
+  cause: CacheBustCause | 'cache_ttl';
+  severity: 'high' | 'medium' | 'low';
+  message: string;
+  estimatedSavingsUsd: number;
+}
+
+export interface CacheAnalysis {
+  sessionId: string;
+  filePath: string;
+  totals: {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheWrite5mTokens: number;
+    cacheWrite1hTokens: number;
+    hitRatio: number;
+    cacheReadCostUsd: number;
+    cacheWriteCostUsd: number;
+    /** All input, output and cache cost, from token prices */
+    totalCostUsd: number;
+  };
+  busts: number;
+  estimatedLossUsd: number;
+  lossByCause: Partial<Record<CacheBustCause, { count: number; rewrittenTokens: number; lostUsd: number }>>;
+  events: CacheEvent[];
+  requests: CacheRequest[];
+  recommendations: CacheRecommendation[];
+}
+
+// ── Constants ──────────────────────────────────────────
+
+const TTL_5M_MS = 5 * 60 * 1000;
+const TTL_1H_MS = 60 * 60 * 1000;
+
+/** Smallest cacheable prefix; rewrites below this are noise */
+const MIN_BUST_TOKENS = 1024;
+
+const CLAUDE_MD_PATTERN = /^CLAUDE(\.local)?\.md$/i;
+const FILE_EDIT_TOOLS = new Set(['Write', 'Edit', 'MultiEdit']);
+
+/** Primary cause when several apply: an expired cache is rebuilt whatever else changed */
+const CAUSE_PRIORITY: CacheBustCause[] = [
+  'idle_gap', 'compaction', 'model_switch', 'system_prompt_change', 'claude_md_edit', 'unknown',
+];
+
+// ── Helpers ──────────────────────────────────────────
+
+let costCalculator: CostCalculator | null = null;
+
+function formatUsd(usd: number): string {
+  return usd >= 0.01 ? `$${usd.toFixed(2)}` : '<$0.01';
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${Math.round(tokens / 1_000)}K`;
+  return String(tokens);
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/** Model, tools, MCP servers and permission mode of an init record */
+function initSignature(msg: any): string {
+  return JSON.stringify([
+    msg.model || '',
+    [...(msg.tools || [])].sort(),
+    (msg.mcp_servers || []).map((s: any) => s?.name || String(s)).sort(),
+    msg.permissionMode || '',
+  ]);
+}
+
+function severityFor(lostUsd: number, totalCostUsd: number): CacheRecommendation['severity'] {
+  const share = totalCostUsd > 0 ? lostUsd / totalCostUsd : 0;
+  if (share >= 0.1) return 'high';
+  if (share >= 0.03) return 'medium';
+  return 'low';
+}
+
+function recommendationText(cause: CacheBustCause, count: number, tokens: number, lostUsd: number): string {
+  const cost = `${formatTokens(tokens)} tokens re-written, ~${formatUsd(lostUsd)}`;
+  switch (cause) {
+    case 'idle_gap':
+      return `${plural(count, 'pause')} longer than the cache TTL let the prompt cache expire (${cost}). `
+        + 'Send follow-ups while the cache is warm, or /compact or start a fresh session before resuming after a long break so less context has to be re-written.';
+    case 'compaction':
+      return `${plural(count, 'compaction')} rebuilt the cache (${cost}). `
+        + 'Start a new session for unrelated work instead of letting the context grow until it compacts.';
+    case 'model_switch':
+      return `${count} model ${count === 1 ? 'switch' : 'switches'} started a cold cache (${cost}). `
+        + 'Stay on one model per session, or delegate other-model work to subagents.';
+    case 'system_prompt_change':
+      return `The model, tools, MCP servers or permission mode changed ${plural(count, 'time')} mid-session, changing the system prompt (${cost}). `
+        + 'Keep them stable for the life of a session.';
+    case 'claude_md_edit':
+      return `CLAUDE.md was edited ${plural(count, 'time')} mid-session, invalidating the cached prefix (${cost}). `
+        + 'Make memory edits at the start of a session or between sessions.';
+    default:
+      return `${plural(count, 'cache rebuild')} had no visible cause in the transcript (${cost}), `
+        + 'e.g. server-side eviction or prompt content that is not recorded.';
+  }
+}
+
+// ── Analysis ──────────────────────────────────────────
+
+/**
+ * Analyze prompt-cache efficiency for one session (or subagent) file.
+ */
+export async function analyzeCacheEfficiency(filePath: string, cacheData: SessionCacheData): Promise<CacheAnalysis> {
+  const { getSessionCache } = require('./session-cache');
+  const messages: any[] = await getSessionCache().getRawMessages(filePath) || [];
+  if (!costCalculator) costCalculator = new CostCalculator();
+  const calc = costCalculator;
+
+  const promptLines = (cacheData.userPrompts || []).filter(isRealUserPrompt).map(p => p.lineIndex);
+  const seenMessageIds = new Set<string>();
+  const events: CacheEvent[] = [];
+  const requests: CacheRequest[] = [];
+  const totals: CacheAnalysis['totals'] = {
+    requests: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWrite5mTokens: 0, cacheWrite1hTokens: 0,
+    hitRatio: 0, cacheReadCostUsd: 0, cacheWriteCostUsd: 0, totalCostUsd: 0,
+  };
+
+  let pending: CacheEvent[] = [];
+  let lastInit: string | null = null;
+  let prev: { time: number; model: string; cached: number; ttlMs: number } | null = null;
+  let maxGapMs = 0;
+
+  const addEvent = (event: CacheEvent) => {
+    events.push(event);
+    pending.push(event);
+  };
+
+  for (const msg of messages) {
+    if (msg.type === 'system' && msg.subtype === 'init') {
+      const signature = initSignature(msg);
+      if (lastInit !== null && signature !== lastInit) {
+        addEvent({ type: 'system_prompt_change', lineIndex: msg.lineIndex, timestamp: msg.timestamp, detail: 'Init record with a different model, tools, MCP servers or permission mode' });
+      }
+      lastInit = signature;
+      continue;
+    }
+    if (msg.type === 'system' && msg.subtype === 'compact_boundary') {
+      addEvent({ type: 'compaction', lineIndex: msg.lineIndex, timestamp: msg.timestamp, detail: msg.compactMetadata?.trigger ? `Compaction (${msg.compactMetadata.trigger})` : 'Compaction' });
+      continue;
+    }
+    if (msg.type === 'user' && msg.isCompactSummary) {
+      if (!pending.some(e => e.type === 'compaction')) {
+        addEvent({ type: 'compaction', lineIndex: msg.lineIndex, timestamp: msg.timestamp, detail: 'Compaction summary' });
+      }
+      continue;
+    }
+    if (msg.type !== 'assistant' || !msg.message?.usage || msg.message.model === '<synthetic>') continue;
+
+    // A response spans several lines with the same message id and usage
+    const messageId = msg.message.id;
+    if (messageId && seenMessageIds.has(messageId)) continue;
+    if (messageId) seenMessageIds.add(messageId);
+
+    const u = msg.message.usage;
+    const model: string = msg.message.model || cacheData.model || '';
+    const time = msg.timestamp ? new Date(msg.timestamp).getTime() : NaN;
+    const inputTokens = u.input_tokens || 0;
+    const outputTokens = u.output_tokens || 0;
+    const cacheReadTokens = u.cache_read_input_tokens || 0;
+    const cacheWriteTokens = u.cache_creation_input_tokens || 0;
+    const cacheWrite1hTokens = Math.min(cacheWriteTokens, u.cache_creation?.ephemeral_1h_input_tokens || 0);
+    const cacheWrite5mTokens = cacheWriteTokens - cacheWrite1hTokens;
+
+    const pricing = calc.getPricing(model, isNaN(time) ? undefined : time);
+    const readCost = (cacheReadTokens / 1_000_000) * pricing.cacheReadPricePerMillion;
+    const writeCost = (cacheWrite5mTokens / 1_000_000) * pricing.cache5mWritePricePerMillion
+      + (cacheWrite1hTokens / 1_000_000) * pricing.cache1hWritePricePerMillion;
+    totals.requests++;
+    totals.inputTokens += inputTokens;
+    totals.outputTokens += outputTokens;
+    totals.cacheReadTokens += cacheReadTokens;
+    totals.cacheWrite5mTokens += cacheWrite5mTokens;
+    totals.cacheWrite1hTokens += cacheWrite1hTokens;
+    totals.cacheReadCostUsd += readCost;
+    totals.cacheWriteCostUsd += writeCost;
+    totals.totalCostUsd += readCost + writeCost
+      + (inputTokens / 1_000_000) * pricing.inputPricePerMillion
+      + (outputTokens / 1_000_000) * pricing.outputPricePerMillion;
+
+    const allInput = inputTokens + cacheWriteTokens + cacheReadTokens;
+    const request: CacheRequest = {
+      lineIndex: msg.lineIndex,
+      timestamp: msg.timestamp,
+      turnIndex: Math.max(0, promptLines.filter(line => line <= msg.lineIndex).length - 1),
+      model,
+      inputTokens,
+      outputTokens,
+      cacheReadTokens,
+      cacheWriteTokens,
+      cacheWrite1hTokens,
+      hitRatio: allInput > 0 ? cacheReadTokens / allInput : 0,
+    };
+
+    if (prev) {
+      const gapMs = !isNaN(time) && !isNaN(prev.time) ? time - prev.time : NaN;
+      if (!isNaN(gapMs)) {
+        request.gapSeconds = Math.round(gapMs / 1000);
+        maxGapMs = Math.max(maxGapMs, gapMs);
+      }
+
+      // Tokens cached after the previous request that had to be written again
+      const rewrittenTokens = Math.min(cacheWriteTokens, Math.max(0, prev.cached - cacheReadTokens));
+      if (rewrittenTokens >= MIN_BUST_TOKENS) {
+        const causes = new Set<CacheBustCause>(pending.map(e => e.type));
+        if (gapMs > prev.ttlMs) causes.add('idle_gap');
+        if (model !== prev.model) causes.add('model_switch');
+        if (causes.size === 0) causes.add('unknown');
+        const ordered = CAUSE_PRIORITY.filter(c => causes.has(c));
+
+        const writePrice = cacheWrite1hTokens > cacheWrite5mTokens
+          ? pricing.cache1hWritePricePerMillion
+          : pricing.cache5mWritePricePerMillion;
+        const lostUsd = (rewrittenTokens / 1_000_000) * Math.max(0, writePrice - pricing.cacheReadPricePerMillion);
+        request.bust = { cause: ordered[0], causes: ordered, rewrittenTokens, lostUsd };
+      }
+      if (model !== prev.model) {
+        events.push({ type: 'model_switch', lineIndex: msg.lineIndex, timestamp: msg.timestamp, detail: `${prev.model} → ${model}` });
+      }
+      if (gapMs > prev.ttlMs) {
+        events.push({ type: 'idle_gap', lineIndex: msg.lineIndex, timestamp: msg.timestamp, detail: `${Math.round(gapMs / 60000)} min idle (cache TTL ${prev.ttlMs === TTL_1H_MS ? '1 h' : '5 min'})` });
+      }
+    }
+
+    requests.push(request);
+    pending = [];
+    prev = {
+      time,
+      model,
+      cached: cacheReadTokens + cacheWriteTokens,
+      ttlMs: cacheWrite1hTokens > 0 ? TTL_1H_MS : TTL_5M_MS,
+    };
+
+    // CLAUDE.md edits take effect from the next request
+    for (const block of Array.isArray(msg.message.content) ? msg.message.content : []) {
+      if (block?.type !== 'tool_use' || !FILE_EDIT_TOOLS.has(block.name)) continue;
+      const target = block.input?.file_path;
+      if (typeof target === 'string' && CLAUDE_MD_PATTERN.test(path.basename(target))) {
+        addEvent({ type: 'claude_md_edit', lineIndex: msg.lineIndex, timestamp: msg.timestamp, detail: `${block.name} ${target}` });
+      }
+    }
+  }
+
+  const allInput = totals.inputTokens + totals.cacheWrite5mTokens + totals.cacheWrite1hTokens + totals.cacheReadTokens;
+  totals.hitRatio = allInput > 0 ? totals.cacheReadTokens / allInput : 0;
+
+  const lossByCause: CacheAnalysis['lossByCause'] = {};
+  let estimatedLossUsd = 0;
+  let busts = 0;
+  for (const request of requests) {
+    if (!request.bust) continue;
+    busts++;
+    estimatedLossUsd += request.bust.lostUsd;
+    const entry = lossByCause[request.bust.cause] || (lossByCause[request.bust.cause] = { count: 0, rewrittenTokens: 0, lostUsd: 0 });
+    entry.count++;
+    entry.rewrittenTokens += request.bust.rewrittenTokens;
+    entry.lostUsd += request.bust.lostUsd;
+  }
+
+  const recommendations: CacheRecommendation[] = Object.entries(lossByCause).map(([cause, loss]) => ({
+    cause: cause as CacheBustCause,
+    severity: cause === 'unknown' ? 'low' : severityFor(loss!.lostUsd, totals.totalCostUsd),
+    message: recommendationText(cause as CacheBustCause, loss!.count, loss!.rewrittenTokens, loss!.lostUsd),
+    estimatedSavingsUsd: loss!.lostUsd,
+  }));
+
+  // 1 h writes only pay off when pauses outlast the 5 min TTL
+  if (totals.cacheWrite1hTokens > 0 && maxGapMs <= TTL_5M_MS) {
+    const pricing = calc.getPricing(cacheData.model || requests[0]?.model || '', cacheData.lastTimestamp);
+    const extraUsd = (totals.cacheWrite1hTokens / 1_000_000)
+      * Math.max(0, pricing.cache1hWritePricePerMillion - pricing.cache5mWritePricePerMillion);
+    if (extraUsd > 0) {
+      recommendations.push({
+        cause: 'cache_ttl',
+        severity: severityFor(extraUsd, totals.totalCostUsd),
+        message: `${formatTokens(totals.cacheWrite1hTokens)} tokens were written with the 1-hour TTL, but no pause exceeded 5 minutes; `
+          + `5-minute writes would have cost ~${formatUsd(extraUsd)} less.`,
+        estimatedSavingsUsd: extraUsd,
+      });
+    }
+  }
+  recommendations.sort((a, b) => b.estimatedSavingsUsd - a.estimatedSavingsUsd);
+
+  return {
+    sessionId: path.basename(filePath, '.jsonl'),
+    filePath,
+    totals,
+    busts,
+    estimatedLossUsd,
+    lossByCause,
+    events,
+    requests,
+    recommendations,
+  };
+}
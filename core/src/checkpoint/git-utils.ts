@@ -5,7 +5,7 @@
  * All functions use array arguments instead of string interpolation.
  */
 
-import { execFileSync } from 'child_process';
+import { execFile, execFileSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import type { FileChange, FileChangeStatus } from '../types/checkpoint';
@@ -32,6 +32,33 @@ export function gitCommand(args: string[], cwd: string): string {
   }
 }
 
+/**
+ * Execute a git command without blocking the event loop
+ *
+ * @param args - Array of git command arguments
+ * @param cwd - Working directory
+ * @param input - Written to the command's stdin
+ * @returns Command output as string
+ */
+export function gitCommandAsync(args: string[], cwd: string, input?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      maxBuffer: 50 * 1024 * 1024,
+    }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(`Git command failed: git ${args.join(' ')}\n${stderr || error.message}`));
+        return;
+      }
+      resolve(stdout.trim());
+    });
+    // The command may exit before reading stdin; the callback reports its result
+    child.stdin?.on('error', () => {});
+    child.stdin?.end(input);
+  });
+}
+
 /**
  * Check if a path is a git repository
  */
@@ -471,3 +498,122 @@ export function getFilesAtCommit(
     return [];
   }
 }
+
+/**
+ * Get the top-level directory of the repository containing a path
+ */
+export function getRepoRoot(repoPath: string): string | null {
+  try {
+    return gitCommand(['rev-parse', '--show-toplevel'], repoPath);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compute the blob hashes of several working-tree files with one git call
+ * (does not write to the object store). Files that do not exist map to null.
+ */
+export async function hashWorkingFiles(repoPath: string, filePaths: string[]): Promise<Map<string, string | null>> {
+  const hashes = new Map<string, string | null>(filePaths.map(f => [f, null]));
+  const existing = filePaths.filter(f => {
+    try {
+      return fs.statSync(path.resolve(repoPath, f)).isFile();
+    } catch {
+      return false;
+    }
+  });
+  if (existing.length === 0) return hashes;
+  try {
+    const output = await gitCommandAsync(['hash-object', '--stdin-paths'], repoPath, existing.join('\n') + '\n');
+    const lines = output.split('\n');
+    existing.forEach((f, i) => hashes.set(f, lines[i] || null));
+  } catch {
+    // Leave every file unhashed
+  }
+  return hashes;
+}
+
+function parseNumstat(output: string): Map<string, { additions: number; deletions: number }> {
+  const stats = new Map<string, { additions: number; deletions: number }>();
+  for (const line of output.split('\n')) {
+    const [added, removed, file] = line.split('\t');
+    if (!file) continue;
+    // Binary files report '-' for both counts
+    stats.set(file, {
+      additions: added === '-' ? 0 : parseInt(added, 10),
+      deletions: removed === '-' ? 0 : parseInt(removed, 10),
+    });
+  }
+  return stats;
+}
+
+/**
+ * Get added/removed line counts per file between a commit and the working tree
+ */
+export async function getNumstatSinceAsync(
+  repoPath: string,
+  fromCommit: string,
+  files: string[]
+): Promise<Map<string, { additions: number; deletions: number }>> {
+  if (files.length === 0) return new Map();
+  try {
+    return parseNumstat(await gitCommandAsync(['diff', '--numstat', fromCommit, '--', ...files], repoPath));
+  } catch {
+    // Unknown commit (e.g. history rewritten) — caller treats files as fully changed
+    return new Map();
+  }
+}
+
+/**
+ * Commit entry from getCommitLog
+ */
+export interface CommitLogEntry {
+  hash: string;
+  parents: string[];
+  /** Committer date (ISO 8601) */
+  date: string;
+  /** Full message: subject, blank line, body */
+  message: string;
+}
+
+/**
+ * Get the most recent commits reachable from HEAD, newest first
+ */
+export function getCommitLog(repoPath: string, limit: number): CommitLogEntry[] {
+  try {
+    // Unit/record separators keep multi-line messages intact
+    const output = gitCommand(
+      ['log', `-n${limit}`, '--no-color', '--format=%H%x1f%P%x1f%cI%x1f%B%x1e'],
+      repoPath
+    );
+    const entries: CommitLogEntry[] = [];
+    for (const record of output.split('\x1e')) {
+      const [hash, parents, date, message] = record.replace(/^\s+/, '').split('\x1f');
+      if (!hash || message === undefined) continue;
+      entries.push({
+        hash,
+        parents: parents ? parents.split(' ') : [],
+        date,
+        message: message.trim(),
+      });
+    }
+    return entries;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Get a single commit (abbreviated hashes are expanded)
+ */
+export function getCommit(repoPath: string, commitHash: string): CommitLogEntry | null {
+  try {
+    const output = gitCommand(['log', '-1', '--no-color', '--format=%H%x1f%P%x1f%cI%x1f%B', commitHash], repoPath);
+    const [hash, parents, date, message] = output.split('\x1f');
+    if (!hash || message === undefined) return null;
+    return { hash, parents: parents ? parents.split(' ') : [], date, message: message.trim() };
+  } catch {
+    return null;
+  }
+}
@@ -22,6 +22,7 @@ export {
 export * as gitUtils from './git-utils';
 export {
   gitCommand,
+  gitCommandAsync,
   isGitRepo,
   ensureGitRepo,
   getCurrentCommit,
@@ -49,6 +50,9 @@ export {
   stash,
   stashPop,
   getFilesAtCommit,
+  getRepoRoot,
+  hashWorkingFiles,
+  getNumstatSinceAsync,
 } from './git-utils';
 
 // Re-export types
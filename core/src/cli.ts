@@ -100,11 +100,23 @@ ${hubConfigured ? `║  Hub:      ${hubUrl.substring(0, 47).padEnd(47)}║` : `
       try {
         const { getEmbedder } = require('./vector/embedder');
         const { getVectorStore } = require('./vector/vector-store');
+        // Incremental indexing of knowledge and session changes; the drain
+        // waits for the vector store, so changes are queued from the start
+        const { getVectorIndexQueue } = require('./vector/index-queue');
+        getVectorIndexQueue().start();
+
         // Warm embedder model (~2-3s) and LanceDB connection in parallel
         Promise.all([
           getEmbedder().load().then(() => console.log('Embedder model pre-warmed')),
           getVectorStore().init().then(() => console.log('Vector store pre-warmed')),
-        ]).catch(() => {
+        ]).then(async () => {
+          const { startKnowledgeReindex, resumeInterruptedReindex } = require('./vector/reindex');
+          // A rebuild cut short by the last shutdown continues from its shadow table;
+          // otherwise migrate an index built with a different embedding model
+          if (!resumeInterruptedReindex() && await getVectorStore().needsMigration()) {
+            startKnowledgeReindex('model-change');
+          }
+        }).catch(() => {
           // Silently ignore — will lazy-load on first use
         });
       } catch {
@@ -152,9 +164,10 @@ ${hubConfigured ? `║  Hub:      ${hubUrl.substring(0, 47).padEnd(47)}║` : `
       });
     }
 
-    // Start knowledge scheduler (discovery, generation, remote sync)
+    // Start knowledge scheduler (discovery, generation, remote sync) and repo sync watchers
     // Skip if knowledge is disabled (kill switch)
     let knowledgeScheduler: any = null;
+    let knowledgeRepoSync: any = null;
     if (knowledgeEnabled) {
       try {
         const { getKnowledgeScheduler } = require('./knowledge/scheduler');
@@ -163,6 +176,13 @@ ${hubConfigured ? `║  Hub:      ${hubUrl.substring(0, 47).padEnd(47)}║` : `
       } catch (err: any) {
         console.error('Scheduler start failed:', err.message);
       }
+      try {
+        const { getKnowledgeRepoSync } = require('./knowledge/repo-sync');
+        knowledgeRepoSync = getKnowledgeRepoSync();
+        knowledgeRepoSync.start();
+      } catch (err: any) {
+        console.error('Repo sync start failed:', err.message);
+      }
     } else {
       console.log('Knowledge disabled — skipping scheduler');
     }
@@ -176,6 +196,7 @@ ${hubConfigured ? `║  Hub:      ${hubUrl.substring(0, 47).padEnd(47)}║` : `
     process.on('SIGINT', async () => {
       console.log('\nShutting down...');
       try { if (knowledgeScheduler) knowledgeScheduler.stop(); } catch {}
+      try { if (knowledgeRepoSync) knowledgeRepoSync.stop(); } catch {}
       if (hubClient) {
         await hubClient.disconnect();
       }
@@ -185,6 +206,7 @@ ${hubConfigured ? `║  Hub:      ${hubUrl.substring(0, 47).padEnd(47)}║` : `
 
     process.on('SIGTERM', async () => {
       try { if (knowledgeScheduler) knowledgeScheduler.stop(); } catch {}
+      try { if (knowledgeRepoSync) knowledgeRepoSync.stop(); } catch {}
       if (hubClient) {
         await hubClient.disconnect();
       }
@@ -0,0 +1,347 @@
+/**
+ * Context Assembler
+ *
+ * Builds the context injected into a prompt (/context/suggest) from several
+ * ranked sources within a token budget:
+ *
+ *   knowledge  — knowledge parts ranked by hybrid search (context.routes.ts)
+ *   sessions   — summaries of past sessions in the project matching the prompt
+ *   project    — the project summary
+ *   tasks      — open tasks of the current session and project
+ *   learning   — learned project patterns (learning-store)
+ *
+ * Each source gets a share of the budget (contextInjectSources in
+ * ~/.claude-code-config.json). Sources fill their share in rank order; what a
+ * source leaves unused goes to the remaining candidates in source order.
+ * Near-duplicate entries are dropped and an entry that doesn't fit is
+ * truncated when enough room is left. Every candidate ends up in the manifest,
+ * included or not, with the reason.
+ *
+ * Token counts are estimates (~4 characters per token).
+ */
+
+import { getSessionSummary, getAllSessionSummaries } from './session-summary-store';
+import { getProjectSummary } from './project-summary-store';
+import { getProjectLearningContext } from './learning-store';
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type ContextSourceType = 'knowledge' | 'sessions' | 'project' | 'tasks' | 'learning';
+
+export interface ContextCandidate {
+  source: ContextSourceType;
+  /** Stable ID, also used by the per-session injection ledger */
+  id: string;
+  /** Rendered markdown (one list item) */
+  text: string;
+  /** Why the candidate was picked, e.g. "rank 2, score 0.031" */
+  reason: string;
+}
+
+export interface ContextManifestEntry {
+  source: ContextSourceType;
+  id: string;
+  included: boolean;
+  /** Tokens used (included) or needed (excluded) */
+  tokens: number;
+  reason: string;
+  truncated?: boolean;
+}
+
+export interface AssembledContext {
+  sections: Array<{ source: ContextSourceType; title: string; lines: string[] }>;
+  manifest: ContextManifestEntry[];
+  /** Tokens used by the sections */
+  tokens: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+/** Fill order; also the order of sections in the injected context */
+export const CONTEXT_SOURCE_TYPES: ContextSourceType[] = ['knowledge', 'project', 'tasks', 'sessions', 'learning'];
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 800;
+
+export const DEFAULT_CONTEXT_SOURCE_SHARES: Record<ContextSourceType, number> = {
+  knowledge: 0.45,
+  sessions: 0.2,
+  project: 0.15,
+  tasks: 0.1,
+  learning: 0.1,
+};
+
+const SECTION_TITLES: Record<ContextSourceType, string> = {
+  knowledge: 'Knowledge',
+  project: 'Project',
+  tasks: 'Open tasks',
+  sessions: 'Related sessions',
+  learning: 'Project patterns',
+};
+
+/** Don't truncate an entry below this many tokens — drop it instead */
+const MIN_TRUNCATED_TOKENS = 25;
+
+/** Word overlap (Jaccard) at which two entries count as duplicates */
+const DUPLICATE_SIMILARITY = 0.8;
+
+const MAX_SESSION_CANDIDATES = 5;
+const MAX_TASK_CANDIDATES = 10;
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function formatTimeAgo(timestamp?: string): string {
+  if (!timestamp) return 'unknown';
+  const ts = new Date(timestamp).getTime();
+  if (isNaN(ts)) return 'unknown';
+
+  const diffMs = Date.now() - ts;
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+
+  if (diffMins < 1) return 'just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return `${Math.floor(diffDays / 7)}w ago`;
+}
+
+function truncateToTokens(text: string, tokens: number): string {
+  const maxChars = tokens * 4;
+  if (text.length <= maxChars) return text;
+  return text.slice(0, maxChars - 3).trimEnd() + '...';
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9_]+/).filter(t => t.length > 2));
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const w of a) if (b.has(w)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Normalize shares over the sources that have candidates, so an empty
+ * source's share goes to the others.
+ */
+function normalizeShares(
+  shares: Record<ContextSourceType, number>,
+  active: ContextSourceType[],
+): Record<ContextSourceType, number> {
+  const total = active.reduce((sum, s) => sum + Math.max(shares[s] || 0, 0), 0);
+  const normalized = { knowledge: 0, sessions: 0, project: 0, tasks: 0, learning: 0 };
+  for (const s of active) normalized[s] = total > 0 ? Math.max(shares[s] || 0, 0) / total : 0;
+  return normalized;
+}
+
+// ─── Assembly ──────────────────────────────────────────────────
+
+/**
+ * Fill the token budget from ranked candidates.
+ *
+ * @param candidates Per-source candidates, best first
+ * @param exclude    IDs already injected into the session
+ */
+export function assembleContext(
+  candidates: Partial<Record<ContextSourceType, ContextCandidate[]>>,
+  budget: number,
+  shares: Record<ContextSourceType, number> = DEFAULT_CONTEXT_SOURCE_SHARES,
+  exclude: Set<string> = new Set(),
+): AssembledContext {
+  const manifest: ContextManifestEntry[] = [];
+  const lines: Record<ContextSourceType, string[]> = { knowledge: [], sessions: [], project: [], tasks: [], learning: [] };
+  const included: Array<{ id: string; words: Set<string> }> = [];
+  let used = 0;
+
+  const active = CONTEXT_SOURCE_TYPES.filter(s => (shares[s] || 0) > 0 && (candidates[s]?.length || 0) > 0);
+  const normalized = normalizeShares(shares, active);
+  const remaining = {} as Record<ContextSourceType, number>;
+  for (const s of active) remaining[s] = Math.floor(budget * normalized[s]);
+
+  // Disabled sources are listed so the manifest explains their absence
+  for (const s of CONTEXT_SOURCE_TYPES) {
+    if (active.includes(s)) continue;
+    for (const c of candidates[s] || []) {
+      manifest.push({ source: s, id: c.id, included: false, tokens: estimateTokens(c.text), reason: 'source disabled' });
+    }
+  }
+
+  /** Try to place a candidate within `room` tokens; returns tokens used or -1 */
+  const place = (c: ContextCandidate, room: number): number => {
+    const header = lines[c.source].length === 0 ? estimateTokens(`**${SECTION_TITLES[c.source]}:**`) : 0;
+    const cost = estimateTokens(c.text) + header;
+    let text = c.text;
+    let truncated = false;
+
+    if (cost > room) {
+      const fit = room - header;
+      if (fit < MIN_TRUNCATED_TOKENS) return -1;
+      text = truncateToTokens(c.text, fit);
+      truncated = true;
+    }
+
+    const tokens = estimateTokens(text) + header;
+    lines[c.source].push(text);
+    included.push({ id: c.id, words: wordSet(c.text) });
+    used += tokens;
+    manifest.push({ source: c.source, id: c.id, included: true, tokens, reason: c.reason, truncated: truncated || undefined });
+    return tokens;
+  };
+
+  /** Excluded before any budget is spent: already injected or duplicate */
+  const skip = (c: ContextCandidate): boolean => {
+    if (exclude.has(c.id)) {
+      manifest.push({ source: c.source, id: c.id, included: false, tokens: estimateTokens(c.text), reason: 'already injected in this session' });
+      return true;
+    }
+    const words = wordSet(c.text);
+    const duplicate = included.find(i => i.id === c.id || similarity(i.words, words) >= DUPLICATE_SIMILARITY);
+    if (duplicate) {
+      manifest.push({ source: c.source, id: c.id, included: false, tokens: estimateTokens(c.text), reason: `duplicate of ${duplicate.id}` });
+      return true;
+    }
+    return false;
+  };
+
+  // Pass 1: each source fills its own share
+  const pending: ContextCandidate[] = [];
+  for (const s of active) {
+    for (const c of candidates[s]!) {
+      if (skip(c)) continue;
+      const tokens = place(c, remaining[s]);
+      if (tokens < 0) {
+        pending.push(c);
+        continue;
+      }
+      remaining[s] -= tokens;
+    }
+  }
+
+  // Pass 2: unused shares go to what didn't fit, in source order
+  for (const c of pending) {
+    if (skip(c)) continue;
+    if (place(c, budget - used) < 0) {
+      manifest.push({ source: c.source, id: c.id, included: false, tokens: estimateTokens(c.text), reason: 'over budget' });
+    }
+  }
+
+  const sections = CONTEXT_SOURCE_TYPES
+    .filter(s => lines[s].length > 0)
+    .map(s => ({ source: s, title: SECTION_TITLES[s], lines: lines[s] }));
+
+  return { sections, manifest, tokens: used };
+}
+
+/**
+ * Render assembled sections as markdown.
+ */
+export function renderSections(sections: AssembledContext['sections']): string[] {
+  const out: string[] = [];
+  for (const section of sections) {
+    if (out.length > 0) out.push('');
+    out.push(`**${section.title}:**`);
+    out.push(...section.lines);
+  }
+  return out;
+}
+
+// ─── Sources ──────────────────────────────────────────────────
+
+/**
+ * Past session summaries in the project that share words with the prompt,
+ * best match first (recency breaks ties).
+ */
+export function collectSessionCandidates(
+  prompt: string,
+  projectPath: string,
+  currentSessionId?: string,
+): ContextCandidate[] {
+  const queryWords = wordSet(prompt);
+  if (queryWords.size === 0) return [];
+
+  return getAllSessionSummaries()
+    .filter(s => s.projectPath === projectPath && s.sessionId !== currentSessionId && s.summary)
+    .map(s => {
+      const words = wordSet(`${s.displayName || ''} ${s.summary}`);
+      let matched = 0;
+      for (const w of queryWords) if (words.has(w)) matched++;
+      return { summary: s, matched };
+    })
+    .filter(m => m.matched > 0)
+    .sort((a, b) => b.matched - a.matched || b.summary.updatedAt.localeCompare(a.summary.updatedAt))
+    .slice(0, MAX_SESSION_CANDIDATES)
+    .map(({ summary: s, matched }) => ({
+      source: 'sessions' as const,
+      id: `session:${s.sessionId}`,
+      text: `- [${s.sessionId.slice(0, 8)}] (${formatTimeAgo(s.updatedAt)}) ${s.displayName ? `${s.displayName}: ` : ''}${s.summary.replace(/\s+/g, ' ').trim()}`,
+      reason: `${matched}/${queryWords.size} prompt words in summary`,
+    }));
+}
+
+/**
+ * The project summary, as one entry.
+ */
+export function collectProjectCandidates(projectPath: string): ContextCandidate[] {
+  const summary = getProjectSummary(projectPath);
+  if (!summary?.summary) return [];
+
+  const parts = [summary.summary.trim()];
+  if (summary.stack?.length) parts.push(`Stack: ${summary.stack.join(', ')}.`);
+  if (summary.recentFocus) parts.push(`Recent focus: ${summary.recentFocus.trim()}`);
+
+  return [{
+    source: 'project',
+    id: `project:${projectPath}`,
+    text: `- ${summary.projectName}: ${parts.join(' ')}`,
+    reason: 'project summary',
+  }];
+}
+
+/**
+ * Learned project patterns (frequent keywords, commands, areas), as one entry.
+ */
+export function collectLearningCandidates(projectPath: string): ContextCandidate[] {
+  const learning = getProjectLearningContext(projectPath);
+  if (!learning) return [];
+
+  return [{
+    source: 'learning',
+    id: `learning:${projectPath}`,
+    text: learning.split('\n').map(l => `- ${l}`).join('\n'),
+    reason: 'learned project patterns',
+  }];
+}
+
+/**
+ * Pending and in-progress tasks: the current session's first, then the
+ * rest of the project, in-progress before pending. The status is part of
+ * the ID so a task is injected again when it changes state.
+ */
+export async function collectTaskCandidates(projectPath: string, sessionId?: string): Promise<ContextCandidate[]> {
+  const { getTasksService } = await import('./tasks-service');
+  const { tasks } = await getTasksService().getAggregatedTasksForProject(projectPath);
+
+  return tasks
+    .filter(t => t.status === 'pending' || t.status === 'in_progress')
+    .sort((a, b) =>
+      Number(b.sessionId === sessionId) - Number(a.sessionId === sessionId)
+      || Number(b.status === 'in_progress') - Number(a.status === 'in_progress'))
+    .slice(0, MAX_TASK_CANDIDATES)
+    .map(t => {
+      const own = t.sessionId === sessionId;
+      const label = getSessionSummary(t.sessionId)?.displayName || t.sessionId.slice(0, 8);
+      return {
+        source: 'tasks' as const,
+        id: `task:${t.id}:${t.status}`,
+        text: `- [${t.status === 'in_progress' ? 'in progress' : 'pending'}] ${t.subject}${own ? '' : ` (session ${label})`}`,
+        reason: own ? 'open task in this session' : 'open task in project',
+      };
+    });
+}
@@ -0,0 +1,806 @@
+/**
+ * Cost Analytics
+ *
+ * Time-series store for token usage and spend. Every assistant message with
+ * usage (the same per-message accounting that feeds CachedModelUsage) is
+ * bucketed by hour and by day, per project, and within a project broken down
+ * by model, subagent type ('main' for the main thread), active skill and the
+ * tool whose result preceded the turn ('(prompt)' after a user prompt).
+ * Buckets also count productive outcomes — git commits and distinct files
+ * changed per session — so spend can be divided by what it produced.
+ *
+ * Sessions are ingested incrementally from raw messages when the session
+ * cache reports a change; sessions already cached when lm-assist starts are
+ * backfilled in the background, one at a time. An API message split over
+ * several JSONL lines (one per content block, each repeating the usage) is
+ * counted once, by message.id.
+ *
+ * Messages without a Claude Code costUSD are priced with the version in
+ * effect at their timestamp (pricing-store.ts). When the price table changes,
+ * startReprice() rebuilds every bucket from the raw session files, once the
+ * ingests already in flight have finished against the old buckets.
+ *
+ * Lifetime totals per project (exported as /metrics counters) are counted
+ * alongside the buckets but only ever grow: deleted session files are not
+ * subtracted, and a reprice neither recounts nor reprices them.
+ *
+ * State: ~/.lm-assist/cost-analytics.json
+ * Singleton via getCostAnalytics().
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDataDir } from './utils/path-utils';
+import { CostCalculator } from './cost-calculator';
+import type { SessionCacheData } from './session-cache';
+
+// ── Types ──────────────────────────────────────────
+
+export type AnalyticsGranularity = 'hour' | 'day';
+export type AnalyticsDimension = 'project' | 'model' | 'agent' | 'skill' | 'tool';
+export type AnalyticsMetric = 'cost' | 'tokens';
+
+export const ANALYTICS_DIMENSIONS: AnalyticsDimension[] = ['project', 'model', 'agent', 'skill', 'tool'];
+export const ANALYTICS_METRICS: AnalyticsMetric[] = ['cost', 'tokens'];
+
+export interface UsageMetrics {
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  /** Assistant messages with usage */
+  messages: number;
+}
+
+/** Usage of one project within one bucket */
+interface ProjectUsage {
+  total: UsageMetrics;
+  models: Record<string, UsageMetrics>;
+  agents: Record<string, UsageMetrics>;
+  skills: Record<string, UsageMetrics>;
+  tools: Record<string, UsageMetrics>;
+  commits: number;
+  filesChanged: number;
+}
+
+/** Project path → usage */
+type UsageBucket = Record<string, ProjectUsage>;
+
+interface TrackedFile {
+  lastLineIndex: number;
+  /** Tool (or '(prompt)') that the next assistant turn continues from */
+  precedingTool: string;
+  /** Files this session has changed, for counting distinct files */
+  changedFiles: string[];
+  /** Recent API message IDs whose usage was counted */
+  seenMessageIds?: string[];
+  seenAt: string;
+}
+
+interface AnalyticsFile {
+  /** Hour start (UTC ISO) → usage */
+  hours: Record<string, UsageBucket>;
+  /** Local date (YYYY-MM-DD) → usage */
+  days: Record<string, UsageBucket>;
+  /** Session file path → ingestion progress */
+  files: Record<string, TrackedFile>;
+  /** Project path → usage counted since tracking began (kept across reprices) */
+  totals: Record<string, UsageMetrics>;
+  /** Session file path → last line counted into totals (kept across reprices) */
+  totalLines: Record<string, number>;
+  /** Pricing store version the calculated costs were computed with */
+  pricingVersion?: string;
+}
+
+export interface MetricsView extends UsageMetrics {
+  /** Cache reads / all input tokens (fresh + cache writes + cache reads) */
+  cacheHitRatio: number;
+}
+
+export interface TimeSeriesPoint extends MetricsView {
+  start: string;
+  commits: number;
+  filesChanged: number;
+  /** Metric value per group key (when grouped) */
+  groups?: Record<string, number>;
+}
+
+export interface TimeSeries {
+  granularity: AnalyticsGranularity;
+  from: string;
+  to: string;
+  project?: string;
+  groupBy?: AnalyticsDimension;
+  metric: AnalyticsMetric;
+  /** Group keys, largest first ('other' collects the rest) */
+  keys: string[];
+  points: TimeSeriesPoint[];
+}
+
+export interface BreakdownRow extends MetricsView {
+  key: string;
+  /** Share of total cost (0-1) */
+  share: number;
+  commits?: number;
+  filesChanged?: number;
+}
+
+export interface CostBreakdown {
+  from: string;
+  to: string;
+  project?: string;
+  total: MetricsView;
+  outcomes: {
+    commits: number;
+    filesChanged: number;
+    costPerCommit: number | null;
+    costPerFileChanged: number | null;
+  };
+  projects: BreakdownRow[];
+  models: BreakdownRow[];
+  agents: BreakdownRow[];
+  skills: BreakdownRow[];
+  tools: BreakdownRow[];
+}
+
+export interface TimeSeriesOptions {
+  granularity: AnalyticsGranularity;
+  from: Date;
+  to: Date;
+  project?: string;
+  groupBy?: AnalyticsDimension;
+  metric?: AnalyticsMetric;
+  /** Group keys to keep before folding into 'other' */
+  top?: number;
+}
+
+// ── Constants ──────────────────────────────────────────
+
+const STATE_FILE = path.join(getDataDir(), 'cost-analytics.json');
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const HOUR_RETENTION_DAYS = 14;
+const DAY_RETENTION_DAYS = 400;
+const SAVE_DELAY_MS = 5000;
+const BACKFILL_DELAY_MS = 15_000;
+const MAX_CHANGED_FILES = 2000;
+/** Lines of one message are adjacent, so only the most recent IDs are kept */
+const MAX_SEEN_MESSAGE_IDS = 500;
+const DEFAULT_TOP = 8;
+
+const FILE_EDIT_TOOLS = new Set(['Write', 'Edit', 'MultiEdit', 'NotebookEdit']);
+
+const DIMENSION_FIELDS: Record<Exclude<AnalyticsDimension, 'project'>, 'models' | 'agents' | 'skills' | 'tools'> = {
+  model: 'models',
+  agent: 'agents',
+  skill: 'skills',
+  tool: 'tools',
+};
+
+// ── Metrics Helpers ──────────────────────────────────────────
+
+function emptyMetrics(): UsageMetrics {
+  return { costUsd: 0, inputTokens: 0, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0, messages: 0 };
+}
+
+function emptyProjectUsage(): ProjectUsage {
+  return { total: emptyMetrics(), models: {}, agents: {}, skills: {}, tools: {}, commits: 0, filesChanged: 0 };
+}
+
+function addMetrics(target: UsageMetrics, source: UsageMetrics): void {
+  target.costUsd += source.costUsd;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.cacheCreationInputTokens += source.cacheCreationInputTokens;
+  target.cacheReadInputTokens += source.cacheReadInputTokens;
+  target.messages += source.messages;
+}
+
+function addTo(map: Record<string, UsageMetrics>, key: string, metrics: UsageMetrics): void {
+  addMetrics(map[key] || (map[key] = emptyMetrics()), metrics);
+}
+
+function mergeProjectUsage(target: ProjectUsage, source: ProjectUsage): void {
+  addMetrics(target.total, source.total);
+  for (const field of ['models', 'agents', 'skills', 'tools'] as const) {
+    for (const [key, metrics] of Object.entries(source[field])) addTo(target[field], key, metrics);
+  }
+  target.commits += source.commits;
+  target.filesChanged += source.filesChanged;
+}
+
+function view(metrics: UsageMetrics): MetricsView {
+  const allInput = metrics.inputTokens + metrics.cacheCreationInputTokens + metrics.cacheReadInputTokens;
+  return { ...metrics, cacheHitRatio: allInput > 0 ? metrics.cacheReadInputTokens / allInput : 0 };
+}
+
+function metricValue(metrics: UsageMetrics, metric: AnalyticsMetric): number {
+  return metric === 'cost'
+    ? metrics.costUsd
+    : metrics.inputTokens + metrics.outputTokens + metrics.cacheCreationInputTokens + metrics.cacheReadInputTokens;
+}
+
+function rows(map: Record<string, UsageMetrics>, totalCost: number): BreakdownRow[] {
+  return Object.entries(map)
+    .map(([key, metrics]) => ({ key, ...view(metrics), share: totalCost > 0 ? metrics.costUsd / totalCost : 0 }))
+    .sort((a, b) => b.costUsd - a.costUsd);
+}
+
+// ── Time Helpers ──────────────────────────────────────────
+
+function hourKey(ts: number): string {
+  return new Date(Math.floor(ts / HOUR_MS) * HOUR_MS).toISOString();
+}
+
+function dayKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * Bucket keys and start times covering [from, to].
+ */
+function bucketRange(granularity: AnalyticsGranularity, from: Date, to: Date): Array<{ key: string; start: Date }> {
+  const buckets: Array<{ key: string; start: Date }> = [];
+  if (granularity === 'hour') {
+    for (let t = Math.floor(from.getTime() / HOUR_MS) * HOUR_MS; t <= to.getTime(); t += HOUR_MS) {
+      buckets.push({ key: hourKey(t), start: new Date(t) });
+    }
+  } else {
+    for (const d = new Date(from.getFullYear(), from.getMonth(), from.getDate()); d <= to; d.setDate(d.getDate() + 1)) {
+      buckets.push({ key: dayKey(d), start: new Date(d) });
+    }
+  }
+  return buckets;
+}
+
+// ── Message Helpers ──────────────────────────────────────────
+
+let costCalculator: CostCalculator | null = null;
+
+function messageMetrics(msg: any): UsageMetrics {
+  const u = msg.message.usage;
+  const metrics: UsageMetrics = {
+    costUsd: 0,
+    inputTokens: u.input_tokens || 0,
+    outputTokens: u.output_tokens || 0,
+    cacheCreationInputTokens: u.cache_creation_input_tokens || 0,
+    cacheReadInputTokens: u.cache_read_input_tokens || 0,
+    messages: 1,
+  };
+  if (typeof msg.costUSD === 'number' && msg.costUSD > 0) {
+    metrics.costUsd = msg.costUSD;
+  } else {
+    if (!costCalculator) costCalculator = new CostCalculator();
+    const cacheCreation = u.cache_creation
+      ? { ephemeral5mInputTokens: u.cache_creation.ephemeral_5m_input_tokens || 0, ephemeral1hInputTokens: u.cache_creation.ephemeral_1h_input_tokens || 0 }
+      : undefined;
+    metrics.costUsd = costCalculator.calculateCost(
+      { ...metrics, cacheCreation },
+      msg.message.model,
+      { cumulative: false, at: msg.timestamp }
+    ).totalCost;
+  }
+  return metrics;
+}
+
+function currentPricingVersion(): string {
+  const { getPricingStore } = require('./pricing-store');
+  return getPricingStore().getVersion();
+}
+
+/** A user message that is a real prompt rather than tool results */
+function isPromptMessage(msg: any): boolean {
+  if (msg.isMeta || msg.isCompactSummary) return false;
+  const content = msg.message?.content;
+  if (typeof content === 'string') return true;
+  return Array.isArray(content) && !content.some((b: any) => b?.type === 'tool_result');
+}
+
+/**
+ * Subagent type for a subagent file (<project>/<sessionId>/subagents/agent-<id>.jsonl),
+ * looked up in the parent session's cached subagent list.
+ */
+function subagentType(filePath: string): string {
+  const dir = path.dirname(filePath);
+  if (path.basename(dir) !== 'subagents') return 'subagent';
+  const agentId = path.basename(filePath, '.jsonl').replace(/^agent-/, '');
+  const parentPath = path.join(path.dirname(path.dirname(dir)), `${path.basename(path.dirname(dir))}.jsonl`);
+  try {
+    const { getSessionCache } = require('./session-cache');
+    const parent: SessionCacheData | null = getSessionCache().getSessionDataFromMemory(parentPath);
+    return parent?.subagents.find(s => s.agentId === agentId)?.type || 'subagent';
+  } catch {
+    return 'subagent';
+  }
+}
+
+// ── Cost Analytics ──────────────────────────────────────────
+
+class CostAnalytics {
+  private state: AnalyticsFile | null = null;
+  private queue = new Map<string, { sessionId: string; cacheData: SessionCacheData }>();
+  private draining = false;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private started = false;
+  private backfill = { pending: 0, done: 0, running: false };
+  private reprice: { running: boolean; startedAt: string | null; finishedAt: string | null; pricingVersion: string | null } = {
+    running: false, startedAt: null, finishedAt: null, pricingVersion: null,
+  };
+  private backfillRun: Promise<void> | null = null;
+  private lastIngestAt: string | null = null;
+  /** Ingests run one after another so a file is never counted twice */
+  private ingestChain: Promise<void> = Promise.resolve();
+
+  /**
+   * Subscribe to session cache changes and schedule the backfill. Idempotent.
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    try {
+      const { getSessionCache } = require('./session-cache');
+      getSessionCache().onSessionChange((sessionId: string, cacheData: SessionCacheData) => {
+        this.enqueue(sessionId, cacheData);
+      });
+    } catch (err) {
+      console.warn('[CostAnalytics] Failed to watch session changes:', err);
+    }
+
+    setTimeout(() => this.runBackfill(), BACKFILL_DELAY_MS).unref?.();
+  }
+
+  enqueue(sessionId: string, cacheData: SessionCacheData): void {
+    if (!cacheData.filePath) return;
+    this.queue.set(cacheData.filePath, { sessionId, cacheData });
+    this.drain();
+  }
+
+  getStatus() {
+    const state = this.getState();
+    const pricingVersion = currentPricingVersion();
+    return {
+      trackedSessions: Object.keys(state.files).length,
+      queued: this.queue.size,
+      backfill: { ...this.backfill },
+      pricingVersion: state.pricingVersion || null,
+      repriceNeeded: state.pricingVersion !== pricingVersion && !this.reprice.running,
+      reprice: { ...this.reprice },
+      hourBuckets: Object.keys(state.hours).length,
+      dayBuckets: Object.keys(state.days).length,
+      lastIngestAt: this.lastIngestAt,
+    };
+  }
+
+  /**
+   * Discard all buckets and re-ingest every session with the current price
+   * table. Runs in the background; returns false if a backfill or reprice is
+   * already running.
+   */
+  startReprice(): boolean {
+    if (this.reprice.running || this.backfill.running) return false;
+
+    const pricingVersion = currentPricingVersion();
+    this.reprice = { running: true, startedAt: new Date().toISOString(), finishedAt: null, pricingVersion };
+
+    // Swap the buckets in the ingest chain: an ingest awaiting raw messages
+    // would otherwise write into the new buckets without marking its file
+    // tracked, and the backfill would count it again
+    const swap = this.ingestChain.then(() => {
+      const { totals, totalLines } = this.getState();
+      this.state = { hours: {}, days: {}, files: {}, totals, totalLines, pricingVersion };
+      this.backfill = { pending: 0, done: 0, running: this.backfill.running };
+      this.scheduleSave();
+    });
+    this.ingestChain = swap;
+
+    swap.then(() => this.runBackfill()).finally(() => {
+      this.reprice.running = false;
+      this.reprice.finishedAt = new Date().toISOString();
+    });
+    return true;
+  }
+
+  // ── Queries ──────────────────────────────────────────
+
+  /**
+   * Lifetime usage per project. Only grows, so it suits monotonic counters.
+   */
+  getLifetimeTotals(): Record<string, UsageMetrics> {
+    return { ...this.getState().totals };
+  }
+
+  getTimeSeries(options: TimeSeriesOptions): TimeSeries {
+    const metric = options.metric || 'cost';
+    const buckets = this.getState()[options.granularity === 'hour' ? 'hours' : 'days'];
+    const range = bucketRange(options.granularity, options.from, options.to);
+
+    const usages = range.map(({ key }) => this.collect(buckets[key], options.project));
+    const groupsPerPoint = usages.map(({ usage, byProject }) =>
+      options.groupBy === 'project'
+        ? Object.fromEntries(Object.entries(byProject).map(([k, u]) => [k, u.total]))
+        : options.groupBy ? usage[DIMENSION_FIELDS[options.groupBy]] : {});
+
+    // Largest groups over the whole range keep their own series
+    let keys: string[] = [];
+    if (options.groupBy) {
+      const totals = new Map<string, number>();
+      for (const groups of groupsPerPoint) {
+        for (const [key, metrics] of Object.entries(groups)) {
+          totals.set(key, (totals.get(key) || 0) + metricValue(metrics, metric));
+        }
+      }
+      const sorted = [...totals.entries()].filter(([, v]) => v > 0).sort((a, b) => b[1] - a[1]).map(([k]) => k);
+      const top = options.top || DEFAULT_TOP;
+      keys = sorted.length > top ? [...sorted.slice(0, top - 1), 'other'] : sorted;
+    }
+    const kept = new Set(keys);
+
+    const points: TimeSeriesPoint[] = range.map(({ start }, i) => {
+      const { usage } = usages[i];
+      const point: TimeSeriesPoint = {
+        start: start.toISOString(),
+        ...view(usage.total),
+        commits: usage.commits,
+        filesChanged: usage.filesChanged,
+      };
+      if (options.groupBy) {
+        const groups: Record<string, number> = {};
+        for (const [key, metrics] of Object.entries(groupsPerPoint[i])) {
+          const target = kept.has(key) ? key : 'other';
+          groups[target] = (groups[target] || 0) + metricValue(metrics, metric);
+        }
+        point.groups = groups;
+      }
+      return point;
+    });
+
+    return {
+      granularity: options.granularity,
+      from: options.from.toISOString(),
+      to: options.to.toISOString(),
+      project: options.project,
+      groupBy: options.groupBy,
+      metric,
+      keys,
+      points,
+    };
+  }
+
+  getBreakdown(from: Date, to: Date, project?: string): CostBreakdown {
+    // Day buckets for ranges longer than hour retention, hour buckets otherwise
+    const granularity: AnalyticsGranularity = Date.now() - from.getTime() <= HOUR_RETENTION_DAYS * DAY_MS ? 'hour' : 'day';
+    const buckets = this.getState()[granularity === 'hour' ? 'hours' : 'days'];
+
+    const usage = emptyProjectUsage();
+    const byProject: Record<string, ProjectUsage> = {};
+    for (const { key } of bucketRange(granularity, from, to)) {
+      const collected = this.collect(buckets[key], project);
+      mergeProjectUsage(usage, collected.usage);
+      for (const [projectPath, projectUsage] of Object.entries(collected.byProject)) {
+        mergeProjectUsage(byProject[projectPath] || (byProject[projectPath] = emptyProjectUsage()), projectUsage);
+      }
+    }
+
+    const totalCost = usage.total.costUsd;
+    const projects = rows(Object.fromEntries(Object.entries(byProject).map(([k, u]) => [k, u.total])), totalCost)
+      .map(row => ({ ...row, commits: byProject[row.key].commits, filesChanged: byProject[row.key].filesChanged }));
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      project,
+      total: view(usage.total),
+      outcomes: {
+        commits: usage.commits,
+        filesChanged: usage.filesChanged,
+        costPerCommit: usage.commits > 0 ? totalCost / usage.commits : null,
+        costPerFileChanged: usage.filesChanged > 0 ? totalCost / usage.filesChanged : null,
+      },
+      projects,
+      models: rows(usage.models, totalCost),
+      agents: rows(usage.agents, totalCost),
+      skills: rows(usage.skills, totalCost),
+      tools: rows(usage.tools, totalCost),
+    };
+  }
+
+  /**
+   * Sum a bucket's projects (or just one project).
+   */
+  private collect(bucket: UsageBucket | undefined, project?: string): { usage: ProjectUsage; byProject: UsageBucket } {
+    const usage = emptyProjectUsage();
+    const byProject: UsageBucket = {};
+    for (const [projectPath, projectUsage] of Object.entries(bucket || {})) {
+      if (project && projectPath !== project) continue;
+      mergeProjectUsage(usage, projectUsage);
+      byProject[projectPath] = projectUsage;
+    }
+    return { usage, byProject };
+  }
+
+  // ── Ingestion ──────────────────────────────────────────
+
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+    try {
+      while (this.queue.size > 0) {
+        const [filePath, { sessionId, cacheData }] = this.queue.entries().next().value!;
+        this.queue.delete(filePath);
+        try {
+          await this.runIngest(sessionId, filePath, cacheData);
+        } catch (err) {
+          console.warn(`[CostAnalytics] Failed to ingest ${sessionId}:`, err);
+        }
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private runIngest(sessionId: string, filePath: string, cacheData: SessionCacheData): Promise<void> {
+    const run = this.ingestChain.then(() => this.ingest(sessionId, filePath, cacheData));
+    this.ingestChain = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Bucket the messages appended to a session file since it was last ingested.
+   */
+  private async ingest(sessionId: string, filePath: string, cacheData: SessionCacheData): Promise<void> {
+    const state = this.getState();
+    const tracked = state.files[filePath];
+    // Nothing new (a rewritten, shorter file is picked up once it grows past what was counted)
+    if (tracked && cacheData.lastLineIndex <= tracked.lastLineIndex) return;
+
+    const { getSessionCache } = require('./session-cache');
+    const messages: any[] = await getSessionCache().getRawMessages(filePath) || [];
+    const fromLine = tracked ? tracked.lastLineIndex : -1;
+    const project = cacheData.cwd || '';
+    // Subagent files report their parent's sessionId — tell them apart by file name
+    const agent = path.basename(filePath).startsWith('agent-') ? subagentType(filePath) : 'main';
+    const changedFiles = new Set(tracked?.changedFiles || []);
+    const seenMessageIds = new Set(tracked?.seenMessageIds || []);
+    const toolNames = new Map<string, string>();
+    let precedingTool = tracked?.precedingTool || '(prompt)';
+    let lastLine = fromLine;
+    // Lines re-read by a reprice were already counted into the totals
+    const countedLine = state.totalLines[filePath] ?? -1;
+
+    const now = Date.now();
+    const { extractGitOperationsFromToolUses } = require('./agent-session-store');
+
+    for (const msg of messages) {
+      if (msg.lineIndex <= fromLine) continue;
+      lastLine = Math.max(lastLine, msg.lineIndex);
+
+      const ts = msg.timestamp ? new Date(msg.timestamp).getTime() : NaN;
+      const inRange = !isNaN(ts) && now - ts <= DAY_RETENTION_DAYS * DAY_MS;
+
+      if (msg.type === 'user') {
+        if (isPromptMessage(msg)) {
+          precedingTool = '(prompt)';
+        } else {
+          const result = (msg.message?.content || []).find((b: any) => b?.type === 'tool_result');
+          precedingTool = toolNames.get(result?.tool_use_id) || precedingTool;
+        }
+        continue;
+      }
+      if (msg.type !== 'assistant') continue;
+
+      const messageId: string | undefined = msg.message?.id;
+      const counted = !!messageId && seenMessageIds.has(messageId);
+      if (messageId) seenMessageIds.add(messageId);
+
+      if (msg.message?.usage && msg.message.model !== '<synthetic>' && inRange && !counted) {
+        const metrics = messageMetrics(msg);
+        const skill = this.activeSkill(cacheData, msg.lineIndex);
+        this.record(ts, project, usage => {
+          addMetrics(usage.total, metrics);
+          addTo(usage.models, msg.message.model || 'unknown', metrics);
+          addTo(usage.agents, agent, metrics);
+          addTo(usage.tools, precedingTool, metrics);
+          if (skill) addTo(usage.skills, skill, metrics);
+        });
+        if (msg.lineIndex > countedLine) addTo(state.totals, project, metrics);
+      }
+
+      for (const block of Array.isArray(msg.message?.content) ? msg.message.content : []) {
+        if (block?.type !== 'tool_use' || !block.name) continue;
+        toolNames.set(block.id, block.name);
+        if (!inRange) continue;
+
+        const filePathInput = block.input?.file_path || block.input?.notebook_path;
+        if (FILE_EDIT_TOOLS.has(block.name) && typeof filePathInput === 'string' && !changedFiles.has(filePathInput)) {
+          changedFiles.add(filePathInput);
+          this.record(ts, project, usage => { usage.filesChanged++; });
+        }
+        if (block.name === 'Bash') {
+          const ops: Array<{ type: string }> = extractGitOperationsFromToolUses([
+            { id: block.id, name: block.name, input: block.input, turnIndex: 0, lineIndex: msg.lineIndex },
+          ]);
+          if (ops.some(op => op.type === 'commit')) this.record(ts, project, usage => { usage.commits++; });
+        }
+      }
+    }
+
+    state.files[filePath] = {
+      lastLineIndex: lastLine,
+      precedingTool,
+      changedFiles: [...changedFiles].slice(-MAX_CHANGED_FILES),
+      seenMessageIds: [...seenMessageIds].slice(-MAX_SEEN_MESSAGE_IDS),
+      seenAt: new Date().toISOString(),
+    };
+    state.totalLines[filePath] = Math.max(countedLine, lastLine);
+    this.lastIngestAt = new Date().toISOString();
+    this.scheduleSave();
+  }
+
+  /** Skill whose span covers a line, if any (latest-starting wins) */
+  private activeSkill(cacheData: SessionCacheData, lineIndex: number): string | null {
+    let active: string | null = null;
+    for (const inv of cacheData.skillInvocations || []) {
+      if (inv.spanStartLine <= lineIndex && (inv.spanEndLine === undefined || lineIndex <= inv.spanEndLine)) {
+        active = inv.skillName;
+      }
+    }
+    return active;
+  }
+
+  /**
+   * Apply an update to the hour and day buckets containing `ts`.
+   */
+  private record(ts: number, project: string, update: (usage: ProjectUsage) => void): void {
+    const state = this.getState();
+    const targets: UsageBucket[] = [state.days[dayKey(new Date(ts))] || (state.days[dayKey(new Date(ts))] = {})];
+    if (Date.now() - ts <= HOUR_RETENTION_DAYS * DAY_MS) {
+      targets.push(state.hours[hourKey(ts)] || (state.hours[hourKey(ts)] = {}));
+    }
+    for (const bucket of targets) {
+      update(bucket[project] || (bucket[project] = emptyProjectUsage()));
+    }
+  }
+
+  /**
+   * Ingest cached sessions (including subagents) not seen before, one at a
+   * time so the server stays responsive. Joins a backfill already running.
+   */
+  private runBackfill(): Promise<void> {
+    if (!this.backfillRun) {
+      this.backfillRun = this.backfillSessions().finally(() => { this.backfillRun = null; });
+    }
+    return this.backfillRun;
+  }
+
+  private async backfillSessions(): Promise<void> {
+    this.backfill.running = true;
+    try {
+      // Apply a reprice's state swap queued before this run
+      await this.ingestChain;
+      const { getSessionCache } = require('./session-cache');
+      const state = this.getState();
+      const cutoff = Date.now() - DAY_RETENTION_DAYS * DAY_MS;
+      const pending: Array<{ filePath: string; cacheData: SessionCacheData }> = [];
+      for (const { key: filePath, value: cacheData } of getSessionCache().allSessionsIncludingSubagents()) {
+        if (state.files[filePath]) continue;
+        const last = cacheData.lastTimestamp ? new Date(cacheData.lastTimestamp).getTime() : NaN;
+        if (isNaN(last) || last < cutoff) continue;
+        pending.push({ filePath, cacheData });
+      }
+
+      this.backfill.pending = pending.length;
+      for (const { filePath, cacheData } of pending) {
+        if (!state.files[filePath] && !this.queue.has(filePath)) {
+          try {
+            await this.runIngest(path.basename(filePath, '.jsonl'), filePath, { ...cacheData, filePath });
+          } catch (err) {
+            console.warn(`[CostAnalytics] Backfill failed for ${filePath}:`, err);
+          }
+        }
+        this.backfill.pending--;
+        this.backfill.done++;
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    } catch (err) {
+      console.warn('[CostAnalytics] Backfill failed:', err);
+    } finally {
+      this.backfill.running = false;
+    }
+  }
+
+  // ── State ──────────────────────────────────────────
+
+  private getState(): AnalyticsFile {
+    if (this.state) return this.state;
+
+    let state: AnalyticsFile = { hours: {}, days: {}, files: {}, totals: {}, totalLines: {}, pricingVersion: currentPricingVersion() };
+    try {
+      if (fs.existsSync(STATE_FILE)) {
+        const data = JSON.parse(fs.readFileSync(STATE_FILE, 'utf-8'));
+        if (data && data.days && data.files) {
+          // Files written before price versioning used the built-in table
+          state = {
+            hours: data.hours || {},
+            days: data.days,
+            files: data.files,
+            totals: data.totals || {},
+            totalLines: data.totalLines || {},
+            pricingVersion: data.pricingVersion || currentPricingVersion(),
+          };
+        }
+      }
+    } catch {
+      // Corrupt file — rebuilt by the backfill
+    }
+    this.state = state;
+    return state;
+  }
+
+  /**
+   * Drop buckets and tracked files older than their retention windows.
+   */
+  private prune(): void {
+    const state = this.getState();
+    const hourCutoff = hourKey(Date.now() - HOUR_RETENTION_DAYS * DAY_MS);
+    const dayCutoffDate = new Date(Date.now() - DAY_RETENTION_DAYS * DAY_MS);
+    const dayCutoff = dayKey(dayCutoffDate);
+
+    for (const key of Object.keys(state.hours)) {
+      if (key < hourCutoff) delete state.hours[key];
+    }
+    for (const key of Object.keys(state.days)) {
+      if (key < dayCutoff) delete state.days[key];
+    }
+    for (const [filePath, tracked] of Object.entries(state.files)) {
+      if (tracked.seenAt < dayCutoffDate.toISOString()) delete state.files[filePath];
+    }
+    // A file ingested again after pruning only adds in-range messages, which
+    // are newer than anything it counted before. A reprice re-tracks files as
+    // it goes, so wait for it before dropping the rest.
+    if (!this.reprice.running) {
+      for (const filePath of Object.keys(state.totalLines)) {
+        if (!state.files[filePath]) delete state.totalLines[filePath];
+      }
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      try {
+        this.saveState();
+      } catch (err) {
+        console.warn('[CostAnalytics] Failed to save state:', err);
+      }
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref?.();
+  }
+
+  private saveState(): void {
+    if (!this.state) return;
+    this.prune();
+    const dir = path.dirname(STATE_FILE);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(STATE_FILE, JSON.stringify(this.state));
+  }
+}
+
+// ── Singleton ──────────────────────────────────────────
+
+let instance: CostAnalytics | null = null;
+
+export function getCostAnalytics(): CostAnalytics {
+  if (!instance) {
+    instance = new CostAnalytics();
+  }
+  return instance;
+}
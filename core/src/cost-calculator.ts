@@ -3,9 +3,11 @@
  * Calculate token costs based on model pricing.
  *
  * Pricing is loaded from core/data/model-pricing.json with a hardcoded
- * fallback. Supports tiered pricing (above-200k token threshold) per
- * the LiteLLM/ccusage convention. An optional lazy LiteLLM fetch provides
- * pricing for unknown models.
+ * fallback, merged with user overrides by the pricing store
+ * (pricing-store.ts). No network access is needed. Entries may carry an
+ * `effectiveFrom` date; a cost is computed with the version in effect at the
+ * timestamp passed in `at`. Supports tiered pricing (above-200k token
+ * threshold) per the LiteLLM/ccusage convention.
  */
 
 import * as fs from 'fs';
@@ -36,6 +38,7 @@ const HARDCODED_PRICING: ModelPricing[] = [
   {
     modelPattern: 'claude-opus-4-6',
     displayName: 'Claude Opus 4.6',
+    effectiveFrom: '2026-02-05',
     inputPricePerMillion: 5.0,
     outputPricePerMillion: 25.0,
     cache5mWritePricePerMillion: 6.25,
@@ -51,6 +54,7 @@ const HARDCODED_PRICING: ModelPricing[] = [
   {
     modelPattern: 'claude-opus-4-5',
     displayName: 'Claude Opus 4.5',
+    effectiveFrom: '2025-11-24',
     inputPricePerMillion: 5.0,
     outputPricePerMillion: 25.0,
     cache5mWritePricePerMillion: 6.25,
@@ -60,6 +64,7 @@ const HARDCODED_PRICING: ModelPricing[] = [
   {
     modelPattern: 'claude-sonnet-4',
     displayName: 'Claude Sonnet 4',
+    effectiveFrom: '2025-05-22',
     inputPricePerMillion: 3.0,
     outputPricePerMillion: 15.0,
     cache5mWritePricePerMillion: 3.75,
@@ -75,6 +80,7 @@ const HARDCODED_PRICING: ModelPricing[] = [
   {
     modelPattern: 'claude-haiku-4-5',
     displayName: 'Claude Haiku 4.5',
+    effectiveFrom: '2025-10-15',
     inputPricePerMillion: 1.0,
     outputPricePerMillion: 5.0,
     cache5mWritePricePerMillion: 1.25,
@@ -84,6 +90,7 @@ const HARDCODED_PRICING: ModelPricing[] = [
   {
     modelPattern: 'claude-3-5-sonnet',
     displayName: 'Claude 3.5 Sonnet',
+    effectiveFrom: '2024-06-20',
     inputPricePerMillion: 3.0,
     outputPricePerMillion: 15.0,
     cache5mWritePricePerMillion: 3.75,
@@ -99,6 +106,7 @@ const HARDCODED_PRICING: ModelPricing[] = [
   {
     modelPattern: 'claude-3-5-haiku',
     displayName: 'Claude 3.5 Haiku',
+    effectiveFrom: '2024-11-04',
     inputPricePerMillion: 0.8,
     outputPricePerMillion: 4.0,
     cache5mWritePricePerMillion: 1.0,
@@ -108,6 +116,7 @@ const HARDCODED_PRICING: ModelPricing[] = [
   {
     modelPattern: 'claude-3-opus',
     displayName: 'Claude 3 Opus',
+    effectiveFrom: '2024-03-04',
     inputPricePerMillion: 15.0,
     outputPricePerMillion: 75.0,
     cache5mWritePricePerMillion: 18.75,
@@ -123,17 +132,92 @@ const HARDCODED_PRICING: ModelPricing[] = [
 export const DEFAULT_MODEL_PRICING: ModelPricing[] =
   loadPricingFromFile() || HARDCODED_PRICING;
 
-// ── LiteLLM lazy fallback ───────────────────────────────────────────────
+// ── Version selection ──────────────────────────────────────────────────
 
-const LITELLM_URL =
-  'https://raw.githubusercontent.com/BerriAI/litellm/main/model_prices_and_context_window.json';
+function normalizeModelName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '-');
+}
+
+function effectiveTime(pricing: ModelPricing): number {
+  if (!pricing.effectiveFrom) return -Infinity;
+  const time = Date.parse(pricing.effectiveFrom);
+  return isNaN(time) ? -Infinity : time;
+}
+
+/**
+ * Pick the pricing entry for a model at a point in time (default: now).
+ *
+ * The most specific pattern contained in the model name wins. Among that
+ * pattern's versions, the latest one effective at `at` is used; when every
+ * version starts later, the earliest is used. Returns null for unknown models.
+ */
+export function selectPricing(
+  table: ModelPricing[],
+  model: string,
+  at?: string | number | Date
+): ModelPricing | null {
+  const normalizedModel = normalizeModelName(model);
+
+  let pattern: string | null = null;
+  for (const price of table) {
+    const normalizedPattern = normalizeModelName(price.modelPattern);
+    if (normalizedModel.includes(normalizedPattern) && (!pattern || normalizedPattern.length > pattern.length)) {
+      pattern = normalizedPattern;
+    }
+  }
+  if (!pattern) return null;
+
+  let time = at === undefined ? Date.now() : new Date(at).getTime();
+  if (isNaN(time)) time = Date.now();
+  let current: ModelPricing | null = null;
+  let earliest: ModelPricing | null = null;
+  for (const price of table) {
+    if (normalizeModelName(price.modelPattern) !== pattern) continue;
+    const from = effectiveTime(price);
+    if (from <= time && (!current || from > effectiveTime(current))) current = price;
+    if (!earliest || from < effectiveTime(earliest)) earliest = price;
+  }
+  return current || earliest;
+}
+
+// ── Per-day usage ──────────────────────────────────────────────────────
 
-/** Shared across all CostCalculator instances */
-let litellmCache: Map<string, ModelPricing> | null = null;
-let litellmFetchInProgress = false;
-let litellmFetchFailed = false;
+/** Token usage by UTC day (YYYY-MM-DD), then model */
+export type DailyUsage = Record<string, Record<string, TokenUsage>>;
 
-function convertLiteLLMEntry(key: string, entry: any): ModelPricing | null {
+/**
+ * Add one message's usage to per-day usage (see calculateSessionCost).
+ * Messages without a valid timestamp are left out.
+ */
+export function addDailyUsage(
+  daily: DailyUsage,
+  timestamp: string | Date | undefined,
+  model: string,
+  usage: TokenUsage
+): void {
+  const time = timestamp === undefined ? NaN : new Date(timestamp).getTime();
+  if (isNaN(time)) return;
+  const day = new Date(time).toISOString().slice(0, 10);
+  const models = daily[day] || (daily[day] = {});
+  const total = models[model] || (models[model] = {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+  });
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  total.cacheCreationInputTokens += usage.cacheCreationInputTokens;
+  total.cacheReadInputTokens += usage.cacheReadInputTokens;
+}
+
+// ── LiteLLM import ──────────────────────────────────────────────────────
+
+/**
+ * Convert one entry of a LiteLLM model_prices_and_context_window.json file.
+ * Used to import a downloaded copy offline; nothing is fetched at runtime.
+ */
+export function convertLiteLLMEntry(key: string, entry: any): ModelPricing | null {
   if (
     typeof entry.input_cost_per_token !== 'number' ||
     typeof entry.output_cost_per_token !== 'number'
@@ -180,85 +264,34 @@ function convertLiteLLMEntry(key: string, entry: any): ModelPricing | null {
   return pricing;
 }
 
-/**
- * Fire-and-forget LiteLLM pricing fetch. Populates litellmCache on success.
- */
-function fetchLiteLLMPricing(): void {
-  if (litellmFetchInProgress || litellmFetchFailed || litellmCache) return;
-  litellmFetchInProgress = true;
-
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 10_000);
-
-  fetch(LITELLM_URL, { signal: controller.signal })
-    .then((res) => {
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      return res.json();
-    })
-    .then((data: any) => {
-      const cache = new Map<string, ModelPricing>();
-      const entries = data;
-      for (const [key, entry] of Object.entries(entries)) {
-        if (!entry || typeof entry !== 'object') continue;
-        const pricing = convertLiteLLMEntry(key, entry);
-        if (pricing) cache.set(key, pricing);
-      }
-      litellmCache = cache;
-    })
-    .catch(() => {
-      litellmFetchFailed = true;
-    })
-    .finally(() => {
-      clearTimeout(timeout);
-      litellmFetchInProgress = false;
-    });
-}
-
 /**
  * Cost Calculator class
  */
 export class CostCalculator {
-  private pricing: ModelPricing[];
+  /** Fixed table; null follows the pricing store (built-in plus overrides) */
+  private pricing: ModelPricing[] | null;
   private defaultModel: string;
 
   constructor(options?: { customPricing?: ModelPricing[]; defaultModel?: string }) {
-    this.pricing = options?.customPricing || DEFAULT_MODEL_PRICING;
+    this.pricing = options?.customPricing || null;
     this.defaultModel = options?.defaultModel || 'claude-opus-4-6';
   }
 
+  private getTable(): ModelPricing[] {
+    if (this.pricing) return this.pricing;
+    const { getPricingStore } = require('./pricing-store');
+    return getPricingStore().getTable();
+  }
+
   /**
-   * Get pricing for a specific model
+   * Get pricing for a specific model, as in effect at `at` (default: now).
+   * Unknown models are priced as the default model.
    */
-  getPricing(model: string): ModelPricing {
-    // Normalize model name for matching
-    const normalizedModel = model.toLowerCase().replace(/[^a-z0-9]/g, '-');
-
-    // 1. Try local pricing array
-    for (const price of this.pricing) {
-      const normalizedPattern = price.modelPattern.toLowerCase().replace(/[^a-z0-9]/g, '-');
-      if (normalizedModel.includes(normalizedPattern)) {
-        return price;
-      }
-    }
-
-    // 2. Try LiteLLM cache (populated asynchronously)
-    if (litellmCache) {
-      // Try exact key first, then substring match
-      const exact = litellmCache.get(model);
-      if (exact) return exact;
-      for (const [key, pricing] of litellmCache) {
-        const normalizedKey = key.toLowerCase().replace(/[^a-z0-9]/g, '-');
-        if (normalizedModel.includes(normalizedKey) || normalizedKey.includes(normalizedModel)) {
-          return pricing;
-        }
-      }
-    } else {
-      // Trigger background fetch for next time
-      fetchLiteLLMPricing();
-    }
-
-    // 3. Default to first pricing entry
-    return this.pricing[0];
+  getPricing(model: string, at?: string | number | Date): ModelPricing {
+    const table = this.getTable();
+    return selectPricing(table, model, at)
+      || selectPricing(table, this.defaultModel, at)
+      || table[0];
   }
 
   /**
@@ -287,9 +320,17 @@ export class CostCalculator {
    * across many API calls. Tiered pricing (above-200k) is a per-call concept
    * and cannot be correctly applied to cumulative totals, so base rates are
    * used. Set `cumulative: false` only when passing per-call token counts.
+   *
+   * `at` selects the price version in effect at that time (usually the
+   * message timestamp); default is now. Session totals go through
+   * calculateSessionCost.
    */
-  calculateCost(usage: TokenUsage, model?: string, options?: { cumulative?: boolean }): CostEstimate {
-    const pricing = this.getPricing(model || this.defaultModel);
+  calculateCost(
+    usage: TokenUsage,
+    model?: string,
+    options?: { cumulative?: boolean; at?: string | number | Date }
+  ): CostEstimate {
+    const pricing = this.getPricing(model || this.defaultModel, options?.at);
     const threshold = pricing.tieredThreshold || 200_000;
     // Default to cumulative (no tiering) — callers must opt in to per-call tiering
     const isCumulative = options?.cumulative !== false;
@@ -351,6 +392,37 @@ export class CostCalculator {
     };
   }
 
+  /**
+   * Cost of a session's summed usage. Usage kept per UTC day (see
+   * addDailyUsage) is priced one day at a time with the version in effect
+   * that day; versions start on UTC dates, so no day spans two. Without it
+   * the sum is priced at the session's last message. `onlyModel` restricts
+   * the cost to one model's usage. Base rates, as for any cumulative count.
+   */
+  calculateSessionCost(
+    session: {
+      usage: TokenUsage;
+      model?: string;
+      lastTimestamp?: string;
+      usageByDay?: DailyUsage;
+    },
+    onlyModel?: string
+  ): number {
+    const days = session.usageByDay ? Object.entries(session.usageByDay) : [];
+    if (days.length === 0) {
+      return this.calculateCost(session.usage, onlyModel || session.model || '', { at: session.lastTimestamp }).totalCost;
+    }
+
+    let total = 0;
+    for (const [day, models] of days) {
+      for (const [model, usage] of Object.entries(models)) {
+        if (onlyModel && model !== onlyModel) continue;
+        total += this.calculateCost(usage, model || session.model || '', { at: `${day}T00:00:00Z` }).totalCost;
+      }
+    }
+    return total;
+  }
+
   /**
    * Estimate cost for a prompt before execution
    * Based on character count (rough estimate: ~4 chars per token)
@@ -489,14 +561,15 @@ export class CostCalculator {
    * Get all available pricing
    */
   getAllPricing(): ModelPricing[] {
-    return [...this.pricing];
+    return [...this.getTable()];
   }
 
   /**
-   * Add custom pricing
+   * Add custom pricing to this instance only (see the pricing store for
+   * persistent overrides)
    */
   addPricing(pricing: ModelPricing): void {
-    this.pricing.push(pricing);
+    this.pricing = [...this.getTable(), pricing];
   }
 
   /**
@@ -528,7 +601,7 @@ export class CostCalculator {
     let periodEnd = new Date(0);
 
     for (const item of data) {
-      const cost = this.calculateCost(item.tokens, item.model);
+      const cost = this.calculateCost(item.tokens, item.model, { at: item.date });
 
       // Track totals
       totalMessages++;
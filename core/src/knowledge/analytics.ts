@@ -0,0 +1,507 @@
+/**
+ * Knowledge Usage Analytics
+ *
+ * Per-document usage counters, used to report which knowledge actually helps
+ * and to rank it accordingly (compositeScore `usefulness` option).
+ *
+ * Sources:
+ *   - MCP call log (~/.lm-assist/logs/mcp-calls.jsonl, plus its .1 backup):
+ *       search   → retrieval for every [knowledge] K###.N line in the result
+ *       detail   → detail view for a K### / K###.N id
+ *       feedback → feedback count by type (useful, irrelevant, wrong, ...)
+ *     The log is read incrementally from the last offset; rotation is detected
+ *     by the file's first line changing.
+ *   - /context/suggest: recordInjection() for every entry injected into a prompt
+ *
+ * Only the core API process writes the state file (refresh / recordInjection).
+ * Other processes (the MCP server) read it through getUsefulnessLookup(),
+ * which reloads when the file's mtime changes.
+ *
+ * State: ~/.lm-assist/knowledge/usage-analytics.json
+ * Singleton via getKnowledgeAnalytics().
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getKnowledgeStore } from './store';
+import { getDataDir } from '../utils/path-utils';
+
+// ── Types ──────────────────────────────────────────
+
+/** Feedback types accepted by the MCP feedback tool */
+export type KnowledgeFeedbackType = 'outdated' | 'wrong' | 'irrelevant' | 'needs_update' | 'useful';
+
+const FEEDBACK_TYPES: KnowledgeFeedbackType[] = ['outdated', 'wrong', 'irrelevant', 'needs_update', 'useful'];
+
+export interface KnowledgeUsage {
+  /** Times the document appeared in MCP search results */
+  retrievals: number;
+  /** Times the document (or one of its parts) was expanded with detail */
+  detailViews: number;
+  /** Times the document was injected into a prompt by /context/suggest */
+  injections: number;
+  feedback: Record<KnowledgeFeedbackType, number>;
+  lastRetrievedAt?: string;
+  lastInjectedAt?: string;
+  lastFeedbackAt?: string;
+}
+
+export interface KnowledgeAnalyticsEntry extends KnowledgeUsage {
+  id: string;
+  title: string;
+  project: string;
+  type: string;
+  status: string;
+  /** Most recent retrieval, detail view, injection or feedback */
+  lastUsedAt: string | null;
+  /** useful / all feedback (null without feedback) */
+  usefulRatio: number | null;
+  /** irrelevant + wrong / all feedback (null without feedback) */
+  negativeRatio: number | null;
+  /** detail views / retrievals (null below MIN_RETRIEVALS_FOR_CTR) */
+  detailRate: number | null;
+  /** Ranking multiplier applied by compositeScore (1 = neutral) */
+  usefulness: number;
+}
+
+export interface KnowledgeAnalyticsSummary {
+  generatedAt: string;
+  logProcessedAt: string | null;
+  totals: {
+    documents: number;
+    used: number;
+    retrievals: number;
+    detailViews: number;
+    injections: number;
+    feedback: Record<KnowledgeFeedbackType, number>;
+  };
+  entries: KnowledgeAnalyticsEntry[];
+}
+
+interface LogCursor {
+  /** Byte offset already processed in the current log file */
+  offset: number;
+  /** First line of the log file when the offset was recorded */
+  head: string;
+}
+
+interface AnalyticsStateFile {
+  cursor: LogCursor | null;
+  logProcessedAt: string | null;
+  docs: Record<string, KnowledgeUsage>;
+}
+
+// ── Constants ──────────────────────────────────────────
+
+const STATE_FILE = path.join(getDataDir(), 'knowledge', 'usage-analytics.json');
+const MCP_LOG_FILE = path.join(getDataDir(), 'logs', 'mcp-calls.jsonl');
+
+/** Knowledge lines in formatted MCP search results: "3. [knowledge] K012.2: ..." */
+const SEARCH_HIT_RE = /^\d+\. \[knowledge\] (K\d+)(?:\.\d+)?:/gm;
+
+const KNOWLEDGE_ID_RE = /^(K\d+)(?:\.\d+)?$/;
+
+/** Feedback that means "this should not have been surfaced" */
+const NEGATIVE_FEEDBACK: KnowledgeFeedbackType[] = ['irrelevant', 'wrong'];
+
+/** Weight of the smoothed feedback ratio: ±0.4 around neutral */
+const FEEDBACK_WEIGHT = 0.8;
+
+/** Retrievals needed before the detail rate counts */
+const MIN_RETRIEVALS_FOR_CTR = 5;
+
+/** Detail rate treated as fully engaged */
+const FULL_DETAIL_RATE = 0.5;
+
+const MIN_USEFULNESS = 0.5;
+const MAX_USEFULNESS = 1.5;
+
+/** Delay before persisting injection counts */
+const SAVE_DELAY_MS = 2000;
+
+/** How long the counters from the last MCP log read stay fresh enough for ranking */
+const REFRESH_TTL_MS = 30_000;
+
+// ── Scoring ──────────────────────────────────────────
+
+function emptyUsage(): KnowledgeUsage {
+  return {
+    retrievals: 0,
+    detailViews: 0,
+    injections: 0,
+    feedback: { outdated: 0, wrong: 0, irrelevant: 0, needs_update: 0, useful: 0 },
+  };
+}
+
+function sumFeedback(usage: KnowledgeUsage): number {
+  return FEEDBACK_TYPES.reduce((sum, t) => sum + usage.feedback[t], 0);
+}
+
+function detailRate(usage: KnowledgeUsage): number | null {
+  return usage.retrievals >= MIN_RETRIEVALS_FOR_CTR ? usage.detailViews / usage.retrievals : null;
+}
+
+/**
+ * Ranking multiplier for a document's usage:
+ *   - feedback: Laplace-smoothed useful vs irrelevant/wrong ratio, so a single
+ *     vote moves the score a little and repeated votes move it up to ±40%
+ *   - engagement: once retrieved often enough, documents that are expanded
+ *     after being found get up to +10%, ones that never are get -10%
+ * Outdated / needs_update feedback is left to staleness handling.
+ */
+export function computeUsefulness(usage: KnowledgeUsage | undefined): number {
+  if (!usage) return 1;
+
+  const useful = usage.feedback.useful;
+  const negative = NEGATIVE_FEEDBACK.reduce((sum, t) => sum + usage.feedback[t], 0);
+  const ratio = (useful + 1) / (useful + negative + 2);
+  let multiplier = 1 + (ratio - 0.5) * FEEDBACK_WEIGHT;
+
+  const rate = detailRate(usage);
+  if (rate !== null) {
+    multiplier *= 0.9 + 0.2 * Math.min(1, rate / FULL_DETAIL_RATE);
+  }
+
+  return Math.min(MAX_USEFULNESS, Math.max(MIN_USEFULNESS, Math.round(multiplier * 1000) / 1000));
+}
+
+/** Most recent retrieval, detail view, injection or feedback */
+function lastUsedOf(usage: KnowledgeUsage): string | null {
+  return [usage.lastRetrievedAt, usage.lastInjectedAt, usage.lastFeedbackAt]
+    .filter((t): t is string => !!t)
+    .sort()
+    .pop() || null;
+}
+
+function knowledgeDocId(id: unknown): string | null {
+  const match = typeof id === 'string' ? id.trim().match(KNOWLEDGE_ID_RE) : null;
+  return match ? match[1] : null;
+}
+
+function laterOf(a: string | undefined, b: string): string {
+  return !a || b > a ? b : a;
+}
+
+// ── Analytics ──────────────────────────────────────────
+
+export class KnowledgeAnalytics {
+  private state: AnalyticsStateFile | null = null;
+  private stateMtime = 0;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private lastRefreshAt = 0;
+
+  // ── State ──────────────────────────────────────────
+
+  /** Load state, re-reading the file if another process wrote it */
+  private getState(): AnalyticsStateFile {
+    let mtime = 0;
+    try {
+      mtime = fs.statSync(STATE_FILE).mtimeMs;
+    } catch {
+      // No state yet
+    }
+    if (this.state && (this.saveTimer || mtime === this.stateMtime)) return this.state;
+
+    let state: AnalyticsStateFile = { cursor: null, logProcessedAt: null, docs: {} };
+    try {
+      if (mtime) {
+        const data = JSON.parse(fs.readFileSync(STATE_FILE, 'utf-8'));
+        if (data && typeof data.docs === 'object') state = data;
+      }
+    } catch {
+      // Corrupt state — counts restart from the current log contents
+    }
+    this.state = state;
+    this.stateMtime = mtime;
+    return state;
+  }
+
+  private saveState(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.state) return;
+
+    const dir = path.dirname(STATE_FILE);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(STATE_FILE, JSON.stringify(this.state, null, 2));
+    this.stateMtime = fs.statSync(STATE_FILE).mtimeMs;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      try {
+        this.saveState();
+      } catch (err) {
+        console.warn('[KnowledgeAnalytics] Failed to save usage state:', err);
+      }
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private usageFor(state: AnalyticsStateFile, id: string): KnowledgeUsage {
+    if (!state.docs[id]) state.docs[id] = emptyUsage();
+    return state.docs[id];
+  }
+
+  // ── Recording ──────────────────────────────────────────
+
+  /**
+   * Count entries injected into a prompt by /context/suggest.
+   * Accepts document or part IDs; each document counts once per call.
+   */
+  recordInjection(ids: string[], at = new Date().toISOString()): void {
+    const state = this.getState();
+    const docs = new Set(ids.map(knowledgeDocId).filter((id): id is string => !!id));
+    for (const id of docs) {
+      const usage = this.usageFor(state, id);
+      usage.injections++;
+      usage.lastInjectedAt = laterOf(usage.lastInjectedAt, at);
+    }
+    if (docs.size > 0) this.scheduleSave();
+  }
+
+  /**
+   * refresh() unless the log was read within the last REFRESH_TTL_MS.
+   * Used on hot paths (/context/suggest runs on every prompt).
+   */
+  refreshIfStale(): number {
+    if (Date.now() - this.lastRefreshAt < REFRESH_TTL_MS) return 0;
+    return this.refresh();
+  }
+
+  /**
+   * Fold new MCP log lines into the counters.
+   * Returns the number of log entries processed.
+   */
+  refresh(): number {
+    this.lastRefreshAt = Date.now();
+    const state = this.getState();
+    let head = '';
+    let size = 0;
+    try {
+      size = fs.statSync(MCP_LOG_FILE).size;
+      head = this.readHead(MCP_LOG_FILE);
+    } catch {
+      return 0;
+    }
+
+    let processed = 0;
+    let offset = 0;
+    const cursor = state.cursor;
+    if (cursor && cursor.head === head && cursor.offset <= size) {
+      offset = cursor.offset;
+    } else if (cursor) {
+      // Rotated since the last run: finish the backup before starting the new file
+      const backup = MCP_LOG_FILE + '.1';
+      try {
+        if (this.readHead(backup) === cursor.head) {
+          processed += this.processLog(state, backup, cursor.offset, fs.statSync(backup).size).count;
+        }
+      } catch {
+        // Backup already gone — those entries are lost
+      }
+    }
+
+    const current = this.processLog(state, MCP_LOG_FILE, offset, size);
+    processed += current.count;
+    state.cursor = { offset: current.offset, head };
+    if (processed > 0 || !cursor || cursor.offset !== current.offset || cursor.head !== head) {
+      state.logProcessedAt = new Date().toISOString();
+      this.saveState();
+    }
+    return processed;
+  }
+
+  private readHead(file: string): string {
+    const fd = fs.openSync(file, 'r');
+    try {
+      const buf = Buffer.alloc(512);
+      const bytes = fs.readSync(fd, buf, 0, buf.length, 0);
+      return buf.toString('utf-8', 0, bytes).split('\n')[0];
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /**
+   * Process complete lines in [start, end). Returns the entry count and the
+   * offset after the last complete line (a partial line is left for next time).
+   */
+  private processLog(state: AnalyticsStateFile, file: string, start: number, end: number): { count: number; offset: number } {
+    if (end <= start) return { count: 0, offset: start };
+
+    const fd = fs.openSync(file, 'r');
+    let text: string;
+    let offset: number;
+    try {
+      const buf = Buffer.alloc(end - start);
+      const bytes = fs.readSync(fd, buf, 0, buf.length, start);
+      const complete = buf.subarray(0, bytes).lastIndexOf(0x0a) + 1;
+      text = buf.toString('utf-8', 0, complete);
+      offset = start + complete;
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    let count = 0;
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      let entry: any;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (!entry || entry.isError) continue;
+      this.applyLogEntry(state, entry);
+      count++;
+    }
+    return { count, offset };
+  }
+
+  private applyLogEntry(state: AnalyticsStateFile, entry: any): void {
+    const at: string = entry.ts || new Date().toISOString();
+    const args = entry.args || {};
+
+    switch (entry.tool) {
+      case 'search': {
+        const docs = new Set<string>();
+        for (const match of String(entry.result || '').matchAll(SEARCH_HIT_RE)) {
+          docs.add(match[1]);
+        }
+        for (const id of docs) {
+          const usage = this.usageFor(state, id);
+          usage.retrievals++;
+          usage.lastRetrievedAt = laterOf(usage.lastRetrievedAt, at);
+        }
+        break;
+      }
+      case 'detail': {
+        const id = knowledgeDocId(args.id);
+        if (!id) break;
+        const usage = this.usageFor(state, id);
+        usage.detailViews++;
+        usage.lastRetrievedAt = laterOf(usage.lastRetrievedAt, at);
+        break;
+      }
+      case 'feedback': {
+        const id = knowledgeDocId(args.id);
+        const type = args.type as KnowledgeFeedbackType;
+        if (!id || !FEEDBACK_TYPES.includes(type)) break;
+        const usage = this.usageFor(state, id);
+        usage.feedback[type]++;
+        usage.lastFeedbackAt = laterOf(usage.lastFeedbackAt, at);
+        break;
+      }
+    }
+  }
+
+  // ── Queries ──────────────────────────────────────────
+
+  getUsage(knowledgeId: string): KnowledgeUsage | undefined {
+    return this.getState().docs[knowledgeId];
+  }
+
+  /** Last time the document was retrieved, injected or given feedback (null if never) */
+  getLastUsedAt(knowledgeId: string): string | null {
+    const usage = this.getState().docs[knowledgeId];
+    return usage ? lastUsedOf(usage) : null;
+  }
+
+  /**
+   * Usefulness multiplier per knowledge ID (document or part), for compositeScore.
+   * Reads the persisted state only — it never processes the log.
+   */
+  getUsefulnessLookup(): (knowledgeId: string) => number {
+    const docs = this.getState().docs;
+    const cache = new Map<string, number>();
+    return (knowledgeId: string) => {
+      const id = knowledgeDocId(knowledgeId);
+      if (!id) return 1;
+      if (!cache.has(id)) cache.set(id, computeUsefulness(docs[id]));
+      return cache.get(id)!;
+    };
+  }
+
+  /**
+   * Usage report for local knowledge, most used first.
+   * Documents that no longer exist are left out.
+   */
+  getSummary(options: { project?: string; includeUnused?: boolean } = {}): KnowledgeAnalyticsSummary {
+    const state = this.getState();
+    const index = getKnowledgeStore().getIndex();
+
+    const totals: KnowledgeAnalyticsSummary['totals'] = {
+      documents: 0,
+      used: 0,
+      retrievals: 0,
+      detailViews: 0,
+      injections: 0,
+      feedback: emptyUsage().feedback,
+    };
+    const entries: KnowledgeAnalyticsEntry[] = [];
+
+    for (const [id, meta] of Object.entries(index.knowledges)) {
+      if (meta.origin === 'remote') continue;
+      if (options.project && meta.project !== options.project) continue;
+      totals.documents++;
+
+      const usage = state.docs[id];
+      if (!usage && !options.includeUnused) continue;
+      const u = usage || emptyUsage();
+      const feedbackTotal = sumFeedback(u);
+      const lastUsedAt = lastUsedOf(u);
+
+      if (usage) {
+        totals.used++;
+        totals.retrievals += u.retrievals;
+        totals.detailViews += u.detailViews;
+        totals.injections += u.injections;
+        for (const t of FEEDBACK_TYPES) totals.feedback[t] += u.feedback[t];
+      }
+
+      entries.push({
+        id,
+        title: meta.title,
+        project: meta.project,
+        type: meta.type,
+        status: meta.status,
+        ...u,
+        lastUsedAt,
+        usefulRatio: feedbackTotal > 0 ? u.feedback.useful / feedbackTotal : null,
+        negativeRatio: feedbackTotal > 0
+          ? NEGATIVE_FEEDBACK.reduce((sum, t) => sum + u.feedback[t], 0) / feedbackTotal
+          : null,
+        detailRate: detailRate(u),
+        usefulness: computeUsefulness(usage),
+      });
+    }
+
+    entries.sort((a, b) =>
+      (b.retrievals + b.detailViews + b.injections) - (a.retrievals + a.detailViews + a.injections)
+      || a.id.localeCompare(b.id, undefined, { numeric: true }));
+
+    return {
+      generatedAt: new Date().toISOString(),
+      logProcessedAt: state.logProcessedAt,
+      totals,
+      entries,
+    };
+  }
+}
+
+// ── Singleton ──────────────────────────────────────────
+
+let instance: KnowledgeAnalytics | null = null;
+
+export function getKnowledgeAnalytics(): KnowledgeAnalytics {
+  if (!instance) {
+    instance = new KnowledgeAnalytics();
+  }
+  return instance;
+}
@@ -0,0 +1,296 @@
+/**
+ * Knowledge Bundles
+ *
+ * Portable export/import of a curated knowledge base — for seeding a new
+ * machine or checking knowledge into a repo without Hub remote-sync.
+ *
+ * A bundle carries, per document: the rendered K###.md, its comments and
+ * its index metadata. Two encodings:
+ *   - JSON: KnowledgeBundle object
+ *   - ZIP:  manifest.json + knowledge/K###.md + comments/K###.json
+ *
+ * Import never reuses bundle IDs: each accepted document gets a fresh local
+ * ID, and K### / K###.N references inside the bundle are rewritten to match.
+ * Documents whose normalized title already exists in the target project are
+ * skipped (references to them resolve to the existing local document).
+ */
+
+import * as os from 'os';
+import type { Knowledge, KnowledgeComment, KnowledgeIndex, KnowledgeType } from './types';
+import { getKnowledgeStore } from './store';
+import { parseKnowledgeMd, renderKnowledgeMd } from './parser';
+import { normalizeTitle } from './dedup';
+import { createZip, readZip } from '../utils/zip';
+
+// ─── Types ──────────────────────────────────────────────────
+
+export const BUNDLE_FORMAT = 'lm-assist-knowledge';
+export const BUNDLE_VERSION = 1;
+
+export interface KnowledgeExportFilters {
+  project?: string;
+  type?: KnowledgeType;
+  status?: string;
+  /** Review rating; 'unrated' selects documents never reviewed */
+  rating?: 'good' | 'borderline' | 'bad' | 'unrated';
+  ids?: string[];
+}
+
+export interface KnowledgeBundleEntry {
+  id: string;
+  markdown: string;
+  comments: KnowledgeComment[];
+  index: KnowledgeIndex['knowledges'][string] | null;
+}
+
+export interface KnowledgeBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  source: { hostname: string; platform: string };
+  filters: KnowledgeExportFilters;
+  entries: KnowledgeBundleEntry[];
+}
+
+export interface KnowledgeImportOptions {
+  /** Rewrite every imported document's project path (paths differ across machines) */
+  project?: string;
+  /** Report what would happen without writing anything */
+  dryRun?: boolean;
+}
+
+export interface KnowledgeImportResult {
+  imported: Array<{ from: string; to: string; title: string }>;
+  skipped: Array<{ from: string; title: string; reason: 'duplicate-title' | 'invalid'; existingId?: string }>;
+  commentsImported: number;
+  vectorsIndexed: number;
+  dryRun: boolean;
+}
+
+/** K001 or K001.2 — word-bounded so "K001abc" doesn't match */
+const KNOWLEDGE_REF_RE = /\bK(\d{3,})(\.\d+)?\b/g;
+
+// ─── Export ──────────────────────────────────────────────────
+
+/**
+ * Collect local knowledge matching the filters into a bundle.
+ */
+export function exportKnowledgeBundle(filters: KnowledgeExportFilters = {}): KnowledgeBundle {
+  const store = getKnowledgeStore();
+  const index = store.getIndex();
+  const ids = filters.ids ? new Set(filters.ids) : null;
+
+  const entries: KnowledgeBundleEntry[] = store
+    .getAllKnowledge(filters.project, filters.type, filters.status, 'local')
+    .filter(k => !ids || ids.has(k.id))
+    .filter(k => {
+      if (!filters.rating) return true;
+      return filters.rating === 'unrated' ? !k.reviewRating : k.reviewRating === filters.rating;
+    })
+    .sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }))
+    .map(k => ({
+      id: k.id,
+      markdown: renderKnowledgeMd(k),
+      comments: store.getComments(k.id, true),
+      index: index.knowledges[k.id] || null,
+    }));
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: { hostname: os.hostname(), platform: os.platform() },
+    filters,
+    entries,
+  };
+}
+
+/**
+ * Encode a bundle as a ZIP archive.
+ */
+export function bundleToZip(bundle: KnowledgeBundle): Buffer {
+  const { entries, ...header } = bundle;
+  const manifest = {
+    ...header,
+    entries: entries.map(e => ({ id: e.id, index: e.index })),
+  };
+
+  return createZip([
+    { name: 'manifest.json', data: Buffer.from(JSON.stringify(manifest, null, 2)) },
+    ...entries.map(e => ({ name: `knowledge/${e.id}.md`, data: Buffer.from(e.markdown) })),
+    ...entries
+      .filter(e => e.comments.length > 0)
+      .map(e => ({ name: `comments/${e.id}.json`, data: Buffer.from(JSON.stringify(e.comments, null, 2)) })),
+  ]);
+}
+
+/**
+ * Decode a ZIP archive produced by bundleToZip (or assembled by hand with the same layout).
+ */
+export function bundleFromZip(buffer: Buffer): KnowledgeBundle {
+  const files = new Map(readZip(buffer).map(f => [f.name.replace(/^\.?\//, ''), f.data]));
+
+  const manifestData = files.get('manifest.json');
+  const manifest = manifestData ? JSON.parse(manifestData.toString('utf-8')) : null;
+  const indexById = new Map<string, KnowledgeBundleEntry['index']>(
+    (manifest?.entries || []).map((e: any) => [e.id, e.index || null]),
+  );
+
+  const entries: KnowledgeBundleEntry[] = [];
+  for (const [name, data] of files) {
+    const match = name.match(/^knowledge\/(K\d+)\.md$/);
+    if (!match) continue;
+    const id = match[1];
+    const comments = files.get(`comments/${id}.json`);
+    entries.push({
+      id,
+      markdown: data.toString('utf-8'),
+      comments: comments ? JSON.parse(comments.toString('utf-8')) : [],
+      index: indexById.get(id) || null,
+    });
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: manifest?.version ?? BUNDLE_VERSION,
+    exportedAt: manifest?.exportedAt || new Date().toISOString(),
+    source: manifest?.source || { hostname: 'unknown', platform: 'unknown' },
+    filters: manifest?.filters || {},
+    entries,
+  };
+}
+
+// ─── Import ──────────────────────────────────────────────────
+
+function remapRefs(text: string, idMap: Map<string, string>): string {
+  return text.replace(KNOWLEDGE_REF_RE, (ref, num: string, part: string | undefined) => {
+    const mapped = idMap.get(`K${num}`);
+    return mapped ? `${mapped}${part || ''}` : ref;
+  });
+}
+
+/**
+ * Import a bundle: dedup by title, remap IDs and cross-references, copy
+ * comments, then index vectors for the new documents.
+ */
+export async function importKnowledgeBundle(
+  bundle: KnowledgeBundle,
+  options: KnowledgeImportOptions = {},
+): Promise<KnowledgeImportResult> {
+  if (bundle.format !== BUNDLE_FORMAT) {
+    throw new Error(`Not a knowledge bundle (format: ${bundle.format ?? 'missing'})`);
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${bundle.version} is newer than supported version ${BUNDLE_VERSION}`);
+  }
+
+  const store = getKnowledgeStore();
+  const result: KnowledgeImportResult = { imported: [], skipped: [], commentsImported: 0, vectorsIndexed: 0, dryRun: !!options.dryRun };
+
+  // Existing local titles per project (normalized) → ID
+  const existingTitles = new Map<string, string>();
+  for (const [id, meta] of Object.entries(store.getIndex().knowledges)) {
+    if (meta.origin === 'remote') continue;
+    existingTitles.set(`${meta.project}\0${normalizeTitle(meta.title)}`, id);
+  }
+
+  // Pass 1: parse, dedup, and decide the ID for every bundle entry
+  const idMap = new Map<string, string>();
+  const accepted: Array<{ entry: KnowledgeBundleEntry; knowledge: Knowledge }> = [];
+  for (const entry of bundle.entries) {
+    const knowledge = parseKnowledgeMd(entry.markdown);
+    if (!knowledge) {
+      result.skipped.push({ from: entry.id, title: entry.index?.title || entry.id, reason: 'invalid' });
+      continue;
+    }
+    if (options.project) knowledge.project = options.project;
+
+    const titleKey = `${knowledge.project}\0${normalizeTitle(knowledge.title)}`;
+    const existingId = existingTitles.get(titleKey);
+    if (existingId) {
+      idMap.set(entry.id, existingId);
+      result.skipped.push({ from: entry.id, title: knowledge.title, reason: 'duplicate-title', existingId });
+      continue;
+    }
+
+    const newId = options.dryRun ? `(new:${entry.id})` : store.reserveId();
+    idMap.set(entry.id, newId);
+    existingTitles.set(titleKey, newId);
+    accepted.push({ entry, knowledge });
+  }
+
+  if (options.dryRun) {
+    for (const { entry, knowledge } of accepted) {
+      result.imported.push({ from: entry.id, to: idMap.get(entry.id)!, title: knowledge.title });
+      result.commentsImported += entry.comments.length;
+    }
+    return result;
+  }
+
+  // Pass 2: rewrite IDs and references, then write documents + comments
+  const created: Knowledge[] = [];
+  for (const { entry, knowledge } of accepted) {
+    const newId = idMap.get(entry.id)!;
+    const remapped: Knowledge = {
+      ...knowledge,
+      id: newId,
+      title: remapRefs(knowledge.title, idMap),
+      parts: knowledge.parts.map((p, i) => ({
+        partId: `${newId}.${i + 1}`,
+        title: remapRefs(p.title, idMap),
+        summary: remapRefs(p.summary, idMap),
+        content: remapRefs(p.content, idMap),
+        // Links only survive when their target came along (or already existed locally)
+        links: p.links
+          ?.filter(l => idMap.has(l.target.replace(/\.\d+$/, '')))
+          .map(l => ({ ...l, target: remapRefs(l.target, idMap) })),
+      })),
+      // Imported documents are local to this machine
+      origin: undefined,
+      machineId: undefined,
+      machineHostname: undefined,
+      machineOS: undefined,
+    };
+
+    const saved = store.createKnowledgeFromMd(renderKnowledgeMd(remapped), { author: 'user' });
+    if (!saved) {
+      result.skipped.push({ from: entry.id, title: knowledge.title, reason: 'invalid' });
+      continue;
+    }
+    created.push(saved);
+    result.imported.push({ from: entry.id, to: saved.id, title: saved.title });
+
+    for (const comment of entry.comments) {
+      const added = store.addComment({
+        knowledgeId: saved.id,
+        partId: comment.partId ? remapRefs(comment.partId, idMap) : undefined,
+        type: comment.type,
+        content: remapRefs(comment.content, idMap),
+        source: comment.source,
+      });
+      if (comment.state === 'addressed') {
+        store.updateCommentState(saved.id, added.id, 'addressed', comment.addressedBy);
+      }
+      result.commentsImported++;
+    }
+  }
+
+  // Re-index vectors for the imported documents (skip excluded / BAD, like the pipeline)
+  try {
+    const { getVectorStore } = require('../vector/vector-store');
+    const { extractKnowledgeVectors } = require('../vector/indexer');
+    const vectra = getVectorStore();
+    const vectors = created
+      .filter(k => k.status !== 'excluded' && k.reviewRating !== 'bad')
+      .flatMap(k => extractKnowledgeVectors(k));
+    if (vectors.length > 0) {
+      await vectra.addVectors(vectors);
+      await vectra.rebuildFtsIndex();
+      result.vectorsIndexed = vectors.length;
+    }
+  } catch (err) {
+    console.warn('[KnowledgeBundle] Vector indexing after import failed:', err);
+  }
+
+  return result;
+}
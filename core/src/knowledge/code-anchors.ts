@@ -0,0 +1,356 @@
+/**
+ * Knowledge Code Anchors
+ *
+ * Ties knowledge documents to the source files they describe so that later
+ * code changes can flag them as stale. Anchors are collected when a document
+ * is generated:
+ *   - explore-agent: files read / grepped by the subagent (subagent JSONL)
+ *   - generic-content: files touched by the parent session in the same turn
+ *   - any existing file path mentioned in the part text
+ *
+ * Each anchor records the git blob hash of the file at generation time plus
+ * the symbols that were searched for. The staleness check compares against
+ * the working tree: deleted files, files with enough line churn since the
+ * recorded commit, or files that lost an anchored symbol count as drifted.
+ * When the drifted share reaches the configured threshold the document is
+ * marked 'outdated' and an 'outdated' comment lists the affected files/parts.
+ * The reported drift is remembered, so a document the user re-activates is
+ * only flagged again when its files drift further.
+ *
+ * Git is called asynchronously and batched per document (one hash-object and
+ * one diff call), so checks do not block the event loop.
+ *
+ * Storage: ~/.lm-assist/knowledge/anchors/K001.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Knowledge, KnowledgeCodeAnchor, KnowledgeAnchorFile, KnowledgeDriftReport } from './types';
+import { getKnowledgeStore } from './store';
+import { getKnowledgeSettings } from './settings';
+import { getDataDir } from '../utils/path-utils';
+import { getRepoRoot, getCurrentCommit, hashWorkingFiles, getNumstatSinceAsync } from '../checkpoint/git-utils';
+
+// ── Constants ──────────────────────────────────────────
+
+const ANCHORS_DIR = path.join(getDataDir(), 'knowledge', 'anchors');
+
+/** Upper bound on anchored files per document */
+const MAX_ANCHORS = 50;
+
+/** Upper bound on anchored symbols per file */
+const MAX_SYMBOLS_PER_FILE = 10;
+
+/** Tool inputs that point at a single file */
+const FILE_TOOLS = new Set(['Read', 'Edit', 'MultiEdit', 'Write', 'NotebookEdit', 'NotebookRead']);
+
+/** Grep patterns that look like a plain identifier are treated as symbols */
+const SYMBOL_RE = /^[A-Za-z_$][\w$]{2,}$/;
+
+/** File-path-looking tokens in knowledge text (e.g. src/foo/bar.ts) */
+const PATH_MENTION_RE = /(?:[\w@.-]+\/)*[\w@.-]+\.[A-Za-z]{1,5}\b/g;
+
+// ── Storage ──────────────────────────────────────────
+
+function anchorsPath(knowledgeId: string): string {
+  return path.join(ANCHORS_DIR, `${knowledgeId}.json`);
+}
+
+export function getCodeAnchors(knowledgeId: string): KnowledgeAnchorFile | null {
+  try {
+    const filePath = anchorsPath(knowledgeId);
+    if (!fs.existsSync(filePath)) return null;
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function saveCodeAnchors(file: KnowledgeAnchorFile): void {
+  if (!fs.existsSync(ANCHORS_DIR)) {
+    fs.mkdirSync(ANCHORS_DIR, { recursive: true });
+  }
+  fs.writeFileSync(anchorsPath(file.knowledgeId), JSON.stringify(file, null, 2));
+}
+
+// ── Collection ──────────────────────────────────────────
+
+interface ToolRef {
+  file?: string;
+  symbol?: string;
+}
+
+function toolRefs(toolUses: Array<{ name: string; input: any }>): ToolRef[] {
+  const refs: ToolRef[] = [];
+  for (const tool of toolUses) {
+    const input = tool.input || {};
+    if (FILE_TOOLS.has(tool.name)) {
+      const file = input.file_path || input.notebook_path;
+      if (typeof file === 'string') refs.push({ file });
+    } else if (tool.name === 'Grep') {
+      const symbol = typeof input.pattern === 'string' && SYMBOL_RE.test(input.pattern) ? input.pattern : undefined;
+      const file = typeof input.path === 'string' ? input.path : undefined;
+      refs.push({ file, symbol });
+    }
+  }
+  return refs;
+}
+
+/**
+ * Tool uses that produced a knowledge document: the explore subagent's own
+ * tool calls, or the parent session's calls in the turn that produced the content.
+ */
+async function loadSourceToolUses(knowledge: Knowledge): Promise<Array<{ name: string; input: any }>> {
+  if (!knowledge.sourceSessionId) return [];
+
+  const { getSessionReader } = require('../session-reader');
+  const { getSessionCache } = require('../session-cache');
+
+  const reader = getSessionReader();
+  const cache = getSessionCache();
+
+  if (cache.isWarming()) {
+    await cache.waitForWarming();
+  }
+
+  const sessionPath: string = reader.getSessionFilePath(knowledge.sourceSessionId, knowledge.project);
+
+  if (knowledge.sourceAgentId && (knowledge.sourceIdentifier || 'explore-agent') === 'explore-agent') {
+    const projectDir = path.dirname(sessionPath);
+    const candidates = [
+      path.join(projectDir, knowledge.sourceSessionId, 'subagents', `agent-${knowledge.sourceAgentId}.jsonl`),
+      path.join(projectDir, `agent-${knowledge.sourceAgentId}.jsonl`),
+    ];
+    for (const agentPath of candidates) {
+      if (!fs.existsSync(agentPath)) continue;
+      const data = await cache.getSessionData(agentPath);
+      if (data?.toolUses?.length) return data.toolUses;
+    }
+    return [];
+  }
+
+  if (knowledge.sourceLineIndex === undefined) return [];
+  const data = await cache.getSessionData(sessionPath);
+  if (!data) return [];
+
+  // Window: from the user prompt that started this turn up to the source message
+  const end = knowledge.sourceLineIndex;
+  const start = (data.userPrompts || [])
+    .filter((p: any) => p.lineIndex <= end)
+    .reduce((max: number, p: any) => Math.max(max, p.lineIndex), -1);
+  return (data.toolUses || []).filter((t: any) => t.lineIndex > start && t.lineIndex <= end);
+}
+
+function toRepoRelative(repoRoot: string, projectPath: string, filePath: string): string | null {
+  const abs = path.isAbsolute(filePath) ? filePath : path.join(projectPath, filePath);
+  const rel = path.relative(repoRoot, abs);
+  if (!rel || rel.startsWith('..') || path.isAbsolute(rel)) return null;
+  try {
+    if (!fs.statSync(abs).isFile()) return null;
+  } catch {
+    return null;
+  }
+  return rel.split(path.sep).join('/');
+}
+
+function readRepoFile(repoRoot: string, relPath: string): string | null {
+  try {
+    return fs.readFileSync(path.join(repoRoot, relPath), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/** Parts whose text mentions the file by relative path or basename */
+function referencingParts(knowledge: Knowledge, relPath: string): string[] {
+  const base = path.posix.basename(relPath);
+  return knowledge.parts
+    .filter(p => {
+      const text = `${p.title}\n${p.summary}\n${p.content}`;
+      return text.includes(relPath) || text.includes(base);
+    })
+    .map(p => p.partId);
+}
+
+/**
+ * Record code anchors for a freshly generated (or regenerated) document.
+ * Best-effort: returns null when the project is not a git repo or no files
+ * could be anchored.
+ */
+export async function recordCodeAnchors(knowledge: Knowledge): Promise<KnowledgeAnchorFile | null> {
+  if (knowledge.origin === 'remote') return null;
+
+  const repoRoot = getRepoRoot(knowledge.project);
+  if (!repoRoot) return null;
+
+  const files = new Map<string, Set<string>>();
+  const symbols = new Set<string>();
+
+  const addFile = (rel: string | null): void => {
+    if (rel && !files.has(rel) && files.size < MAX_ANCHORS) files.set(rel, new Set());
+  };
+
+  for (const ref of toolRefs(await loadSourceToolUses(knowledge))) {
+    if (ref.file) addFile(toRepoRelative(repoRoot, knowledge.project, ref.file));
+    if (ref.symbol) symbols.add(ref.symbol);
+  }
+
+  const text = knowledge.parts.map(p => `${p.summary}\n${p.content}`).join('\n');
+  for (const mention of new Set(text.match(PATH_MENTION_RE) || [])) {
+    addFile(toRepoRelative(repoRoot, knowledge.project, mention) ?? toRepoRelative(repoRoot, repoRoot, mention));
+  }
+
+  if (files.size === 0) return null;
+
+  // A searched symbol anchors to every file that contained it at generation time
+  const hashes = await hashWorkingFiles(repoRoot, [...files.keys()]);
+  const anchors: KnowledgeCodeAnchor[] = [];
+  for (const [rel, fileSymbols] of files) {
+    const content = readRepoFile(repoRoot, rel);
+    if (content !== null) {
+      for (const symbol of symbols) {
+        if (fileSymbols.size >= MAX_SYMBOLS_PER_FILE) break;
+        if (content.includes(symbol)) fileSymbols.add(symbol);
+      }
+    }
+    anchors.push({
+      path: rel,
+      blobHash: hashes.get(rel) ?? null,
+      symbols: [...fileSymbols],
+      partIds: referencingParts(knowledge, rel),
+    });
+  }
+
+  const file: KnowledgeAnchorFile = {
+    knowledgeId: knowledge.id,
+    repoRoot,
+    commit: getCurrentCommit(repoRoot),
+    recordedAt: new Date().toISOString(),
+    anchors,
+  };
+  saveCodeAnchors(file);
+  return file;
+}
+
+// ── Drift Detection ──────────────────────────────────────────
+
+/**
+ * Compare a document's anchors against the current working tree. Also returns
+ * a signature per drifted file (path, reason, current blob hash) used to tell
+ * new drift from drift that was already reported.
+ */
+async function evaluateDrift(file: KnowledgeAnchorFile): Promise<{ report: KnowledgeDriftReport; signatures: string[] }> {
+  const settings = getKnowledgeSettings();
+  const hashes = await hashWorkingFiles(file.repoRoot, file.anchors.map(a => a.path));
+  const changed = file.anchors.filter(a => {
+    const hash = hashes.get(a.path);
+    return hash != null && hash !== a.blobHash;
+  });
+  const numstat = file.commit
+    ? await getNumstatSinceAsync(file.repoRoot, file.commit, changed.map(a => a.path))
+    : new Map<string, { additions: number; deletions: number }>();
+
+  const drifted: KnowledgeDriftReport['drifted'] = [];
+  for (const anchor of file.anchors) {
+    const content = readRepoFile(file.repoRoot, anchor.path);
+    if (content === null) {
+      drifted.push({ path: anchor.path, reason: 'deleted', partIds: anchor.partIds });
+      continue;
+    }
+
+    const missingSymbols = anchor.symbols.filter(s => !content.includes(s));
+    if (missingSymbols.length > 0) {
+      drifted.push({ path: anchor.path, reason: 'symbols-missing', missingSymbols, partIds: anchor.partIds });
+      continue;
+    }
+
+    if (changed.includes(anchor)) {
+      // No numstat entry means the baseline commit is gone — treat the change as significant
+      const stat = numstat.get(anchor.path);
+      const churn = stat ? stat.additions + stat.deletions : Infinity;
+      if (churn >= settings.stalenessMinLineChurn) {
+        drifted.push({
+          path: anchor.path,
+          reason: 'changed',
+          additions: stat?.additions,
+          deletions: stat?.deletions,
+          partIds: anchor.partIds,
+        });
+      }
+    }
+  }
+
+  const driftRatio = drifted.length / file.anchors.length;
+  return {
+    report: {
+      knowledgeId: file.knowledgeId,
+      anchored: file.anchors.length,
+      drifted,
+      driftRatio,
+      stale: drifted.length > 0 && driftRatio >= settings.stalenessThreshold,
+    },
+    signatures: drifted.map(d => `${d.path}:${d.reason}:${hashes.get(d.path) ?? ''}`),
+  };
+}
+
+/**
+ * Compare a document's anchors against the current working tree.
+ */
+export async function checkDrift(knowledgeId: string): Promise<KnowledgeDriftReport | null> {
+  const file = getCodeAnchors(knowledgeId);
+  if (!file || file.anchors.length === 0) return null;
+  return (await evaluateDrift(file)).report;
+}
+
+function describeDrift(report: KnowledgeDriftReport): string {
+  const lines = report.drifted.map(d => {
+    const parts = d.partIds.length > 0 ? ` (parts ${d.partIds.join(', ')})` : '';
+    if (d.reason === 'deleted') return `- ${d.path}: deleted${parts}`;
+    if (d.reason === 'symbols-missing') return `- ${d.path}: no longer contains ${d.missingSymbols!.join(', ')}${parts}`;
+    const churn = d.additions !== undefined ? ` +${d.additions}/-${d.deletions}` : '';
+    return `- ${d.path}: changed${churn}${parts}`;
+  });
+  return `Source code changed since this knowledge was generated `
+    + `(${report.drifted.length}/${report.anchored} anchored files drifted):\n${lines.join('\n')}`;
+}
+
+/**
+ * Check all active local documents with anchors. Stale documents are marked
+ * 'outdated' with an explanatory comment unless dryRun is set. Documents whose
+ * drift was already reported (and that the user re-activated) are skipped
+ * until a file drifts further.
+ */
+export async function runStalenessCheck(options: { dryRun?: boolean } = {}): Promise<{
+  checked: number;
+  stale: KnowledgeDriftReport[];
+  flagged: string[];
+}> {
+  const store = getKnowledgeStore();
+  const stale: KnowledgeDriftReport[] = [];
+  const flagged: string[] = [];
+  let checked = 0;
+
+  for (const knowledge of store.getAllKnowledge(undefined, undefined, 'active', 'local')) {
+    const file = getCodeAnchors(knowledge.id);
+    if (!file || file.anchors.length === 0) continue;
+    const { report, signatures } = await evaluateDrift(file);
+    checked++;
+    if (!report.stale) continue;
+    if (file.flaggedAt && signatures.every(sig => file.flaggedDrift?.includes(sig))) continue;
+    stale.push(report);
+    if (options.dryRun) continue;
+
+    store.updateKnowledge(knowledge.id, { status: 'outdated' }, { author: 'generator' });
+    store.addComment({
+      knowledgeId: knowledge.id,
+      type: 'outdated',
+      content: describeDrift(report),
+      source: 'llm',
+    });
+
+    saveCodeAnchors({ ...file, flaggedAt: new Date().toISOString(), flaggedDrift: signatures });
+    flagged.push(knowledge.id);
+  }
+
+  return { checked, stale, flagged };
+}
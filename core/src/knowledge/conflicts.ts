@@ -0,0 +1,457 @@
+/**
+ * Knowledge Conflict Detection
+ *
+ * Finds local documents that contradict remote knowledge synced from other
+ * machines (remote-sync.ts), so agents aren't fed two diverging "truths".
+ *
+ * Detection:
+ *   1. Pair each active local document with active remote documents of the
+ *      same project whose parts are embedding neighbours (≥ CONFLICT_SIMILARITY_THRESHOLD)
+ *   2. Ask the LLM (CONFLICT_SYSTEM_PROMPT) whether the pair contradicts
+ *   3. Contradiction → open conflict + 'contradicts' comment on the local document
+ *      Consistent    → cached, and any open conflict for the pair is closed
+ * Verdicts are cached per pair by both documents' updatedAt, so unchanged
+ * pairs are never re-asked.
+ *
+ * Resolution (resolve):
+ *   - local:  keep the local document as is
+ *   - remote: replace the local document's content with the remote one
+ *   - merge:  LLM-merge both into the local document (MERGE_SYSTEM_PROMPT)
+ * Remote documents can't be edited here; while a conflict is open, or after it
+ * was resolved in favour of local/merge, the remote side is suppressed from
+ * search and context injection (isSuppressed).
+ *
+ * State: ~/.lm-assist/knowledge/conflicts.json
+ * Singleton via getKnowledgeConflicts().
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Knowledge } from './types';
+import { getKnowledgeStore } from './store';
+import { getKnowledgeSettings } from './settings';
+import { renderKnowledgeMd } from './parser';
+import { CONFLICT_SYSTEM_PROMPT, MERGE_SYSTEM_PROMPT } from './prompts';
+import { getDataDir } from '../utils/path-utils';
+
+// ── Types ──────────────────────────────────────────
+
+export type KnowledgeConflictResolution = 'local' | 'remote' | 'merge';
+
+export interface KnowledgeConflict {
+  id: string;                    // CF001, CF002, ...
+  localId: string;
+  remoteId: string;
+  machineId: string;
+  machineHostname?: string;
+  project: string;
+  similarity: number;
+  /** open = contradiction pending, resolved = picked a side, consistent = LLM found no contradiction */
+  status: 'open' | 'resolved' | 'consistent';
+  explanation: string;
+  localPartId?: string;
+  remotePartId?: string;
+  commentId?: string;
+  resolution?: KnowledgeConflictResolution;
+  /** `${local.updatedAt}|${remote.updatedAt}` the verdict applies to */
+  fingerprint: string;
+  detectedAt: string;
+  resolvedAt?: string;
+}
+
+interface ConflictStateFile {
+  conflicts: KnowledgeConflict[];
+  nextId: number;
+}
+
+export interface ConflictDetectionResult {
+  pairs: number;
+  checked: number;
+  cached: number;
+  contradictions: string[];
+  closed: string[];
+  errors: number;
+}
+
+// ── Constants ──────────────────────────────────────────
+
+const STATE_FILE = path.join(getDataDir(), 'knowledge', 'conflicts.json');
+
+const DEFAULT_API_BASE_URL = `http://localhost:${__dirname.includes('node_modules') ? 3100 : 3200}`;
+const LLM_TIMEOUT = 180_000;
+
+/** Part-level similarity at which a local/remote pair is worth an LLM check */
+export const CONFLICT_SIMILARITY_THRESHOLD = 0.8;
+
+/** Default cap on LLM checks per detection run */
+const DEFAULT_CHECK_LIMIT = 20;
+
+/** Vector neighbours inspected per local part */
+const NEIGHBOURS_PER_PART = 8;
+
+// ── LLM ──────────────────────────────────────────
+
+async function callAgentApi(prompt: string, systemPrompt: string): Promise<string> {
+  const response = await fetch(`${DEFAULT_API_BASE_URL}/agent/execute`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      prompt,
+      systemPrompt,
+      model: getKnowledgeSettings().reviewModel,
+      maxTurns: 1,
+      permissionMode: 'bypassPermissions',
+      cwd: getDataDir(),
+      env: { CLAUDE_CODE_REMOTE: 'true' },
+      disallowedTools: ['Bash', 'Read', 'Write', 'Edit', 'Glob', 'Grep', 'WebFetch', 'WebSearch', 'Task', 'NotebookEdit'],
+      settingSources: [],
+    }),
+    signal: AbortSignal.timeout(LLM_TIMEOUT),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Agent API error: ${response.status}`);
+  }
+
+  const data = await response.json() as any;
+  const result = data.data || data;
+  if (!result.success) {
+    throw new Error(`Agent execution failed: ${result.error}`);
+  }
+  return result.result || '';
+}
+
+function stripFences(text: string): string {
+  return text.replace(/^```(?:json|markdown|md)?\n?/m, '').replace(/\n?```$/m, '').trim();
+}
+
+function pairPrompt(local: Knowledge, remote: Knowledge, instruction: string): string {
+  return [
+    instruction,
+    ``,
+    `## LOCAL (${local.id})`,
+    `\`\`\`markdown`,
+    renderKnowledgeMd(local),
+    `\`\`\``,
+    ``,
+    `## REMOTE (${remote.id} from ${remote.machineHostname || remote.machineId})`,
+    `\`\`\`markdown`,
+    renderKnowledgeMd(remote),
+    `\`\`\``,
+  ].join('\n');
+}
+
+// ── Conflicts ──────────────────────────────────────────
+
+export class KnowledgeConflicts {
+  private state: ConflictStateFile | null = null;
+  private stateMtime = 0;
+  private detecting = false;
+
+  // ── State ──────────────────────────────────────────
+
+  /** Load state, re-reading the file if another process wrote it */
+  private getState(): ConflictStateFile {
+    let mtime = 0;
+    try {
+      mtime = fs.statSync(STATE_FILE).mtimeMs;
+    } catch {
+      // No state yet
+    }
+    if (this.state && mtime === this.stateMtime) return this.state;
+
+    let state: ConflictStateFile = { conflicts: [], nextId: 1 };
+    try {
+      if (mtime) {
+        const data = JSON.parse(fs.readFileSync(STATE_FILE, 'utf-8'));
+        if (data && Array.isArray(data.conflicts)) state = data;
+      }
+    } catch {
+      // Corrupt state — pairs are re-checked on the next run
+    }
+    this.state = state;
+    this.stateMtime = mtime;
+    return state;
+  }
+
+  private saveState(state: ConflictStateFile): void {
+    const dir = path.dirname(STATE_FILE);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(STATE_FILE, JSON.stringify(state, null, 2));
+    this.state = state;
+    this.stateMtime = fs.statSync(STATE_FILE).mtimeMs;
+  }
+
+  // ── Queries ──────────────────────────────────────────
+
+  isDetecting(): boolean {
+    return this.detecting;
+  }
+
+  list(filters: { status?: KnowledgeConflict['status']; project?: string; knowledgeId?: string } = {}): KnowledgeConflict[] {
+    return this.getState().conflicts
+      .filter(c => !filters.status || c.status === filters.status)
+      .filter(c => !filters.project || c.project === filters.project)
+      .filter(c => !filters.knowledgeId || c.localId === filters.knowledgeId)
+      .sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+  }
+
+  get(conflictId: string): KnowledgeConflict | null {
+    return this.getState().conflicts.find(c => c.id === conflictId) || null;
+  }
+
+  /**
+   * Whether a remote document should be kept out of search and context:
+   * it contradicts local knowledge and the local side hasn't yielded.
+   */
+  isSuppressed(machineId: string, remoteId: string): boolean {
+    return this.getState().conflicts.some(c =>
+      c.machineId === machineId && c.remoteId === remoteId
+      && (c.status === 'open' || (c.status === 'resolved' && c.resolution !== 'remote')));
+  }
+
+  // ── Detection ──────────────────────────────────────────
+
+  /**
+   * Local/remote pairs above the similarity threshold, best first.
+   */
+  async findCandidatePairs(project?: string): Promise<Array<{ local: Knowledge; remote: Knowledge; similarity: number }>> {
+    const { getVectorStore } = require('../vector/vector-store');
+    const vectorStore = getVectorStore();
+    const store = getKnowledgeStore();
+    const index = store.getIndex();
+
+    const best = new Map<string, { local: Knowledge; remote: Knowledge; similarity: number }>();
+    const locals = store.getAllKnowledge(project, undefined, 'active', 'local');
+
+    for (const local of locals) {
+      for (const part of local.parts) {
+        // Same text shape as indexed knowledge vectors
+        const queryText = `${local.title} [${local.type}]: ${part.title} — ${part.summary}`;
+        const results = await vectorStore.search(queryText, NEIGHBOURS_PER_PART, { type: 'knowledge' });
+
+        for (const result of results) {
+          if (result.origin !== 'remote' || !result.machineId || !result.knowledgeId) continue;
+          if (result.score < CONFLICT_SIMILARITY_THRESHOLD) continue;
+
+          const meta = index.knowledges[`${result.machineId}:${result.knowledgeId}`];
+          if (!meta || meta.project !== local.project || meta.status !== 'active') continue;
+
+          const key = `${local.id}\0${result.machineId}\0${result.knowledgeId}`;
+          const existing = best.get(key);
+          if (existing && existing.similarity >= result.score) continue;
+          const remote = existing?.remote || store.getKnowledge(result.knowledgeId, result.machineId);
+          if (!remote) continue;
+          best.set(key, { local, remote, similarity: result.score });
+        }
+      }
+    }
+
+    return [...best.values()].sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Check local/remote pairs for contradictions with the LLM.
+   * At most `limit` LLM checks per run; cached verdicts don't count.
+   */
+  async detect(options: { project?: string; limit?: number } = {}): Promise<ConflictDetectionResult> {
+    if (this.detecting) {
+      throw new Error('Conflict detection is already running');
+    }
+    this.detecting = true;
+
+    const limit = options.limit ?? DEFAULT_CHECK_LIMIT;
+    const result: ConflictDetectionResult = { pairs: 0, checked: 0, cached: 0, contradictions: [], closed: [], errors: 0 };
+
+    try {
+      const pairs = await this.findCandidatePairs(options.project);
+      result.pairs = pairs.length;
+
+      for (const { local, remote, similarity } of pairs) {
+        const fingerprint = `${local.updatedAt}|${remote.updatedAt}`;
+        const existing = this.findPair(local.id, remote.machineId!, remote.id);
+        if (existing && existing.fingerprint === fingerprint) {
+          result.cached++;
+          continue;
+        }
+        if (result.checked >= limit) continue;
+
+        try {
+          result.checked++;
+          const verdict = await this.checkPair(local, remote);
+          const conflict = this.recordVerdict(local, remote, similarity, fingerprint, verdict);
+          if (conflict.status === 'open') result.contradictions.push(conflict.id);
+          else if (existing?.status === 'open') result.closed.push(conflict.id);
+        } catch (err: any) {
+          result.errors++;
+          console.error(`[KnowledgeConflicts] Check failed for ${local.id} ↔ ${remote.machineId}:${remote.id}: ${err.message}`);
+        }
+      }
+    } finally {
+      this.detecting = false;
+    }
+
+    return result;
+  }
+
+  private findPair(localId: string, machineId: string, remoteId: string): KnowledgeConflict | undefined {
+    return this.getState().conflicts.find(c => c.localId === localId && c.machineId === machineId && c.remoteId === remoteId);
+  }
+
+  private async checkPair(local: Knowledge, remote: Knowledge): Promise<{
+    contradicts: boolean;
+    explanation: string;
+    localPartId?: string;
+    remotePartId?: string;
+  }> {
+    const text = await callAgentApi(
+      pairPrompt(local, remote, 'Do these two knowledge documents contradict each other?'),
+      CONFLICT_SYSTEM_PROMPT,
+    );
+    const parsed = JSON.parse(stripFences(text));
+    if (typeof parsed.contradicts !== 'boolean') {
+      throw new Error('LLM response is missing "contradicts"');
+    }
+    return {
+      contradicts: parsed.contradicts,
+      explanation: String(parsed.explanation || '').trim(),
+      localPartId: local.parts.some(p => p.partId === parsed.localPartId) ? parsed.localPartId : undefined,
+      remotePartId: remote.parts.some(p => p.partId === parsed.remotePartId) ? parsed.remotePartId : undefined,
+    };
+  }
+
+  private recordVerdict(
+    local: Knowledge,
+    remote: Knowledge,
+    similarity: number,
+    fingerprint: string,
+    verdict: { contradicts: boolean; explanation: string; localPartId?: string; remotePartId?: string },
+  ): KnowledgeConflict {
+    const store = getKnowledgeStore();
+    const state = this.getState();
+    let conflict = this.findPair(local.id, remote.machineId!, remote.id);
+    const now = new Date().toISOString();
+
+    if (!conflict) {
+      conflict = {
+        id: `CF${String(state.nextId++).padStart(3, '0')}`,
+        localId: local.id,
+        remoteId: remote.id,
+        machineId: remote.machineId!,
+        machineHostname: remote.machineHostname,
+        project: local.project,
+        similarity: 0,
+        status: 'consistent',
+        explanation: '',
+        fingerprint,
+        detectedAt: now,
+      };
+      state.conflicts.push(conflict);
+    }
+
+    const wasOpen = conflict.status === 'open';
+    conflict.similarity = Math.round(similarity * 1000) / 1000;
+    conflict.explanation = verdict.explanation;
+    conflict.localPartId = verdict.localPartId;
+    conflict.remotePartId = verdict.remotePartId;
+    conflict.fingerprint = fingerprint;
+
+    if (verdict.contradicts) {
+      if (!wasOpen) {
+        const comment = store.addComment({
+          knowledgeId: local.id,
+          partId: verdict.localPartId,
+          type: 'contradicts',
+          content: `Contradicts ${verdict.remotePartId || remote.id} from ${remote.machineHostname || remote.machineId} `
+            + `(conflict ${conflict.id}): ${verdict.explanation}`,
+          source: 'reviewer',
+        });
+        conflict.commentId = comment.id;
+        conflict.detectedAt = now;
+      }
+      conflict.status = 'open';
+      conflict.resolution = undefined;
+      conflict.resolvedAt = undefined;
+    } else {
+      if (wasOpen && conflict.commentId) {
+        store.updateCommentState(local.id, conflict.commentId, 'addressed', 'reviewer');
+      }
+      conflict.status = 'consistent';
+    }
+
+    this.saveState(state);
+    return conflict;
+  }
+
+  // ── Resolution ──────────────────────────────────────────
+
+  /**
+   * Resolve an open conflict. Throws if it doesn't exist, isn't open, or the
+   * chosen side can't be applied.
+   */
+  async resolve(conflictId: string, resolution: KnowledgeConflictResolution): Promise<{ conflict: KnowledgeConflict; knowledge: Knowledge }> {
+    const store = getKnowledgeStore();
+    const conflict = this.get(conflictId);
+    if (!conflict) throw new Error(`Conflict ${conflictId} not found`);
+    if (conflict.status !== 'open') throw new Error(`Conflict ${conflictId} is not open`);
+
+    const local = store.getKnowledge(conflict.localId);
+    if (!local) throw new Error(`Local document ${conflict.localId} no longer exists`);
+    const remote = store.getKnowledge(conflict.remoteId, conflict.machineId);
+    if (!remote && resolution !== 'local') {
+      throw new Error(`Remote document ${conflict.machineId}:${conflict.remoteId} no longer exists`);
+    }
+
+    let knowledge: Knowledge | null = local;
+    if (resolution === 'remote') {
+      knowledge = store.updateKnowledge(local.id, {
+        title: remote!.title,
+        type: remote!.type,
+        // Renumber into the local document; remote link targets don't exist here
+        parts: remote!.parts.map((p, i) => ({
+          partId: `${local.id}.${i + 1}`,
+          title: p.title,
+          summary: p.summary,
+          content: p.content,
+        })),
+      }, { author: 'user' });
+    } else if (resolution === 'merge') {
+      const text = await callAgentApi(
+        pairPrompt(local, remote!, `Merge REMOTE into LOCAL (${local.id}), resolving this conflict: ${conflict.explanation}`),
+        MERGE_SYSTEM_PROMPT,
+      );
+      knowledge = store.updateKnowledgeFromMd(local.id, stripFences(text), { author: 'reviewer' });
+    }
+    if (!knowledge) {
+      throw new Error(`Failed to update ${local.id} from the ${resolution} side`);
+    }
+
+    if (conflict.commentId) {
+      store.updateCommentState(local.id, conflict.commentId, 'addressed', 'user');
+    }
+
+    // State may have been reloaded while the merge ran
+    const state = this.getState();
+    const saved = state.conflicts.find(c => c.id === conflictId)!;
+    saved.status = 'resolved';
+    saved.resolution = resolution;
+    saved.resolvedAt = new Date().toISOString();
+    saved.fingerprint = `${knowledge.updatedAt}|${remote?.updatedAt ?? ''}`;
+    this.saveState(state);
+
+    return { conflict: saved, knowledge };
+  }
+}
+
+// ── Singleton ──────────────────────────────────────────
+
+let instance: KnowledgeConflicts | null = null;
+
+export function getKnowledgeConflicts(): KnowledgeConflicts {
+  if (!instance) {
+    instance = new KnowledgeConflicts();
+  }
+  return instance;
+}
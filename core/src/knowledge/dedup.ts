@@ -8,6 +8,7 @@
  * Used by:
  * - Discovery phase: within-batch dedup (group candidates, pick most complete)
  * - Generation phase: cross-session dedup (mark old entries as outdated)
+ * - Knowledge graph: similarity-based typed links (links.ts)
  */
 
 import { getKnowledgeStore } from './store';
@@ -78,12 +79,15 @@ const CONTENT_SIMILARITY_THRESHOLD = 0.82;
  * @param title - Title of the new knowledge
  * @param content - Full text content of the new knowledge (used for embedding)
  * @param project - Project path to scope the search
+ * @param options.anySource - Match entries from every source, not just explore agents
+ *   (used for knowledge recorded directly by the remember tool)
  * @returns Array of duplicate matches, sorted by similarity (highest first)
  */
 export async function findDuplicateKnowledge(
   title: string,
   content: string,
   project: string,
+  options: { anySource?: boolean } = {},
 ): Promise<DuplicateMatch[]> {
   const store = getKnowledgeStore();
   const matches: DuplicateMatch[] = [];
@@ -98,7 +102,7 @@ export async function findDuplicateKnowledge(
     if (meta.origin === 'remote') continue;
     if (meta.status === 'outdated' || meta.status === 'archived') continue;
     // Only match against explore-agent entries (cross-session dedup doesn't apply to generic content)
-    if (!meta.sourceAgentId) continue;
+    if (!options.anySource && !meta.sourceAgentId) continue;
 
     if (normalizeTitle(meta.title) === normalizedNew) {
       matches.push({
@@ -127,12 +131,12 @@ export async function findDuplicateKnowledge(
         const knowledgeId = result.metadata?.knowledgeId;
         if (!knowledgeId || seenIds.has(knowledgeId)) continue;
 
-        // Verify it's in the same project, is active, and is an explore-agent entry
+        // Verify it's in the same project, is active, and (unless anySource) is an explore-agent entry
         const meta = index.knowledges[knowledgeId];
         if (!meta || meta.project !== project) continue;
         if (meta.origin === 'remote') continue;
         if (meta.status === 'outdated' || meta.status === 'archived') continue;
-        if (!meta.sourceAgentId) continue;
+        if (!options.anySource && !meta.sourceAgentId) continue;
 
         if (result.score >= CONTENT_SIMILARITY_THRESHOLD) {
           matches.push({
@@ -156,6 +160,68 @@ export async function findDuplicateKnowledge(
   return matches;
 }
 
+// ─── Related Knowledge ──────────────────────────────────────────────────
+
+export interface RelatedMatch {
+  partId: string;          // Part of the given document
+  targetId: string;        // Related document
+  targetPartId?: string;   // Closest part of the related document
+  similarity: number;
+}
+
+// Loose enough to catch "uses the same schema", tight enough to skip topical noise
+const RELATED_SIMILARITY_THRESHOLD = 0.65;
+
+/**
+ * Find parts of other local knowledge in the same project that are similar to
+ * each part of the given document. Returns the best match per (part, document)
+ * pair. Archived/excluded documents are skipped; outdated ones are kept so
+ * callers can detect supersession.
+ */
+export async function findRelatedKnowledge(
+  knowledge: Knowledge,
+  limitPerPart = 5,
+): Promise<RelatedMatch[]> {
+  const { getVectorStore } = require('../vector/vector-store');
+  const vectorStore = getVectorStore();
+
+  const index = getKnowledgeStore().getIndex();
+  const best = new Map<string, RelatedMatch>();
+
+  for (const part of knowledge.parts) {
+    // Same text shape as indexed knowledge vectors
+    const queryText = `${knowledge.title} [${knowledge.type}]: ${part.title} — ${part.summary}`;
+    const results = await vectorStore.search(queryText, limitPerPart + knowledge.parts.length, { type: 'knowledge' });
+
+    for (const result of results) {
+      const targetId = result.metadata?.knowledgeId;
+      if (!targetId || targetId === knowledge.id) continue;
+      if (result.score < RELATED_SIMILARITY_THRESHOLD) continue;
+
+      const meta = index.knowledges[targetId];
+      if (!meta || meta.project !== knowledge.project) continue;
+      if (meta.origin === 'remote') continue;
+      if (meta.status === 'archived' || meta.status === 'excluded') continue;
+
+      const key = `${part.partId}\0${targetId}`;
+      const existing = best.get(key);
+      if (!existing || result.score > existing.similarity) {
+        best.set(key, {
+          partId: part.partId,
+          targetId,
+          targetPartId: result.metadata?.partId || undefined,
+          similarity: result.score,
+        });
+      }
+    }
+  }
+
+  return [...best.values()].sort((a, b) => b.similarity - a.similarity);
+}
+
+/** Similarity at which a newer document is considered to replace an older one */
+export const SUPERSEDE_SIMILARITY_THRESHOLD = CONTENT_SIMILARITY_THRESHOLD;
+
 // ─── Outdating ──────────────────────────────────────────────────
 
 /**
@@ -174,7 +240,7 @@ export function markDuplicatesAsOutdated(
       const existing = store.getKnowledge(id);
       if (!existing || existing.status === 'outdated') continue;
 
-      store.updateKnowledge(id, { status: 'outdated' });
+      store.updateKnowledge(id, { status: 'outdated' }, { author: 'generator' });
 
       // Add a comment explaining why it was outdated
       if (replacedById) {
@@ -296,7 +362,7 @@ export async function cleanupExistingDuplicates(
 
     if (!dryRun) {
       for (const entry of toOutdate) {
-        store.updateKnowledge(entry.id, { status: 'outdated' });
+        store.updateKnowledge(entry.id, { status: 'outdated' }, { author: 'generator' });
         store.addComment({
           knowledgeId: entry.id,
           type: 'outdated',
@@ -379,7 +445,7 @@ export async function cleanupExistingDuplicates(
             : [{ id: hitId, title: hitMeta.title, sourceTimestamp: hitTs }, entry];
 
           if (!dryRun) {
-            store.updateKnowledge(outdateEntry.id, { status: 'outdated' });
+            store.updateKnowledge(outdateEntry.id, { status: 'outdated' }, { author: 'generator' });
             store.addComment({
               knowledgeId: outdateEntry.id,
               type: 'outdated',
@@ -0,0 +1,140 @@
+/**
+ * Knowledge Diff
+ *
+ * Part-level comparison between two versions of a knowledge document.
+ * Parts are matched by partId (parts are always numbered K001.1..N), and
+ * changed parts carry a line diff of their summary + content.
+ */
+
+import type { Knowledge, KnowledgePart } from './types';
+
+export interface DiffLine {
+  op: 'equal' | 'add' | 'remove';
+  text: string;
+}
+
+export interface KnowledgePartDiff {
+  partId: string;
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  /** Which part fields changed (title, summary, content, links) */
+  changedFields: Array<'title' | 'summary' | 'content' | 'links'>;
+  oldTitle?: string;
+  newTitle?: string;
+  lines: DiffLine[];
+}
+
+export interface KnowledgeDiff {
+  knowledgeId: string;
+  /** Document-level fields that changed, with old → new values */
+  fields: Record<string, { from: unknown; to: unknown }>;
+  parts: KnowledgePartDiff[];
+  stats: { added: number; removed: number; modified: number; unchanged: number };
+}
+
+/** Document fields compared for the header section of a diff */
+const DOC_FIELDS: Array<keyof Knowledge> = ['title', 'type', 'project', 'status', 'reviewRating', 'reviewReason'];
+
+/** Beyond this many lines per side, skip LCS and report a full replace */
+const MAX_LCS_LINES = 2000;
+
+function partText(part: KnowledgePart): string[] {
+  const text = part.content ? `${part.summary}\n\n${part.content}` : part.summary;
+  const links = (part.links || []).map(l => `→ ${l.type} ${l.target}`);
+  return links.length > 0 ? [...text.split('\n'), '', ...links] : text.split('\n');
+}
+
+function linksKey(part: KnowledgePart): string {
+  return (part.links || []).map(l => `${l.type} ${l.target}`).join('\n');
+}
+
+/**
+ * Line diff via longest common subsequence.
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+  if (a.length > MAX_LCS_LINES || b.length > MAX_LCS_LINES) {
+    return [
+      ...a.map(text => ({ op: 'remove' as const, text })),
+      ...b.map(text => ({ op: 'add' as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ op: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ op: 'remove', text: a[i++] });
+    } else {
+      result.push({ op: 'add', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ op: 'remove', text: a[i++] });
+  while (j < b.length) result.push({ op: 'add', text: b[j++] });
+  return result;
+}
+
+/**
+ * Compare two versions of the same knowledge document part by part.
+ */
+export function diffKnowledge(from: Knowledge, to: Knowledge): KnowledgeDiff {
+  const fields: KnowledgeDiff['fields'] = {};
+  for (const field of DOC_FIELDS) {
+    if (from[field] !== to[field]) {
+      fields[field] = { from: from[field], to: to[field] };
+    }
+  }
+
+  const oldParts = new Map(from.parts.map(p => [p.partId, p]));
+  const newParts = new Map(to.parts.map(p => [p.partId, p]));
+  const partIds = [...new Set([...from.parts.map(p => p.partId), ...to.parts.map(p => p.partId)])];
+
+  const stats = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+  const parts: KnowledgePartDiff[] = partIds.map(partId => {
+    const oldPart = oldParts.get(partId);
+    const newPart = newParts.get(partId);
+
+    if (!oldPart && newPart) {
+      stats.added++;
+      return {
+        partId, status: 'added', changedFields: ['title', 'summary', 'content'],
+        newTitle: newPart.title,
+        lines: partText(newPart).map(text => ({ op: 'add', text })),
+      };
+    }
+    if (oldPart && !newPart) {
+      stats.removed++;
+      return {
+        partId, status: 'removed', changedFields: ['title', 'summary', 'content'],
+        oldTitle: oldPart.title,
+        lines: partText(oldPart).map(text => ({ op: 'remove', text })),
+      };
+    }
+
+    const changedFields: KnowledgePartDiff['changedFields'] = (['title', 'summary', 'content'] as const).filter(f => oldPart![f] !== newPart![f]);
+    if (linksKey(oldPart!) !== linksKey(newPart!)) changedFields.push('links');
+    const status = changedFields.length > 0 ? 'modified' : 'unchanged';
+    stats[status]++;
+    return {
+      partId,
+      status,
+      changedFields: [...changedFields],
+      oldTitle: oldPart!.title,
+      newTitle: newPart!.title,
+      lines: status === 'modified' ? diffLines(partText(oldPart!), partText(newPart!)) : [],
+    };
+  });
+
+  return { knowledgeId: to.id, fields, parts, stats };
+}
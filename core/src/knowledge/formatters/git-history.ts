@@ -0,0 +1,86 @@
+/**
+ * Git History Formatter
+ *
+ * Transforms a git-history identification into a Knowledge document.
+ * The commit subject becomes the title and the body is split into parts;
+ * the document records the commit hash (sourceCommit) alongside the
+ * originating session.
+ */
+
+import type { KnowledgeFormatter, IdentificationResult, FormatResult } from '../identifier-types';
+import { splitIntoParts, detectType, extractSummaryAndContent, cleanHeadingTitle } from '../helpers';
+import { getRepoRoot, getCommit } from '../../checkpoint/git-utils';
+import { splitCommitMessage } from '../identifiers/git-history';
+
+export class GitHistoryFormatter implements KnowledgeFormatter {
+  readonly identifierType = 'git-history' as const;
+
+  /**
+   * Format a git-history identification into knowledge parts.
+   * Reads the message from the repository, falling back to the copy stored
+   * at discovery time (e.g. after the commit was rewritten away).
+   */
+  async format(identification: IdentificationResult): Promise<FormatResult> {
+    const commitHash = identification.metadata?.commitHash;
+    if (!commitHash) {
+      throw new Error(`Identification ${identification.id || '(unsaved)'} has no commit hash`);
+    }
+
+    const repoRoot = getRepoRoot(identification.projectPath);
+    const commit = repoRoot ? getCommit(repoRoot, commitHash) : null;
+    const message: string | undefined = commit?.message || identification.metadata?.message;
+    if (!message) {
+      throw new Error(`Commit ${commitHash} not found in ${identification.projectPath}`);
+    }
+
+    const { subject, body } = splitCommitMessage(message);
+    if (body.length < 100) {
+      throw new Error('Commit message too short to generate knowledge');
+    }
+
+    const title = this.cleanSubject(subject);
+
+    const parts = splitIntoParts(body);
+    if (parts.length === 0) {
+      // Commit bodies rarely have headings — treat the whole body as one part
+      const { summary, content } = extractSummaryAndContent(body);
+      parts.push({
+        partId: 'TEMP.1',
+        title: 'Rationale',
+        summary: summary || body.slice(0, 200).trim(),
+        content,
+      });
+    }
+
+    return {
+      title,
+      type: detectType(title, parts),
+      parts,
+      sourceTimestamp: commit?.date || identification.timestamp || undefined,
+      sourceCommit: commit?.hash || commitHash,
+    };
+  }
+
+  /**
+   * Turn a commit subject into a title: drop conventional-commit prefixes
+   * ("feat(scope): ") and bracketed tags ("[ABC-12] "), capitalize.
+   */
+  private cleanSubject(subject: string): string {
+    let cleaned = cleanHeadingTitle(subject)
+      .replace(/^(\[[^\]]+\]\s*)+/, '')
+      .replace(/^[a-z]+(\([^)]*\))?!?:\s+/i, '')
+      .trim();
+
+    if (cleaned.length > 0) {
+      cleaned = cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+    }
+    if (cleaned.length > 120) {
+      cleaned = cleaned.slice(0, 117) + '...';
+    }
+    if (cleaned.endsWith('.')) {
+      cleaned = cleaned.slice(0, -1);
+    }
+
+    return cleaned || subject || 'Untitled';
+  }
+}
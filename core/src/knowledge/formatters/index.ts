@@ -7,6 +7,8 @@
 import type { KnowledgeFormatter, IdentifierType } from '../identifier-types';
 import { ExploreAgentFormatter } from './explore-agent';
 import { GenericContentFormatter } from './generic-content';
+import { PlanFormatter } from './plan';
+import { GitHistoryFormatter } from './git-history';
 
 const formatters = new Map<IdentifierType, KnowledgeFormatter>();
 
@@ -14,8 +16,12 @@ function ensureRegistered(): void {
   if (formatters.size > 0) return;
   const exploreAgent = new ExploreAgentFormatter();
   const genericContent = new GenericContentFormatter();
+  const plan = new PlanFormatter();
+  const gitHistory = new GitHistoryFormatter();
   formatters.set(exploreAgent.identifierType, exploreAgent);
   formatters.set(genericContent.identifierType, genericContent);
+  formatters.set(plan.identifierType, plan);
+  formatters.set(gitHistory.identifierType, gitHistory);
 }
 
 /**
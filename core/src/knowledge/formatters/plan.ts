@@ -0,0 +1,286 @@
+/**
+ * Plan Formatter
+ *
+ * Transforms an approved plan into a 'flow' or 'contract' Knowledge document.
+ * Besides the plan sections, appends an "Execution" part recording whether the
+ * plan was carried out: file edits after approval in the same session, or in a
+ * later session that was started from the plan ("Implement the following plan").
+ *
+ * Plans are usually generated minutes after approval, before any edits exist,
+ * so refreshPlanExecutions() re-checks plans that are not fully carried out on
+ * later scheduler ticks and rewrites their status and Execution part.
+ */
+
+import type { KnowledgeFormatter, IdentificationResult, FormatResult } from '../identifier-types';
+import type { Knowledge, KnowledgeType, PlanExecutionStatus } from '../types';
+import { getKnowledgeStore } from '../store';
+import { splitIntoParts, detectType, extractSummaryAndContent, cleanHeadingTitle, loadPlanText } from '../helpers';
+
+/** Tools whose use counts as carrying out a plan */
+const EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+
+/** Types that read as design contracts; everything else becomes a 'flow' */
+const CONTRACT_TYPES = new Set<KnowledgeType>(['contract', 'schema', 'invariant']);
+
+/** How many later sessions to inspect when the plan was executed elsewhere */
+const MAX_EXECUTION_SESSIONS = 30;
+
+/** Plans approved longer ago than this are no longer re-checked for execution */
+const EXECUTION_RECHECK_DAYS = 14;
+
+/** File-path-looking tokens in plan text (e.g. src/foo/bar.ts) */
+const PATH_MENTION_RE = /(?:[\w@.-]+\/)*[\w@-]+\.[A-Za-z]{1,5}\b/g;
+
+interface PlanExecution {
+  status: PlanExecutionStatus;
+  sessionId?: string;
+  editCount: number;
+  filesChanged: string[];
+  filesMentioned: string[];
+}
+
+export class PlanFormatter implements KnowledgeFormatter {
+  readonly identifierType = 'plan' as const;
+
+  async format(identification: IdentificationResult): Promise<FormatResult> {
+    const { getSessionReader } = require('../../session-reader');
+    const { getSessionCache } = require('../../session-cache');
+
+    const reader = getSessionReader();
+    const cache = getSessionCache();
+
+    if (cache.isWarming()) {
+      await cache.waitForWarming();
+    }
+
+    const project = identification.projectPath;
+    const data = await cache.getSessionData(reader.getSessionFilePath(identification.sessionId, project));
+    const plan = data ? loadPlanText(data, identification.lineIndex) : null;
+    if (!plan) {
+      throw new Error(`Plan not found at session ${identification.sessionId} line ${identification.lineIndex}`);
+    }
+
+    const title = this.deriveTitle(plan.text, plan.planTitle);
+
+    const parts = splitIntoParts(plan.text);
+    if (parts.length === 0) {
+      const { summary, content } = extractSummaryAndContent(plan.text);
+      parts.push({
+        partId: 'TEMP.1',
+        title: 'Plan',
+        summary: summary || plan.text.slice(0, 200).trim(),
+        content,
+      });
+    }
+
+    const detected = detectType(title, parts);
+    const type: KnowledgeType = CONTRACT_TYPES.has(detected) ? 'contract' : 'flow';
+
+    const execution = await this.detectExecution(
+      project,
+      identification.sessionId,
+      identification.lineIndex,
+      identification.timestamp,
+      plan.text,
+      title,
+      data,
+    );
+    parts.push(this.executionPart(execution, parts.length + 1));
+
+    return {
+      title,
+      type,
+      parts,
+      sourceTimestamp: identification.timestamp || undefined,
+      sourceLineIndex: identification.lineIndex,
+      sourceTurnIndex: plan.turnIndex,
+      planFile: plan.planFile,
+      planExecution: execution.status,
+      executionSessionId: execution.sessionId,
+    };
+  }
+
+  /**
+   * Re-run execution detection for a generated plan document and rewrite its
+   * status and Execution part when they changed. Returns the updated document,
+   * or null when nothing changed or the plan can no longer be loaded.
+   */
+  async refreshExecution(knowledge: Knowledge): Promise<Knowledge | null> {
+    if (!knowledge.sourceSessionId || knowledge.sourceLineIndex === undefined) return null;
+
+    const { getSessionReader } = require('../../session-reader');
+    const { getSessionCache } = require('../../session-cache');
+    const reader = getSessionReader();
+    const cache = getSessionCache();
+
+    const data = await cache.getSessionData(reader.getSessionFilePath(knowledge.sourceSessionId, knowledge.project));
+    const plan = data ? loadPlanText(data, knowledge.sourceLineIndex) : null;
+    if (!plan) return null;
+
+    const execution = await this.detectExecution(
+      knowledge.project,
+      knowledge.sourceSessionId,
+      knowledge.sourceLineIndex,
+      knowledge.sourceTimestamp || '',
+      plan.text,
+      knowledge.title,
+      data,
+    );
+
+    const index = knowledge.parts.findIndex(p => p.title === 'Execution');
+    const existing = index >= 0 ? knowledge.parts[index] : null;
+    const part = this.executionPart(execution, knowledge.parts.length + 1);
+    if (
+      execution.status === knowledge.planExecution
+      && existing?.summary === part.summary
+      && existing?.content === part.content
+    ) {
+      return null;
+    }
+
+    const parts = [...knowledge.parts];
+    if (existing) {
+      parts[index] = { ...existing, summary: part.summary, content: part.content };
+    } else {
+      parts.push({ ...part, partId: `${knowledge.id}.${knowledge.parts.length + 1}` });
+    }
+
+    return getKnowledgeStore().updateKnowledge(knowledge.id, {
+      parts,
+      planExecution: execution.status,
+      executionSessionId: execution.sessionId,
+    }, { author: 'generator', sourceSessionId: execution.sessionId });
+  }
+
+  private deriveTitle(text: string, planTitle?: string): string {
+    const heading = planTitle || text.match(/^#\s+(.+)$/m)?.[1] || text.split('\n').find(l => l.trim())?.trim() || 'Plan';
+    let title = cleanHeadingTitle(heading).replace(/^(?:Implementation\s+)?Plan:\s*/i, '');
+    if (title.length > 120) title = title.slice(0, 117) + '...';
+    if (title.endsWith('.')) title = title.slice(0, -1);
+    return title || 'Plan';
+  }
+
+  /**
+   * Work out whether (and where) the plan was carried out.
+   * Checks the approving session first, then later sessions seeded with the plan text.
+   */
+  private async detectExecution(
+    project: string,
+    sessionId: string,
+    lineIndex: number,
+    planTimestamp: string,
+    planText: string,
+    title: string,
+    data: any,
+  ): Promise<PlanExecution> {
+    const filesMentioned = this.mentionedFiles(planText);
+
+    let edits = this.editsAfter(data, lineIndex);
+    let executionSessionId: string | undefined = edits.length > 0 ? sessionId : undefined;
+
+    if (edits.length === 0) {
+      const { getSessionReader } = require('../../session-reader');
+      const { getSessionCache } = require('../../session-cache');
+      const reader = getSessionReader();
+      const cache = getSessionCache();
+
+      const since = planTimestamp ? new Date(planTimestamp).getTime() : 0;
+      const needles = [title, planText.trim().slice(0, 120)].filter(n => n.length >= 10);
+      // Oldest first, so the sessions right after the approval are the ones checked
+      const later = reader.listSessions(project)
+        .filter((s: any) => s.sessionId !== sessionId && s.lastModified.getTime() >= since)
+        .sort((a: any, b: any) => a.lastModified.getTime() - b.lastModified.getTime())
+        .slice(0, MAX_EXECUTION_SESSIONS);
+
+      for (const session of later) {
+        try {
+          const other = await cache.getSessionData(reader.getSessionFilePath(session.sessionId, project));
+          const seeded = (other?.userPrompts || []).slice(0, 3)
+            .some((p: any) => needles.some(n => (p.text || '').includes(n)));
+          if (!seeded) continue;
+          edits = this.editsAfter(other, -1);
+          executionSessionId = session.sessionId;
+          break;
+        } catch {
+          // Skip sessions that fail to load
+        }
+      }
+    }
+
+    const filesChanged = [...new Set(edits)];
+    let status: PlanExecutionStatus = 'not-executed';
+    if (filesChanged.length > 0) {
+      const changedNames = new Set(filesChanged.map(f => f.split('/').pop()));
+      const covered = filesMentioned.filter(f => changedNames.has(f.split('/').pop())).length;
+      status = filesMentioned.length > 0 && covered < filesMentioned.length / 2 ? 'partial' : 'executed';
+    }
+
+    return { status, sessionId: executionSessionId, editCount: edits.length, filesChanged, filesMentioned };
+  }
+
+  /**
+   * File paths edited after a line, up to the next approved plan in the same session.
+   */
+  private editsAfter(data: any, lineIndex: number): string[] {
+    const nextPlan = (data?.plans || [])
+      .filter((p: any) => p.status === 'approved' && p.lineIndex > lineIndex)
+      .reduce((min: number, p: any) => Math.min(min, p.lineIndex), Infinity);
+
+    return (data?.toolUses || [])
+      .filter((t: any) => t.lineIndex > lineIndex && t.lineIndex < nextPlan && EDIT_TOOLS.has(t.name))
+      .map((t: any) => t.input?.file_path || t.input?.notebook_path)
+      .filter((f: any): f is string => typeof f === 'string' && !f.includes('/.claude/plans/'));
+  }
+
+  private mentionedFiles(text: string): string[] {
+    const matches = (text.match(PATH_MENTION_RE) || [])
+      // Require a directory or a known source extension to avoid matching "e.g." / version numbers
+      .filter(m => m.includes('/') || /\.(?:ts|tsx|js|jsx|py|go|rs|java|json|md|css|yml|yaml|sh)$/.test(m));
+    return [...new Set(matches)];
+  }
+
+  private executionPart(execution: PlanExecution, index: number) {
+    const where = execution.sessionId ? ` in session ${execution.sessionId}` : '';
+    const summary = execution.status === 'not-executed'
+      ? 'No file edits have been found since this plan was approved — it has not been carried out.'
+      : `Plan ${execution.status === 'executed' ? 'carried out' : 'partially carried out'}${where}: `
+        + `${execution.editCount} edit${execution.editCount !== 1 ? 's' : ''} across ${execution.filesChanged.length} file${execution.filesChanged.length !== 1 ? 's' : ''}.`;
+
+    const lines: string[] = [];
+    if (execution.filesChanged.length > 0) {
+      lines.push('Files changed:', ...execution.filesChanged.map(f => `- ${f}`));
+    }
+    if (execution.status === 'partial') {
+      const changedNames = new Set(execution.filesChanged.map(f => f.split('/').pop()));
+      const untouched = execution.filesMentioned.filter(f => !changedNames.has(f.split('/').pop()));
+      if (untouched.length > 0) {
+        lines.push('', 'Mentioned in the plan but not changed:', ...untouched.map(f => `- ${f}`));
+      }
+    }
+
+    return { partId: `TEMP.${index}`, title: 'Execution', summary, content: lines.join('\n') };
+  }
+}
+
+/**
+ * Re-check execution of a project's recent plan documents that are not yet
+ * fully carried out. Returns the IDs of documents whose status changed.
+ */
+export async function refreshPlanExecutions(project: string): Promise<string[]> {
+  const formatter = new PlanFormatter();
+  const cutoff = Date.now() - EXECUTION_RECHECK_DAYS * 24 * 60 * 60 * 1000;
+  const plans = getKnowledgeStore().getAllKnowledge(project, undefined, 'active', 'local')
+    .filter(k => k.sourceIdentifier === 'plan' && k.planExecution !== 'executed')
+    .filter(k => new Date(k.sourceTimestamp || k.createdAt).getTime() >= cutoff);
+
+  const changed: string[] = [];
+  for (const knowledge of plans) {
+    try {
+      const updated = await formatter.refreshExecution(knowledge);
+      if (updated && updated.planExecution !== knowledge.planExecution) changed.push(knowledge.id);
+    } catch (err: any) {
+      console.warn(`[PlanFormatter] Execution re-check failed for ${knowledge.id}: ${err.message}`);
+    }
+  }
+  return changed;
+}
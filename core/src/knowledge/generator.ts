@@ -13,6 +13,8 @@
  */
 
 import { getKnowledgeStore } from './store';
+import { recordCodeAnchors } from './code-anchors';
+import { refreshKnowledgeLinks } from './links';
 import type { Knowledge } from './types';
 import type { IdentifierType, FormatResult } from './identifier-types';
 import {
@@ -222,7 +224,13 @@ export class KnowledgeGenerator {
         sourceSessionId: sessionId,
         sourceAgentId: agentId,
         sourceTimestamp: agentData.completedAt,
-      });
+      }, { author: 'generator', sourceSessionId: sessionId });
+
+      // Anchor to source files for staleness detection (best-effort)
+      await recordCodeAnchors(knowledge).catch(err => console.warn('[KnowledgeGenerator] Code anchor recording failed:', err));
+
+      // Link to related knowledge (mentions + embedding neighbours, best-effort)
+      await refreshKnowledgeLinks(knowledge.id).catch(err => console.warn('[KnowledgeGenerator] Link extraction failed:', err));
 
       return knowledge;
     } finally {
@@ -250,13 +258,17 @@ export class KnowledgeGenerator {
       }
     }
 
-    // For generic-content, require sourceSessionId and sourceLineIndex
-    if (identifierType === 'generic-content') {
+    // For generic-content and plan, require sourceSessionId and sourceLineIndex
+    if (identifierType === 'generic-content' || identifierType === 'plan') {
       if (!existing.sourceSessionId || existing.sourceLineIndex === undefined) {
         throw new Error(`Knowledge ${knowledgeId} has no source tracking (missing session or line index)`);
       }
     }
 
+    if (identifierType === 'git-history' && !existing.sourceCommit) {
+      throw new Error(`Knowledge ${knowledgeId} has no source tracking (missing commit)`);
+    }
+
     this.currentStatus = {
       status: 'generating',
       currentSessionId: existing.sourceSessionId,
@@ -271,7 +283,7 @@ export class KnowledgeGenerator {
       // Build a minimal identification for the formatter
       const identification = {
         id: '',
-        sessionId: existing.sourceSessionId!,
+        sessionId: existing.sourceSessionId || '',
         lineIndex: existing.sourceLineIndex ?? 0,
         turnIndex: existing.sourceTurnIndex ?? 0,
         projectPath: existing.project,
@@ -279,6 +291,7 @@ export class KnowledgeGenerator {
         identifiedAt: '',
         identifierType,
         agentId: existing.sourceAgentId,
+        metadata: existing.sourceCommit ? { commitHash: existing.sourceCommit } : undefined,
         status: 'generated' as const,
       };
 
@@ -298,12 +311,22 @@ export class KnowledgeGenerator {
         sourceIdentifier: identifierType,
         sourceLineIndex: formatResult.sourceLineIndex,
         sourceTurnIndex: formatResult.sourceTurnIndex,
-      });
+        planFile: formatResult.planFile,
+        planExecution: formatResult.planExecution,
+        executionSessionId: formatResult.executionSessionId,
+        sourceCommit: formatResult.sourceCommit,
+      }, { author: 'generator', sourceSessionId: existing.sourceSessionId });
 
       if (!updated) {
         throw new Error('Failed to update knowledge document');
       }
 
+      // Anchor to source files for staleness detection (best-effort)
+      await recordCodeAnchors(updated).catch(err => console.warn('[KnowledgeGenerator] Code anchor recording failed:', err));
+
+      // Link to related knowledge (mentions + embedding neighbours, best-effort)
+      await refreshKnowledgeLinks(updated.id).catch(err => console.warn('[KnowledgeGenerator] Link extraction failed:', err));
+
       return updated;
     } finally {
       this.currentStatus = { status: 'idle' };
@@ -382,60 +405,14 @@ export class KnowledgeGenerator {
     }
   }
 
-  private _vectorIndexTimer: ReturnType<typeof setTimeout> | null = null;
-
   /**
-   * Schedule async vector indexing of all knowledge docs.
-   * Debounced (5s) so multiple generateAll batches consolidate into one indexing pass.
+   * Schedule async vector indexing of changed knowledge docs.
+   * The queue debounces, so multiple generateAll batches consolidate into one indexing pass.
    */
   private indexKnowledgeVectorsAsync(): void {
-    if (this._vectorIndexTimer) clearTimeout(this._vectorIndexTimer);
-    this._vectorIndexTimer = setTimeout(() => {
-      this._vectorIndexTimer = null;
-      (async () => {
-        try {
-          const { getVectorStore } = require('../vector/vector-store');
-          const { extractKnowledgeVectors } = require('../vector/indexer');
-          const store = getKnowledgeStore();
-          const vectra = getVectorStore();
-
-          const allIds = store.getAllIds();
-          const allVectors: Array<{ text: string; metadata: any }> = [];
-          const badIds: string[] = [];
-          const excludedIds: string[] = [];
-          for (const id of allIds) {
-            const knowledge = store.getKnowledge(id);
-            if (!knowledge) continue;
-            if (knowledge.reviewRating === 'bad') {
-              badIds.push(id);
-              continue;
-            }
-            if (knowledge.status === 'excluded') {
-              excludedIds.push(id);
-              continue;
-            }
-            allVectors.push(...extractKnowledgeVectors(knowledge));
-          }
-
-          // Batch-remove BAD-rated and excluded entries from vector DB
-          const removeIds = [...badIds, ...excludedIds];
-          if (removeIds.length > 0) {
-            await vectra.deleteKnowledgeBatch(removeIds).catch(() => {});
-            console.log(`[KnowledgeGenerator] Removed ${badIds.length} BAD-rated + ${excludedIds.length} excluded entries from vector DB`);
-          }
-
-          if (allVectors.length > 0) {
-            // Delete existing knowledge vectors first to prevent unbounded growth
-            await vectra.deleteLocalByType('knowledge');
-            await vectra.addVectors(allVectors);
-            await vectra.rebuildFtsIndex();
-            console.log(`[KnowledgeGenerator] Indexed ${allVectors.length} vectors from ${allIds.length - badIds.length} knowledge docs (skipped ${badIds.length} BAD)`);
-          }
-        } catch (err) {
-          console.warn('[KnowledgeGenerator] Async vector indexing failed:', err);
-        }
-      })();
-    }, 5000);
+    // The index queue re-embeds only documents whose content hash changed
+    const { getVectorIndexQueue } = require('../vector/index-queue');
+    getVectorIndexQueue().syncKnowledge();
   }
 
   /**
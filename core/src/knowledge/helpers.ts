@@ -5,10 +5,15 @@
  * identifier and formatter implementations.
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
 import type { KnowledgePart, KnowledgeType } from './types';
 
 export const MIN_RESULT_LENGTH = 200;
 
+const PLANS_DIR = path.join(os.homedir(), '.claude', 'plans');
+
 /**
  * Derive a knowledge title from an explore agent's prompt or description.
  * Cleans up the text to be a concise title.
@@ -243,6 +248,33 @@ export function isJunkResult(result: string): boolean {
   return junkPatterns.some(p => p.test(firstLine));
 }
 
+/**
+ * Load the full text of an approved plan from session cache data.
+ * Prefers the ExitPlanMode `plan` input; falls back to the plan file in ~/.claude/plans/.
+ */
+export function loadPlanText(
+  data: { toolUses: Array<{ id: string; name: string; input: any; lineIndex: number }>; plans: Array<{ toolUseId: string; status: string; planFile?: string; planTitle?: string; lineIndex: number; turnIndex: number }> },
+  lineIndex: number,
+): { text: string; planFile?: string; planTitle?: string; toolUseId: string; turnIndex: number } | null {
+  const plan = data.plans.find(p => p.status === 'approved' && p.lineIndex === lineIndex);
+  if (!plan) return null;
+
+  const toolUse = data.toolUses.find(t => t.id === plan.toolUseId)
+    || data.toolUses.find(t => t.name === 'ExitPlanMode' && t.lineIndex === lineIndex);
+  let text: string = typeof toolUse?.input?.plan === 'string' ? toolUse.input.plan : '';
+
+  if (!text.trim() && plan.planFile) {
+    try {
+      text = fs.readFileSync(path.join(PLANS_DIR, plan.planFile), 'utf-8');
+    } catch {
+      // Plan file removed — nothing to recover
+    }
+  }
+  if (!text.trim()) return null;
+
+  return { text, planFile: plan.planFile, planTitle: plan.planTitle, toolUseId: plan.toolUseId, turnIndex: plan.turnIndex };
+}
+
 /**
  * Detect the most appropriate knowledge type based on title and content.
  */
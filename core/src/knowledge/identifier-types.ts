@@ -7,11 +7,11 @@
  * 3. Storage — unchanged Knowledge store + vector indexing
  */
 
-import type { KnowledgePart, KnowledgeType } from './types';
+import type { KnowledgePart, KnowledgeType, PlanExecutionStatus } from './types';
 
 // ─── Identifier Types ──────────────────────────────────────────────────
 
-export type IdentifierType = 'explore-agent' | 'generic-content';
+export type IdentifierType = 'explore-agent' | 'generic-content' | 'plan' | 'git-history';
 
 /**
  * The identification result — bare minimum source metadata.
@@ -25,13 +25,13 @@ export interface IdentificationResult {
   projectPath: string;            // Project path
   timestamp: string;              // Original source timestamp (when content was created)
   identifiedAt: string;           // When this was identified (discovery time)
-  identifierType: IdentifierType; // 'explore-agent' | 'generic-content'
+  identifierType: IdentifierType; // 'explore-agent' | 'generic-content' | 'plan' | 'git-history'
 
   // Type-specific fields (optional, only present for relevant types)
   agentId?: string;               // For explore-agent: the subagent ID
   metadata?: Record<string, any>; // Type-specific display data (prompt, preview, etc.)
 
-  // Scoring (for generic-content auto-discovery)
+  // Scoring (for generic-content / git-history auto-discovery)
   score?: number;                 // Heuristic score (-11 to +12)
   classification?: string;        // 'auto-accept' | 'candidate' | 'low-confidence' | 'reject'
 
@@ -89,6 +89,12 @@ export interface FormatResult {
   sourceTimestamp?: string;
   sourceLineIndex?: number;
   sourceTurnIndex?: number;
+  // Plan formatter only
+  planFile?: string;
+  planExecution?: PlanExecutionStatus;
+  executionSessionId?: string;
+  // Git history formatter only
+  sourceCommit?: string;
 }
 
 /**
@@ -0,0 +1,209 @@
+/**
+ * Git History Identifier
+ *
+ * Discovers knowledge-worthy commit messages in a project's local git log.
+ * Long commit and merge bodies often carry design rationale that never
+ * appears in assistant messages. Each commit is scored with the same
+ * heuristic as generic content (scoreKnowledgeCandidate), validated by the
+ * KnowledgeValidator before generation, and linked back to
+ * the session that made it by matching the commit subject against `git commit`
+ * operations parsed from session tool uses.
+ *
+ * Identifications are keyed by commit hash (metadata.commitHash). Commits with
+ * no originating session carry sessionId '' and lineIndex -1.
+ */
+
+import type { KnowledgeIdentifier, IdentificationResult } from '../identifier-types';
+import { getIdentificationStore } from '../identification-store';
+import { scoreKnowledgeCandidate } from '../helpers';
+import { getRepoRoot, getCommitLog, getCommit, type CommitLogEntry } from '../../checkpoint/git-utils';
+
+/** Most recent commits inspected per discovery run */
+const MAX_COMMITS = 500;
+
+/** Minimum body length (excluding the subject line) worth considering */
+export const MIN_COMMIT_BODY_LENGTH = 200;
+
+/** Lower minimum for a commit picked by hand (resolve) rather than discovered */
+export const MIN_RESOLVE_BODY_LENGTH = 100;
+
+interface CommitSource {
+  sessionId: string;
+  lineIndex: number;
+  turnIndex: number;
+}
+
+/**
+ * Split a commit message into subject and body.
+ */
+export function splitCommitMessage(message: string): { subject: string; body: string } {
+  const trimmed = message.trim();
+  const newline = trimmed.indexOf('\n');
+  if (newline === -1) return { subject: trimmed, body: '' };
+  return { subject: trimmed.slice(0, newline).trim(), body: trimmed.slice(newline + 1).trim() };
+}
+
+function subjectKey(subject: string): string {
+  return subject.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export class GitHistoryIdentifier implements KnowledgeIdentifier {
+  readonly type = 'git-history' as const;
+
+  /**
+   * Discover commits with substantial messages in the project's git log.
+   * Skips commits already identified and hard rejects from the heuristic scorer.
+   */
+  async discover(project: string): Promise<IdentificationResult[]> {
+    try {
+      const repoRoot = getRepoRoot(project);
+      if (!repoRoot) return [];
+
+      const idStore = getIdentificationStore();
+      const known = new Set(
+        idStore.list({ identifierType: 'git-history', projectPath: project })
+          .map(r => r.metadata?.commitHash)
+          .filter(Boolean),
+      );
+
+      const commits = getCommitLog(repoRoot, MAX_COMMITS).filter(c => !known.has(c.hash));
+      if (commits.length === 0) return [];
+
+      const sources = await this.loadCommitSources(project);
+      const newResults: Omit<IdentificationResult, 'id'>[] = [];
+
+      for (const commit of commits) {
+        const { subject, body } = splitCommitMessage(commit.message);
+        if (body.length < MIN_COMMIT_BODY_LENGTH) continue;
+
+        const scoreResult = scoreKnowledgeCandidate(commit.message);
+
+        // Commit bodies are plain prose and earn few structural points, so only
+        // hard-rule rejects (too short, boilerplate) are dropped here — the LLM
+        // validator makes the real call
+        if (scoreResult.hardRule === 'hard-reject') continue;
+
+        newResults.push(this.buildCandidate(project, commit, subject, sources.get(subjectKey(subject)), scoreResult));
+      }
+
+      return newResults.length > 0 ? idStore.add(newResults) : [];
+    } catch (err) {
+      console.error('[GitHistoryIdentifier] Discovery failed:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Resolve a specific commit as a knowledge candidate.
+   * The commit is given as extra.commitHash; sessionId/lineIndex are used as
+   * the originating session when provided, otherwise looked up.
+   */
+  async resolve(
+    project: string,
+    sessionId: string,
+    lineIndex: number,
+    extra?: Record<string, any>,
+  ): Promise<IdentificationResult | null> {
+    const commitHash = extra?.commitHash ? String(extra.commitHash) : null;
+    if (!commitHash) return null;
+
+    const repoRoot = getRepoRoot(project);
+    if (!repoRoot) return null;
+
+    const commit = getCommit(repoRoot, commitHash);
+    if (!commit) return null;
+
+    const idStore = getIdentificationStore();
+    const existing = idStore.list({ identifierType: 'git-history', projectPath: project })
+      .find(r => r.metadata?.commitHash === commit.hash);
+    if (existing) return existing;
+
+    const { subject, body } = splitCommitMessage(commit.message);
+    if (body.length < MIN_RESOLVE_BODY_LENGTH) return null;
+
+    let source: CommitSource | undefined;
+    if (sessionId && lineIndex >= 0) {
+      source = { sessionId, lineIndex, turnIndex: 0 };
+    } else {
+      source = (await this.loadCommitSources(project)).get(subjectKey(subject));
+    }
+
+    // For manual resolve, accept even low-confidence scores
+    const scoreResult = scoreKnowledgeCandidate(commit.message);
+    const added = idStore.add([this.buildCandidate(project, commit, subject, source, scoreResult)]);
+    return added[0] || null;
+  }
+
+  private buildCandidate(
+    project: string,
+    commit: CommitLogEntry,
+    subject: string,
+    source: CommitSource | undefined,
+    scoreResult: { score: number; classification: string },
+  ): Omit<IdentificationResult, 'id'> {
+    return {
+      sessionId: source?.sessionId || '',
+      lineIndex: source?.lineIndex ?? -1,
+      turnIndex: source?.turnIndex ?? 0,
+      projectPath: project,
+      timestamp: commit.date || new Date().toISOString(),
+      identifiedAt: new Date().toISOString(),
+      identifierType: 'git-history',
+      score: scoreResult.score,
+      classification: scoreResult.classification,
+      status: 'candidate',
+      metadata: {
+        commitHash: commit.hash,
+        subject,
+        isMerge: commit.parents.length > 1,
+        message: commit.message,
+      },
+    };
+  }
+
+  /**
+   * Map commit subjects to the session line that ran the `git commit`.
+   * The most recently modified session wins when the same subject was
+   * committed more than once.
+   */
+  private async loadCommitSources(project: string): Promise<Map<string, CommitSource>> {
+    const sources = new Map<string, CommitSource>();
+    try {
+      const { getSessionReader } = require('../../session-reader');
+      const { getSessionCache } = require('../../session-cache');
+      const { extractGitOperationsFromToolUses } = require('../../agent-session-store');
+
+      const reader = getSessionReader();
+      const cache = getSessionCache();
+
+      if (cache.isWarming()) {
+        await cache.waitForWarming();
+      }
+
+      // listSessions is newest first
+      for (const session of reader.listSessions(project)) {
+        try {
+          const filePath = reader.getSessionFilePath(session.sessionId, project);
+          const data = await cache.getSessionData(filePath);
+          if (!data?.toolUses?.length) continue;
+
+          for (const op of extractGitOperationsFromToolUses(data.toolUses)) {
+            if (op.type !== 'commit' || !op.commitMessage) continue;
+            const key = subjectKey(splitCommitMessage(op.commitMessage).subject);
+            if (sources.has(key)) continue;
+            sources.set(key, {
+              sessionId: session.sessionId,
+              lineIndex: op.lineIndex,
+              turnIndex: op.turnIndex,
+            });
+          }
+        } catch {
+          // Skip sessions that fail to load
+        }
+      }
+    } catch (err) {
+      console.warn('[GitHistoryIdentifier] Session commit lookup failed:', err);
+    }
+    return sources;
+  }
+}
@@ -7,6 +7,8 @@
 import type { KnowledgeIdentifier, IdentifierType } from '../identifier-types';
 import { ExploreAgentIdentifier } from './explore-agent';
 import { GenericContentIdentifier } from './generic-content';
+import { PlanIdentifier } from './plan';
+import { GitHistoryIdentifier } from './git-history';
 
 const identifiers = new Map<IdentifierType, KnowledgeIdentifier>();
 
@@ -14,8 +16,12 @@ function ensureRegistered(): void {
   if (identifiers.size > 0) return;
   const exploreAgent = new ExploreAgentIdentifier();
   const genericContent = new GenericContentIdentifier();
+  const plan = new PlanIdentifier();
+  const gitHistory = new GitHistoryIdentifier();
   identifiers.set(exploreAgent.type, exploreAgent);
   identifiers.set(genericContent.type, genericContent);
+  identifiers.set(plan.type, plan);
+  identifiers.set(gitHistory.type, gitHistory);
 }
 
 /**
@@ -0,0 +1,128 @@
+/**
+ * Plan Identifier
+ *
+ * Discovers approved plans (ExitPlanMode tool calls) in sessions and produces
+ * IdentificationResult records. Plan text comes from the ExitPlanMode input,
+ * or from the plan file in ~/.claude/plans/ when the input is empty.
+ */
+
+import type { KnowledgeIdentifier, IdentificationResult } from '../identifier-types';
+import { getIdentificationStore } from '../identification-store';
+import { loadPlanText, MIN_RESULT_LENGTH } from '../helpers';
+
+export class PlanIdentifier implements KnowledgeIdentifier {
+  readonly type = 'plan' as const;
+
+  /**
+   * Discover approved plans across all sessions for a project.
+   * Skips plans already identified (by session + line index).
+   */
+  async discover(project: string): Promise<IdentificationResult[]> {
+    try {
+      const { getSessionReader } = require('../../session-reader');
+      const { getSessionCache } = require('../../session-cache');
+
+      const reader = getSessionReader();
+      const cache = getSessionCache();
+      const idStore = getIdentificationStore();
+
+      if (cache.isWarming()) {
+        await cache.waitForWarming();
+      }
+
+      const sessions = reader.listSessions(project);
+      const newResults: Omit<IdentificationResult, 'id'>[] = [];
+
+      for (const session of sessions) {
+        try {
+          const filePath = reader.getSessionFilePath(session.sessionId, project);
+          const data = await cache.getSessionData(filePath);
+          if (!data?.plans?.length) continue;
+
+          for (const plan of data.plans) {
+            if (plan.status !== 'approved') continue;
+            if (idStore.hasIdentification('plan', session.sessionId, plan.lineIndex)) continue;
+
+            const candidate = this.buildCandidate(project, session.sessionId, plan.lineIndex, data);
+            if (candidate) newResults.push(candidate);
+          }
+        } catch {
+          // Skip sessions that fail to load
+        }
+      }
+
+      return newResults.length > 0 ? idStore.add(newResults) : [];
+    } catch (err) {
+      console.error('[PlanIdentifier] Discovery failed:', err);
+      return [];
+    }
+  }
+
+  /**
+   * Resolve the approved plan at a specific session line.
+   */
+  async resolve(
+    project: string,
+    sessionId: string,
+    lineIndex: number,
+  ): Promise<IdentificationResult | null> {
+    const idStore = getIdentificationStore();
+
+    if (idStore.hasIdentification('plan', sessionId, lineIndex)) {
+      const all = idStore.list({ identifierType: 'plan', sessionId });
+      return all.find(r => r.lineIndex === lineIndex) || null;
+    }
+
+    const { getSessionReader } = require('../../session-reader');
+    const { getSessionCache } = require('../../session-cache');
+
+    const reader = getSessionReader();
+    const cache = getSessionCache();
+
+    if (cache.isWarming()) {
+      await cache.waitForWarming();
+    }
+
+    const data = await cache.getSessionData(reader.getSessionFilePath(sessionId, project));
+    if (!data) return null;
+
+    const candidate = this.buildCandidate(project, sessionId, lineIndex, data);
+    if (!candidate) return null;
+
+    const added = idStore.add([candidate]);
+    return added[0] || null;
+  }
+
+  private buildCandidate(
+    project: string,
+    sessionId: string,
+    lineIndex: number,
+    data: any,
+  ): Omit<IdentificationResult, 'id'> | null {
+    const plan = loadPlanText(data, lineIndex);
+    if (!plan || plan.text.length < MIN_RESULT_LENGTH) return null;
+
+    // Plans carry no timestamp of their own — use the prompt that started the turn
+    const prompt = [...(data.userPrompts || [])]
+      .reverse()
+      .find((p: any) => p.lineIndex <= lineIndex && p.timestamp);
+
+    return {
+      sessionId,
+      lineIndex,
+      turnIndex: plan.turnIndex,
+      projectPath: project,
+      timestamp: prompt?.timestamp || data.firstTimestamp || new Date().toISOString(),
+      identifiedAt: new Date().toISOString(),
+      identifierType: 'plan',
+      status: 'candidate',
+      metadata: {
+        toolUseId: plan.toolUseId,
+        planFile: plan.planFile,
+        planTitle: plan.planTitle,
+        preview: plan.text.slice(0, 300) + (plan.text.length > 300 ? '...' : ''),
+        planLength: plan.text.length,
+      },
+    };
+  }
+}
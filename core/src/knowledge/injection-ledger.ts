@@ -0,0 +1,130 @@
+/**
+ * Context Injection Ledger
+ *
+ * Remembers which knowledge entries /context/suggest already injected into
+ * each session, so a session is not handed the same entries on every prompt —
+ * they are still in its context from the first time. A compaction drops them
+ * from the context, so entries injected before the session's last compaction
+ * are forgotten.
+ *
+ * Sessions untouched for SESSION_TTL_MS are pruned on save.
+ *
+ * State: ~/.lm-assist/knowledge/injection-ledger.json
+ * Singleton via getInjectionLedger().
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDataDir } from '../utils/path-utils';
+
+// ── Types ──────────────────────────────────────────
+
+interface SessionInjections {
+  /** Entry ID (K###.N or K###) → first injection time */
+  injected: Record<string, string>;
+  updatedAt: string;
+}
+
+interface InjectionLedgerFile {
+  sessions: Record<string, SessionInjections>;
+}
+
+// ── Constants ──────────────────────────────────────────
+
+const STATE_FILE = path.join(getDataDir(), 'knowledge', 'injection-ledger.json');
+
+/** Sessions idle for longer than this are forgotten */
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ── Ledger ──────────────────────────────────────────
+
+class InjectionLedger {
+  private state: InjectionLedgerFile | null = null;
+
+  /**
+   * Entry IDs already injected into a session and, when the session was
+   * compacted (compactedAt), still in its context.
+   */
+  getInjected(sessionId: string, compactedAt?: string): Set<string> {
+    const entry = this.getState().sessions[sessionId];
+    if (!entry) return new Set();
+
+    const cutoff = compactedAt ? new Date(compactedAt).getTime() : NaN;
+    if (!isNaN(cutoff)) {
+      const kept = Object.entries(entry.injected).filter(([, at]) => new Date(at).getTime() >= cutoff);
+      if (kept.length < Object.keys(entry.injected).length) {
+        entry.injected = Object.fromEntries(kept);
+        try {
+          this.saveState();
+        } catch (err) {
+          console.warn('[InjectionLedger] Failed to save ledger:', err);
+        }
+      }
+    }
+    return new Set(Object.keys(entry.injected));
+  }
+
+  /**
+   * Record entries injected into a session's prompt.
+   */
+  record(sessionId: string, ids: string[], at = new Date().toISOString()): void {
+    if (!sessionId || ids.length === 0) return;
+
+    const state = this.getState();
+    const entry = state.sessions[sessionId] || (state.sessions[sessionId] = { injected: {}, updatedAt: at });
+    for (const id of ids) {
+      if (!entry.injected[id]) entry.injected[id] = at;
+    }
+    entry.updatedAt = at;
+
+    try {
+      this.saveState();
+    } catch (err) {
+      console.warn('[InjectionLedger] Failed to save ledger:', err);
+    }
+  }
+
+  // ── State ──────────────────────────────────────────
+
+  private getState(): InjectionLedgerFile {
+    if (this.state) return this.state;
+
+    let state: InjectionLedgerFile = { sessions: {} };
+    try {
+      if (fs.existsSync(STATE_FILE)) {
+        const data = JSON.parse(fs.readFileSync(STATE_FILE, 'utf-8'));
+        if (data && typeof data.sessions === 'object' && data.sessions !== null) state = data;
+      }
+    } catch {
+      // Corrupt ledger — worst case an entry is injected twice
+    }
+    this.state = state;
+    return state;
+  }
+
+  private saveState(): void {
+    if (!this.state) return;
+
+    const cutoff = Date.now() - SESSION_TTL_MS;
+    for (const [sessionId, entry] of Object.entries(this.state.sessions)) {
+      if (new Date(entry.updatedAt).getTime() < cutoff) delete this.state.sessions[sessionId];
+    }
+
+    const dir = path.dirname(STATE_FILE);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(STATE_FILE, JSON.stringify(this.state, null, 2));
+  }
+}
+
+// ── Singleton ──────────────────────────────────────────
+
+let instance: InjectionLedger | null = null;
+
+export function getInjectionLedger(): InjectionLedger {
+  if (!instance) {
+    instance = new InjectionLedger();
+  }
+  return instance;
+}
@@ -0,0 +1,278 @@
+/**
+ * Knowledge Links
+ *
+ * Typed references between knowledge documents, stored on parts
+ * (KnowledgePart.links) and rendered as a trailing comment in K###.md.
+ *
+ * Link types:
+ *   depends-on   — this part relies on the target (a flow using a schema/contract)
+ *   supersedes   — this part replaces the (older) target
+ *   contradicts  — this part disagrees with the target
+ *   example-of   — this part illustrates the target
+ *
+ * Automatic extraction:
+ *   - mention:    K### / K###.N references in part text; the type comes from
+ *                 wording around the reference, defaulting to depends-on
+ *   - similarity: embedding neighbours from dedup.findRelatedKnowledge — an
+ *                 outdated near-duplicate is superseded, a contract/schema/
+ *                 invariant is depended on; anything else is left unlinked
+ * User links (source 'user') are never touched by extraction.
+ */
+
+import type { Knowledge, KnowledgeLink, KnowledgeLinkType, KnowledgeType, KnowledgeGraph, KnowledgeGraphNode, KnowledgeGraphEdge } from './types';
+import { getKnowledgeStore } from './store';
+import { findRelatedKnowledge, SUPERSEDE_SIMILARITY_THRESHOLD } from './dedup';
+
+// ── Constants ──────────────────────────────────────────
+
+/** K001 or K001.2 — word-bounded so "K001abc" doesn't match */
+const KNOWLEDGE_REF_RE = /\bK(\d{3,})(\.\d+)?\b/g;
+
+/** Characters of surrounding text inspected to type a mention (clipped to its sentence) */
+const MENTION_CONTEXT_CHARS = 80;
+
+/** Sentence or line boundary */
+const SENTENCE_END_RE = /[.!?](?:\s|$)|\n/g;
+
+/** Wording that types a mention; first match wins, default depends-on */
+const MENTION_TYPE_PATTERNS: Array<{ type: KnowledgeLinkType; re: RegExp }> = [
+  { type: 'supersedes', re: /\b(supersed\w*|replac\w*|instead of|obsolet\w*|deprecat\w*)\b/i },
+  { type: 'contradicts', re: /\b(contradict\w*|conflicts? with|inconsistent with|disagrees? with|no longer true)\b/i },
+  { type: 'example-of', re: /\b(example of|instance of|illustrat\w*|implementation of|implements)\b/i },
+];
+
+/** Document types other knowledge typically builds on */
+const FOUNDATION_TYPES = new Set<KnowledgeType>(['contract', 'schema', 'invariant']);
+
+/** Upper bound on automatic similarity links per part */
+const MAX_SIMILARITY_LINKS_PER_PART = 3;
+
+/** Upper bound on graph traversal depth */
+export const MAX_GRAPH_DEPTH = 3;
+
+// ── Extraction ──────────────────────────────────────────
+
+function docIdOf(target: string): string {
+  return target.replace(/\.\d+$/, '');
+}
+
+function inferMentionType(text: string, index: number, length: number): KnowledgeLinkType {
+  const windowStart = Math.max(0, index - MENTION_CONTEXT_CHARS);
+  let start = windowStart;
+  for (const boundary of text.slice(windowStart, index).matchAll(SENTENCE_END_RE)) {
+    start = windowStart + (boundary.index ?? 0) + boundary[0].length;
+  }
+  let end = Math.min(text.length, index + length + MENTION_CONTEXT_CHARS);
+  const after = text.slice(index + length, end).search(SENTENCE_END_RE);
+  if (after >= 0) end = index + length + after;
+
+  const context = text.slice(start, end);
+  return MENTION_TYPE_PATTERNS.find(p => p.re.test(context))?.type || 'depends-on';
+}
+
+/**
+ * Links from explicit K### / K###.N mentions in each part's text.
+ * References to the document itself or to unknown/remote documents are ignored.
+ */
+export function extractMentionLinks(knowledge: Knowledge): Map<string, KnowledgeLink[]> {
+  const index = getKnowledgeStore().getIndex();
+  const result = new Map<string, KnowledgeLink[]>();
+
+  for (const part of knowledge.parts) {
+    const text = `${part.title}\n${part.summary}\n${part.content}`;
+    const links: KnowledgeLink[] = [];
+    for (const match of text.matchAll(KNOWLEDGE_REF_RE)) {
+      const target = match[0];
+      const targetDoc = docIdOf(target);
+      if (targetDoc === knowledge.id) continue;
+      const meta = index.knowledges[targetDoc];
+      if (!meta || meta.origin === 'remote') continue;
+      if (links.some(l => l.target === target)) continue;
+      links.push({ type: inferMentionType(text, match.index ?? 0, target.length), target, source: 'mention' });
+    }
+    if (links.length > 0) result.set(part.partId, links);
+  }
+
+  return result;
+}
+
+/**
+ * Links from embedding similarity (see dedup.findRelatedKnowledge).
+ */
+export async function extractSimilarityLinks(knowledge: Knowledge): Promise<Map<string, KnowledgeLink[]>> {
+  const index = getKnowledgeStore().getIndex();
+  const result = new Map<string, KnowledgeLink[]>();
+
+  for (const match of await findRelatedKnowledge(knowledge)) {
+    const meta = index.knowledges[match.targetId];
+    if (!meta) continue;
+
+    let type: KnowledgeLinkType | null = null;
+    if (meta.status === 'outdated' && match.similarity >= SUPERSEDE_SIMILARITY_THRESHOLD) {
+      type = 'supersedes';
+    } else if (FOUNDATION_TYPES.has(meta.type) && !FOUNDATION_TYPES.has(knowledge.type)) {
+      type = 'depends-on';
+    }
+    if (!type) continue;
+
+    const links = result.get(match.partId) || [];
+    if (links.length >= MAX_SIMILARITY_LINKS_PER_PART) continue;
+    links.push({
+      type,
+      // Supersession is about the whole document; dependencies point at the closest part
+      target: type === 'supersedes' ? match.targetId : (match.targetPartId || match.targetId),
+      source: 'similarity',
+      score: Math.round(match.similarity * 1000) / 1000,
+    });
+    result.set(match.partId, links);
+  }
+
+  return result;
+}
+
+/**
+ * Re-extract automatic links for a document and save them if anything changed.
+ * User links are preserved; a mention wins over a similarity link to the same target.
+ * Similarity extraction is skipped when the vector store is unavailable.
+ */
+export async function refreshKnowledgeLinks(knowledgeId: string): Promise<{ changed: boolean; links: number }> {
+  const store = getKnowledgeStore();
+  const knowledge = store.getKnowledge(knowledgeId);
+  if (!knowledge || knowledge.origin === 'remote') return { changed: false, links: 0 };
+
+  const mentions = extractMentionLinks(knowledge);
+  let similar = new Map<string, KnowledgeLink[]>();
+  try {
+    similar = await extractSimilarityLinks(knowledge);
+  } catch (err) {
+    console.warn(`[KnowledgeLinks] Similarity links skipped for ${knowledgeId}:`, err);
+  }
+
+  let changed = false;
+  let total = 0;
+  const parts = knowledge.parts.map(part => {
+    const user = (part.links || []).filter(l => l.source === 'user');
+    const links = [...user];
+    for (const link of [...(mentions.get(part.partId) || []), ...(similar.get(part.partId) || [])]) {
+      if (links.some(l => l.target === link.target)) continue;
+      links.push(link);
+    }
+    total += links.length;
+
+    const before = JSON.stringify(part.links || []);
+    if (JSON.stringify(links) === before) return part;
+    changed = true;
+    return { ...part, links };
+  });
+
+  if (changed) {
+    store.updateKnowledge(knowledgeId, { parts }, { author: 'generator' });
+  }
+  return { changed, links: total };
+}
+
+// ── Graph ──────────────────────────────────────────
+
+/**
+ * All link edges between local documents, optionally limited to one project.
+ */
+function collectEdges(project?: string): { edges: KnowledgeGraphEdge[]; docs: Map<string, Knowledge> } {
+  const store = getKnowledgeStore();
+  const docs = new Map(store.getAllKnowledge(project, undefined, undefined, 'local').map(k => [k.id, k]));
+  const edges: KnowledgeGraphEdge[] = [];
+
+  for (const doc of docs.values()) {
+    for (const part of doc.parts) {
+      for (const link of part.links || []) {
+        const toDoc = docIdOf(link.target);
+        if (!docs.has(toDoc)) continue;
+        edges.push({ from: part.partId, to: link.target, fromDoc: doc.id, toDoc, type: link.type, source: link.source });
+      }
+    }
+  }
+
+  return { edges, docs };
+}
+
+/**
+ * Neighbourhood of a document: documents reachable through links in either
+ * direction, up to `depth` hops. Returns null if the document doesn't exist.
+ */
+export function getKnowledgeGraph(knowledgeId: string, depth = 1): KnowledgeGraph | null {
+  const root = getKnowledgeStore().getKnowledge(knowledgeId);
+  if (!root) return null;
+
+  const maxDepth = Math.min(Math.max(depth, 1), MAX_GRAPH_DEPTH);
+  const { edges, docs } = collectEdges(root.project);
+  docs.set(root.id, root);
+
+  const adjacent = new Map<string, Set<string>>();
+  for (const edge of edges) {
+    if (edge.fromDoc === edge.toDoc) continue;
+    if (!adjacent.has(edge.fromDoc)) adjacent.set(edge.fromDoc, new Set());
+    if (!adjacent.has(edge.toDoc)) adjacent.set(edge.toDoc, new Set());
+    adjacent.get(edge.fromDoc)!.add(edge.toDoc);
+    adjacent.get(edge.toDoc)!.add(edge.fromDoc);
+  }
+
+  const depthById = new Map<string, number>([[root.id, 0]]);
+  let frontier = [root.id];
+  for (let d = 1; d <= maxDepth && frontier.length > 0; d++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbour of adjacent.get(id) || []) {
+        if (depthById.has(neighbour)) continue;
+        depthById.set(neighbour, d);
+        next.push(neighbour);
+      }
+    }
+    frontier = next;
+  }
+
+  const nodes: KnowledgeGraphNode[] = [...depthById.entries()].map(([id, d]) => {
+    const doc = docs.get(id)!;
+    return { id, title: doc.title, type: doc.type, status: doc.status, project: doc.project, depth: d };
+  });
+
+  return {
+    rootId: root.id,
+    nodes,
+    edges: edges.filter(e => depthById.has(e.fromDoc) && depthById.has(e.toDoc)),
+  };
+}
+
+/**
+ * Direct links into and out of a document (or a single part), for compact listings.
+ */
+export function getRelatedKnowledge(id: string): Array<{
+  direction: 'out' | 'in';
+  type: KnowledgeLinkType;
+  from: string;
+  to: string;
+  title: string;
+  status: Knowledge['status'];
+}> {
+  const docId = docIdOf(id);
+  const isPart = id !== docId;
+  const root = getKnowledgeStore().getKnowledge(docId);
+  if (!root) return [];
+
+  const { edges, docs } = collectEdges(root.project);
+  const related: ReturnType<typeof getRelatedKnowledge> = [];
+  for (const edge of edges) {
+    if (edge.fromDoc === edge.toDoc) continue;
+    const outgoing = edge.fromDoc === docId && (!isPart || edge.from === id);
+    const incoming = edge.toDoc === docId && (!isPart || edge.to === id || edge.to === docId);
+    if (!outgoing && !incoming) continue;
+    const other = docs.get(outgoing ? edge.toDoc : edge.fromDoc)!;
+    related.push({
+      direction: outgoing ? 'out' : 'in',
+      type: edge.type,
+      from: edge.from,
+      to: edge.to,
+      title: other.title,
+      status: other.status,
+    });
+  }
+  return related;
+}
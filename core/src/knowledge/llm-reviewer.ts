@@ -38,6 +38,7 @@ export interface LlmReviewStatus {
   model?: string;
   entriesTotal: number;
   entriesReviewed: number;
+  entriesPending: number;        // Queued by the remember tool, inactive until reviewed
   ratings: { good: number; borderline: number; bad: number };
   startedAt?: string;
   lastCompletedAt?: string;
@@ -131,6 +132,7 @@ export class KnowledgeLlmReviewer {
       model: this.processing ? this.currentModel : undefined,
       entriesTotal: all.length,
       entriesReviewed: reviewed.length,
+      entriesPending: store.getAllKnowledge(undefined, undefined, 'pending', 'local').length,
       ratings,
       startedAt: this.processing ? this.currentStartedAt : undefined,
       lastCompletedAt: this.lastCompletedAt,
@@ -158,7 +160,10 @@ export class KnowledgeLlmReviewer {
     } = options;
 
     const store = getKnowledgeStore();
-    const all = store.getAllKnowledge(project, undefined, 'active', 'local');
+    // Pending entries first: they stay out of search until a review activates them
+    const pending = store.getAllKnowledge(project, undefined, 'pending', 'local');
+    const pendingIds = new Set(pending.map(k => k.id));
+    const all = [...pending, ...store.getAllKnowledge(project, undefined, 'active', 'local')];
 
     const toReview = forceReview
       ? all.slice(0, limit)
@@ -240,6 +245,7 @@ export class KnowledgeLlmReviewer {
       // Apply ratings
       const now = new Date().toISOString();
       const counts = { good: 0, borderline: 0, bad: 0 };
+      const activated: string[] = [];
 
       for (const entry of arr) {
         if (!entry.id || !entry.rating) continue;
@@ -247,12 +253,20 @@ export class KnowledgeLlmReviewer {
         if (!['good', 'borderline', 'bad'].includes(rating)) continue;
 
         counts[rating]++;
+        // Pending entries are activated unless rated BAD, which archives them
+        const status = pendingIds.has(entry.id) ? (rating === 'bad' ? 'archived' : 'active') : undefined;
         store.updateKnowledge(entry.id, {
           reviewedAt: now,
           reviewRating: rating,
           reviewReason: String(entry.reason || ''),
           reviewModel: model,
-        });
+          ...(status ? { status } : {}),
+        }, { author: 'reviewer' });
+        if (status === 'active') activated.push(entry.id);
+      }
+
+      if (activated.length > 0) {
+        this.indexActivated(activated);
       }
 
       // Extract cost from agent response
@@ -314,6 +328,14 @@ export class KnowledgeLlmReviewer {
       this.currentStartedAt = undefined;
     }
   }
+
+  /**
+   * Queue vector indexing for entries that just left the pending state.
+   */
+  private indexActivated(ids: string[]): void {
+    const { getVectorIndexQueue } = require('../vector/index-queue');
+    getVectorIndexQueue().enqueueKnowledge(ids);
+  }
 }
 
 // ── Singleton ──────────────────────────────────────────────────
@@ -17,10 +17,13 @@
  *   One-liner summary paragraph.
  *
  *   Full content...
+ *   <!-- links: [{"type":"depends-on","target":"K002","source":"mention"}] -->
+ *
+ * The optional trailing links comment carries the part's typed references.
  */
 
-import type { Knowledge, KnowledgePart, KnowledgeType } from './types';
-import { KNOWLEDGE_TYPES } from './types';
+import type { Knowledge, KnowledgeLink, KnowledgePart, KnowledgeType, PlanExecutionStatus } from './types';
+import { KNOWLEDGE_TYPES, KNOWLEDGE_LINK_TYPES, PLAN_EXECUTION_STATUSES } from './types';
 
 // ─── Frontmatter Parsing ──────────────────────────────────────────────────
 
@@ -29,7 +32,7 @@ interface Frontmatter {
   title: string;
   type: KnowledgeType;
   project: string;
-  status: 'active' | 'outdated' | 'archived' | 'excluded';
+  status: 'active' | 'outdated' | 'archived' | 'excluded' | 'pending';
   createdAt: string;
   updatedAt: string;
   sourceSessionId?: string;
@@ -46,6 +49,10 @@ interface Frontmatter {
   reviewRating?: 'good' | 'borderline' | 'bad';
   reviewReason?: string;
   reviewModel?: string;
+  planFile?: string;
+  planExecution?: PlanExecutionStatus;
+  executionSessionId?: string;
+  sourceCommit?: string;
 }
 
 function parseFrontmatter(raw: string): Frontmatter | null {
@@ -73,7 +80,7 @@ function parseFrontmatter(raw: string): Frontmatter | null {
     title: fm.title,
     type: KNOWLEDGE_TYPES.includes(fm.type as KnowledgeType) ? fm.type as KnowledgeType : 'algorithm',
     project: fm.project || '',
-    status: (['active', 'outdated', 'archived', 'excluded'].includes(fm.status) ? fm.status : 'active') as Frontmatter['status'],
+    status: (['active', 'outdated', 'archived', 'excluded', 'pending'].includes(fm.status) ? fm.status : 'active') as Frontmatter['status'],
     createdAt: fm.createdAt || new Date().toISOString(),
     updatedAt: fm.updatedAt || new Date().toISOString(),
     sourceSessionId: fm.sourceSessionId || undefined,
@@ -90,6 +97,10 @@ function parseFrontmatter(raw: string): Frontmatter | null {
     reviewRating: (['good', 'borderline', 'bad'].includes(fm.reviewRating as string) ? fm.reviewRating : undefined) as Frontmatter['reviewRating'],
     reviewReason: fm.reviewReason || undefined,
     reviewModel: fm.reviewModel || undefined,
+    planFile: fm.planFile || undefined,
+    planExecution: PLAN_EXECUTION_STATUSES.includes(fm.planExecution as PlanExecutionStatus) ? fm.planExecution as PlanExecutionStatus : undefined,
+    executionSessionId: fm.executionSessionId || undefined,
+    sourceCommit: fm.sourceCommit || undefined,
   };
 }
 
@@ -118,6 +129,10 @@ function renderFrontmatter(k: Knowledge): string {
   if (k.reviewRating) lines.push(`reviewRating: ${k.reviewRating}`);
   if (k.reviewReason) lines.push(`reviewReason: "${k.reviewReason.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`);
   if (k.reviewModel) lines.push(`reviewModel: ${k.reviewModel}`);
+  if (k.planFile) lines.push(`planFile: ${k.planFile}`);
+  if (k.planExecution) lines.push(`planExecution: ${k.planExecution}`);
+  if (k.executionSessionId) lines.push(`executionSessionId: ${k.executionSessionId}`);
+  if (k.sourceCommit) lines.push(`sourceCommit: ${k.sourceCommit}`);
   lines.push('---');
   return lines.join('\n');
 }
@@ -127,6 +142,27 @@ function renderFrontmatter(k: Knowledge): string {
 // Matches: ## K001.1: Part Title (also KNEXT.1 for LLM-generated docs before ID allocation)
 const PART_HEADING_RE = /^##\s+(K[\w]+\.\d+):\s+(.+)$/;
 
+// Matches: <!-- links: [...] --> as the last line of a part
+const PART_LINKS_RE = /^<!--\s*links:\s*(\[.*\])\s*-->$/;
+
+function parseLinks(json: string): KnowledgeLink[] | undefined {
+  try {
+    const raw = JSON.parse(json);
+    if (!Array.isArray(raw)) return undefined;
+    const links = raw.filter((l: any) =>
+      l && KNOWLEDGE_LINK_TYPES.includes(l.type) && typeof l.target === 'string' && /^K\d+(\.\d+)?$/.test(l.target)
+    ).map((l: any): KnowledgeLink => ({
+      type: l.type,
+      target: l.target,
+      source: l.source === 'mention' || l.source === 'similarity' ? l.source : 'user',
+      ...(typeof l.score === 'number' ? { score: l.score } : {}),
+    }));
+    return links.length > 0 ? links : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 function parseParts(body: string): KnowledgePart[] {
   const parts: KnowledgePart[] = [];
   const lines = body.split('\n');
@@ -165,6 +201,15 @@ function finalizePart(raw: { partId: string; title: string; lines: string[] }):
   while (lines.length > 0 && lines[0].trim() === '') lines.shift();
   while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
 
+  // Trailing links comment
+  let links: KnowledgeLink[] | undefined;
+  const linksMatch = lines.length > 0 ? lines[lines.length - 1].trim().match(PART_LINKS_RE) : null;
+  if (linksMatch) {
+    links = parseLinks(linksMatch[1]);
+    lines.pop();
+    while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+  }
+
   // First paragraph = summary (up to first empty line)
   let summary = '';
   let contentStart = 0;
@@ -190,6 +235,7 @@ function finalizePart(raw: { partId: string; title: string; lines: string[] }):
     title: raw.title,
     summary,
     content,
+    ...(links ? { links } : {}),
   };
 }
 
@@ -232,6 +278,10 @@ export function parseKnowledgeMd(mdContent: string): Knowledge | null {
     reviewRating: frontmatter.reviewRating,
     reviewReason: frontmatter.reviewReason,
     reviewModel: frontmatter.reviewModel,
+    planFile: frontmatter.planFile,
+    planExecution: frontmatter.planExecution,
+    executionSessionId: frontmatter.executionSessionId,
+    sourceCommit: frontmatter.sourceCommit,
   };
 }
 
@@ -257,6 +307,10 @@ export function renderKnowledgeMd(knowledge: Knowledge): string {
       lines.push('');
       lines.push(part.content);
     }
+    if (part.links && part.links.length > 0) {
+      lines.push('');
+      lines.push(`<!-- links: ${JSON.stringify(part.links)} -->`);
+    }
     lines.push('');
   }
 
@@ -14,6 +14,8 @@ import { getIdentificationStore } from './identification-store';
 import { getIdentifier, getAllIdentifiers } from './identifiers/index';
 import { getFormatter } from './formatters/index';
 import { getKnowledgeStore } from './store';
+import { recordCodeAnchors } from './code-anchors';
+import { refreshKnowledgeLinks } from './links';
 import type { Knowledge } from './types';
 import { findDuplicateKnowledge, markDuplicatesAsOutdated } from './dedup';
 
@@ -111,13 +113,24 @@ export class KnowledgePipeline {
       project,
       parts: formatResult.parts,
       status: 'active',
-      sourceSessionId: identification.sessionId,
+      // Git history candidates may have no originating session (sessionId '', lineIndex -1)
+      sourceSessionId: identification.sessionId || undefined,
       sourceAgentId: identification.agentId,
       sourceTimestamp: formatResult.sourceTimestamp,
       sourceIdentifier: identification.identifierType,
-      sourceLineIndex: identification.lineIndex,
-      sourceTurnIndex: identification.turnIndex,
-    });
+      sourceLineIndex: identification.lineIndex >= 0 ? identification.lineIndex : undefined,
+      sourceTurnIndex: identification.lineIndex >= 0 ? identification.turnIndex : undefined,
+      planFile: formatResult.planFile,
+      planExecution: formatResult.planExecution,
+      executionSessionId: formatResult.executionSessionId,
+      sourceCommit: formatResult.sourceCommit,
+    }, { author: 'generator', sourceSessionId: identification.sessionId || undefined });
+
+    // Anchor to source files for staleness detection (best-effort)
+    await recordCodeAnchors(knowledge).catch(err => console.warn('[KnowledgePipeline] Code anchor recording failed:', err));
+
+    // Link to related knowledge (mentions + embedding neighbours, best-effort)
+    await refreshKnowledgeLinks(knowledge.id).catch(err => console.warn('[KnowledgePipeline] Link extraction failed:', err));
 
     // Update identification status
     idStore.update(identificationId, {
@@ -240,54 +253,10 @@ export class KnowledgePipeline {
   /**
    * Schedule async vector indexing after batch generation.
    */
-  private _vectorIndexTimer: ReturnType<typeof setTimeout> | null = null;
   private indexKnowledgeVectorsAsync(): void {
-    if (this._vectorIndexTimer) clearTimeout(this._vectorIndexTimer);
-    this._vectorIndexTimer = setTimeout(() => {
-      this._vectorIndexTimer = null;
-      (async () => {
-        try {
-          const { getVectorStore } = require('../vector/vector-store');
-          const { extractKnowledgeVectors } = require('../vector/indexer');
-          const store = getKnowledgeStore();
-          const vectra = getVectorStore();
-
-          const allIds = store.getAllIds();
-          const allVectors: Array<{ text: string; metadata: any }> = [];
-          const badIds: string[] = [];
-          const excludedIds: string[] = [];
-          for (const id of allIds) {
-            const knowledge = store.getKnowledge(id);
-            if (!knowledge) continue;
-            if (knowledge.reviewRating === 'bad') {
-              badIds.push(id);
-              continue;
-            }
-            if (knowledge.status === 'excluded') {
-              excludedIds.push(id);
-              continue;
-            }
-            allVectors.push(...extractKnowledgeVectors(knowledge));
-          }
-
-          // Batch-remove BAD-rated and excluded entries from vector DB
-          const removeIds = [...badIds, ...excludedIds];
-          if (removeIds.length > 0) {
-            await vectra.deleteKnowledgeBatch(removeIds).catch(() => {});
-            console.log(`[KnowledgePipeline] Removed ${badIds.length} BAD-rated + ${excludedIds.length} excluded entries from vector DB`);
-          }
-
-          if (allVectors.length > 0) {
-            await vectra.deleteLocalByType('knowledge');
-            await vectra.addVectors(allVectors);
-            await vectra.rebuildFtsIndex();
-            console.log(`[KnowledgePipeline] Indexed ${allVectors.length} vectors from ${allIds.length - badIds.length} knowledge docs (skipped ${badIds.length} BAD)`);
-          }
-        } catch (err) {
-          console.warn('[KnowledgePipeline] Async vector indexing failed:', err);
-        }
-      })();
-    }, 5_000);
+    // The index queue re-embeds only documents whose content hash changed
+    const { getVectorIndexQueue } = require('../vector/index-queue');
+    getVectorIndexQueue().syncKnowledge();
   }
 
   // ─── V1 feature parity methods ──────────────────────────────────────
@@ -409,12 +378,16 @@ export class KnowledgePipeline {
       }
     }
 
-    if (identifierType === 'generic-content') {
+    if (identifierType === 'generic-content' || identifierType === 'plan') {
       if (!existing.sourceSessionId || existing.sourceLineIndex === undefined) {
         throw new Error(`Knowledge ${knowledgeId} has no source tracking (missing session or line index)`);
       }
     }
 
+    if (identifierType === 'git-history' && !existing.sourceCommit) {
+      throw new Error(`Knowledge ${knowledgeId} has no source tracking (missing commit)`);
+    }
+
     this.currentStatus = {
       status: 'generating',
       currentSessionId: existing.sourceSessionId,
@@ -427,7 +400,7 @@ export class KnowledgePipeline {
       // Build a minimal identification for the formatter
       const identification = {
         id: '',
-        sessionId: existing.sourceSessionId!,
+        sessionId: existing.sourceSessionId || '',
         lineIndex: existing.sourceLineIndex ?? 0,
         turnIndex: existing.sourceTurnIndex ?? 0,
         projectPath: existing.project,
@@ -435,6 +408,7 @@ export class KnowledgePipeline {
         identifiedAt: '',
         identifierType,
         agentId: existing.sourceAgentId,
+        metadata: existing.sourceCommit ? { commitHash: existing.sourceCommit } : undefined,
         status: 'generated' as const,
       };
 
@@ -454,12 +428,22 @@ export class KnowledgePipeline {
         sourceIdentifier: identifierType,
         sourceLineIndex: formatResult.sourceLineIndex,
         sourceTurnIndex: formatResult.sourceTurnIndex,
-      });
+        planFile: formatResult.planFile,
+        planExecution: formatResult.planExecution,
+        executionSessionId: formatResult.executionSessionId,
+        sourceCommit: formatResult.sourceCommit,
+      }, { author: 'generator', sourceSessionId: existing.sourceSessionId });
 
       if (!updated) {
         throw new Error('Failed to update knowledge document');
       }
 
+      // Anchor to source files for staleness detection (best-effort)
+      await recordCodeAnchors(updated).catch(err => console.warn('[KnowledgePipeline] Code anchor recording failed:', err));
+
+      // Link to related knowledge (mentions + embedding neighbours, best-effort)
+      await refreshKnowledgeLinks(updated.id).catch(err => console.warn('[KnowledgePipeline] Link extraction failed:', err));
+
       return updated;
     } finally {
       this.currentStatus = { status: 'idle' };
@@ -0,0 +1,152 @@
+/**
+ * Knowledge Retention Policy
+ *
+ * Retires generated knowledge that no longer earns its place, so the base
+ * doesn't fill up with stale or low-quality documents. Rules (KnowledgeSettings,
+ * each disabled with 0):
+ *   - archive:  reviewRating 'bad' and unused for policyArchiveBadUnusedDays
+ *               (last retrieval / injection / feedback from usage analytics,
+ *               falling back to creation time)
+ *   - outdate:  active and at least policyOutdatedFeedbackCount open 'outdated'
+ *               comments (MCP feedback, reviewers)
+ *   - purge:    excluded and untouched for policyPurgeExcludedDays — the
+ *               document, its comments, revisions and vectors are deleted
+ *
+ * Only local documents are considered. Runs from the KnowledgeScheduler;
+ * dryRun reports the actions without applying them.
+ */
+
+import type { Knowledge } from './types';
+import { getKnowledgeStore } from './store';
+import { getKnowledgeSettings } from './settings';
+import { getKnowledgeAnalytics } from './analytics';
+
+// ── Types ──────────────────────────────────────────
+
+export type KnowledgePolicyActionType = 'archive' | 'outdate' | 'purge';
+
+export interface KnowledgePolicyAction {
+  id: string;
+  title: string;
+  project: string;
+  action: KnowledgePolicyActionType;
+  reason: string;
+}
+
+export interface KnowledgePolicyResult {
+  evaluated: number;
+  actions: KnowledgePolicyAction[];
+  /** Actions actually applied (0 on dry run) */
+  applied: number;
+  dryRun: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ── Evaluation ──────────────────────────────────────────
+
+function daysSince(timestamp: string | null | undefined, now: number): number {
+  const ts = timestamp ? new Date(timestamp).getTime() : NaN;
+  return isNaN(ts) ? Infinity : (now - ts) / DAY_MS;
+}
+
+/**
+ * First rule that applies to a document, or null.
+ */
+function evaluate(knowledge: Knowledge, now: number): Pick<KnowledgePolicyAction, 'action' | 'reason'> | null {
+  const settings = getKnowledgeSettings();
+  const store = getKnowledgeStore();
+
+  if (knowledge.status === 'excluded') {
+    const days = settings.policyPurgeExcludedDays;
+    if (days > 0 && daysSince(knowledge.updatedAt, now) >= days) {
+      return { action: 'purge', reason: `Excluded and untouched for ${days}+ days` };
+    }
+    return null;
+  }
+
+  if (knowledge.status === 'archived') return null;
+
+  if (knowledge.reviewRating === 'bad' && settings.policyArchiveBadUnusedDays > 0) {
+    const lastUsedAt = getKnowledgeAnalytics().getLastUsedAt(knowledge.id);
+    const unusedDays = daysSince(lastUsedAt || knowledge.createdAt, now);
+    if (unusedDays >= settings.policyArchiveBadUnusedDays) {
+      const since = lastUsedAt ? `last used ${Math.floor(unusedDays)} days ago` : 'never used';
+      return { action: 'archive', reason: `Rated bad and ${since}` };
+    }
+  }
+
+  if (knowledge.status === 'active' && settings.policyOutdatedFeedbackCount > 0) {
+    const outdated = store.getComments(knowledge.id).filter(c => c.type === 'outdated').length;
+    if (outdated >= settings.policyOutdatedFeedbackCount) {
+      return { action: 'outdate', reason: `${outdated} open 'outdated' comments` };
+    }
+  }
+
+  return null;
+}
+
+// ── Run ──────────────────────────────────────────
+
+/**
+ * Evaluate every local document against the policy and apply the resulting
+ * actions unless dryRun is set.
+ */
+export async function runKnowledgePolicy(options: { dryRun?: boolean; project?: string } = {}): Promise<KnowledgePolicyResult> {
+  const store = getKnowledgeStore();
+  const now = Date.now();
+
+  // Fold in recent MCP usage so "unused" reflects the latest searches
+  try {
+    getKnowledgeAnalytics().refresh();
+  } catch (err) {
+    console.warn('[KnowledgePolicy] Usage analytics refresh failed:', err);
+  }
+
+  const docs = store.getAllKnowledge(options.project, undefined, undefined, 'local');
+  const actions: KnowledgePolicyAction[] = [];
+  for (const knowledge of docs) {
+    const verdict = evaluate(knowledge, now);
+    if (verdict) {
+      actions.push({ id: knowledge.id, title: knowledge.title, project: knowledge.project, ...verdict });
+    }
+  }
+
+  const result: KnowledgePolicyResult = { evaluated: docs.length, actions, applied: 0, dryRun: !!options.dryRun };
+  if (options.dryRun) return result;
+
+  const unindex: string[] = [];
+  for (const action of actions) {
+    try {
+      switch (action.action) {
+        case 'archive':
+          store.updateKnowledge(action.id, { status: 'archived' }, { author: 'generator' });
+          store.addComment({ knowledgeId: action.id, type: 'general', content: `Archived by retention policy: ${action.reason}`, source: 'llm' });
+          unindex.push(action.id);
+          break;
+        case 'outdate':
+          store.updateKnowledge(action.id, { status: 'outdated' }, { author: 'generator' });
+          break;
+        case 'purge':
+          store.deleteKnowledge(action.id);
+          unindex.push(action.id);
+          break;
+      }
+      result.applied++;
+    } catch (err: any) {
+      console.error(`[KnowledgePolicy] ${action.action} failed for ${action.id}: ${err.message}`);
+    }
+  }
+
+  // Archived and purged documents should no longer surface in search
+  if (unindex.length > 0) {
+    try {
+      const { getVectorStore } = require('../vector/vector-store');
+      await getVectorStore().deleteKnowledgeBatch(unindex);
+    } catch (err) {
+      console.warn('[KnowledgePolicy] Vector cleanup failed:', err);
+    }
+  }
+
+  return result;
+}
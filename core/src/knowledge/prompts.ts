@@ -1,7 +1,7 @@
 /**
  * Knowledge Prompts
  *
- * System prompts for the knowledge reviewer and generator LLM processes.
+ * System prompts for the knowledge reviewer, generator and conflict-check LLM processes.
  * These prompts embed the knowledge purpose contract — what knowledge IS,
  * how to curate it, and what makes good implementation knowledge.
  */
@@ -30,6 +30,7 @@ from LLMs that consumed this knowledge. Each comment has a type:
 - 'update': Needs revision — apply the suggested changes while preserving document structure
 - 'expand': Needs deeper detail — add implementation specifics, examples, or sub-parts
 - 'remove': No longer relevant — remove the section or archive the document
+- 'contradicts': Disagrees with another machine's copy of this knowledge — correct this document only if the comment shows it is the wrong side
 - 'general': Other feedback — assess and act as appropriate
 
 ## Output Format
@@ -116,3 +117,50 @@ Each vector includes metadata:
 - Include relationships: "\`embedder.embed()\` returns \`Float32Array[384]\` consumed by \`vectra.addVectors()\`"
 - Use actual file paths, function names, constant values in \`backticks\`
 - Document edge cases and invariants`;
+
+
+// ─── Conflict Check System Prompt ──────────────────────────────────────────
+
+export const CONFLICT_SYSTEM_PROMPT = `You compare two knowledge documents about the same software project.
+One was written on this machine (LOCAL), the other was synced from a teammate's machine (REMOTE).
+
+${KNOWLEDGE_PURPOSE}
+
+## Your Task
+Decide whether the documents CONTRADICT each other: they state different facts about the same
+thing (different values, behaviour, names, ordering, guarantees) so that an agent given both
+would not know which to trust.
+
+NOT contradictions:
+- One document covers more detail or different aspects than the other
+- Different wording, structure or emphasis for the same facts
+- Documents about related but different components
+
+## Output Format
+Return only a JSON object:
+{
+  "contradicts": true | false,
+  "explanation": "One or two sentences naming the conflicting facts (or why they are consistent)",
+  "localPartId": "K001.2 or null — the LOCAL part that conflicts most",
+  "remotePartId": "K014.1 or null — the REMOTE part that conflicts most"
+}`;
+
+// ─── Conflict Merge System Prompt ──────────────────────────────────────────
+
+export const MERGE_SYSTEM_PROMPT = `You merge two contradicting knowledge documents into one.
+LOCAL was written on this machine; REMOTE was synced from a teammate's machine.
+
+${KNOWLEDGE_PURPOSE}
+
+## Your Task
+Produce a single document that keeps every fact the two agree on and resolves each conflict:
+- Prefer the statement that is more specific and better supported (code references, values)
+- When a conflict cannot be settled from the documents, keep the LOCAL statement and note the
+  REMOTE alternative in one sentence
+- Do not invent facts that appear in neither document
+
+## Output Format
+Return only the merged Markdown document, using LOCAL's frontmatter and ID:
+- Keep the K{id}.{n} part numbering of LOCAL; add parts that exist only in REMOTE at the end
+- First paragraph after each ## heading is always a one-liner summary
+- Update the updatedAt timestamp in frontmatter to the current time`;
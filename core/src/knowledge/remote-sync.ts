@@ -398,7 +398,7 @@ export async function sync(projectPath?: string): Promise<void> {
               machineOS: remoteOS,
               createdAt: rk.createdAt,
               updatedAt: rk.updatedAt,
-            });
+            }, { author: 'remote-sync', sourceSessionId: rk.sourceSessionId });
 
             // Index vectors
             try {
@@ -445,7 +445,7 @@ export async function sync(projectPath?: string): Promise<void> {
                   machineHostname: existing.machineHostname,
                   machineOS: existing.machineOS,
                   status: 'archived',
-                });
+                }, { author: 'remote-sync', sourceSessionId: existing.sourceSessionId });
                 _syncStatus.entriesFlaggedStale++;
               } catch { /* best-effort */ }
             }
@@ -0,0 +1,554 @@
+/**
+ * Knowledge Repo Sync
+ *
+ * Mirrors a project's knowledge into a directory committed to the project's
+ * own repository (default: .lm-assist/knowledge/), so a team shares knowledge
+ * through normal git commits instead of the Hub.
+ *
+ * Each mirrored document (status active or outdated) is one K###.md file in
+ * the repo form: the file name is its repo ID, parts are numbered after it and
+ * the project path is written as "." (checkouts live at different paths).
+ * Repo IDs are independent of local IDs — the mapping is kept in the state file.
+ *
+ * Reconciliation is three-way against the content hash recorded at the last sync:
+ *   - only the store changed  → rewrite (or remove) the file
+ *   - only the file changed   → update (create / archive) the local document
+ *   - both changed            → leave both untouched and add an 'update' comment
+ *                               describing the conflict, until resolved
+ *
+ * Triggers: store writes (KnowledgeStore.onChange) and chokidar events on the
+ * repo directory, both debounced; plus an explicit run via the API.
+ *
+ * State: ~/.lm-assist/knowledge/repo-sync-state.json
+ * Singleton via getKnowledgeRepoSync().
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as chokidar from 'chokidar';
+import type { Knowledge } from './types';
+import { getKnowledgeStore } from './store';
+import { getKnowledgeSettings } from './settings';
+import { parseKnowledgeMd, renderKnowledgeMd } from './parser';
+import { normalizeTitle } from './dedup';
+import { getDataDir } from '../utils/path-utils';
+
+// ── Types ──────────────────────────────────────────
+
+interface RepoSyncFileState {
+  knowledgeId: string;
+  /** Content hash both sides agreed on at the last sync */
+  hash: string;
+  /** `${fileHash}:${storeHash}` of the conflict already reported */
+  conflictHash?: string;
+}
+
+interface RepoSyncProjectState {
+  dir: string;
+  files: Record<string, RepoSyncFileState>;
+  lastSyncAt: string | null;
+  lastResult: string | null;
+}
+
+interface RepoSyncStateFile {
+  projects: Record<string, RepoSyncProjectState>;
+}
+
+export interface RepoSyncResult {
+  project: string;
+  written: number;
+  removed: number;
+  imported: number;
+  updated: number;
+  archived: number;
+  conflicts: number;
+  invalid: string[];
+}
+
+export interface RepoSyncStatus {
+  running: boolean;
+  projects: Array<{
+    project: string;
+    dir: string;
+    watching: boolean;
+    files: number;
+    conflicts: Array<{ file: string; knowledgeId: string }>;
+    lastSyncAt: string | null;
+    lastResult: string | null;
+  }>;
+}
+
+// ── Constants ──────────────────────────────────────────
+
+const STATE_FILE = path.join(getDataDir(), 'knowledge', 'repo-sync-state.json');
+
+/** Delay before reconciling after a store write or file event */
+const DEBOUNCE_MS = 500;
+
+/** Repo files are named after their repo ID */
+const REPO_FILE_RE = /^K\d+\.md$/;
+
+/** Prefix of conflict comments, used to mark them addressed on resolve */
+const CONFLICT_PREFIX = 'Repo sync conflict';
+
+// ── Repo Form ──────────────────────────────────────────
+
+function isMirrored(knowledge: Knowledge): boolean {
+  return knowledge.status === 'active' || knowledge.status === 'outdated';
+}
+
+function withId(knowledge: Knowledge, id: string, project: string): Knowledge {
+  return {
+    ...knowledge,
+    id,
+    project,
+    parts: knowledge.parts.map((p, i) => ({ ...p, partId: `${id}.${i + 1}` })),
+    origin: undefined,
+    machineId: undefined,
+    machineHostname: undefined,
+    machineOS: undefined,
+  };
+}
+
+function renderRepoMd(knowledge: Knowledge, repoId: string): string {
+  return renderKnowledgeMd(withId(knowledge, repoId, '.'));
+}
+
+/** Hash of the repo form, ignoring updatedAt (it changes on every write) */
+function fingerprint(knowledge: Knowledge, repoId: string): string {
+  const md = renderRepoMd(knowledge, repoId).replace(/^updatedAt: .*$/m, '');
+  return crypto.createHash('sha1').update(md).digest('hex');
+}
+
+// ── Repo Sync ──────────────────────────────────────────
+
+class KnowledgeRepoSync {
+  private _running = false;
+  private watchers = new Map<string, ReturnType<typeof chokidar.watch>>();
+  private pending = new Set<string>();
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  start(): void {
+    if (this._running) return;
+    this._running = true;
+
+    this.unsubscribe = getKnowledgeStore().onChange((_id, knowledge) => {
+      if (knowledge?.origin === 'remote') return;
+      const projects = Object.keys(getKnowledgeSettings().repoSyncProjects);
+      // Deletions don't carry the project — reconcile every synced project
+      for (const project of projects) {
+        if (!knowledge || knowledge.project === project) this.schedule(project);
+      }
+    });
+
+    this.refresh();
+    console.log(`[RepoSync] Started (${this.watchers.size} project${this.watchers.size !== 1 ? 's' : ''})`);
+  }
+
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    for (const watcher of this.watchers.values()) {
+      watcher.close().catch(() => {});
+    }
+    this.watchers.clear();
+    this.pending.clear();
+    this._running = false;
+    console.log('[RepoSync] Stopped');
+  }
+
+  isRunning(): boolean {
+    return this._running;
+  }
+
+  /**
+   * Re-read settings: watch newly configured projects, drop removed ones,
+   * and schedule a reconcile for every configured project.
+   */
+  refresh(): void {
+    if (!this._running) return;
+    const configured = getKnowledgeSettings().repoSyncProjects;
+
+    for (const [key, watcher] of this.watchers) {
+      const [project, dir] = key.split('\0');
+      if (configured[project] !== dir) {
+        watcher.close().catch(() => {});
+        this.watchers.delete(key);
+      }
+    }
+
+    for (const [project, dir] of Object.entries(configured)) {
+      const key = `${project}\0${dir}`;
+      if (this.watchers.has(key) || !fs.existsSync(project)) continue;
+
+      const absDir = path.join(project, dir);
+      try {
+        fs.mkdirSync(absDir, { recursive: true });
+        const watcher = chokidar.watch(absDir, {
+          persistent: true,
+          ignoreInitial: true,
+          depth: 0,
+          awaitWriteFinish: {
+            stabilityThreshold: 300,
+            pollInterval: 100,
+          },
+        });
+        const onEvent = (filePath: string) => {
+          if (REPO_FILE_RE.test(path.basename(filePath))) this.schedule(project);
+        };
+        watcher.on('add', onEvent);
+        watcher.on('change', onEvent);
+        watcher.on('unlink', onEvent);
+        watcher.on('error', err => console.error(`[RepoSync] Watcher error for ${absDir}:`, err));
+        this.watchers.set(key, watcher);
+      } catch (err: any) {
+        console.error(`[RepoSync] Failed to watch ${absDir}: ${err.message}`);
+      }
+    }
+
+    for (const project of Object.keys(configured)) {
+      this.schedule(project);
+    }
+  }
+
+  private schedule(project: string): void {
+    this.pending.add(project);
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      const projects = [...this.pending];
+      this.pending.clear();
+      for (const p of projects) {
+        try {
+          this.reconcile(p);
+        } catch (err: any) {
+          console.error(`[RepoSync] Reconcile failed for ${p}: ${err.message}`);
+        }
+      }
+    }, DEBOUNCE_MS);
+  }
+
+  // ── State ──────────────────────────────────────────
+
+  private loadState(): RepoSyncStateFile {
+    try {
+      if (fs.existsSync(STATE_FILE)) {
+        const data = JSON.parse(fs.readFileSync(STATE_FILE, 'utf-8'));
+        if (data && typeof data.projects === 'object') return data;
+      }
+    } catch {
+      // Corrupt state — start over (next reconcile treats every file as new)
+    }
+    return { projects: {} };
+  }
+
+  private saveState(state: RepoSyncStateFile): void {
+    const dir = path.dirname(STATE_FILE);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(STATE_FILE, JSON.stringify(state, null, 2));
+  }
+
+  // ── Reconcile ──────────────────────────────────────────
+
+  /**
+   * Bring a project's repo directory and local store in line.
+   * Throws if the project is not configured for repo sync.
+   */
+  reconcile(project: string): RepoSyncResult {
+    const dir = getKnowledgeSettings().repoSyncProjects[project];
+    if (!dir) {
+      throw new Error(`Repo sync is not configured for ${project}`);
+    }
+
+    const store = getKnowledgeStore();
+    const absDir = path.join(project, dir);
+    fs.mkdirSync(absDir, { recursive: true });
+
+    const state = this.loadState();
+    let projectState = state.projects[project];
+    if (!projectState || projectState.dir !== dir) {
+      projectState = { dir, files: {}, lastSyncAt: null, lastResult: null };
+      state.projects[project] = projectState;
+    }
+    const files = projectState.files;
+
+    const result: RepoSyncResult = {
+      project, written: 0, removed: 0, imported: 0, updated: 0, archived: 0, conflicts: 0, invalid: [],
+    };
+
+    const onDisk = fs.readdirSync(absDir).filter(f => REPO_FILE_RE.test(f));
+    const docs = store.getAllKnowledge(project, undefined, undefined, 'local');
+    const mappedIds = new Set(Object.values(files).map(f => f.knowledgeId));
+
+    const writeFile = (name: string, knowledge: Knowledge) => {
+      fs.writeFileSync(path.join(absDir, name), renderRepoMd(knowledge, name.replace(/\.md$/, '')));
+      result.written++;
+    };
+
+    const createFromRepo = (parsed: Knowledge): Knowledge | null => {
+      const localId = store.reserveId();
+      return store.createKnowledgeFromMd(renderKnowledgeMd(withId(parsed, localId, project)), { author: 'repo-sync' });
+    };
+
+    for (const name of new Set([...Object.keys(files), ...onDisk])) {
+      const repoId = name.replace(/\.md$/, '');
+      const filePath = path.join(absDir, name);
+
+      let parsed: Knowledge | null = null;
+      if (fs.existsSync(filePath)) {
+        parsed = parseKnowledgeMd(fs.readFileSync(filePath, 'utf-8'));
+        if (!parsed) {
+          result.invalid.push(name);
+          continue;
+        }
+      }
+
+      let entry = files[name];
+      if (!entry) {
+        if (!parsed) continue;
+        // New file: adopt an unmapped local document with the same title, else import it
+        const title = normalizeTitle(parsed.title);
+        const twin = docs.find(d => !mappedIds.has(d.id) && normalizeTitle(d.title) === title);
+        if (!twin) {
+          const created = createFromRepo(parsed);
+          if (created) {
+            files[name] = { knowledgeId: created.id, hash: fingerprint(parsed, repoId) };
+            mappedIds.add(created.id);
+            result.imported++;
+          }
+          continue;
+        }
+        // Empty base hash: both sides count as changed, so differing content becomes a conflict
+        entry = files[name] = { knowledgeId: twin.id, hash: '' };
+        mappedIds.add(twin.id);
+      }
+
+      const doc = store.getKnowledge(entry.knowledgeId);
+      const fileHash = parsed ? fingerprint(parsed, repoId) : null;
+      const storeHash = doc && isMirrored(doc) ? fingerprint(doc, repoId) : null;
+      const fileChanged = fileHash !== entry.hash;
+      const storeChanged = storeHash !== entry.hash;
+
+      if (!fileChanged && !storeChanged) continue;
+
+      if (fileHash === storeHash) {
+        // Both sides converged on their own
+        if (fileHash) {
+          entry.hash = fileHash;
+          delete entry.conflictHash;
+        } else {
+          delete files[name];
+        }
+        continue;
+      }
+
+      if (!fileChanged || (storeChanged && storeHash && !fileHash)) {
+        // Store side wins: local edit, or local edit racing a file removal
+        if (storeHash && doc) {
+          writeFile(name, doc);
+          entry.hash = storeHash;
+          delete entry.conflictHash;
+        } else {
+          fs.unlinkSync(filePath);
+          delete files[name];
+          result.removed++;
+        }
+        continue;
+      }
+
+      if (!storeChanged || (fileHash && !storeHash)) {
+        // Repo side wins: teammate edit, or teammate edit of a locally removed/archived document
+        if (parsed && fileHash) {
+          if (doc) {
+            store.updateKnowledgeFromMd(doc.id, renderKnowledgeMd(withId(parsed, doc.id, project)), { author: 'repo-sync' });
+            result.updated++;
+          } else {
+            const created = createFromRepo(parsed);
+            if (!created) continue;
+            entry.knowledgeId = created.id;
+            result.imported++;
+          }
+          entry.hash = fileHash;
+          delete entry.conflictHash;
+        } else {
+          if (doc && isMirrored(doc)) {
+            store.updateKnowledge(doc.id, { status: 'archived' }, { author: 'repo-sync' });
+            result.archived++;
+          }
+          delete files[name];
+        }
+        continue;
+      }
+
+      // Both sides changed to different content — surface once per distinct pair
+      const conflictHash = `${fileHash}:${storeHash}`;
+      if (doc && parsed && entry.conflictHash !== conflictHash) {
+        store.addComment({
+          knowledgeId: doc.id,
+          type: 'update',
+          content: this.describeConflict(path.join(dir, name), doc, parsed),
+          source: 'llm',
+        });
+        entry.conflictHash = conflictHash;
+      }
+      result.conflicts++;
+    }
+
+    // Mirror local documents that have no repo file yet
+    const taken = new Set([...Object.keys(files), ...onDisk]);
+    let nextNum = Math.max(0, ...[...taken].map(n => parseInt(n.slice(1), 10) || 0)) + 1;
+    for (const doc of docs) {
+      if (mappedIds.has(doc.id) || !isMirrored(doc)) continue;
+      let name = `${doc.id}.md`;
+      if (taken.has(name)) {
+        name = `K${String(nextNum++).padStart(3, '0')}.md`;
+      }
+      taken.add(name);
+      writeFile(name, doc);
+      files[name] = { knowledgeId: doc.id, hash: fingerprint(doc, name.replace(/\.md$/, '')) };
+    }
+
+    projectState.lastSyncAt = new Date().toISOString();
+    projectState.lastResult = this.summarize(result);
+    this.saveState(state);
+
+    if (result.written + result.removed + result.imported + result.updated + result.archived > 0 || result.conflicts > 0) {
+      console.log(`[RepoSync] ${project}: ${projectState.lastResult}`);
+    }
+    return result;
+  }
+
+  private describeConflict(relPath: string, local: Knowledge, repo: Knowledge): string {
+    const lines = [
+      `${CONFLICT_PREFIX}: ${relPath} was changed in the repository while this document was edited locally.`,
+      'Neither side was overwritten. Resolve by keeping the local or the repository version.',
+    ];
+    if (local.title !== repo.title) {
+      lines.push(`Repository title: "${repo.title}"`);
+    }
+    const differing = repo.parts
+      .filter((p, i) => {
+        const mine = local.parts[i];
+        return !mine || mine.title !== p.title || mine.summary !== p.summary || mine.content !== p.content;
+      })
+      .map(p => p.title);
+    if (local.parts.length > repo.parts.length) {
+      differing.push(...local.parts.slice(repo.parts.length).map(p => `${p.title} (local only)`));
+    }
+    if (differing.length > 0) {
+      lines.push(`Parts that differ: ${differing.join(', ')}`);
+    }
+    return lines.join('\n');
+  }
+
+  private summarize(result: RepoSyncResult): string {
+    const parts = [
+      result.written > 0 && `${result.written} written`,
+      result.removed > 0 && `${result.removed} removed`,
+      result.imported > 0 && `${result.imported} imported`,
+      result.updated > 0 && `${result.updated} updated`,
+      result.archived > 0 && `${result.archived} archived`,
+      result.conflicts > 0 && `${result.conflicts} conflict${result.conflicts !== 1 ? 's' : ''}`,
+      result.invalid.length > 0 && `${result.invalid.length} invalid`,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : 'In sync';
+  }
+
+  // ── Conflicts ──────────────────────────────────────────
+
+  /**
+   * Resolve a conflict for a local document by keeping one side.
+   * Returns false when the document has no repo file in that project.
+   */
+  resolveConflict(project: string, knowledgeId: string, keep: 'store' | 'repo'): boolean {
+    const dir = getKnowledgeSettings().repoSyncProjects[project];
+    if (!dir) {
+      throw new Error(`Repo sync is not configured for ${project}`);
+    }
+
+    const store = getKnowledgeStore();
+    const state = this.loadState();
+    const files = state.projects[project]?.files || {};
+    const name = Object.keys(files).find(n => files[n].knowledgeId === knowledgeId);
+    if (!name) return false;
+
+    const entry = files[name];
+    const repoId = name.replace(/\.md$/, '');
+    const filePath = path.join(project, dir, name);
+    const doc = store.getKnowledge(knowledgeId);
+
+    let fromRepo: Knowledge | null = null;
+    if (keep === 'store') {
+      if (!doc) return false;
+      fs.writeFileSync(filePath, renderRepoMd(doc, repoId));
+      entry.hash = fingerprint(doc, repoId);
+    } else {
+      fromRepo = fs.existsSync(filePath) ? parseKnowledgeMd(fs.readFileSync(filePath, 'utf-8')) : null;
+      if (!fromRepo) {
+        throw new Error(`${path.join(dir, name)} is missing or not a valid knowledge document`);
+      }
+      entry.hash = fingerprint(fromRepo, repoId);
+    }
+    delete entry.conflictHash;
+    // Save before the store write so the resulting change is seen as already synced
+    this.saveState(state);
+
+    if (fromRepo) {
+      store.updateKnowledgeFromMd(knowledgeId, renderKnowledgeMd(withId(fromRepo, knowledgeId, project)), { author: 'repo-sync' });
+    }
+
+    for (const comment of store.getComments(knowledgeId)) {
+      if (comment.type === 'update' && comment.content.startsWith(CONFLICT_PREFIX)) {
+        store.updateCommentState(knowledgeId, comment.id, 'addressed', 'repo-sync');
+      }
+    }
+    return true;
+  }
+
+  // ── Status ──────────────────────────────────────────
+
+  getStatus(): RepoSyncStatus {
+    const configured = getKnowledgeSettings().repoSyncProjects;
+    const state = this.loadState();
+
+    return {
+      running: this._running,
+      projects: Object.entries(configured).map(([project, dir]) => {
+        const projectState = state.projects[project]?.dir === dir ? state.projects[project] : null;
+        const files = projectState?.files || {};
+        return {
+          project,
+          dir,
+          watching: this.watchers.has(`${project}\0${dir}`),
+          files: Object.keys(files).length,
+          conflicts: Object.entries(files)
+            .filter(([, f]) => f.conflictHash)
+            .map(([file, f]) => ({ file, knowledgeId: f.knowledgeId })),
+          lastSyncAt: projectState?.lastSyncAt ?? null,
+          lastResult: projectState?.lastResult ?? null,
+        };
+      }),
+    };
+  }
+}
+
+// ── Singleton ──────────────────────────────────────────
+
+let instance: KnowledgeRepoSync | null = null;
+
+export function getKnowledgeRepoSync(): KnowledgeRepoSync {
+  if (!instance) {
+    instance = new KnowledgeRepoSync();
+  }
+  return instance;
+}
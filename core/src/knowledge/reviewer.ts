@@ -163,7 +163,7 @@ export class KnowledgeReviewer {
     // Apply updated markdown
     let markdownApplied = true;
     if (parsed.markdown) {
-      const updated = store.updateKnowledgeFromMd(knowledgeId, parsed.markdown);
+      const updated = store.updateKnowledgeFromMd(knowledgeId, parsed.markdown, { author: 'reviewer' });
       if (updated) {
         // Vector re-indexing is now decoupled — use /vectors/index or /vectors/reindex
       } else {
@@ -1,18 +1,25 @@
 /**
  * Knowledge Scheduler
  *
- * Background timers for automatic knowledge discovery, generation, and remote sync.
+ * Background timers for automatic knowledge discovery, generation, remote sync, staleness checks,
+ * the retention policy and tool result indexing.
  * Reads settings from knowledge/settings.json on each tick so changes take effect immediately.
  *
- * Three scheduled activities:
- *   1. Agent Discovery + Generation — discovers explore-agent candidates, optionally generates.
- *   2. Generic Discovery — discovers generic-content candidates via LLM (costs tokens).
- *   3. Remote Sync — calls sync() when remoteSyncEnabled is true.
+ * Six scheduled activities:
+ *   1. Agent Discovery + Generation — discovers explore-agent and plan candidates, optionally generates.
+ *   2. Generic Discovery — discovers generic-content candidates, and git-history candidates
+ *      validated via LLM (costs tokens).
+ *   3. Remote Sync — calls sync() when remoteSyncEnabled is true, then checks for local/remote
+ *      conflicts when autoReview is on.
+ *   4. Staleness Check — compares code anchors against git and marks drifted knowledge outdated.
+ *   5. Retention Policy — archives, outdates or purges knowledge per the policy settings.
+ *   6. Tool Result Indexing — embeds chunked Read/Edit/Bash results (opt-in, discovery interval).
  *
  * Singleton via getKnowledgeScheduler().
  */
 
 import { getKnowledgeSettings } from './settings';
+import type { IdentifierType } from './identifier-types';
 
 // ── Types ──────────────────────────────────────────
 
@@ -35,6 +42,9 @@ export interface SchedulerStatus {
     isRunning: boolean;
   };
   remoteSync: TimerStatus;
+  stalenessCheck: TimerStatus;
+  retentionPolicy: TimerStatus;
+  toolResultIndexing: TimerStatus;
 }
 
 // ── Scheduler ──────────────────────────────────────────
@@ -50,6 +60,9 @@ class KnowledgeScheduler {
   private genericDiscoveryRunning = false;
   private generationRunning = false;
   private syncRunning = false;
+  private stalenessRunning = false;
+  private policyRunning = false;
+  private toolResultIndexRunning = false;
 
   // Status tracking — agent discovery
   private agentDiscoveryLastRunAt: string | null = null;
@@ -67,6 +80,18 @@ class KnowledgeScheduler {
   private syncLastRunAt: string | null = null;
   private syncLastResult: string | null = null;
 
+  // Status tracking — staleness check
+  private stalenessLastRunAt: string | null = null;
+  private stalenessLastResult: string | null = null;
+
+  // Status tracking — retention policy
+  private policyLastRunAt: string | null = null;
+  private policyLastResult: string | null = null;
+
+  // Tool result indexing state
+  private toolResultIndexLastRunAt: string | null = null;
+  private toolResultIndexLastResult: string | null = null;
+
   start(): void {
     if (this._running) return;
     this._running = true;
@@ -79,10 +104,16 @@ class KnowledgeScheduler {
       this.runAgentDiscoveryTick();
       this.runGenericDiscoveryTick();
       this.runSyncTick();
+      this.runStalenessTick();
+      this.runPolicyTick();
+      this.runToolResultIndexTick();
       // Check every minute; each tick reads settings to decide whether to run
       this.tickTimer = setInterval(() => {
         this.runAgentDiscoveryTick();
         this.runGenericDiscoveryTick();
+        this.runStalenessTick();
+        this.runPolicyTick();
+        this.runToolResultIndexTick();
       }, 60_000);
       this.syncTimer = setInterval(() => this.runSyncTick(), 60_000);
     }, 30_000);
@@ -138,6 +169,27 @@ class KnowledgeScheduler {
         lastResult: this.syncLastResult,
         isRunning: this.syncRunning,
       },
+      stalenessCheck: {
+        enabled: settings.stalenessCheckIntervalMinutes > 0,
+        intervalMinutes: settings.stalenessCheckIntervalMinutes,
+        lastRunAt: this.stalenessLastRunAt,
+        lastResult: this.stalenessLastResult,
+        isRunning: this.stalenessRunning,
+      },
+      retentionPolicy: {
+        enabled: settings.policyIntervalMinutes > 0,
+        intervalMinutes: settings.policyIntervalMinutes,
+        lastRunAt: this.policyLastRunAt,
+        lastResult: this.policyLastResult,
+        isRunning: this.policyRunning,
+      },
+      toolResultIndexing: {
+        enabled: settings.toolResultIndexing && settings.discoveryIntervalMinutes > 0,
+        intervalMinutes: settings.discoveryIntervalMinutes,
+        lastRunAt: this.toolResultIndexLastRunAt,
+        lastResult: this.toolResultIndexLastResult,
+        isRunning: this.toolResultIndexRunning,
+      },
     };
   }
 
@@ -185,6 +237,15 @@ class KnowledgeScheduler {
         try {
           const results = await pipeline.discover(project.path, 'explore-agent');
           totalDiscovered += results.length;
+          // Approved plans are cheap to discover (no LLM) — ride along with agent discovery
+          const plans = await pipeline.discover(project.path, 'plan');
+          totalDiscovered += plans.length;
+          // Plans generated before they were carried out get their execution re-checked
+          const { refreshPlanExecutions } = require('./formatters/plan');
+          const executed: string[] = await refreshPlanExecutions(project.path);
+          if (executed.length > 0) {
+            console.log(`[Scheduler] Plan execution updated for ${project.path}: ${executed.join(', ')}`);
+          }
         } catch (err: any) {
           console.error(`[Scheduler] Agent discovery error for ${project.path}: ${err.message}`);
         }
@@ -196,15 +257,20 @@ class KnowledgeScheduler {
       const projectPaths = new Set(projects.map((p: any) => p.path));
       const pendingCandidates = idStore.list({ status: 'candidate', identifierType: 'explore-agent' })
         .filter((c: any) => projectPaths.has(c.projectPath));
+      const pendingPlans = idStore.list({ status: 'candidate', identifierType: 'plan' })
+        .filter((c: any) => projectPaths.has(c.projectPath));
 
       this.agentDiscoveryLastRunAt = new Date().toISOString();
-      this.agentDiscoveryLastResult = `${totalDiscovered} new, ${pendingCandidates.length} pending across ${projects.length} projects`;
+      this.agentDiscoveryLastResult = `${totalDiscovered} new, ${pendingCandidates.length + pendingPlans.length} pending across ${projects.length} projects`;
       console.log(`[Scheduler] Agent discovery: ${this.agentDiscoveryLastResult}`);
 
-      // Chain generation if enabled and there are pending agent candidates
+      // Chain generation if enabled and there are pending agent / plan candidates
       if (settings.autoExploreGeneration && pendingCandidates.length > 0) {
         await this.runGeneration(projects, settings.discoveryBatchSize, 'explore-agent');
       }
+      if (settings.autoExploreGeneration && pendingPlans.length > 0) {
+        await this.runGeneration(projects, settings.discoveryBatchSize, 'plan');
+      }
     } catch (err: any) {
       this.agentDiscoveryLastRunAt = new Date().toISOString();
       this.agentDiscoveryLastResult = `Error: ${err.message}`;
@@ -214,7 +280,7 @@ class KnowledgeScheduler {
     }
   }
 
-  private async runGeneration(projects: Array<{ path: string }>, batchSize: number, identifierType: 'explore-agent' | 'generic-content' = 'explore-agent'): Promise<void> {
+  private async runGeneration(projects: Array<{ path: string }>, batchSize: number, identifierType: IdentifierType = 'explore-agent'): Promise<void> {
     if (this.generationRunning) return;
 
     try {
@@ -257,6 +323,51 @@ class KnowledgeScheduler {
     }
   }
 
+  /**
+   * Generate knowledge from LLM-validated identifications (validator output
+   * is 'validated', which generateAll's candidate scan doesn't pick up).
+   */
+  private async runValidatedGeneration(projects: Array<{ path: string }>, identifierType: IdentifierType): Promise<void> {
+    if (this.generationRunning) return;
+
+    try {
+      const { getKnowledgePipeline } = require('./pipeline');
+      const { getIdentificationStore } = require('./identification-store');
+      const pipeline = getKnowledgePipeline();
+      if (pipeline.getStatus().status !== 'idle') return;
+
+      const validated = getIdentificationStore().list({ status: 'validated', identifierType });
+      const pending = projects.filter(p => validated.some((v: any) => v.projectPath === p.path));
+      if (pending.length === 0) return;
+
+      this.generationRunning = true;
+      let totalGenerated = 0;
+      let totalErrors = 0;
+      for (const project of pending) {
+        try {
+          const result = await pipeline.generateValidated(project.path, identifierType);
+          totalGenerated += result.generated;
+          totalErrors += result.errors;
+        } catch (err: any) {
+          console.error(`[Scheduler] Generation error for ${project.path}: ${err.message}`);
+          totalErrors++;
+        }
+      }
+
+      this.generationLastRunAt = new Date().toISOString();
+      this.generationLastResult = `${totalGenerated} generated, ${totalErrors} errors`;
+      if (totalGenerated > 0 || totalErrors > 0) {
+        console.log(`[Scheduler] Generation (${identifierType}): ${this.generationLastResult}`);
+      }
+    } catch (err: any) {
+      this.generationLastRunAt = new Date().toISOString();
+      this.generationLastResult = `Error: ${err.message}`;
+      console.error(`[Scheduler] Generation failed: ${err.message}`);
+    } finally {
+      this.generationRunning = false;
+    }
+  }
+
   // ── Generic Content Discovery ──────────────────────────────
 
   private async runGenericDiscoveryTick(force = false): Promise<void> {
@@ -283,7 +394,11 @@ class KnowledgeScheduler {
       const pipeline = getKnowledgePipeline();
       const projects = projectsService.listProjects({ includeSize: false });
 
+      const { getKnowledgeValidator } = require('./validator');
+      const validator = getKnowledgeValidator();
+
       let totalDiscovered = 0;
+      let commitsValidated = 0;
       for (const project of projects) {
         try {
           const results = await pipeline.discover(project.path, 'generic-content');
@@ -291,6 +406,14 @@ class KnowledgeScheduler {
         } catch (err: any) {
           console.error(`[Scheduler] Generic discovery error for ${project.path}: ${err.message}`);
         }
+        // Commit messages are LLM-validated before generation
+        try {
+          const result = await validator.discoverAndValidate(project.path, settings.genericValidationModel, 'git-history');
+          totalDiscovered += result.discovered;
+          commitsValidated += result.validated;
+        } catch (err: any) {
+          console.error(`[Scheduler] Git history discovery error for ${project.path}: ${err.message}`);
+        }
       }
 
       const { getIdentificationStore } = require('./identification-store');
@@ -300,13 +423,16 @@ class KnowledgeScheduler {
         .filter((c: any) => projectPaths.has(c.projectPath));
 
       this.genericDiscoveryLastRunAt = new Date().toISOString();
-      this.genericDiscoveryLastResult = `${totalDiscovered} new, ${pendingCandidates.length} pending across ${projects.length} projects`;
+      this.genericDiscoveryLastResult = `${totalDiscovered} new, ${pendingCandidates.length} pending, ${commitsValidated} commits validated across ${projects.length} projects`;
       console.log(`[Scheduler] Generic discovery: ${this.genericDiscoveryLastResult}`);
 
       // Chain generation if enabled and there are pending generic candidates
       if (settings.autoExploreGeneration && pendingCandidates.length > 0) {
         await this.runGeneration(projects, settings.discoveryBatchSize, 'generic-content');
       }
+      if (settings.autoExploreGeneration) {
+        await this.runValidatedGeneration(projects, 'git-history');
+      }
     } catch (err: any) {
       this.genericDiscoveryLastRunAt = new Date().toISOString();
       this.genericDiscoveryLastResult = `Error: ${err.message}`;
@@ -339,6 +465,24 @@ class KnowledgeScheduler {
       this.syncLastRunAt = new Date().toISOString();
       this.syncLastResult = 'Completed';
       console.log('[Scheduler] Remote sync completed');
+
+      // Check newly synced knowledge for contradictions (LLM cost — same opt-in as auto review)
+      if (settings.autoReview) {
+        const { getKnowledgeConflicts } = require('./conflicts');
+        const conflicts = getKnowledgeConflicts();
+        if (!conflicts.isDetecting()) {
+          try {
+            const result = await conflicts.detect();
+            this.syncLastResult = `Completed, ${result.contradictions.length} new conflicts (${result.checked} pairs checked)`;
+            if (result.contradictions.length > 0) {
+              console.log(`[Scheduler] Conflict detection: ${result.contradictions.join(', ')}`);
+            }
+          } catch (err: any) {
+            this.syncLastResult = `Completed, conflict detection failed: ${err.message}`;
+            console.error(`[Scheduler] Conflict detection failed: ${err.message}`);
+          }
+        }
+      }
     } catch (err: any) {
       this.syncLastRunAt = new Date().toISOString();
       this.syncLastResult = `Error: ${err.message}`;
@@ -347,6 +491,111 @@ class KnowledgeScheduler {
       this.syncRunning = false;
     }
   }
+
+  // ── Staleness Check ──────────────────────────────
+
+  private async runStalenessTick(): Promise<void> {
+    if (!this._running) return;
+
+    const settings = getKnowledgeSettings();
+    if (settings.stalenessCheckIntervalMinutes <= 0) return;
+
+    // Check if enough time has passed
+    if (this.stalenessLastRunAt) {
+      const elapsed = Date.now() - new Date(this.stalenessLastRunAt).getTime();
+      if (elapsed < settings.stalenessCheckIntervalMinutes * 60_000) return;
+    }
+
+    if (this.stalenessRunning) return;
+    this.stalenessRunning = true;
+
+    try {
+      const { runStalenessCheck } = require('./code-anchors');
+      const result = await runStalenessCheck();
+      this.stalenessLastRunAt = new Date().toISOString();
+      this.stalenessLastResult = `${result.flagged.length} marked outdated of ${result.checked} checked`;
+      if (result.flagged.length > 0) {
+        console.log(`[Scheduler] Staleness check: ${this.stalenessLastResult} (${result.flagged.join(', ')})`);
+      }
+    } catch (err: any) {
+      this.stalenessLastRunAt = new Date().toISOString();
+      this.stalenessLastResult = `Error: ${err.message}`;
+      console.error(`[Scheduler] Staleness check failed: ${err.message}`);
+    } finally {
+      this.stalenessRunning = false;
+    }
+  }
+
+  // ── Retention Policy ──────────────────────────────
+
+  private async runPolicyTick(): Promise<void> {
+    if (!this._running) return;
+
+    const settings = getKnowledgeSettings();
+    if (settings.policyIntervalMinutes <= 0) return;
+
+    // Check if enough time has passed
+    if (this.policyLastRunAt) {
+      const elapsed = Date.now() - new Date(this.policyLastRunAt).getTime();
+      if (elapsed < settings.policyIntervalMinutes * 60_000) return;
+    }
+
+    if (this.policyRunning) return;
+    this.policyRunning = true;
+
+    try {
+      const { runKnowledgePolicy } = require('./policy');
+      const result = await runKnowledgePolicy();
+      const counts = ['archive', 'outdate', 'purge']
+        .map(action => `${result.actions.filter((a: any) => a.action === action).length} ${action}`)
+        .join(', ');
+      this.policyLastRunAt = new Date().toISOString();
+      this.policyLastResult = `${counts} of ${result.evaluated} evaluated`;
+      if (result.applied > 0) {
+        console.log(`[Scheduler] Retention policy: ${this.policyLastResult}`);
+      }
+    } catch (err: any) {
+      this.policyLastRunAt = new Date().toISOString();
+      this.policyLastResult = `Error: ${err.message}`;
+      console.error(`[Scheduler] Retention policy failed: ${err.message}`);
+    } finally {
+      this.policyRunning = false;
+    }
+  }
+
+  // ── Tool Result Indexing ──────────────────────────────
+
+  private async runToolResultIndexTick(): Promise<void> {
+    if (!this._running) return;
+
+    const settings = getKnowledgeSettings();
+    if (!settings.toolResultIndexing || settings.discoveryIntervalMinutes <= 0) return;
+
+    // Check if enough time has passed
+    if (this.toolResultIndexLastRunAt) {
+      const elapsed = Date.now() - new Date(this.toolResultIndexLastRunAt).getTime();
+      if (elapsed < settings.discoveryIntervalMinutes * 60_000) return;
+    }
+
+    if (this.toolResultIndexRunning) return;
+    this.toolResultIndexRunning = true;
+
+    try {
+      const { getToolResultIndexer } = require('../vector/tool-result-indexer');
+      const result = await getToolResultIndexer().run();
+      this.toolResultIndexLastRunAt = new Date().toISOString();
+      this.toolResultIndexLastResult = `${result.vectorsAdded} chunks from ${result.sessionsIndexed} sessions, ${result.sessionsEvicted} sessions evicted`;
+      if (result.sessionsIndexed > 0 || result.sessionsEvicted > 0) {
+        console.log(`[Scheduler] Tool result indexing: ${this.toolResultIndexLastResult}`);
+      }
+    } catch (err: any) {
+      this.toolResultIndexLastRunAt = new Date().toISOString();
+      this.toolResultIndexLastResult = `Error: ${err.message}`;
+      console.error(`[Scheduler] Tool result indexing failed: ${err.message}`);
+    } finally {
+      this.toolResultIndexRunning = false;
+    }
+  }
 }
 
 // ── Singleton ──────────────────────────────────────────
@@ -1,7 +1,9 @@
 /**
  * Knowledge Settings
  *
- * Manages configuration for knowledge features, particularly remote knowledge sync.
+ * Manages configuration for knowledge features, particularly remote knowledge sync,
+ * per-project repo sync, the retention policy, the vector embedding model,
+ * tool result indexing and search re-ranking.
  * Uses mtime cache, partial updates, JSON storage.
  *
  * Storage: ~/.lm-assist/knowledge/settings.json
@@ -24,6 +26,24 @@ export interface KnowledgeSettings {
   genericValidationModel: 'haiku' | 'sonnet' | 'opus'; // model for generic content validation (default: sonnet)
   discoveryIntervalMinutes: number;                  // 0 = disabled (default: 5)
   discoveryBatchSize: number;                        // max candidates per generation run (default: 50)
+  stalenessCheckIntervalMinutes: number;             // 0 = disabled (default: 60)
+  stalenessThreshold: number;                        // fraction of anchored files that must drift (default: 0.5)
+  stalenessMinLineChurn: number;                     // changed lines before a file counts as drifted (default: 10)
+  repoSyncProjects: Record<string, string>;          // projectPath → repo-relative knowledge dir (e.g. .lm-assist/knowledge)
+  policyIntervalMinutes: number;                     // retention policy run interval, 0 = disabled (default: 1440)
+  policyArchiveBadUnusedDays: number;                // archive 'bad'-rated docs unused this long, 0 = off (default: 30)
+  policyOutdatedFeedbackCount: number;               // mark outdated at this many open 'outdated' comments, 0 = off (default: 3)
+  policyPurgeExcludedDays: number;                   // delete excluded docs untouched this long, 0 = off (default: 0)
+  embeddingProvider: 'transformers' | 'openai-compatible'; // vector embedding provider (default: transformers)
+  embeddingModel: string;                            // model name (default: Xenova/all-MiniLM-L6-v2)
+  embeddingDimension: number;                        // expected vector dimension, 0 = detect (default: 0)
+  embeddingBaseUrl: string;                          // openai-compatible endpoint base URL (default: http://localhost:11434/v1)
+  toolResultIndexing: boolean;                       // embed chunked Read/Edit/Bash results for file-history search (default: false)
+  toolResultMaxVectorsPerProject: number;            // cap on tool result vectors per project, oldest sessions evicted (default: 5000)
+  rerankEnabled: boolean;                            // re-rank top search results with a cross-encoder (default: false)
+  rerankModel: string;                               // transformers.js cross-encoder (default: Xenova/ms-marco-MiniLM-L-6-v2)
+  rerankTopN: number;                                // candidates re-ranked per query (default: 20)
+  rerankBudgetMs: number;                            // give up and keep first-stage order after this long (default: 300)
 }
 
 // ── Constants ──────────────────────────────────────────
@@ -42,8 +62,30 @@ const DEFAULTS: KnowledgeSettings = {
   genericValidationModel: 'sonnet',
   discoveryIntervalMinutes: 5,
   discoveryBatchSize: 50,
+  stalenessCheckIntervalMinutes: 60,
+  stalenessThreshold: 0.5,
+  stalenessMinLineChurn: 10,
+  repoSyncProjects: {},
+  policyIntervalMinutes: 1440,
+  policyArchiveBadUnusedDays: 30,
+  policyOutdatedFeedbackCount: 3,
+  policyPurgeExcludedDays: 0,
+  embeddingProvider: 'transformers',
+  embeddingModel: 'Xenova/all-MiniLM-L6-v2',
+  embeddingDimension: 0,
+  embeddingBaseUrl: 'http://localhost:11434/v1',
+  toolResultIndexing: false,
+  toolResultMaxVectorsPerProject: 5000,
+  rerankEnabled: false,
+  rerankModel: 'Xenova/ms-marco-MiniLM-L-6-v2',
+  rerankTopN: 20,
+  rerankBudgetMs: 300,
 };
 
+const EMBEDDING_PROVIDERS: KnowledgeSettings['embeddingProvider'][] = ['transformers', 'openai-compatible'];
+
+export const DEFAULT_REPO_SYNC_DIR = '.lm-assist/knowledge';
+
 // ── Mtime Cache ──────────────────────────────────────────
 
 let settingsCache: KnowledgeSettings | null = null;
@@ -57,6 +99,32 @@ function ensureDir(): void {
   }
 }
 
+// ── Validation ──────────────────────────────────────────
+
+/**
+ * Keep only absolute project paths mapped to relative, non-escaping dirs.
+ */
+function sanitizeRepoSyncProjects(raw: Record<string, unknown>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [projectPath, dir] of Object.entries(raw)) {
+    if (!path.isAbsolute(projectPath) || typeof dir !== 'string' || !dir) continue;
+    const normalized = path.normalize(dir);
+    if (path.isAbsolute(normalized) || normalized.startsWith('..')) continue;
+    result[projectPath] = normalized;
+  }
+  return result;
+}
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
 // ── Read Settings ──────────────────────────────────────────
 
 export function getKnowledgeSettings(): KnowledgeSettings {
@@ -90,6 +158,50 @@ export function getKnowledgeSettings(): KnowledgeSettings {
       discoveryBatchSize: typeof data.discoveryBatchSize === 'number' && data.discoveryBatchSize > 0
         ? Math.floor(data.discoveryBatchSize)
         : DEFAULTS.discoveryBatchSize,
+      stalenessCheckIntervalMinutes: typeof data.stalenessCheckIntervalMinutes === 'number' && data.stalenessCheckIntervalMinutes >= 0
+        ? Math.floor(data.stalenessCheckIntervalMinutes)
+        : DEFAULTS.stalenessCheckIntervalMinutes,
+      stalenessThreshold: typeof data.stalenessThreshold === 'number' && data.stalenessThreshold > 0 && data.stalenessThreshold <= 1
+        ? data.stalenessThreshold
+        : DEFAULTS.stalenessThreshold,
+      stalenessMinLineChurn: typeof data.stalenessMinLineChurn === 'number' && data.stalenessMinLineChurn >= 0
+        ? Math.floor(data.stalenessMinLineChurn)
+        : DEFAULTS.stalenessMinLineChurn,
+      repoSyncProjects: typeof data.repoSyncProjects === 'object' && data.repoSyncProjects !== null
+        ? sanitizeRepoSyncProjects(data.repoSyncProjects)
+        : DEFAULTS.repoSyncProjects,
+      policyIntervalMinutes: typeof data.policyIntervalMinutes === 'number' && data.policyIntervalMinutes >= 0
+        ? Math.floor(data.policyIntervalMinutes)
+        : DEFAULTS.policyIntervalMinutes,
+      policyArchiveBadUnusedDays: typeof data.policyArchiveBadUnusedDays === 'number' && data.policyArchiveBadUnusedDays >= 0
+        ? Math.floor(data.policyArchiveBadUnusedDays)
+        : DEFAULTS.policyArchiveBadUnusedDays,
+      policyOutdatedFeedbackCount: typeof data.policyOutdatedFeedbackCount === 'number' && data.policyOutdatedFeedbackCount >= 0
+        ? Math.floor(data.policyOutdatedFeedbackCount)
+        : DEFAULTS.policyOutdatedFeedbackCount,
+      policyPurgeExcludedDays: typeof data.policyPurgeExcludedDays === 'number' && data.policyPurgeExcludedDays >= 0
+        ? Math.floor(data.policyPurgeExcludedDays)
+        : DEFAULTS.policyPurgeExcludedDays,
+      embeddingProvider: EMBEDDING_PROVIDERS.includes(data.embeddingProvider) ? data.embeddingProvider : DEFAULTS.embeddingProvider,
+      embeddingModel: typeof data.embeddingModel === 'string' && data.embeddingModel.trim()
+        ? data.embeddingModel.trim()
+        : DEFAULTS.embeddingModel,
+      embeddingDimension: typeof data.embeddingDimension === 'number' && data.embeddingDimension >= 0
+        ? Math.floor(data.embeddingDimension)
+        : DEFAULTS.embeddingDimension,
+      embeddingBaseUrl: isHttpUrl(data.embeddingBaseUrl) ? data.embeddingBaseUrl : DEFAULTS.embeddingBaseUrl,
+      toolResultIndexing: typeof data.toolResultIndexing === 'boolean' ? data.toolResultIndexing : DEFAULTS.toolResultIndexing,
+      toolResultMaxVectorsPerProject: typeof data.toolResultMaxVectorsPerProject === 'number' && data.toolResultMaxVectorsPerProject > 0
+        ? Math.floor(data.toolResultMaxVectorsPerProject)
+        : DEFAULTS.toolResultMaxVectorsPerProject,
+      rerankEnabled: typeof data.rerankEnabled === 'boolean' ? data.rerankEnabled : DEFAULTS.rerankEnabled,
+      rerankModel: typeof data.rerankModel === 'string' && data.rerankModel.trim() ? data.rerankModel.trim() : DEFAULTS.rerankModel,
+      rerankTopN: typeof data.rerankTopN === 'number' && data.rerankTopN >= 2
+        ? Math.floor(data.rerankTopN)
+        : DEFAULTS.rerankTopN,
+      rerankBudgetMs: typeof data.rerankBudgetMs === 'number' && data.rerankBudgetMs > 0
+        ? Math.floor(data.rerankBudgetMs)
+        : DEFAULTS.rerankBudgetMs,
     };
     settingsCache = settings;
     settingsMtime = stat.mtimeMs;
@@ -128,6 +240,55 @@ export function saveKnowledgeSettings(partial: Partial<KnowledgeSettings>): Know
     discoveryBatchSize: typeof partial.discoveryBatchSize === 'number' && partial.discoveryBatchSize > 0 && partial.discoveryBatchSize <= 1000
       ? Math.floor(partial.discoveryBatchSize)
       : current.discoveryBatchSize,
+    stalenessCheckIntervalMinutes: typeof partial.stalenessCheckIntervalMinutes === 'number' && partial.stalenessCheckIntervalMinutes >= 0 && partial.stalenessCheckIntervalMinutes <= 10080
+      ? Math.floor(partial.stalenessCheckIntervalMinutes)
+      : current.stalenessCheckIntervalMinutes,
+    stalenessThreshold: typeof partial.stalenessThreshold === 'number' && partial.stalenessThreshold > 0 && partial.stalenessThreshold <= 1
+      ? partial.stalenessThreshold
+      : current.stalenessThreshold,
+    stalenessMinLineChurn: typeof partial.stalenessMinLineChurn === 'number' && partial.stalenessMinLineChurn >= 0 && partial.stalenessMinLineChurn <= 100000
+      ? Math.floor(partial.stalenessMinLineChurn)
+      : current.stalenessMinLineChurn,
+    // Partial map merge: a falsy dir removes the project
+    repoSyncProjects: typeof partial.repoSyncProjects === 'object' && partial.repoSyncProjects !== null
+      ? sanitizeRepoSyncProjects({ ...current.repoSyncProjects, ...partial.repoSyncProjects })
+      : current.repoSyncProjects,
+    policyIntervalMinutes: typeof partial.policyIntervalMinutes === 'number' && partial.policyIntervalMinutes >= 0 && partial.policyIntervalMinutes <= 10080
+      ? Math.floor(partial.policyIntervalMinutes)
+      : current.policyIntervalMinutes,
+    policyArchiveBadUnusedDays: typeof partial.policyArchiveBadUnusedDays === 'number' && partial.policyArchiveBadUnusedDays >= 0 && partial.policyArchiveBadUnusedDays <= 3650
+      ? Math.floor(partial.policyArchiveBadUnusedDays)
+      : current.policyArchiveBadUnusedDays,
+    policyOutdatedFeedbackCount: typeof partial.policyOutdatedFeedbackCount === 'number' && partial.policyOutdatedFeedbackCount >= 0 && partial.policyOutdatedFeedbackCount <= 1000
+      ? Math.floor(partial.policyOutdatedFeedbackCount)
+      : current.policyOutdatedFeedbackCount,
+    policyPurgeExcludedDays: typeof partial.policyPurgeExcludedDays === 'number' && partial.policyPurgeExcludedDays >= 0 && partial.policyPurgeExcludedDays <= 3650
+      ? Math.floor(partial.policyPurgeExcludedDays)
+      : current.policyPurgeExcludedDays,
+    embeddingProvider: partial.embeddingProvider && EMBEDDING_PROVIDERS.includes(partial.embeddingProvider)
+      ? partial.embeddingProvider
+      : current.embeddingProvider,
+    embeddingModel: typeof partial.embeddingModel === 'string' && partial.embeddingModel.trim()
+      ? partial.embeddingModel.trim()
+      : current.embeddingModel,
+    embeddingDimension: typeof partial.embeddingDimension === 'number' && partial.embeddingDimension >= 0 && partial.embeddingDimension <= 8192
+      ? Math.floor(partial.embeddingDimension)
+      : current.embeddingDimension,
+    embeddingBaseUrl: isHttpUrl(partial.embeddingBaseUrl) ? partial.embeddingBaseUrl : current.embeddingBaseUrl,
+    toolResultIndexing: typeof partial.toolResultIndexing === 'boolean' ? partial.toolResultIndexing : current.toolResultIndexing,
+    toolResultMaxVectorsPerProject: typeof partial.toolResultMaxVectorsPerProject === 'number' && partial.toolResultMaxVectorsPerProject >= 100 && partial.toolResultMaxVectorsPerProject <= 100000
+      ? Math.floor(partial.toolResultMaxVectorsPerProject)
+      : current.toolResultMaxVectorsPerProject,
+    rerankEnabled: typeof partial.rerankEnabled === 'boolean' ? partial.rerankEnabled : current.rerankEnabled,
+    rerankModel: typeof partial.rerankModel === 'string' && partial.rerankModel.trim()
+      ? partial.rerankModel.trim()
+      : current.rerankModel,
+    rerankTopN: typeof partial.rerankTopN === 'number' && partial.rerankTopN >= 2 && partial.rerankTopN <= 100
+      ? Math.floor(partial.rerankTopN)
+      : current.rerankTopN,
+    rerankBudgetMs: typeof partial.rerankBudgetMs === 'number' && partial.rerankBudgetMs >= 20 && partial.rerankBudgetMs <= 10000
+      ? Math.floor(partial.rerankBudgetMs)
+      : current.rerankBudgetMs,
   };
 
   fs.writeFileSync(SETTINGS_FILE, JSON.stringify(merged, null, 2));
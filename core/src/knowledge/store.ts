@@ -12,6 +12,11 @@
  *   ├── comments/
  *   │   ├── K001.json        # Comments for K001
  *   │   └── K002.json
+ *   ├── revisions/
+ *   │   ├── K001.json        # Revision history for K001
+ *   │   └── remote/{machineId}/K001.json
+ *   ├── anchors/
+ *   │   └── K001.json        # Code anchors for staleness detection (see code-anchors.ts)
  */
 
 import * as fs from 'fs';
@@ -24,6 +29,10 @@ import type {
   KnowledgeIndex,
   KnowledgeCommentFile,
   KnowledgeType,
+  KnowledgeRevision,
+  KnowledgeRevisionFile,
+  RevisionContext,
+  PlanExecutionStatus,
 } from './types';
 import { parseKnowledgeMd, renderKnowledgeMd } from './parser';
 import { getDataDir } from '../utils/path-utils';
@@ -31,12 +40,32 @@ import { getDataDir } from '../utils/path-utils';
 const KNOWLEDGE_DIR = path.join(getDataDir(), 'knowledge');
 const COMMENTS_DIR = path.join(KNOWLEDGE_DIR, 'comments');
 const REMOTE_DIR = path.join(KNOWLEDGE_DIR, 'remote');
+const REVISIONS_DIR = path.join(KNOWLEDGE_DIR, 'revisions');
+const ANCHORS_DIR = path.join(KNOWLEDGE_DIR, 'anchors');
 const INDEX_FILE = path.join(KNOWLEDGE_DIR, 'index.json');
 
+/** Oldest revisions are dropped once a document exceeds this many */
+const MAX_REVISIONS = 50;
+
+/** Strip the updatedAt line so touch-only writes don't produce new revisions */
+function revisionFingerprint(md: string): string {
+  return md.replace(/^updatedAt: .*$/m, '');
+}
+
+/**
+ * Keep typed links on parts whose update doesn't mention them (editors and the
+ * reviewer rewrite parts without links). An explicit `links` array, even empty, wins.
+ */
+function carryOverLinks(previous: KnowledgePart[], next: KnowledgePart[]): KnowledgePart[] {
+  const previousLinks = new Map(previous.filter(p => p.links).map(p => [p.partId, p.links]));
+  return next.map(p => (p.links === undefined && previousLinks.has(p.partId) ? { ...p, links: previousLinks.get(p.partId) } : p));
+}
+
 export class KnowledgeStore {
   private cache = new Map<string, { knowledge: Knowledge; lastAccessed: number; cachedMtimeMs: number }>();
   private index: KnowledgeIndex | null = null;
   private maxCacheSize = 100;
+  private changeListeners = new Set<(id: string, knowledge: Knowledge | null) => void>();
 
   constructor() {
     this.ensureDir();
@@ -52,6 +81,9 @@ export class KnowledgeStore {
     if (!fs.existsSync(REMOTE_DIR)) {
       fs.mkdirSync(REMOTE_DIR, { recursive: true });
     }
+    if (!fs.existsSync(REVISIONS_DIR)) {
+      fs.mkdirSync(REVISIONS_DIR, { recursive: true });
+    }
   }
 
   private knowledgePath(id: string, machineId?: string): string {
@@ -74,6 +106,17 @@ export class KnowledgeStore {
     return path.join(COMMENTS_DIR, `${knowledgeId}.json`);
   }
 
+  private revisionsPath(knowledgeId: string, machineId?: string): string {
+    if (machineId) {
+      const machineDir = path.join(REVISIONS_DIR, 'remote', machineId);
+      if (!fs.existsSync(machineDir)) {
+        fs.mkdirSync(machineDir, { recursive: true });
+      }
+      return path.join(machineDir, `${knowledgeId}.json`);
+    }
+    return path.join(REVISIONS_DIR, `${knowledgeId}.json`);
+  }
+
   private evictIfNeeded(): void {
     if (this.cache.size <= this.maxCacheSize) return;
 
@@ -161,6 +204,14 @@ export class KnowledgeStore {
     return id;
   }
 
+  /**
+   * Reserve a fresh local ID ahead of creation (used by bundle import to
+   * remap cross-references before documents are written).
+   */
+  reserveId(): string {
+    return this.allocateId();
+  }
+
   // ─── Knowledge CRUD ──────────────────────────────────────────────────
 
   getKnowledge(id: string, machineId?: string): Knowledge | null {
@@ -306,13 +357,17 @@ export class KnowledgeStore {
     type: KnowledgeType;
     project: string;
     parts: KnowledgePart[];
-    status?: 'active' | 'outdated' | 'archived' | 'excluded';
+    status?: Knowledge['status'];
     sourceSessionId?: string;
     sourceAgentId?: string;
     sourceTimestamp?: string;
     sourceIdentifier?: string;
     sourceLineIndex?: number;
     sourceTurnIndex?: number;
+    planFile?: string;
+    planExecution?: PlanExecutionStatus;
+    executionSessionId?: string;
+    sourceCommit?: string;
     /** Remote origin fields — when set, stores in remote/{machineId}/ subdirectory */
     id?: string;
     origin?: 'local' | 'remote';
@@ -321,7 +376,7 @@ export class KnowledgeStore {
     machineOS?: string;
     createdAt?: string;
     updatedAt?: string;
-  }): Knowledge {
+  }, revision?: RevisionContext): Knowledge {
     // Skip dedup checks for remote knowledge (uses composite key dedup instead)
     if (data.origin !== 'remote') {
       // Atomic dedup: reject if sourceAgentId already exists (synchronous — no race window)
@@ -356,7 +411,7 @@ export class KnowledgeStore {
           if (!meta.sourceAgentId) continue;
           if (normalizeTitle(meta.title) === normalizedNew) {
             // Mark old entry as outdated — will be replaced by the new one
-            this.updateKnowledge(existingId, { status: 'outdated' });
+            this.updateKnowledge(existingId, { status: 'outdated' }, revision);
           }
         }
       }
@@ -387,20 +442,24 @@ export class KnowledgeStore {
       sourceIdentifier: data.sourceIdentifier,
       sourceLineIndex: data.sourceLineIndex,
       sourceTurnIndex: data.sourceTurnIndex,
+      planFile: data.planFile,
+      planExecution: data.planExecution,
+      executionSessionId: data.executionSessionId,
+      sourceCommit: data.sourceCommit,
       origin: data.origin,
       machineId: data.machineId,
       machineHostname: data.machineHostname,
       machineOS: data.machineOS,
     };
 
-    this.saveKnowledge(knowledge);
+    this.saveKnowledge(knowledge, revision);
     return knowledge;
   }
 
   /**
    * Create knowledge from raw Markdown content (already formatted).
    */
-  createKnowledgeFromMd(mdContent: string): Knowledge | null {
+  createKnowledgeFromMd(mdContent: string, revision?: RevisionContext): Knowledge | null {
     const parsed = parseKnowledgeMd(mdContent);
     if (!parsed) return null;
 
@@ -422,16 +481,18 @@ export class KnowledgeStore {
       }
     }
 
-    this.saveKnowledge(parsed);
+    this.saveKnowledge(parsed, revision);
     return parsed;
   }
 
   /**
    * Update an existing knowledge document.
+   * The write is recorded as a new revision attributed to `revision` (default: user).
    */
-  updateKnowledge(id: string, updates: Partial<Pick<Knowledge, 'title' | 'type' | 'project' | 'status' | 'parts' | 'sourceSessionId' | 'sourceAgentId' | 'sourceTimestamp' | 'sourceIdentifier' | 'sourceLineIndex' | 'sourceTurnIndex' | 'reviewedAt' | 'reviewRating' | 'reviewReason' | 'reviewModel'>>): Knowledge | null {
+  updateKnowledge(id: string, updates: Partial<Pick<Knowledge, 'title' | 'type' | 'project' | 'status' | 'parts' | 'sourceSessionId' | 'sourceAgentId' | 'sourceTimestamp' | 'sourceIdentifier' | 'sourceLineIndex' | 'sourceTurnIndex' | 'reviewedAt' | 'reviewRating' | 'reviewReason' | 'reviewModel' | 'planFile' | 'planExecution' | 'executionSessionId' | 'sourceCommit'>>, revision?: RevisionContext): Knowledge | null {
     const existing = this.getKnowledge(id);
     if (!existing) return null;
+    this.ensureBaselineRevision(existing);
 
     // Clone to avoid corrupting cache if saveKnowledge fails
     const updated: Knowledge = { ...existing, parts: [...existing.parts] };
@@ -440,7 +501,7 @@ export class KnowledgeStore {
     if (updates.type !== undefined) updated.type = updates.type;
     if (updates.project !== undefined) updated.project = updates.project;
     if (updates.status !== undefined) updated.status = updates.status;
-    if (updates.parts !== undefined) updated.parts = updates.parts;
+    if (updates.parts !== undefined) updated.parts = carryOverLinks(existing.parts, updates.parts);
     if (updates.sourceSessionId !== undefined) updated.sourceSessionId = updates.sourceSessionId;
     if (updates.sourceAgentId !== undefined) updated.sourceAgentId = updates.sourceAgentId;
     if (updates.sourceTimestamp !== undefined) updated.sourceTimestamp = updates.sourceTimestamp;
@@ -451,18 +512,23 @@ export class KnowledgeStore {
     if (updates.reviewRating !== undefined) updated.reviewRating = updates.reviewRating;
     if (updates.reviewReason !== undefined) updated.reviewReason = updates.reviewReason;
     if (updates.reviewModel !== undefined) updated.reviewModel = updates.reviewModel;
+    if (updates.planFile !== undefined) updated.planFile = updates.planFile;
+    if (updates.planExecution !== undefined) updated.planExecution = updates.planExecution;
+    if (updates.executionSessionId !== undefined) updated.executionSessionId = updates.executionSessionId;
+    if (updates.sourceCommit !== undefined) updated.sourceCommit = updates.sourceCommit;
     updated.updatedAt = new Date().toISOString();
 
-    this.saveKnowledge(updated);
+    this.saveKnowledge(updated, revision);
     return updated;
   }
 
   /**
    * Update knowledge from raw Markdown (used by the reviewer).
    */
-  updateKnowledgeFromMd(id: string, mdContent: string): Knowledge | null {
+  updateKnowledgeFromMd(id: string, mdContent: string, revision?: RevisionContext): Knowledge | null {
     // Verify document exists (update semantics, not create)
-    if (!this.getKnowledge(id)) return null;
+    const existing = this.getKnowledge(id);
+    if (!existing) return null;
 
     const parsed = parseKnowledgeMd(mdContent);
     if (!parsed) return null;
@@ -470,17 +536,21 @@ export class KnowledgeStore {
     // Ensure the ID matches
     parsed.id = id;
     parsed.updatedAt = new Date().toISOString();
+    parsed.parts = carryOverLinks(existing.parts, parsed.parts);
 
-    this.saveKnowledge(parsed);
+    this.ensureBaselineRevision(existing);
+    this.saveKnowledge(parsed, revision);
     return parsed;
   }
 
   /**
-   * Delete a knowledge document and its comments.
+   * Delete a knowledge document along with its comments, revisions and code anchors.
    */
   deleteKnowledge(id: string): boolean {
     const filePath = this.knowledgePath(id);
     const commentsPath = this.commentsPath(id);
+    const revisionsPath = this.revisionsPath(id);
+    const anchorsPath = path.join(ANCHORS_DIR, `${id}.json`);
 
     let deleted = false;
     if (fs.existsSync(filePath)) {
@@ -490,13 +560,20 @@ export class KnowledgeStore {
     if (fs.existsSync(commentsPath)) {
       fs.unlinkSync(commentsPath);
     }
+    if (fs.existsSync(revisionsPath)) {
+      fs.unlinkSync(revisionsPath);
+    }
+    if (fs.existsSync(anchorsPath)) {
+      fs.unlinkSync(anchorsPath);
+    }
 
     this.cache.delete(id);
     this.removeIndexEntry(id);
+    if (deleted) this.emitChange(id, null);
     return deleted;
   }
 
-  private saveKnowledge(knowledge: Knowledge): void {
+  private saveKnowledge(knowledge: Knowledge, revision?: RevisionContext & { revertedFrom?: number }): void {
     this.ensureDir();
 
     const filePath = this.knowledgePath(knowledge.id, knowledge.machineId);
@@ -513,6 +590,28 @@ export class KnowledgeStore {
 
     // Update index
     this.updateIndexEntry(knowledge);
+
+    this.appendRevision(knowledge, md, revision);
+    this.emitChange(knowledge.id, knowledge);
+  }
+
+  /**
+   * Subscribe to document writes and deletions. The knowledge argument is null on delete.
+   * Returns an unsubscribe function.
+   */
+  onChange(listener: (id: string, knowledge: Knowledge | null) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => { this.changeListeners.delete(listener); };
+  }
+
+  private emitChange(id: string, knowledge: Knowledge | null): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(id, knowledge);
+      } catch (err) {
+        console.error('[KnowledgeStore] Change listener failed:', err);
+      }
+    }
   }
 
   /**
@@ -524,6 +623,116 @@ export class KnowledgeStore {
     this.updateIndexEntry(knowledge);
   }
 
+  // ─── Revisions ──────────────────────────────────────────────────
+
+  private loadRevisionFile(knowledgeId: string, machineId?: string): KnowledgeRevisionFile {
+    const filePath = this.revisionsPath(knowledgeId, machineId);
+    if (!fs.existsSync(filePath)) {
+      return { revisions: [], nextRev: 1 };
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch {
+      return { revisions: [], nextRev: 1 };
+    }
+  }
+
+  private saveRevisionFile(knowledgeId: string, file: KnowledgeRevisionFile, machineId?: string): void {
+    this.ensureDir();
+    fs.writeFileSync(this.revisionsPath(knowledgeId, machineId), JSON.stringify(file, null, 2));
+  }
+
+  /**
+   * Append a revision for a just-written document.
+   * Skipped when nothing but updatedAt changed since the latest revision.
+   */
+  private appendRevision(
+    knowledge: Knowledge,
+    md: string,
+    revision: RevisionContext & { revertedFrom?: number } = { author: 'user' },
+  ): void {
+    const file = this.loadRevisionFile(knowledge.id, knowledge.machineId);
+    const latest = file.revisions[file.revisions.length - 1];
+    if (latest && revisionFingerprint(latest.markdown) === revisionFingerprint(md)) return;
+
+    file.revisions.push({
+      rev: file.nextRev,
+      knowledgeId: knowledge.id,
+      author: revision.author,
+      sourceSessionId: revision.sourceSessionId,
+      createdAt: knowledge.updatedAt,
+      revertedFrom: revision.revertedFrom,
+      markdown: md,
+    });
+    file.nextRev++;
+    if (file.revisions.length > MAX_REVISIONS) {
+      file.revisions.splice(0, file.revisions.length - MAX_REVISIONS);
+    }
+    this.saveRevisionFile(knowledge.id, file, knowledge.machineId);
+  }
+
+  /**
+   * Documents written before revision tracking existed have no history.
+   * Record their current on-disk state as the first revision before overwriting it.
+   */
+  private ensureBaselineRevision(existing: Knowledge): void {
+    const file = this.loadRevisionFile(existing.id, existing.machineId);
+    if (file.revisions.length > 0) return;
+
+    const author = existing.origin === 'remote'
+      ? 'remote-sync'
+      : existing.sourceSessionId ? 'generator' : 'user';
+    this.appendRevision(existing, renderKnowledgeMd(existing), {
+      author,
+      sourceSessionId: existing.sourceSessionId,
+    });
+  }
+
+  /**
+   * Get revision history for a document, oldest first.
+   * @param includeMarkdown If false, omits the full document snapshot from each entry.
+   */
+  getRevisions(knowledgeId: string, machineId?: string, includeMarkdown = false): Array<Omit<KnowledgeRevision, 'markdown'> & { markdown?: string }> {
+    const file = this.loadRevisionFile(knowledgeId, machineId);
+    if (includeMarkdown) return file.revisions;
+    return file.revisions.map(({ markdown, ...meta }) => meta);
+  }
+
+  /**
+   * Get a single revision, parsed back into a Knowledge object.
+   */
+  getRevision(knowledgeId: string, rev: number, machineId?: string): { revision: KnowledgeRevision; knowledge: Knowledge } | null {
+    const file = this.loadRevisionFile(knowledgeId, machineId);
+    const revision = file.revisions.find(r => r.rev === rev);
+    if (!revision) return null;
+    const knowledge = parseKnowledgeMd(revision.markdown);
+    if (!knowledge) return null;
+    return { revision, knowledge };
+  }
+
+  /**
+   * Restore a local document to the content of an earlier revision.
+   * The restore itself becomes a new revision (history is never rewritten).
+   */
+  revertKnowledge(knowledgeId: string, rev: number, revision: RevisionContext = { author: 'user' }): Knowledge | null {
+    const existing = this.getKnowledge(knowledgeId);
+    if (!existing) return null;
+
+    const target = this.getRevision(knowledgeId, rev);
+    if (!target) return null;
+
+    const restored: Knowledge = {
+      ...target.knowledge,
+      id: knowledgeId,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.saveKnowledge(restored, { ...revision, revertedFrom: rev });
+    return restored;
+  }
+
   // ─── Comments ──────────────────────────────────────────────────
 
   private loadCommentFile(knowledgeId: string): KnowledgeCommentFile {
@@ -10,7 +10,7 @@ export interface Knowledge {
   title: string;
   type: KnowledgeType;
   project: string;
-  status: 'active' | 'outdated' | 'archived' | 'excluded';
+  status: 'active' | 'outdated' | 'archived' | 'excluded' | 'pending'; // pending = awaiting LLM review
   createdAt: string;             // ISO timestamp
   updatedAt: string;             // ISO timestamp
   parts: KnowledgePart[];
@@ -29,13 +29,63 @@ export interface Knowledge {
   reviewRating?: 'good' | 'borderline' | 'bad'; // LLM quality rating
   reviewReason?: string;         // One-sentence reason for rating
   reviewModel?: string;          // Model used for review (e.g. 'opus', 'sonnet')
+  // Plan tracking (sourceIdentifier = 'plan')
+  planFile?: string;             // Plan file name in ~/.claude/plans/
+  planExecution?: PlanExecutionStatus; // Whether the plan was carried out
+  executionSessionId?: string;   // Session that executed the plan (may differ from sourceSessionId)
+  // Git history tracking (sourceIdentifier = 'git-history')
+  sourceCommit?: string;         // Full hash of the commit the knowledge was mined from
 }
 
+export type PlanExecutionStatus = 'executed' | 'partial' | 'not-executed';
+
+export const PLAN_EXECUTION_STATUSES: PlanExecutionStatus[] = ['executed', 'partial', 'not-executed'];
+
 export interface KnowledgePart {
   partId: string;                // K001.1
   title: string;
   summary: string;               // One-liner (first paragraph after heading)
   content: string;               // Full MD content (everything after summary)
+  links?: KnowledgeLink[];       // Typed references to other knowledge (docs or parts)
+}
+
+export type KnowledgeLinkType = 'depends-on' | 'supersedes' | 'contradicts' | 'example-of';
+
+export const KNOWLEDGE_LINK_TYPES: KnowledgeLinkType[] = ['depends-on', 'supersedes', 'contradicts', 'example-of'];
+
+/**
+ * Typed reference from a part to another document (K002) or part (K002.3).
+ * 'mention' and 'similarity' links are re-extracted automatically; 'user' links are kept as-is.
+ */
+export interface KnowledgeLink {
+  type: KnowledgeLinkType;
+  target: string;
+  source: 'mention' | 'similarity' | 'user';
+  score?: number;                // Embedding similarity (source = 'similarity')
+}
+
+export interface KnowledgeGraphNode {
+  id: string;
+  title: string;
+  type: KnowledgeType;
+  status: Knowledge['status'];
+  project: string;
+  depth: number;                 // Hops from the requested document
+}
+
+export interface KnowledgeGraphEdge {
+  from: string;                  // Source part ID (K001.2)
+  to: string;                    // Target doc or part ID
+  fromDoc: string;
+  toDoc: string;
+  type: KnowledgeLinkType;
+  source: KnowledgeLink['source'];
+}
+
+export interface KnowledgeGraph {
+  rootId: string;
+  nodes: KnowledgeGraphNode[];
+  edges: KnowledgeGraphEdge[];
 }
 
 export type KnowledgeType = 'algorithm' | 'contract' | 'schema' | 'wiring' | 'invariant' | 'flow';
@@ -55,9 +105,66 @@ export interface KnowledgeComment {
   addressedBy?: string;          // 'reviewer' or user identifier
 }
 
-export type KnowledgeCommentType = 'remove' | 'update' | 'outdated' | 'expand' | 'general';
+export type KnowledgeCommentType = 'remove' | 'update' | 'outdated' | 'expand' | 'contradicts' | 'general';
+
+export const COMMENT_TYPES: KnowledgeCommentType[] = ['remove', 'update', 'outdated', 'expand', 'contradicts', 'general'];
+
+export interface KnowledgeRevision {
+  rev: number;                   // 1, 2, ... (monotonic per document)
+  knowledgeId: string;
+  author: KnowledgeRevisionAuthor;
+  sourceSessionId?: string;      // Session that caused this write (if known)
+  createdAt: string;             // ISO timestamp
+  revertedFrom?: number;         // Set when this revision restores an older one
+  markdown: string;              // Full rendered document at this revision
+}
+
+export type KnowledgeRevisionAuthor = 'user' | 'reviewer' | 'generator' | 'remote-sync' | 'repo-sync';
+
+export const REVISION_AUTHORS: KnowledgeRevisionAuthor[] = ['user', 'reviewer', 'generator', 'remote-sync', 'repo-sync'];
+
+/** Who is writing — threaded through store writes to attribute the revision */
+export interface RevisionContext {
+  author: KnowledgeRevisionAuthor;
+  sourceSessionId?: string;
+}
+
+export interface KnowledgeRevisionFile {
+  revisions: KnowledgeRevision[];
+  nextRev: number;
+}
+
+export interface KnowledgeCodeAnchor {
+  path: string;                  // Repo-relative file path
+  blobHash: string | null;       // git blob hash of the file when the knowledge was generated
+  symbols: string[];             // Identifiers searched for / referenced in this file
+  partIds: string[];             // Parts whose text references this file (empty = whole document)
+}
 
-export const COMMENT_TYPES: KnowledgeCommentType[] = ['remove', 'update', 'outdated', 'expand', 'general'];
+export interface KnowledgeAnchorFile {
+  knowledgeId: string;
+  repoRoot: string;
+  commit: string | null;         // HEAD at generation time (baseline for line churn)
+  recordedAt: string;            // ISO timestamp
+  anchors: KnowledgeCodeAnchor[];
+  flaggedAt?: string;            // Set when the staleness check marked this entry outdated
+  flaggedDrift?: string[];       // Drift already reported at flaggedAt (path:reason:blob hash)
+}
+
+export interface KnowledgeDriftReport {
+  knowledgeId: string;
+  anchored: number;              // Number of anchored files
+  drifted: Array<{
+    path: string;
+    reason: 'deleted' | 'changed' | 'symbols-missing';
+    additions?: number;
+    deletions?: number;
+    missingSymbols?: string[];
+    partIds: string[];
+  }>;
+  driftRatio: number;            // drifted / anchored (0..1)
+  stale: boolean;                // driftRatio reached the configured threshold
+}
 
 export interface KnowledgeIndex {
   knowledges: Record<string, {  // key: "K001" (local) or "machineId:K001" (remote)
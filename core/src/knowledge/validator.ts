@@ -9,10 +9,13 @@
  * 3. LLM validates: is this standalone, reusable knowledge?
  * 4. Valid candidates proceed to knowledge generation
  *
+ * Candidates come from generic-content (assistant messages) or git-history
+ * (commit messages) discovery.
+ *
  * Uses /agent/execute with maxTurns=1, no tools, custom system prompt.
  */
 
-import type { IdentificationResult } from './identifier-types';
+import type { IdentificationResult, IdentifierType } from './identifier-types';
 import { getIdentificationStore } from './identification-store';
 import { getDataDir } from '../utils/path-utils';
 
@@ -75,6 +78,11 @@ If the preview is mostly headings/structure with little actual text beneath them
 - score 5-7: Moderate. Look for task-coordination disguised as knowledge.
 - score 1-4: Low confidence — apply extra scrutiny for conversational framing or status content.
 
+## Commit messages:
+Some entries are git commit messages (subject line first). Judge the body the same way:
+- KNOWLEDGE: design rationale, trade-offs, root causes, constraints the code must respect
+- NOT KNOWLEDGE: changelogs, file lists, "bump version", merge boilerplate, ticket references alone
+
 Output ONLY valid JSON, no markdown, no explanation.`;
 
 // ─── Types ──────────────────────────────────────────────────
@@ -181,16 +189,17 @@ export class KnowledgeValidator {
   async discoverAndValidate(
     project: string,
     model: string = 'sonnet',
+    identifierType: Extract<IdentifierType, 'generic-content' | 'git-history'> = 'generic-content',
   ): Promise<{ discovered: number; candidates: number; validated: number; rejected: number; errors: number }> {
     // Run discovery first (finds new candidates)
     const { getKnowledgePipeline } = require('./pipeline');
     const pipeline = getKnowledgePipeline();
-    const newlyDiscovered = await pipeline.discover(project, 'generic-content');
+    const newlyDiscovered = await pipeline.discover(project, identifierType);
 
-    // Also gather existing unvalidated candidates (status='candidate', identifierType='generic-content')
+    // Also gather existing unvalidated candidates of this type
     const idStore = getIdentificationStore();
     const allCandidates = idStore.list({
-      identifierType: 'generic-content',
+      identifierType,
       status: 'candidate',
     });
 
@@ -235,11 +244,28 @@ export class KnowledgeValidator {
 
   /**
    * Load content previews for candidates from session cache.
+   * Git-history candidates carry their commit message in metadata.
    */
   private async loadPreviews(
     candidates: IdentificationResult[],
     project: string,
   ): Promise<Array<{ id: string; score: number; text: string }>> {
+    const previews: Array<{ id: string; score: number; text: string }> = [];
+
+    const sessionCandidates: IdentificationResult[] = [];
+    for (const c of candidates) {
+      if (c.identifierType !== 'git-history') {
+        sessionCandidates.push(c);
+      } else if (c.metadata?.message) {
+        previews.push({
+          id: c.id,
+          score: c.score || 0,
+          text: String(c.metadata.message).slice(0, MAX_PREVIEW_CHARS),
+        });
+      }
+    }
+    if (sessionCandidates.length === 0) return previews;
+
     const { getSessionReader } = require('../session-reader');
     const { getSessionCache } = require('../session-cache');
 
@@ -250,11 +276,9 @@ export class KnowledgeValidator {
       await cache.waitForWarming();
     }
 
-    const previews: Array<{ id: string; score: number; text: string }> = [];
-
     // Group by session for efficient loading
     const bySession = new Map<string, IdentificationResult[]>();
-    for (const c of candidates) {
+    for (const c of sessionCandidates) {
       const arr = bySession.get(c.sessionId) || [];
       arr.push(c);
       bySession.set(c.sessionId, arr);
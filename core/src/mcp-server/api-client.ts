@@ -10,6 +10,7 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import { startCore, startWeb } from '../service-manager';
+import type { Knowledge } from '../knowledge/types';
 
 // ─── Configuration ──────────────────────────────────────────────────
 
@@ -86,6 +87,137 @@ export async function mcpFeedback(args: Record<string, unknown>): Promise<McpToo
   return post<McpToolResult>('/mcp/feedback', args);
 }
 
+export async function mcpRemember(args: Record<string, unknown>): Promise<McpToolResult> {
+  return post<McpToolResult>('/mcp/remember', args);
+}
+
+// ─── Workspace Endpoints (sessions, tasks, plans, costs, knowledge) ─────────────
+// Used by tools/workspace.ts and resources.ts, which format the data in the
+// MCP process.
+
+export interface ProjectSessionInfo {
+  sessionId: string;
+  projectPath: string;
+  lastModified: string;
+  isActive: boolean;
+  userPromptCount?: number;
+  numTurns?: number;
+  model?: string;
+  totalCostUsd?: number;
+  lastUserMessage?: string;
+  slug?: string;
+  customTitle?: string;
+  sessionSummary?: string;
+}
+
+export interface MonitoredExecutionInfo {
+  executionId: string;
+  sessionId: string;
+  tier: string;
+  status: string;
+  isRunning: boolean;
+  startTime: string;
+  elapsedMs: number;
+  turnCount: number;
+  costUsd: number;
+}
+
+export interface ReadyTaskInfo {
+  id: string;
+  sessionId: string;
+  subject: string;
+  description: string;
+  status: string;
+  blocks: string[];
+  owner?: string;
+}
+
+export interface PlanInfo {
+  name: string;
+  title: string;
+  size: number;
+  createdAt: string;
+  modifiedAt: string;
+  content?: string;
+}
+
+export interface ProjectCostInfo {
+  projectPath: string;
+  totalCostUsd: number;
+  sessionCount: number;
+  sessions: Array<{
+    sessionId: string;
+    totalCostUsd: number;
+    subagentCostUsd: number;
+    model?: string;
+    numTurns?: number;
+    subagentCount: number;
+  }>;
+}
+
+export interface CostBreakdownInfo {
+  from: string;
+  to: string;
+  project?: string;
+  total: {
+    costUsd: number;
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationInputTokens: number;
+    cacheReadInputTokens: number;
+    messages: number;
+  };
+}
+
+export interface KnowledgeListItem {
+  id: string;
+  title: string;
+  type: string;
+  project: string;
+  partCount: number;
+  updatedAt: string;
+  machineId?: string;
+}
+
+export async function getProjectSessions(projectPath: string, active?: boolean): Promise<{ sessions: ProjectSessionInfo[]; total: number }> {
+  const query = active === undefined ? '' : `?active=${active}`;
+  return get(`/projects/${encodeURIComponent(projectPath)}/sessions${query}`);
+}
+
+export async function getMonitoredExecutions(): Promise<{ executions: MonitoredExecutionInfo[]; total: number }> {
+  return get('/monitor/executions');
+}
+
+export async function getReadyTasks(): Promise<{ tasks: ReadyTaskInfo[]; total: number }> {
+  return get('/task-store/tasks/ready');
+}
+
+export async function listPlans(): Promise<{ plans: PlanInfo[]; total: number }> {
+  return get('/plans');
+}
+
+export async function getPlan(name: string): Promise<PlanInfo> {
+  return get(`/plans/${encodeURIComponent(name)}`);
+}
+
+export async function getProjectCosts(projectPath: string): Promise<ProjectCostInfo> {
+  return get(`/projects/${encodeURIComponent(projectPath)}/costs`);
+}
+
+export async function getCostBreakdown(from: Date, to: Date, projectPath?: string): Promise<CostBreakdownInfo> {
+  const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+  if (projectPath) params.set('project', projectPath);
+  return get(`/costs/breakdown?${params}`);
+}
+
+export async function listKnowledge(): Promise<KnowledgeListItem[]> {
+  return get('/knowledge');
+}
+
+export async function getKnowledgeDocument(id: string): Promise<Knowledge> {
+  return get(`/knowledge/${encodeURIComponent(id)}`);
+}
+
 // ─── Core API + Web Auto-Start ──────────────────────────────────────────────────
 
 async function isApiRunning(): Promise<boolean> {
@@ -5,10 +5,18 @@
  *
  * Transport: stdio (spawned by Claude Code as an MCP server)
  *
- * 3 Tools:
- *   search  — Unified search across knowledge and file history
- *   detail  — Progressive disclosure for any item by ID
+ * Tools:
+ *   search   — Unified search across knowledge and file history
+ *   detail   — Progressive disclosure for any item by ID
  *   feedback — Context quality feedback on any source
+ *   remember — Record new knowledge from the session (pending LLM review)
+ *   sessions — Sessions in the project (active ones, summaries, cost) and running executions
+ *   tasks    — Ready (unblocked) tasks
+ *   plans    — List or read saved plans
+ *   costs    — Project spend: total, today, most expensive sessions
+ *
+ * Resources (resources.ts):
+ *   lm-assist://plans/{name}, lm-assist://knowledge/{id}
  *
  * This is a thin client that forwards tool calls to the core API via HTTP.
  * All data stores (LMDB, LanceDB, embedder, etc.) live in the core API process.
@@ -26,15 +34,25 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import {
   searchToolDef,
   detailToolDef,
   feedbackToolDef,
+  rememberToolDef,
+  sessionsToolDef,
+  tasksToolDef,
+  plansToolDef,
+  costsToolDef,
 } from './tools/definitions';
+import { handleSessions, handleTasks, handlePlans, handleCosts } from './tools/workspace';
+import { listResources, readResource, resourceTemplates } from './resources';
 import { logToolCall } from './mcp-logger';
-import { ensureCoreApi, mcpSearch, mcpDetail, mcpFeedback } from './api-client';
+import { ensureCoreApi, mcpSearch, mcpDetail, mcpFeedback, mcpRemember } from './api-client';
 
 // ─── Server Setup ──────────────────────────────────────────────────
 
@@ -46,6 +64,7 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: {},
     },
   }
 );
@@ -58,6 +77,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       searchToolDef,
       detailToolDef,
       feedbackToolDef,
+      rememberToolDef,
+      sessionsToolDef,
+      tasksToolDef,
+      plansToolDef,
+      costsToolDef,
     ],
   };
 });
@@ -79,6 +103,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'feedback':
         result = await mcpFeedback(args || {});
         break;
+      case 'remember':
+        // The project defaults to where Claude Code was started, like the workspace tools
+        result = await mcpRemember({ ...args, project: args?.project || process.cwd() });
+        break;
+      case 'sessions':
+        result = await handleSessions(args || {});
+        break;
+      case 'tasks':
+        result = await handleTasks(args || {});
+        break;
+      case 'plans':
+        result = await handlePlans(args || {});
+        break;
+      case 'costs':
+        result = await handleCosts(args || {});
+        break;
       default:
         result = {
           content: [{ type: 'text', text: `Unknown tool: ${name}` }],
@@ -99,6 +139,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+// ─── Resource Registration ──────────────────────────────────────────────────
+
+server.setRequestHandler(ListResourcesRequestSchema, async () => listResources());
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+  resourceTemplates,
+}));
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => readResource(request.params.uri));
+
 // ─── Main ──────────────────────────────────────────────────
 
 async function main(): Promise<void> {
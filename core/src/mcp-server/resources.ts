@@ -0,0 +1,92 @@
+/**
+ * MCP Resources
+ *
+ * Plans and knowledge documents as attachable resources:
+ *
+ *   lm-assist://plans/{name}     plan markdown (~/.claude/plans)
+ *   lm-assist://knowledge/{id}   knowledge document rendered as markdown
+ *
+ * Listing and reading go through the core API (api-client.ts), like the tools.
+ */
+
+import { listPlans, getPlan, listKnowledge, getKnowledgeDocument } from './api-client';
+import { renderKnowledgeMd } from '../knowledge/parser';
+
+// ─── Types ──────────────────────────────────────────────────
+
+type McpResource = {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+};
+
+/** Type aliases rather than interfaces: the SDK's result types need index signatures */
+type McpResourceContents = {
+  contents: Array<{ uri: string; mimeType: string; text: string }>;
+};
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const URI_PREFIX = 'lm-assist://';
+const PLAN_URI_RE = /^lm-assist:\/\/plans\/([^/]+)$/;
+const KNOWLEDGE_URI_RE = /^lm-assist:\/\/knowledge\/(K\d+)$/;
+
+export const resourceTemplates = [
+  {
+    uriTemplate: `${URI_PREFIX}plans/{name}`,
+    name: 'Plan',
+    description: 'A saved plan by file name (see the plans tool)',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: `${URI_PREFIX}knowledge/{id}`,
+    name: 'Knowledge document',
+    description: 'A knowledge document by ID (K001), all parts',
+    mimeType: 'text/markdown',
+  },
+];
+
+// ─── Handlers ──────────────────────────────────────────────────
+
+/**
+ * All plans and active local knowledge documents. Either source failing
+ * (e.g. knowledge disabled) leaves it out of the list.
+ */
+export async function listResources(): Promise<{ resources: McpResource[] }> {
+  const [plans, knowledge] = await Promise.all([
+    listPlans().then(r => r.plans).catch(() => []),
+    listKnowledge().catch(() => []),
+  ]);
+
+  const resources: McpResource[] = [];
+  for (const p of plans) {
+    resources.push({ uri: `${URI_PREFIX}plans/${p.name}`, name: p.title || p.name, description: `Plan ${p.name}`, mimeType: 'text/markdown' });
+  }
+  for (const k of knowledge) {
+    if (k.machineId) continue;
+    resources.push({
+      uri: `${URI_PREFIX}knowledge/${k.id}`,
+      name: `${k.id}: ${k.title}`,
+      description: `${k.type} knowledge, ${k.partCount} parts`,
+      mimeType: 'text/markdown',
+    });
+  }
+  return { resources };
+}
+
+export async function readResource(uri: string): Promise<McpResourceContents> {
+  const plan = uri.match(PLAN_URI_RE);
+  if (plan) {
+    const data = await getPlan(decodeURIComponent(plan[1]));
+    return { contents: [{ uri, mimeType: 'text/markdown', text: data.content || '' }] };
+  }
+
+  const knowledge = uri.match(KNOWLEDGE_URI_RE);
+  if (knowledge) {
+    const doc = await getKnowledgeDocument(knowledge[1]);
+    return { contents: [{ uri, mimeType: 'text/markdown', text: renderKnowledgeMd(doc) }] };
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
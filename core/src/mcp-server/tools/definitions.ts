@@ -1,12 +1,12 @@
 /**
  * MCP Tool Definitions
  *
- * Static tool definition objects for the 3 MCP tools.
+ * Static tool definition objects for the MCP tools.
  * This file has ZERO data-store imports — safe to import from the MCP
  * server process without pulling in LMDB, LanceDB, embedder, etc.
  *
  * This is the canonical source for tool definitions. The handler files
- * (search.ts, detail.ts, feedback.ts) re-export from here for
+ * (search.ts, detail.ts, feedback.ts, remember.ts, workspace.ts) re-export from here for
  * backward compatibility.
  */
 
@@ -14,18 +14,18 @@
 
 export const searchToolDef = {
   name: 'search',
-  description: `Unified search across knowledge and file history. Auto-detects query type: file paths, IDs (K001, sessionId, sessionId:index), or natural language. Params: query, scope (24h|3d|7d|30d|all), project, type (knowledge|all), limit, offset`,
+  description: `Unified search across knowledge and file history. Auto-detects query type: file paths, IDs (K001, sessionId, sessionId:index), or natural language. When tool result indexing is enabled, natural language also matches file contents and command output agents saw, returned as sessionId:lineIndex. Session filters narrow results: tool:Bash file:src/api/* model:opus git:commit agent:Explore branch:main project:name cost>2 turns>10 since:3d before:2026-01-01, combined with AND/OR/NOT, -negation and parentheses. Params: query, scope (24h|3d|7d|30d|all), project, type (knowledge|tool_result|all), limit, offset, explain`,
   inputSchema: {
     type: 'object' as const,
     properties: {
       query: {
         type: 'string',
-        description: 'Natural language, keywords, file paths, or IDs (K001, K001.2, sessionId, sessionId:index)',
+        description: 'Natural language, keywords, file paths, IDs (K001, K001.2, sessionId, sessionId:index), optionally with session filters (e.g. "tool:Bash AND cost>2 since:3d flaky test")',
       },
       scope: {
         type: 'string',
         enum: ['24h', '3d', '7d', '30d', 'all'],
-        description: 'Time scope for search (default: 7d)',
+        description: 'Time scope for search (default: 7d, or all when the query has since:/before:)',
       },
       project: {
         type: 'string',
@@ -33,8 +33,8 @@ export const searchToolDef = {
       },
       type: {
         type: 'string',
-        enum: ['knowledge', 'all'],
-        description: 'Result type filter (default: all)',
+        enum: ['knowledge', 'tool_result', 'all'],
+        description: 'Result type filter: knowledge, tool_result (indexed Read/Edit/Bash output), or all (default: all)',
       },
       limit: {
         type: 'number',
@@ -44,6 +44,10 @@ export const searchToolDef = {
         type: 'number',
         description: 'Pagination offset (default: 0)',
       },
+      explain: {
+        type: 'boolean',
+        description: 'Show how each result was scored: first-stage score, boosts, and re-rank position (default: false)',
+      },
     },
     required: ['query'],
   },
@@ -53,7 +57,7 @@ export const searchToolDef = {
 
 export const detailToolDef = {
   name: 'detail',
-  description: 'Get details for any item by ID — knowledge, session. Progressive disclosure: summary first, section parameter for specific parts.',
+  description: 'Get details for any item by ID — knowledge, session. Progressive disclosure: summary first, section parameter for specific parts. Knowledge details list related documents (depends-on, supersedes, contradicts, example-of) — call detail on them to walk the graph.',
   inputSchema: {
     type: 'object' as const,
     properties: {
@@ -91,3 +95,91 @@ export const feedbackToolDef = {
     required: ['id', 'type', 'content'],
   },
 };
+
+// ─── Remember Tool ──────────────────────────────────────────────────
+
+export const rememberToolDef = {
+  name: 'remember',
+  description: `Record knowledge you just worked out — an invariant, contract, schema, algorithm, wiring or flow that future sessions should know. Checked against existing knowledge for duplicates, then queued for LLM review; it becomes searchable once the review accepts it. Params: title, type (algorithm|contract|schema|wiring|invariant|flow), parts ([{title, content}] — markdown, first paragraph is the summary), project`,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      title: {
+        type: 'string',
+        description: 'What the knowledge describes, e.g. "Session cache invalidation on JSONL append"',
+      },
+      type: {
+        type: 'string',
+        enum: ['algorithm', 'contract', 'schema', 'wiring', 'invariant', 'flow'],
+        description: 'Knowledge type',
+      },
+      parts: {
+        type: 'array',
+        description: 'One or more sections. Each is standalone markdown: the first paragraph is used as the summary.',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', description: 'Section title' },
+            content: { type: 'string', description: 'Section markdown' },
+          },
+          required: ['title', 'content'],
+        },
+      },
+      project: {
+        type: 'string',
+        description: 'Project path (default: the current working directory)',
+      },
+    },
+    required: ['title', 'type', 'parts'],
+  },
+};
+
+// ─── Workspace Tools (workspace.ts) ──────────────────────────────────
+
+export const sessionsToolDef = {
+  name: 'sessions',
+  description: 'List Claude Code sessions in a project — which are active right now, what each is about, turns and cost — plus running SDK executions. Use to see what other sessions are working on this repo. Params: project (default: current directory), active, limit',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      project: { type: 'string', description: 'Project path (default: the current working directory)' },
+      active: { type: 'boolean', description: 'Only sessions modified in the last minute (default: false)' },
+      limit: { type: 'number', description: 'Sessions to list, newest first (default: 10, max: 50)' },
+    },
+  },
+};
+
+export const tasksToolDef = {
+  name: 'tasks',
+  description: 'List tasks that are ready to work on: pending, not blocked by unfinished tasks. Shows which tasks each one unblocks. Params: limit',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      limit: { type: 'number', description: 'Tasks to list (default: 20, max: 100)' },
+    },
+  },
+};
+
+export const plansToolDef = {
+  name: 'plans',
+  description: 'List saved plans (newest first), or read one by name. Plans are also available as resources (lm-assist://plans/<name>). Params: name, limit',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      name: { type: 'string', description: 'Plan file name (e.g. "fuzzy-tumbling-otter.md") to read its content; omit to list' },
+      limit: { type: 'number', description: 'Plans to list (default: 10, max: 50)' },
+    },
+  },
+};
+
+export const costsToolDef = {
+  name: 'costs',
+  description: 'Spend for a project: total across sessions (including subagents), spend since midnight today, and the most expensive sessions. Params: project (default: current directory), limit',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      project: { type: 'string', description: 'Project path (default: the current working directory)' },
+      limit: { type: 'number', description: 'Most expensive sessions to list (default: 5, max: 50)' },
+    },
+  },
+};
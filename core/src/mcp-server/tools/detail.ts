@@ -11,6 +11,7 @@
 
 import { getSessionCache, isRealUserPrompt } from '../../session-cache';
 import { getKnowledgeStore } from '../../knowledge/store';
+import { getRelatedKnowledge } from '../../knowledge/links';
 
 // ─── Tool Definition (canonical source: definitions.ts) ─────────────
 
@@ -104,6 +105,8 @@ async function handleKnowledgePart(id: string, section?: string): Promise<{
     }
   }
 
+  lines.push(...formatRelated(id));
+
   lines.push('');
   lines.push('---');
   lines.push(`If outdated, use feedback("${id}", "outdated", "reason")`);
@@ -111,6 +114,38 @@ async function handleKnowledgePart(id: string, section?: string): Promise<{
   return { content: [{ type: 'text', text: lines.join('\n') }] };
 }
 
+// ─── Related Knowledge ──────────────────────────────────────────
+
+/** Incoming link types read from the target's point of view */
+const INCOMING_LABELS: Record<string, string> = {
+  'depends-on': 'needed by',
+  'supersedes': 'superseded by',
+  'contradicts': 'contradicted by',
+  'example-of': 'illustrated by',
+};
+
+/**
+ * "Related" section listing typed links, so agents can walk the knowledge graph.
+ */
+function formatRelated(id: string): string[] {
+  let related: ReturnType<typeof getRelatedKnowledge>;
+  try {
+    related = getRelatedKnowledge(id);
+  } catch {
+    return [];
+  }
+  if (related.length === 0) return [];
+
+  // A part may link to both a document and one of its parts — list each line once
+  const entries = [...new Set(related.map(r => {
+    const status = r.status !== 'active' ? ` [${r.status}]` : '';
+    return r.direction === 'out'
+      ? `  ${r.type} → ${r.to}: ${r.title}${status}`
+      : `  ${INCOMING_LABELS[r.type] || r.type} ← ${r.from}: ${r.title}${status}`;
+  }))];
+  return ['', `Related (${entries.length}):`, ...entries];
+}
+
 // ─── Knowledge Doc (K001) ──────────────────────────────────────────
 
 async function handleKnowledgeDoc(id: string, section?: string): Promise<{
@@ -143,6 +178,8 @@ async function handleKnowledgeDoc(id: string, section?: string): Promise<{
     lines.push(`⚠ ${comments.length} unaddressed comment${comments.length > 1 ? 's' : ''}`);
   }
 
+  lines.push(...formatRelated(id));
+
   lines.push('');
   lines.push(`→ detail("${knowledge.parts[0]?.partId || id + '.1'}") for full part content`);
 
@@ -0,0 +1,203 @@
+/**
+ * remember tool — Record knowledge from inside a session
+ *
+ * Lets an agent write down what it just worked out (an invariant, a contract,
+ * a tricky flow) instead of waiting for the generic-content identifier to
+ * guess at it after the fact.
+ *
+ * New entries are:
+ *   - checked against existing knowledge in the project (dedup.ts, all sources)
+ *   - attributed to the calling session and the line of the remember call
+ *   - created with status 'pending' — not indexed or injected until the LLM
+ *     review rates them (good/borderline → active, bad → archived)
+ */
+
+import { getKnowledgeStore } from '../../knowledge/store';
+import { findDuplicateKnowledge } from '../../knowledge/dedup';
+import { KNOWLEDGE_TYPES } from '../../knowledge/types';
+import type { KnowledgePart, KnowledgeType } from '../../knowledge/types';
+
+// ─── Tool Definition (canonical source: definitions.ts) ─────────────
+
+export { rememberToolDef } from './definitions';
+
+type ToolResult = { content: Array<{ type: string; text: string }> };
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const MAX_PARTS = 10;
+const MIN_CONTENT_LENGTH = 40;
+
+/** Recently modified sessions searched for the remember call */
+const MAX_SESSIONS_SCANNED = 5;
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+function text(value: string): ToolResult {
+  return { content: [{ type: 'text', text: value }] };
+}
+
+/**
+ * Split part markdown into summary (first paragraph) and content (the rest),
+ * the same shape the parser produces for `## K001.1: Title` sections.
+ */
+function toPart(title: string, markdown: string): KnowledgePart {
+  const trimmed = markdown.trim();
+  const breakAt = trimmed.search(/\n\s*\n/);
+  const summary = breakAt === -1 ? trimmed : trimmed.slice(0, breakAt).trim();
+  const content = breakAt === -1 ? '' : trimmed.slice(breakAt).trim();
+  return { partId: '', title: title.trim(), summary, content };
+}
+
+interface CallingSession {
+  sessionId: string;
+  lineIndex?: number;
+  turnIndex?: number;
+}
+
+/**
+ * Find the session that issued this remember call. MCP requests carry no
+ * session ID, so look for the remember tool_use with this title in the
+ * project's most recently modified sessions; fall back to the newest session's
+ * last line.
+ */
+async function resolveCallingSession(project: string, title: string): Promise<CallingSession | null> {
+  try {
+    const { getSessionReader } = require('../../session-reader');
+    const { getSessionCache } = require('../../session-cache');
+    const reader = getSessionReader();
+    const cache = getSessionCache();
+
+    const sessions = reader.listSessions(project).slice(0, MAX_SESSIONS_SCANNED);
+    let fallback: CallingSession | null = null;
+
+    for (const session of sessions) {
+      const data = await cache.getSessionData(reader.getSessionFilePath(session.sessionId, project));
+      if (!data) continue;
+
+      for (let i = data.toolUses.length - 1; i >= 0; i--) {
+        const toolUse = data.toolUses[i];
+        const isRemember = toolUse.name === 'remember' || toolUse.name.endsWith('__remember');
+        if (isRemember && toolUse.input?.title === title) {
+          return { sessionId: session.sessionId, lineIndex: toolUse.lineIndex, turnIndex: toolUse.turnIndex };
+        }
+      }
+
+      if (!fallback) {
+        fallback = {
+          sessionId: session.sessionId,
+          lineIndex: data.lastLineIndex >= 0 ? data.lastLineIndex : undefined,
+          turnIndex: data.numTurns,
+        };
+      }
+    }
+    return fallback;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Run the LLM review now when auto review is on (same trigger as the pipeline).
+ */
+function triggerAutoReview(project: string): boolean {
+  try {
+    const { getKnowledgeSettings } = require('../../knowledge/settings');
+    const { getKnowledgeLlmReviewer } = require('../../knowledge/llm-reviewer');
+    if (!getKnowledgeSettings().autoReview) return false;
+
+    const reviewer = getKnowledgeLlmReviewer();
+    if (reviewer.getStatus().status !== 'idle') return false;
+    reviewer.review({ project, trigger: 'auto' }).catch((err: any) => {
+      console.error('[remember] Auto LLM review failed:', err.message);
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ─── Handler ──────────────────────────────────────────────────
+
+export async function handleRemember(args: Record<string, unknown>): Promise<ToolResult> {
+  const title = String(args.title || '').trim();
+  const type = args.type as KnowledgeType;
+  const project = String(args.project || '').trim();
+  const rawParts = Array.isArray(args.parts) ? args.parts : [];
+
+  if (!title) {
+    return text('Error: title is required');
+  }
+  if (!type || !KNOWLEDGE_TYPES.includes(type)) {
+    return text(`Error: type must be one of: ${KNOWLEDGE_TYPES.join(', ')}`);
+  }
+  if (!project) {
+    return text('Error: project is required');
+  }
+  if (rawParts.length === 0 || rawParts.length > MAX_PARTS) {
+    return text(`Error: parts must contain 1-${MAX_PARTS} sections`);
+  }
+
+  const parts: KnowledgePart[] = [];
+  for (const [i, raw] of rawParts.entries()) {
+    const partTitle = typeof raw?.title === 'string' ? raw.title : '';
+    const partContent = typeof raw?.content === 'string' ? raw.content : '';
+    if (!partTitle.trim() || partContent.trim().length < MIN_CONTENT_LENGTH) {
+      return text(`Error: part ${i + 1} needs a title and at least ${MIN_CONTENT_LENGTH} characters of content`);
+    }
+    parts.push(toPart(partTitle, partContent));
+  }
+
+  // Dedup against every local source — an agent may be re-deriving something
+  // an explore agent, plan or earlier remember call already captured
+  const contentText = parts.map(p => `${p.title}: ${p.summary}`).join('\n');
+  try {
+    const duplicates = await findDuplicateKnowledge(title, contentText, project, { anySource: true });
+    if (duplicates.length > 0) {
+      const lines = ['Not recorded — this looks like existing knowledge:'];
+      for (const d of duplicates.slice(0, 3)) {
+        const match = d.reason === 'title-match' ? 'same title' : `${Math.round(d.similarity * 100)}% similar`;
+        lines.push(`- ${d.id}: ${d.title} (${match})`);
+      }
+      lines.push('');
+      lines.push(`→ detail("${duplicates[0].id}") to compare, feedback("${duplicates[0].id}", "needs_update", ...) to extend it`);
+      return text(lines.join('\n'));
+    }
+  } catch (err) {
+    // Non-fatal — dedup is best-effort, the review still sees the entry
+    console.warn('[remember] Dedup failed:', err);
+  }
+
+  const session = await resolveCallingSession(project, title);
+
+  let knowledgeId: string;
+  try {
+    const knowledge = getKnowledgeStore().createKnowledge({
+      title,
+      type,
+      project,
+      parts,
+      status: 'pending',
+      sourceIdentifier: 'remember',
+      sourceSessionId: session?.sessionId,
+      sourceLineIndex: session?.lineIndex,
+      sourceTurnIndex: session?.turnIndex,
+      sourceTimestamp: new Date().toISOString(),
+    }, { author: 'generator', sourceSessionId: session?.sessionId });
+    knowledgeId = knowledge.id;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return text(`Not recorded: ${msg}`);
+  }
+
+  const reviewing = triggerAutoReview(project);
+  const source = session
+    ? `session ${session.sessionId}${session.lineIndex !== undefined ? `:${session.lineIndex}` : ''}`
+    : 'unknown session';
+
+  return text(
+    `Recorded ${knowledgeId} "${title}" (${type}, ${parts.length} part${parts.length === 1 ? '' : 's'}) from ${source}.\n` +
+    `Status: pending — ${reviewing ? 'LLM review started' : 'queued for the next LLM review'}. ` +
+    `It becomes searchable once the review accepts it.`,
+  );
+}
@@ -7,15 +7,30 @@
  *   /path/to/file or .ts/.tsx → file history search
  *   K\d+ or K\d+.\d+          → knowledge ID lookup
  *   UUID pattern               → session ID lookup
+ *   Field filters (tool:Bash)  → filtered session search (search/query-parser.ts)
  *   Otherwise                  → vector semantic search + keyword fallback
+ *
+ * Field filters (tool, file, model, git, agent, branch, project, cost, turns,
+ * since, before) restrict results to matching sessions; any free text in the
+ * query is still ranked by hybrid/keyword search.
+ *
+ * Semantic results include indexed tool result chunks (vector/tool-result-indexer.ts)
+ * as sessionId:lineIndex pointing at the tool call. When re-ranking is enabled
+ * the top results pass through the cross-encoder (search/reranker.ts);
+ * explain=true prints each result's score breakdown.
  */
 
 import { getVectorStore } from '../../vector/vector-store';
 import { getSessionCache } from '../../session-cache';
 import { getKnowledgeStore } from '../../knowledge/store';
-import { compositeScore, type ScoredResult } from '../../search/composite-scorer';
+import { getKnowledgeAnalytics } from '../../knowledge/analytics';
+import { getKnowledgeConflicts } from '../../knowledge/conflicts';
+import { compositeScore, formatScoreBreakdown, type ScoredResult } from '../../search/composite-scorer';
+import { rerankResults, type RerankOutcome } from '../../search/reranker';
 import { tokenize, scoreSession, getProjectPathForSession } from '../../search/text-scorer';
 import { isFileQuery } from '../../search/file-matcher';
+import { parseQuery, type ParsedQuery } from '../../search/query-parser';
+import { matchesSessionFilter } from '../../search/session-filter';
 
 // ─── Tool Definition (canonical source: definitions.ts) ─────────────
 
@@ -74,12 +89,24 @@ export async function handleSearch(args: Record<string, unknown>): Promise<{
     return { content: [{ type: 'text', text: 'Error: query is required' }] };
   }
 
-  const rawScope = (args.scope as string) || '7d';
+  const parsed = parseQuery(query);
+  if (parsed.errors.length > 0) {
+    return { content: [{ type: 'text', text: `Error: invalid query — ${parsed.errors.join('; ')}` }] };
+  }
+
+  // since:/before: set their own time window unless a scope is given
+  const hasTimeFilter = parsed.fields.includes('since') || parsed.fields.includes('before');
+  const rawScope = (args.scope as string) || (hasTimeFilter ? 'all' : '7d');
   const scope: Scope = rawScope in SCOPE_MS ? rawScope as Scope : '7d';
   const project = args.project as string | undefined;
   const typeFilter = (args.type as string) || 'all';
   const limit = Math.min(Math.max(Number(args.limit) || 5, 1), 20);
   const offset = Math.max(Number(args.offset) || 0, 0);
+  const explain = args.explain === true;
+
+  if (parsed.filter) {
+    return handleFilteredSearch(parsed, query, scope, project, typeFilter, limit, offset, explain);
+  }
 
   // Detect query type (trim for ID matching)
   const queryType = detectQueryType(query);
@@ -92,9 +119,9 @@ export async function handleSearch(args: Record<string, unknown>): Promise<{
     case 'session_id':
       return handleIdLookup(trimmedQuery, 'session');
     case 'file':
-      return handleFileAndSemanticSearch(query, scope, project, typeFilter, limit, offset);
+      return handleFileAndSemanticSearch(query, scope, project, typeFilter, limit, offset, explain);
     default:
-      return handleSemanticSearch(query, scope, project, typeFilter, limit, offset);
+      return handleSemanticSearch(query, scope, project, typeFilter, limit, offset, explain);
   }
 }
 
@@ -147,12 +174,13 @@ async function handleSemanticSearch(
   typeFilter: string,
   limit: number,
   offset: number,
+  explain: boolean,
 ): Promise<{ content: Array<{ type: string; text: string }> }> {
   const vectorStore = getVectorStore();
   const stats = await vectorStore.getStats();
 
   if (stats.isInitialized && stats.totalVectors > 0) {
-    return handleHybridSearch(query, scope, project, typeFilter, limit, offset);
+    return handleHybridSearch(query, scope, project, typeFilter, limit, offset, explain);
   }
 
   return handleTextSearch(query, scope, project, limit, offset);
@@ -167,28 +195,36 @@ async function handleHybridSearch(
   typeFilter: string,
   limit: number,
   offset: number,
+  explain = false,
+  filtered: FilterOptions = {},
 ): Promise<{ content: Array<{ type: string; text: string }> }> {
   const vectorStore = getVectorStore();
+  const { sessionIds, displayQuery = query } = filtered;
 
   // Build metadata filter for type-scoped search
-  const metadataFilter = typeFilter !== 'all' ? { type: typeFilter } : undefined;
+  const metadataFilter = typeFilter === 'tool_result'
+    ? { contentType: 'tool_result' }
+    : typeFilter !== 'all' ? { type: typeFilter } : undefined;
 
   // Search with extra results for filtering and pagination
-  const fetchCount = (limit + offset) * 3;
+  const fetchCount = (limit + offset) * (sessionIds ? 10 : 3);
 
   // Hybrid search: vector + FTS with RRF merge
   const rawResults = await vectorStore.hybridSearch(query, fetchCount, metadataFilter);
 
   // Filter by scope and project
-  const filtered = rawResults
+  const inScope = rawResults
     .filter(r => isWithinScope(r.timestamp, scope))
-    .filter(r => !project || r.projectPath === project);
+    .filter(r => !project || r.projectPath === project)
+    .filter(r => !sessionIds || sessionIds.has(r.sessionId));
 
   // Build ScoredResult[]
-  const merged: ScoredResult[] = filtered.map(r => {
+  const merged: ScoredResult[] = inScope.map(r => {
     let id: string;
     if (r.type === 'knowledge') {
       id = r.partId || r.knowledgeId || '';
+    } else if (r.lineIndex !== undefined) {
+      id = `${r.sessionId}:${r.lineIndex}`;
     } else {
       id = r.sessionId;
     }
@@ -204,24 +240,38 @@ async function handleHybridSearch(
       knowledgeId: r.knowledgeId,
       partId: r.partId,
       machineId: r.machineId,
+      lineIndex: r.lineIndex,
+      filePath: r.filePath,
+      startLine: r.startLine,
+      endLine: r.endLine,
+      snippet: r.text,
     };
   });
 
   // Apply composite scoring
-  const ranked = compositeScore(merged, { currentProject: project });
+  const ranked = compositeScore(merged, {
+    currentProject: project,
+    usefulness: getKnowledgeAnalytics().getUsefulnessLookup(),
+  });
 
   // Filter out orphaned results (vectors exist but source data was deleted)
+  // and remote knowledge that contradicts local knowledge
   const knowledgeStore = getKnowledgeStore();
+  const conflicts = getKnowledgeConflicts();
   const resolvable = ranked.filter(r => {
     if (r.type === 'knowledge') {
       const kId = (r.knowledgeId || r.id || '').split('.')[0];
       if (!kId) return false;
+      if (r.machineId && conflicts.isSuppressed(r.machineId, kId)) return false;
       const knowledge = knowledgeStore.getKnowledge(kId, r.machineId);
       return knowledge && knowledge.reviewRating !== 'bad' && knowledge.status !== 'excluded';
     }
     return true;
   });
 
+  // Optional cross-encoder pass over the top candidates
+  const rerank = await rerankResults(query, resolvable, r => r.snippet);
+
   // Content-match: for specific queries (>15 chars), boost existing results
   // AND inject knowledge entries whose text contains the exact query but
   // weren't found by Vectra/BM25 (e.g. rank #36 in BM25, outside fetch window).
@@ -250,9 +300,10 @@ async function handleHybridSearch(
     const injectionScore = Math.max(...resolvable.map(r => r.finalScore), 0.05);
     const allKnowledge = knowledgeStore.getAllKnowledge();
     for (const k of allKnowledge) {
-      if (k.reviewRating === 'bad' || k.status === 'excluded') continue;
+      if (k.reviewRating === 'bad' || k.status === 'excluded' || k.status === 'pending') continue;
       if (!isWithinScope(k.sourceTimestamp || k.createdAt, scope)) continue;
       if (project && k.project !== project) continue;
+      if (sessionIds && !sessionIds.has(k.sourceSessionId || '')) continue;
       if (typeFilter !== 'all' && typeFilter !== 'knowledge') continue;
       for (const part of k.parts) {
         if (existingIds.has(part.partId)) continue;
@@ -289,7 +340,7 @@ async function handleHybridSearch(
   const pageResults = resolvable.slice(offset, offset + limit);
 
   // Format results
-  return formatResults(pageResults, totalMatches, query, offset, limit);
+  return formatResults(pageResults, totalMatches, displayQuery, offset, limit, explain ? rerank : undefined);
 }
 
 // ─── Text Search Fallback ──────────────────────────────────────────────────
@@ -300,7 +351,9 @@ async function handleTextSearch(
   project: string | undefined,
   limit: number,
   offset: number,
+  filtered: FilterOptions = {},
 ): Promise<{ content: Array<{ type: string; text: string }> }> {
+  const { sessionIds, displayQuery = query } = filtered;
   const cache = getSessionCache();
   const sessions = cache.getAllSessionsFromCache();
 
@@ -314,6 +367,7 @@ async function handleTextSearch(
   }> = [];
 
   for (const { sessionId, filePath, cacheData } of sessions) {
+    if (sessionIds && !sessionIds.has(sessionId)) continue;
     if (!isWithinScope(cacheData.lastTimestamp, scope)) continue;
     if (project) {
       const sessionProject = getProjectPathForSession(cacheData, filePath);
@@ -331,7 +385,7 @@ async function handleTextSearch(
   const pageResults = sessionResults.slice(offset, offset + limit);
 
   if (pageResults.length === 0) {
-    return { content: [{ type: 'text', text: `No results found for "${query}" (text search)` }] };
+    return { content: [{ type: 'text', text: `No results found for "${displayQuery}" (text search)` }] };
   }
 
   const lines: string[] = [];
@@ -346,6 +400,78 @@ async function handleTextSearch(
   }
 
   if (totalMatches > offset + limit) {
+    lines.push(`More: search("${displayQuery}", offset=${offset + limit})`);
+  }
+
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
+
+// ─── Filtered Search (field filters + optional free text) ──────────────────
+
+interface FilterOptions {
+  /** Only results from these sessions (sessions matching the query filters) */
+  sessionIds?: Set<string>;
+  /** Full query as typed, for "no results" and pagination hints */
+  displayQuery?: string;
+}
+
+async function handleFilteredSearch(
+  parsed: ParsedQuery,
+  query: string,
+  scope: Scope,
+  project: string | undefined,
+  typeFilter: string,
+  limit: number,
+  offset: number,
+  explain: boolean,
+): Promise<{ content: Array<{ type: string; text: string }> }> {
+  const cache = getSessionCache();
+  const matches: Array<{ sessionId: string; timestamp: string; cwd: string; numTurns: number; costUsd: number }> = [];
+
+  for (const { sessionId, filePath, cacheData } of cache.getAllSessionsFromCache()) {
+    if (!isWithinScope(cacheData.lastTimestamp, scope)) continue;
+    if (project && getProjectPathForSession(cacheData, filePath) !== project) continue;
+    if (!matchesSessionFilter(parsed.filter, cacheData)) continue;
+    matches.push({
+      sessionId,
+      timestamp: cacheData.lastTimestamp || '',
+      cwd: cacheData.cwd || '',
+      numTurns: cacheData.numTurns,
+      costUsd: cacheData.totalCostUsd || cacheData.cumulativeCostUsd || 0,
+    });
+  }
+
+  if (matches.length === 0) {
+    return { content: [{ type: 'text', text: `No sessions match "${query}" (scope: ${scope})` }] };
+  }
+
+  // Free text: rank within the matching sessions
+  if (parsed.text) {
+    const filtered: FilterOptions = { sessionIds: new Set(matches.map(m => m.sessionId)), displayQuery: query };
+    const stats = await getVectorStore().getStats();
+    if (stats.isInitialized && stats.totalVectors > 0) {
+      return handleHybridSearch(parsed.text, scope, project, typeFilter, limit, offset, explain, filtered);
+    }
+    return handleTextSearch(parsed.text, scope, project, limit, offset, filtered);
+  }
+
+  // Filters only: newest sessions first
+  matches.sort((a, b) => new Date(b.timestamp || 0).getTime() - new Date(a.timestamp || 0).getTime());
+  const pageResults = matches.slice(offset, offset + limit);
+
+  const lines: string[] = [];
+  lines.push(`Found ${matches.length} matching sessions (showing ${offset + 1}-${offset + pageResults.length}, newest first)`);
+  lines.push('');
+
+  for (let i = 0; i < pageResults.length; i++) {
+    const m = pageResults[i];
+    lines.push(`${offset + i + 1}. [session] ${m.sessionId}`);
+    lines.push(`   ${m.timestamp || 'unknown time'} | ${m.cwd || 'unknown project'} | ${m.numTurns} turns | $${m.costUsd.toFixed(2)}`);
+    lines.push(`   → detail("${m.sessionId}")`);
+    lines.push('');
+  }
+
+  if (matches.length > offset + limit) {
     lines.push(`More: search("${query}", offset=${offset + limit})`);
   }
 
@@ -458,6 +584,7 @@ async function handleFileAndSemanticSearch(
   typeFilter: string,
   limit: number,
   offset: number,
+  explain: boolean,
 ): Promise<{ content: Array<{ type: string; text: string }> }> {
   // Run file history search AND semantic search in parallel
   const vectorStore = getVectorStore();
@@ -467,7 +594,7 @@ async function handleFileAndSemanticSearch(
   const [fileResult, semanticResult] = await Promise.all([
     handleFileSearch(query, scope, project, limit, offset),
     hasVectra
-      ? handleHybridSearch(query, scope, project, typeFilter, limit, offset)
+      ? handleHybridSearch(query, scope, project, typeFilter, limit, offset, explain)
       : Promise.resolve(null),
   ]);
 
@@ -493,6 +620,8 @@ function formatResults(
   query: string,
   offset: number,
   limit: number,
+  /** Set when explain=true: print score breakdowns and the re-rank outcome */
+  rerank?: RerankOutcome,
 ): { content: Array<{ type: string; text: string }> } {
   const knowledgeStore = getKnowledgeStore();
   const lines: string[] = [];
@@ -502,6 +631,11 @@ function formatResults(
   }
 
   lines.push(`Found ${totalMatches} results (showing ${offset + 1}-${offset + results.length})`);
+  if (rerank) {
+    lines.push(rerank.applied
+      ? `Re-ranked top ${rerank.candidates} with ${rerank.model} (${rerank.tookMs}ms)`
+      : `Re-ranking skipped: ${rerank.reason}${rerank.error ? ` (${rerank.error})` : ''}`);
+  }
   lines.push('');
 
   for (let i = 0; i < results.length; i++) {
@@ -524,12 +658,20 @@ function formatResults(
         lines.push(`${offset + i + 1}. [knowledge] ${kId}: ${knowledge.title} [${knowledge.type}] (${knowledge.parts.length} parts)${originSuffix}`);
         lines.push(`   → detail("${kId}")`);
       }
+    } else if (r.lineIndex !== undefined) {
+      // Tool result chunk: stored text starts with "Tool path:start-end"
+      const [header, ...body] = (r.snippet || '').split('\n');
+      const preview = body.join(' ').replace(/\s+/g, ' ').trim();
+      lines.push(`${offset + i + 1}. [tool_result] ${r.sessionId}:${r.lineIndex} — ${header}`);
+      if (preview) lines.push(`   ${preview.length > 160 ? preview.slice(0, 157) + '...' : preview}`);
+      lines.push(`   → detail("${r.sessionId}")`);
     } else {
       // Session results
       lines.push(`${offset + i + 1}. [session] ${r.sessionId}`);
       lines.push(`   → detail("${r.sessionId}")`);
     }
 
+    if (rerank) lines.push(`   score: ${formatScoreBreakdown(r)}`);
     lines.push('');
   }
 
@@ -0,0 +1,197 @@
+/**
+ * Workspace tools — sessions, tasks, plans and costs
+ *
+ * Unlike search/detail/feedback (which run inside the core API behind
+ * /mcp/*), these run in the MCP server process: they fetch existing core
+ * endpoints through api-client.ts and format the data as text.
+ *
+ *   sessions → GET /projects/:path/sessions + GET /monitor/executions
+ *   tasks    → GET /task-store/tasks/ready
+ *   plans    → GET /plans, GET /plans/:name
+ *   costs    → GET /projects/:path/costs + GET /costs/breakdown (today's spend)
+ *              + GET /projects/:path/sessions (sessions active today)
+ *
+ * The project defaults to the MCP server's working directory, which is the
+ * project Claude Code was started in.
+ */
+
+import {
+  getProjectSessions,
+  getMonitoredExecutions,
+  getReadyTasks,
+  listPlans,
+  getPlan,
+  getProjectCosts,
+  getCostBreakdown,
+  type ProjectSessionInfo,
+} from '../api-client';
+
+// ─── Tool Definitions (canonical source: definitions.ts) ─────────────
+
+export { sessionsToolDef, tasksToolDef, plansToolDef, costsToolDef } from './definitions';
+
+type ToolResult = { content: Array<{ type: string; text: string }>; isError?: boolean };
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+function text(lines: string[]): ToolResult {
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
+
+function resolveProject(args: Record<string, unknown>): string {
+  return typeof args.project === 'string' && args.project ? args.project : process.cwd();
+}
+
+function formatAgo(timestamp: string): string {
+  const ms = Date.now() - new Date(timestamp).getTime();
+  if (isNaN(ms)) return 'unknown';
+  const mins = Math.floor(ms / 60000);
+  if (mins < 1) return 'just now';
+  if (mins < 60) return `${mins}m ago`;
+  const hours = Math.floor(mins / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+function formatUsd(value: number | undefined): string {
+  return `$${(value || 0).toFixed(2)}`;
+}
+
+function sessionLabel(s: ProjectSessionInfo): string {
+  return s.customTitle || s.slug || s.sessionId.slice(0, 8);
+}
+
+function truncate(value: string, max: number): string {
+  const flat = value.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? flat.slice(0, max - 3) + '...' : flat;
+}
+
+// ─── sessions ──────────────────────────────────────────────────
+
+export async function handleSessions(args: Record<string, unknown>): Promise<ToolResult> {
+  const project = resolveProject(args);
+  const activeOnly = args.active === true;
+  const limit = Math.min(Math.max(Number(args.limit) || 10, 1), 50);
+
+  const [{ sessions, total }, executions] = await Promise.all([
+    getProjectSessions(project, activeOnly ? true : undefined),
+    getMonitoredExecutions().catch(() => null),
+  ]);
+
+  const lines: string[] = [];
+  if (sessions.length === 0) {
+    lines.push(`No ${activeOnly ? 'active ' : ''}sessions for ${project}`);
+  } else {
+    const active = sessions.filter(s => s.isActive).length;
+    lines.push(`${total} ${activeOnly ? 'active ' : ''}sessions in ${project} (${active} active, showing ${Math.min(limit, sessions.length)})`);
+    lines.push('');
+    for (const s of sessions.slice(0, limit)) {
+      const turns = s.numTurns ?? s.userPromptCount;
+      const stats = [formatAgo(s.lastModified), turns !== undefined ? `${turns} turns` : '', formatUsd(s.totalCostUsd), s.model || '']
+        .filter(Boolean)
+        .join(', ');
+      lines.push(`- ${s.isActive ? '[active] ' : ''}${s.sessionId} ${sessionLabel(s)} (${stats})`);
+      const about = s.sessionSummary || s.lastUserMessage;
+      if (about) lines.push(`  ${truncate(about, 160)}`);
+    }
+  }
+
+  const running = executions?.executions.filter(e => e.isRunning) || [];
+  if (running.length > 0) {
+    lines.push('');
+    lines.push(`Running executions (${running.length}):`);
+    for (const e of running) {
+      lines.push(`- ${e.executionId} [${e.tier}] session ${e.sessionId}: ${e.status}, ${e.turnCount} turns, ${formatUsd(e.costUsd)}, ${Math.round(e.elapsedMs / 1000)}s`);
+    }
+  }
+
+  lines.push('');
+  lines.push('→ detail(sessionId) for a session\'s conversation');
+  return text(lines);
+}
+
+// ─── tasks ──────────────────────────────────────────────────
+
+export async function handleTasks(args: Record<string, unknown>): Promise<ToolResult> {
+  const limit = Math.min(Math.max(Number(args.limit) || 20, 1), 100);
+  const { tasks, total } = await getReadyTasks();
+
+  if (tasks.length === 0) {
+    return text(['No ready tasks (all tasks are completed or blocked)']);
+  }
+
+  const lines = [`${total} ready tasks (not blocked)`, ''];
+  for (const t of tasks.slice(0, limit)) {
+    const owner = t.owner ? ` @${t.owner}` : '';
+    const unblocks = t.blocks.length > 0 ? ` — unblocks ${t.blocks.join(', ')}` : '';
+    lines.push(`- ${t.id} [${t.status}]${owner} ${t.subject}${unblocks}`);
+    if (t.description) lines.push(`  ${truncate(t.description, 200)}`);
+  }
+  if (total > limit) lines.push(`... ${total - limit} more (limit=${limit})`);
+  return text(lines);
+}
+
+// ─── plans ──────────────────────────────────────────────────
+
+export async function handlePlans(args: Record<string, unknown>): Promise<ToolResult> {
+  const name = typeof args.name === 'string' ? args.name.trim() : '';
+
+  if (name) {
+    const plan = await getPlan(name.endsWith('.md') ? name : `${name}.md`);
+    return text([`# ${plan.title} (${plan.name}, updated ${formatAgo(plan.modifiedAt)})`, '', plan.content || '']);
+  }
+
+  const limit = Math.min(Math.max(Number(args.limit) || 10, 1), 50);
+  const { plans, total } = await listPlans();
+  if (plans.length === 0) return text(['No plans found']);
+
+  const lines = [`${total} plans (newest first)`, ''];
+  for (const p of plans.slice(0, limit)) {
+    lines.push(`- ${p.name}: ${p.title} (${formatAgo(p.modifiedAt)}, ${(p.size / 1024).toFixed(1)} KB)`);
+  }
+  lines.push('');
+  lines.push('→ plans(name) for the full plan, or attach lm-assist://plans/<name> as a resource');
+  return text(lines);
+}
+
+// ─── costs ──────────────────────────────────────────────────
+
+export async function handleCosts(args: Record<string, unknown>): Promise<ToolResult> {
+  const project = resolveProject(args);
+  const limit = Math.min(Math.max(Number(args.limit) || 5, 1), 50);
+
+  // Today's spend comes from the per-message cost time series, so a long
+  // session touched today only counts what it cost since midnight
+  const now = new Date();
+  const midnight = new Date(now);
+  midnight.setHours(0, 0, 0, 0);
+  const [costs, { sessions }, todayBreakdown] = await Promise.all([
+    getProjectCosts(project),
+    getProjectSessions(project),
+    getCostBreakdown(midnight, now, project),
+  ]);
+
+  const today = sessions.filter(s => new Date(s.lastModified).getTime() >= midnight.getTime());
+  const todayCost = todayBreakdown.total.costUsd;
+
+  const lines = [
+    `Costs for ${costs.projectPath}`,
+    `Total: ${formatUsd(costs.totalCostUsd)} across ${costs.sessionCount} sessions (including subagents)`,
+    `Today: ${formatUsd(todayCost)} in ${today.length} sessions active today`,
+  ];
+
+  const top = [...costs.sessions].sort((a, b) => b.totalCostUsd - a.totalCostUsd).slice(0, limit);
+  if (top.length > 0) {
+    lines.push('');
+    lines.push('Most expensive sessions:');
+    for (const s of top) {
+      const details = [
+        s.model || '',
+        s.numTurns !== undefined ? `${s.numTurns} turns` : '',
+        s.subagentCount > 0 ? `${s.subagentCount} subagents ${formatUsd(s.subagentCostUsd)}` : '',
+      ].filter(Boolean);
+      lines.push(`- ${s.sessionId}: ${formatUsd(s.totalCostUsd)}${details.length > 0 ? ` (${details.join(', ')})` : ''}`);
+    }
+  }
+  return text(lines);
+}
@@ -0,0 +1,401 @@
+/**
+ * Metrics
+ *
+ * Prometheus / OpenMetrics exposition for GET /metrics, so a local Prometheus
+ * (or any OpenMetrics scraper) can watch lm-assist without the Hub.
+ *
+ * Collected on every scrape from the services that already hold the state:
+ * running Claude processes and their memory (ProcessStatusStore), lifetime
+ * token and cost counters per project (cost analytics), the same totals over
+ * the cached sessions (session cache; aggregated at most every 30s — gauges,
+ * as they drop when session files are deleted), the knowledge scheduler's
+ * last runs, vector index size and queue, session cache lookups, startup
+ * timings (startup profiler) and ttyd instances. The only state kept here is
+ * the HTTP latency histogram, fed by the REST server through observeRequest().
+ *
+ * A source that fails or is not loaded is skipped; the rest still render.
+ *
+ * Singleton via getMetrics().
+ */
+
+import { CostCalculator } from './cost-calculator';
+import type { SessionCacheData } from './session-cache';
+import type { UsageMetrics } from './cost-analytics';
+
+// ── Types ──────────────────────────────────────────
+
+type MetricType = 'gauge' | 'counter' | 'histogram';
+type Labels = Record<string, string>;
+
+interface Sample {
+  /** Suffix appended to the family name (`_total`, `_bucket`, ...) */
+  suffix?: string;
+  labels?: Labels;
+  value: number;
+}
+
+interface RequestSeries {
+  labels: Labels;
+  buckets: number[];
+  count: number;
+  sum: number;
+}
+
+interface ProjectTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+  sessions: number;
+}
+
+// ── Constants ──────────────────────────────────────────
+
+const PREFIX = 'lm_assist_';
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+/** Upper bounds (seconds) of the HTTP latency buckets */
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/** Per-project totals walk every cached session, so they are reused this long */
+const PROJECT_TOTALS_TTL_MS = 30_000;
+
+const KNOWLEDGE_TASKS = [
+  'agentDiscovery',
+  'genericDiscovery',
+  'generation',
+  'remoteSync',
+  'stalenessCheck',
+  'retentionPolicy',
+  'toolResultIndexing',
+] as const;
+
+// ── Formatting ──────────────────────────────────────────
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  if (Number.isNaN(value)) return 'NaN';
+  return String(value);
+}
+
+function formatLabels(labels?: Labels): string {
+  const entries = Object.entries(labels || {});
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+function toSnakeCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+/**
+ * Collects metric families and renders them in the OpenMetrics text format.
+ */
+class Exposition {
+  private lines: string[] = [];
+
+  add(name: string, type: MetricType, help: string, samples: Sample[]): void {
+    const family = PREFIX + name;
+    this.lines.push(`# TYPE ${family} ${type}`);
+    this.lines.push(`# HELP ${family} ${help}`);
+    for (const sample of samples) {
+      this.lines.push(`${family}${sample.suffix || ''}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+  }
+
+  gauge(name: string, help: string, samples: Sample[]): void {
+    this.add(name, 'gauge', help, samples);
+  }
+
+  /** Counter family; samples get the required `_total` suffix */
+  counter(name: string, help: string, samples: Sample[]): void {
+    this.add(name, 'counter', help, samples.map(s => ({ ...s, suffix: '_total' })));
+  }
+
+  render(): string {
+    return [...this.lines, '# EOF', ''].join('\n');
+  }
+}
+
+// ── Metrics ──────────────────────────────────────────
+
+class Metrics {
+  private requests = new Map<string, RequestSeries>();
+  private projectTotals: { at: number; totals: Map<string, ProjectTotals> } | null = null;
+
+  /**
+   * Record one handled HTTP request. `route` is the route template
+   * (e.g. /sessions/:sessionId), never the raw path, to keep cardinality low.
+   */
+  observeRequest(method: string, route: string, statusCode: number, seconds: number): void {
+    const labels = { method, route, code: String(statusCode) };
+    const key = `${labels.method} ${labels.route} ${labels.code}`;
+    let series = this.requests.get(key);
+    if (!series) {
+      series = { labels, buckets: LATENCY_BUCKETS.map(() => 0), count: 0, sum: 0 };
+      this.requests.set(key, series);
+    }
+    for (let i = 0; i < LATENCY_BUCKETS.length; i++) {
+      if (seconds <= LATENCY_BUCKETS[i]) series.buckets[i]++;
+    }
+    series.count++;
+    series.sum += seconds;
+  }
+
+  /**
+   * Current metrics in the OpenMetrics text format.
+   */
+  async render(): Promise<string> {
+    const out = new Exposition();
+
+    out.gauge('process_resident_memory_bytes', 'Resident memory of the lm-assist core process', [
+      { value: process.memoryUsage().rss },
+    ]);
+    out.gauge('process_uptime_seconds', 'Seconds since the lm-assist core process started', [
+      { value: Math.round(process.uptime()) },
+    ]);
+
+    this.collect('processes', () => this.collectProcesses(out));
+    this.collect('spend', () => this.collectSpend(out));
+    this.collect('projects', () => this.collectProjects(out));
+    this.collect('knowledge', () => this.collectKnowledge(out));
+    await this.collectAsync('vector', () => this.collectVector(out));
+    this.collect('session cache', () => this.collectSessionCache(out));
+    this.collect('startup', () => this.collectStartup(out));
+    this.collect('ttyd', () => this.collectTtyd(out));
+    this.collectRequests(out);
+
+    return out.render();
+  }
+
+  // ── Sources ──────────────────────────────────────────
+
+  private collectProcesses(out: Exposition): void {
+    const { getProcessStatusStore } = require('./process-status-store');
+    const store = getProcessStatusStore();
+    const processes: Array<{ managedBy: string; memoryRssKb?: number }> = store.getCachedProcesses();
+
+    const byCategory = new Map<string, { count: number; rssBytes: number }>();
+    for (const proc of processes) {
+      const entry = byCategory.get(proc.managedBy) || { count: 0, rssBytes: 0 };
+      entry.count++;
+      entry.rssBytes += (proc.memoryRssKb || 0) * 1024;
+      byCategory.set(proc.managedBy, entry);
+    }
+
+    out.gauge('claude_processes', 'Running Claude processes by how they are managed', [...byCategory].map(([managedBy, e]) => ({
+      labels: { managed_by: managedBy }, value: e.count,
+    })));
+    out.gauge('claude_process_memory_bytes', 'Resident memory of running Claude processes by how they are managed', [...byCategory].map(([managedBy, e]) => ({
+      labels: { managed_by: managedBy }, value: e.rssBytes,
+    })));
+
+    const systemStats = store.getCachedResponse()?.systemStats;
+    if (systemStats) {
+      out.gauge('system_memory_used_bytes', 'Used system memory', [{ value: systemStats.usedMemoryMb * 1024 * 1024 }]);
+      out.gauge('system_memory_total_bytes', 'Total system memory', [{ value: systemStats.totalMemoryMb * 1024 * 1024 }]);
+    }
+  }
+
+  private collectSpend(out: Exposition): void {
+    const { getCostAnalytics } = require('./cost-analytics');
+    const rows = Object.entries(getCostAnalytics().getLifetimeTotals() as Record<string, UsageMetrics>);
+
+    out.counter('project_tokens', 'Tokens used by a project since lm-assist began tracking it, subagents included', rows.flatMap(([project, t]) => [
+      { labels: { project, type: 'input' }, value: t.inputTokens },
+      { labels: { project, type: 'output' }, value: t.outputTokens },
+      { labels: { project, type: 'cache_read' }, value: t.cacheReadInputTokens },
+      { labels: { project, type: 'cache_write' }, value: t.cacheCreationInputTokens },
+    ]));
+    out.counter('project_cost_usd', 'Estimated cost in USD of a project since lm-assist began tracking it, subagents included', rows.map(([project, t]) => ({
+      labels: { project }, value: Math.round(t.costUsd * 1e6) / 1e6,
+    })));
+  }
+
+  private collectProjects(out: Exposition): void {
+    const totals = this.getProjectTotals();
+    const rows = [...totals];
+
+    out.gauge('project_cached_tokens', 'Tokens used by the cached sessions of a project, subagents included', rows.flatMap(([project, t]) => [
+      { labels: { project, type: 'input' }, value: t.inputTokens },
+      { labels: { project, type: 'output' }, value: t.outputTokens },
+      { labels: { project, type: 'cache_read' }, value: t.cacheReadTokens },
+      { labels: { project, type: 'cache_write' }, value: t.cacheWriteTokens },
+    ]));
+    out.gauge('project_cached_cost_usd', 'Estimated cost in USD of the cached sessions of a project, subagents included', rows.map(([project, t]) => ({
+      labels: { project }, value: Math.round(t.costUsd * 1e6) / 1e6,
+    })));
+    out.gauge('project_sessions', 'Cached session files of a project, subagents included', rows.map(([project, t]) => ({
+      labels: { project }, value: t.sessions,
+    })));
+  }
+
+  private collectKnowledge(out: Exposition): void {
+    const { getKnowledgeScheduler } = require('./knowledge/scheduler');
+    const status = getKnowledgeScheduler().getStatus();
+    const tasks = KNOWLEDGE_TASKS.map(name => ({ task: toSnakeCase(name), timer: status[name] }));
+
+    out.gauge('knowledge_scheduler_running', 'Whether the knowledge scheduler is started', [{ value: status.running ? 1 : 0 }]);
+    out.gauge('knowledge_task_enabled', 'Whether a knowledge task is enabled', tasks.map(({ task, timer }) => ({
+      labels: { task }, value: timer.enabled ? 1 : 0,
+    })));
+    out.gauge('knowledge_task_running', 'Whether a knowledge task is running now', tasks.map(({ task, timer }) => ({
+      labels: { task }, value: timer.isRunning ? 1 : 0,
+    })));
+
+    const ran = tasks.filter(({ timer }) => timer.lastRunAt && !isNaN(Date.parse(timer.lastRunAt)));
+    out.gauge('knowledge_task_last_run_timestamp_seconds', 'Unix time of a knowledge task\'s last run', ran.map(({ task, timer }) => ({
+      labels: { task }, value: Math.floor(Date.parse(timer.lastRunAt) / 1000),
+    })));
+    out.gauge('knowledge_task_last_run_success', 'Whether a knowledge task\'s last run succeeded', ran.map(({ task, timer }) => ({
+      labels: { task }, value: timer.lastResult?.startsWith('Error:') ? 0 : 1,
+    })));
+  }
+
+  private async collectVector(out: Exposition): Promise<void> {
+    const { getVectorStore } = require('./vector/vector-store');
+    const stats = await getVectorStore().getStats();
+    out.gauge('vector_index_initialized', 'Whether the vector index is open', [{ value: stats.isInitialized ? 1 : 0 }]);
+    out.gauge('vector_index_vectors', 'Vectors in the index (0 until it is opened)', [{ value: stats.totalVectors }]);
+
+    const { getVectorIndexQueue } = require('./vector/index-queue');
+    const queue = getVectorIndexQueue().getStatus();
+    out.gauge('vector_index_queue_pending', 'Items waiting to be indexed', [
+      { labels: { kind: 'knowledge' }, value: queue.pending.knowledge },
+      { labels: { kind: 'session' }, value: queue.pending.session },
+    ]);
+    out.gauge('vector_index_queue_draining', 'Whether the index queue is draining', [{ value: queue.draining ? 1 : 0 }]);
+  }
+
+  private collectSessionCache(out: Exposition): void {
+    const { getSessionCache } = require('./session-cache');
+    const stats = getSessionCache().getCacheStats();
+
+    out.gauge('session_cache_sessions', 'Sessions in the persistent session cache', [{ value: stats.lmdb.sessionCount }]);
+    out.gauge('session_cache_memory_entries', 'Entries held in memory', [
+      { labels: { kind: 'session' }, value: stats.memoryCacheSize },
+      { labels: { kind: 'raw' }, value: stats.rawMemoryCacheSize },
+    ]);
+    out.gauge('session_cache_pending_updates', 'File changes waiting to be applied', [{ value: stats.pendingUpdates }]);
+    out.gauge('session_cache_watching', 'Whether session files are watched', [{ value: stats.isWatching ? 1 : 0 }]);
+    out.counter('session_cache_lookups', 'Session lookups: hit (served from cache), append (incremental parse), miss (full parse)', [
+      { labels: { result: 'hit' }, value: stats.lookups.hits },
+      { labels: { result: 'append' }, value: stats.lookups.appends },
+      { labels: { result: 'miss' }, value: stats.lookups.misses },
+    ]);
+  }
+
+  private collectStartup(out: Exposition): void {
+    const { getStartupProfiler } = require('./startup-profiler');
+    const entries: Array<{ key: string; label: string; durationMs: number }> = getStartupProfiler().getEntries();
+    out.gauge('startup_duration_seconds', 'Time spent in each startup step, including cache warm-up', entries.map(e => ({
+      labels: { component: e.key, label: e.label }, value: e.durationMs / 1000,
+    })));
+  }
+
+  private collectTtyd(out: Exposition): void {
+    const { getTtydManager } = require('./ttyd-manager');
+    const instances: Array<{ status: string }> = getTtydManager().getInstanceStore().getAll();
+    const byStatus = new Map<string, number>();
+    for (const instance of instances) {
+      byStatus.set(instance.status, (byStatus.get(instance.status) || 0) + 1);
+    }
+    out.gauge('ttyd_instances', 'ttyd instances by status', [...byStatus].map(([status, count]) => ({
+      labels: { status }, value: count,
+    })));
+  }
+
+  private collectRequests(out: Exposition): void {
+    const samples: Sample[] = [];
+    for (const series of this.requests.values()) {
+      LATENCY_BUCKETS.forEach((le, i) => {
+        samples.push({ suffix: '_bucket', labels: { ...series.labels, le: String(le) }, value: series.buckets[i] });
+      });
+      samples.push({ suffix: '_bucket', labels: { ...series.labels, le: '+Inf' }, value: series.count });
+      samples.push({ suffix: '_count', labels: series.labels, value: series.count });
+      samples.push({ suffix: '_sum', labels: series.labels, value: Math.round(series.sum * 1e6) / 1e6 });
+    }
+    out.add('http_request_duration_seconds', 'histogram', 'HTTP request latency by route', samples);
+  }
+
+  // ── Helpers ──────────────────────────────────────────
+
+  private collect(source: string, fn: () => void): void {
+    try {
+      fn();
+    } catch (err) {
+      console.warn(`[Metrics] Skipping ${source} metrics:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  private async collectAsync(source: string, fn: () => Promise<void>): Promise<void> {
+    try {
+      await fn();
+    } catch (err) {
+      console.warn(`[Metrics] Skipping ${source} metrics:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  /**
+   * Token and cost totals keyed by project path (the session's cwd, or the
+   * encoded project directory name when unknown).
+   */
+  private getProjectTotals(): Map<string, ProjectTotals> {
+    if (this.projectTotals && Date.now() - this.projectTotals.at < PROJECT_TOTALS_TTL_MS) {
+      return this.projectTotals.totals;
+    }
+
+    const { getSessionCache } = require('./session-cache');
+    let calc: CostCalculator | null = null;
+    const totals = new Map<string, ProjectTotals>();
+
+    const sessions: Iterable<{ key: string; value: SessionCacheData }> = getSessionCache().allSessionsIncludingSubagents();
+    for (const { key: filePath, value: cacheData } of sessions) {
+      // Encoded project key from the path: .../projects/{key}/...
+      const projMatch = filePath.replace(/\\/g, '/').match(/\/projects\/([^/]+)\//);
+      const project = cacheData.cwd || projMatch?.[1];
+      if (!project) continue;
+      const entry = totals.get(project) || {
+        inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0, sessions: 0,
+      };
+
+      const usage = cacheData.usage;
+      if (usage) {
+        entry.inputTokens += usage.inputTokens || 0;
+        entry.outputTokens += usage.outputTokens || 0;
+        entry.cacheReadTokens += usage.cacheReadInputTokens || 0;
+        entry.cacheWriteTokens += usage.cacheCreationInputTokens || 0;
+      }
+
+      let cost = cacheData.totalCostUsd || cacheData.cumulativeCostUsd || 0;
+      if (!cost && usage && usage.inputTokens > 0) {
+        if (!calc) calc = new CostCalculator();
+        cost = calc.calculateSessionCost(cacheData);
+      }
+      entry.costUsd += cost;
+      entry.sessions++;
+      totals.set(project, entry);
+    }
+
+    this.projectTotals = { at: Date.now(), totals };
+    return totals;
+  }
+}
+
+// ── Singleton ──────────────────────────────────────────
+
+let instance: Metrics | null = null;
+
+export function getMetrics(): Metrics {
+  if (!instance) {
+    instance = new Metrics();
+  }
+  return instance;
+}
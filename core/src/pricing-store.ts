@@ -0,0 +1,217 @@
+/**
+ * Pricing Store
+ *
+ * Versioned model price tables, fully offline. Built-in prices ship in
+ * core/data/model-pricing.json; user overrides are kept in
+ * ~/.lm-assist/model-pricing.json. Every entry may carry an `effectiveFrom`
+ * date, so a model can have several price versions and each cost is computed
+ * with the version in effect at its timestamp (see selectPricing). Session,
+ * project and budget totals are priced from per-day usage, one UTC day at a
+ * time. Built-in entries are dated from the model's release.
+ *
+ * An override with the same model pattern and effective date as a built-in
+ * entry replaces it, and an undated override replaces every built-in version
+ * of its pattern; any other override adds a model or a new version.
+ * Prices can also be imported from a downloaded LiteLLM price file.
+ *
+ * Changing the table changes getVersion(). Costs computed on the fly pick up
+ * the change at once; stored history (cost analytics) is recomputed by the
+ * reprice job.
+ *
+ * Singleton via getPricingStore().
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { getDataDir } from './utils/path-utils';
+import { DEFAULT_MODEL_PRICING, selectPricing, convertLiteLLMEntry } from './cost-calculator';
+import type { ModelPricing } from './types';
+
+// ── Types ──────────────────────────────────────────
+
+export type PricingSource = 'builtin' | 'override';
+
+export interface PricingEntry extends ModelPricing {
+  source: PricingSource;
+  /** Built-in entry hidden by an override (see isReplaced) */
+  replaced: boolean;
+  /** The version used for this pattern today */
+  current: boolean;
+}
+
+interface OverridesFile {
+  overrides: ModelPricing[];
+  updatedAt?: string;
+}
+
+// ── Constants ──────────────────────────────────────────
+
+const OVERRIDES_FILE = path.join(getDataDir(), 'model-pricing.json');
+
+/** LiteLLM keys imported when no filter is given */
+const DEFAULT_IMPORT_MATCH = 'claude';
+
+function entryKey(pricing: ModelPricing): string {
+  return `${pricing.modelPattern.toLowerCase()}@${pricing.effectiveFrom || ''}`;
+}
+
+/**
+ * Whether overrides hide a built-in entry: one with the same pattern and date,
+ * or an undated one for the pattern (a price meant for every date).
+ */
+function isReplaced(builtin: ModelPricing, overrides: ModelPricing[]): boolean {
+  const pattern = builtin.modelPattern.toLowerCase();
+  return overrides.some(o => o.modelPattern.toLowerCase() === pattern
+    && (!o.effectiveFrom || o.effectiveFrom === builtin.effectiveFrom));
+}
+
+// ── Pricing Store ──────────────────────────────────────────
+
+class PricingStore {
+  private overrides: ModelPricing[] | null = null;
+  private table: ModelPricing[] | null = null;
+  private version: string | null = null;
+
+  /**
+   * Merged table: built-in entries not replaced by an override, then overrides.
+   */
+  getTable(): ModelPricing[] {
+    if (this.table) return this.table;
+    const overrides = this.getOverrides();
+    this.table = [...DEFAULT_MODEL_PRICING.filter(p => !isReplaced(p, overrides)), ...overrides];
+    return this.table;
+  }
+
+  /**
+   * Short hash of the merged table; changes whenever any price does.
+   */
+  getVersion(): string {
+    if (!this.version) {
+      this.version = crypto.createHash('sha1').update(JSON.stringify(this.getTable())).digest('hex').slice(0, 12);
+    }
+    return this.version;
+  }
+
+  /**
+   * Every entry, built-in and override, sorted by pattern then date.
+   */
+  list(): PricingEntry[] {
+    const table = this.getTable();
+    const overrides = this.getOverrides();
+    const current = new Set<ModelPricing>();
+    for (const pricing of table) {
+      const selected = selectPricing(table, pricing.modelPattern);
+      if (selected) current.add(selected);
+    }
+
+    const entries: PricingEntry[] = [
+      ...DEFAULT_MODEL_PRICING.map(p => ({
+        ...p,
+        source: 'builtin' as const,
+        replaced: isReplaced(p, overrides),
+        current: current.has(p),
+      })),
+      ...overrides.map(p => ({ ...p, source: 'override' as const, replaced: false, current: current.has(p) })),
+    ];
+    return entries.sort((a, b) =>
+      a.modelPattern.localeCompare(b.modelPattern) || (a.effectiveFrom || '').localeCompare(b.effectiveFrom || ''));
+  }
+
+  /**
+   * The entry used for a model at a time, or null when the model is unknown
+   * (costs then use the default model's price).
+   */
+  resolve(model: string, at?: string | number | Date): { pricing: ModelPricing; source: PricingSource } | null {
+    const pricing = selectPricing(this.getTable(), model, at);
+    if (!pricing) return null;
+    return { pricing, source: this.getOverrides().includes(pricing) ? 'override' : 'builtin' };
+  }
+
+  /**
+   * Add an override, replacing one with the same pattern and effective date.
+   */
+  setOverride(pricing: ModelPricing): ModelPricing {
+    const key = entryKey(pricing);
+    this.overrides = [...this.getOverrides().filter(p => entryKey(p) !== key), pricing];
+    this.saveOverrides();
+    return pricing;
+  }
+
+  /**
+   * Remove an override. Returns false when there was none.
+   */
+  deleteOverride(modelPattern: string, effectiveFrom?: string): boolean {
+    const key = entryKey({ modelPattern, effectiveFrom } as ModelPricing);
+    const overrides = this.getOverrides();
+    const remaining = overrides.filter(p => entryKey(p) !== key);
+    if (remaining.length === overrides.length) return false;
+    this.overrides = remaining;
+    this.saveOverrides();
+    return true;
+  }
+
+  /**
+   * Import the contents of a LiteLLM model_prices_and_context_window.json as
+   * overrides. Only keys containing `match` are taken (default: claude).
+   */
+  importLiteLLM(prices: Record<string, unknown>, options?: { effectiveFrom?: string; match?: string }): ModelPricing[] {
+    const match = (options?.match || DEFAULT_IMPORT_MATCH).toLowerCase();
+    const imported: ModelPricing[] = [];
+    for (const [key, entry] of Object.entries(prices)) {
+      if (!entry || typeof entry !== 'object' || !key.toLowerCase().includes(match)) continue;
+      const pricing = convertLiteLLMEntry(key, entry);
+      if (!pricing) continue;
+      if (options?.effectiveFrom) pricing.effectiveFrom = options.effectiveFrom;
+      imported.push(pricing);
+    }
+    if (imported.length === 0) return imported;
+
+    const keys = new Set(imported.map(entryKey));
+    this.overrides = [...this.getOverrides().filter(p => !keys.has(entryKey(p))), ...imported];
+    this.saveOverrides();
+    return imported;
+  }
+
+  // ── State ──────────────────────────────────────────
+
+  private getOverrides(): ModelPricing[] {
+    if (this.overrides) return this.overrides;
+
+    let overrides: ModelPricing[] = [];
+    try {
+      if (fs.existsSync(OVERRIDES_FILE)) {
+        const data: OverridesFile = JSON.parse(fs.readFileSync(OVERRIDES_FILE, 'utf-8'));
+        if (Array.isArray(data?.overrides)) {
+          overrides = data.overrides.filter(p => p && typeof p.modelPattern === 'string');
+        }
+      }
+    } catch (err) {
+      console.warn('[PricingStore] Failed to read overrides, using built-in prices:', err);
+    }
+    this.overrides = overrides;
+    return overrides;
+  }
+
+  private saveOverrides(): void {
+    this.table = null;
+    this.version = null;
+    const dir = path.dirname(OVERRIDES_FILE);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    const data: OverridesFile = { overrides: this.getOverrides(), updatedAt: new Date().toISOString() };
+    fs.writeFileSync(OVERRIDES_FILE, JSON.stringify(data, null, 2));
+  }
+}
+
+// ── Singleton ──────────────────────────────────────────
+
+let instance: PricingStore | null = null;
+
+export function getPricingStore(): PricingStore {
+  if (!instance) {
+    instance = new PricingStore();
+  }
+  return instance;
+}
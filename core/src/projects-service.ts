@@ -28,7 +28,7 @@ import {
   TaskListSummary,
 } from './tasks-service';
 import { getSessionCache, isRealUserPrompt } from './session-cache';
-import { CostCalculator } from './cost-calculator';
+import { CostCalculator, addDailyUsage, type DailyUsage } from './cost-calculator';
 import { getProjectSettings } from './project-settings';
 
 // ============================================================================
@@ -779,7 +779,7 @@ export class ProjectsService {
           const needsCalc = !cost && cacheData.usage && cacheData.usage.inputTokens > 0;
           if (needsCalc) {
             if (!calc) calc = new CostCalculator();
-            cost = calc.calculateCost(cacheData.usage, cacheData.model || '').totalCost;
+            cost = calc.calculateSessionCost(cacheData);
           }
           if (cost > 0) {
             session.totalCostUsd = cost;
@@ -794,12 +794,11 @@ export class ProjectsService {
             for (const [modelName, mu] of Object.entries(session.modelUsage)) {
               if (!mu.costUsd && mu.inputTokens > 0) {
                 if (!calc) calc = new CostCalculator();
-                mu.costUsd = calc.calculateCost({
-                  inputTokens: mu.inputTokens,
-                  outputTokens: mu.outputTokens,
-                  cacheCreationInputTokens: mu.cacheCreationInputTokens,
-                  cacheReadInputTokens: mu.cacheReadInputTokens,
-                }, modelName).totalCost;
+                mu.costUsd = calc.calculateSessionCost({
+                  usage: mu,
+                  lastTimestamp: cacheData.lastTimestamp,
+                  usageByDay: cacheData.usageByDay,
+                }, modelName);
               }
             }
           }
@@ -1205,7 +1204,7 @@ export class ProjectsService {
       let cost = cacheData.totalCostUsd || cacheData.cumulativeCostUsd || 0;
       if (!cost && cacheData.usage && cacheData.usage.inputTokens > 0) {
         const calc = new CostCalculator();
-        cost = calc.calculateCost(cacheData.usage, cacheData.model || '').totalCost;
+        cost = calc.calculateSessionCost(cacheData);
       }
       return {
         costUsd: cost,
@@ -1226,6 +1225,8 @@ export class ProjectsService {
       let cacheReadTokens = 0;
       let cacheCreateTokens = 0;
       let cumulativeCostUsd = 0;
+      let lastTimestamp: string | undefined;
+      const usageByDay: DailyUsage = {};
 
       const fileStream = fs.createReadStream(filePath, { encoding: 'utf-8' });
       const rl = readline.createInterface({
@@ -1254,11 +1255,20 @@ export class ProjectsService {
             outputTokens += usage.output_tokens || 0;
             cacheReadTokens += usage.cache_read_input_tokens || 0;
             cacheCreateTokens += usage.cache_creation_input_tokens || 0;
+            if (record.timestamp) lastTimestamp = record.timestamp;
 
             // Extract model from assistant message
             if (record.message?.model && record.message.model !== '<synthetic>') {
               model = record.message.model;
             }
+            if (record.message?.model !== '<synthetic>') {
+              addDailyUsage(usageByDay, lastTimestamp, record.message?.model || '', {
+                inputTokens: usage.input_tokens || 0,
+                outputTokens: usage.output_tokens || 0,
+                cacheCreationInputTokens: usage.cache_creation_input_tokens || 0,
+                cacheReadInputTokens: usage.cache_read_input_tokens || 0,
+              });
+            }
           }
 
           // Accumulate per-message costUSD (pre-calculated by Claude Code)
@@ -1282,12 +1292,17 @@ export class ProjectsService {
         }
         // Calculate cost if not already set from result or per-message costUSD
         if (!totalCostUsd && inputTokens > 0) {
-          totalCostUsd = new CostCalculator().calculateCost({
-            inputTokens,
-            outputTokens,
-            cacheReadInputTokens: cacheReadTokens,
-            cacheCreationInputTokens: cacheCreateTokens,
-          }, model || '').totalCost;
+          totalCostUsd = new CostCalculator().calculateSessionCost({
+            usage: {
+              inputTokens,
+              outputTokens,
+              cacheReadInputTokens: cacheReadTokens,
+              cacheCreationInputTokens: cacheCreateTokens,
+            },
+            model,
+            lastTimestamp,
+            usageByDay,
+          });
         }
 
         resolve({ costUsd: totalCostUsd, model, numTurns });
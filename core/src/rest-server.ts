@@ -13,8 +13,11 @@ import * as chokidar from 'chokidar';
 import { TierControlApiImpl, createControlApi } from './control-api';
 import { TierManager } from './tier-manager';
 import type { TierEvent } from './types/control-api';
+import type { SearchAlert } from './search/saved-searches';
+import type { BudgetAlert, BudgetAbort } from './budgets';
 import { handleTtydProxyRequest, handleTtydProxyUpgrade, isTtydProxyPath } from './ttyd-proxy';
 import { getStartupProfiler } from './startup-profiler';
+import { getMetrics } from './metrics';
 
 // Modular Routes
 import {
@@ -38,6 +41,28 @@ interface ServerOptions {
   apiKey?: string;
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const routeLabels = new WeakMap<RegExp, string>();
+
+/**
+ * Route template for a route pattern, used as the metrics label:
+ * /^\/sessions\/(?<sessionId>[^/]+)$/ becomes /sessions/:sessionId.
+ */
+function routeLabel(pattern: RegExp): string {
+  let label = routeLabels.get(pattern);
+  if (!label) {
+    label = pattern.source
+      .replace(/^\^/, '')
+      .replace(/\$$/, '')
+      .replace(/\(\?<(\w+)>(?:[^()]|\([^()]*\))*\)/g, ':$1')
+      .replace(/\\\//g, '/');
+    routeLabels.set(pattern, label);
+  }
+  return label;
+}
 
 // ============================================================================
 // Server Implementation
@@ -130,12 +155,59 @@ export class TierRestServer {
         }
       });
 
+      // Saved searches re-run on session/knowledge changes; new matches go to SSE /stream
+      const { getSavedSearches } = require('./search/saved-searches');
+      const savedSearches = getSavedSearches();
+      savedSearches.onAlert((alert: SearchAlert) => {
+        this.broadcastEvent({ type: 'search_alert', ...alert });
+      });
+      savedSearches.start();
+
+      // Budgets track spend per session change; alerts go to SSE /stream and
+      // hard caps abort the offending execution
+      const { getBudgets } = require('./budgets');
+      const budgets = getBudgets();
+      budgets.onAlert(({ level, ...alert }: BudgetAlert) => {
+        this.broadcastEvent({ type: level === 'breach' ? 'budget_breach' : 'budget_warning', ...alert });
+      });
+      budgets.onAbort((result: BudgetAbort) => {
+        this.broadcastEvent({ type: 'budget_abort', ...result });
+      });
+      budgets.setAborter((sessionId: string) => this.abortSessionExecution(sessionId));
+      budgets.start();
+
+      // Cost analytics buckets usage from new session messages (plus a one-time backfill)
+      const { getCostAnalytics } = require('./cost-analytics');
+      getCostAnalytics().start();
+
       console.log('Session cache events wired');
     } catch (err) {
       console.warn('TierRestServer: Failed to initialize session cache events:', err);
     }
   }
 
+  /**
+   * Abort the execution running a session: a monitored execution
+   * (POST /monitor/abort/:executionId), else an agent execution
+   * (POST /agent/execution/:id/abort). Returns the aborted execution ID.
+   */
+  private async abortSessionExecution(sessionId: string): Promise<string | null> {
+    const monitored = await this.api.sessions.getMonitoredExecutions();
+    const execution = monitored.data?.executions.find(e => e.sessionId === sessionId && e.isRunning);
+    if (execution) {
+      const result = await this.api.sessions.abortExecution(execution.executionId);
+      if (result.data?.aborted) return execution.executionId;
+    }
+
+    const agentExecutions = await this.api.agent.listExecutions();
+    const agentExecution = agentExecutions.find(e => e.sessionId === sessionId && e.isRunning);
+    if (agentExecution) {
+      const result = await this.api.agent.abort(agentExecution.executionId);
+      if (result.success) return agentExecution.executionId;
+    }
+    return null;
+  }
+
   private initClaudeTasksWatcher(): void {
     const tasksDir = path.join(homedir(), '.claude', 'tasks');
 
@@ -346,6 +418,8 @@ export class TierRestServer {
   // --------------------------------------------------------------------------
 
   private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const startNs = process.hrtime.bigint();
+
     // CORS headers
     if (this.options.cors) {
       res.setHeader('Access-Control-Allow-Origin', '*');
@@ -399,6 +473,7 @@ export class TierRestServer {
       if (!match) continue;
 
       parsed.params = match.groups || {};
+      this.observeLatency(res, startNs, parsed.method, routeLabel(route.pattern));
 
       try {
         const result = await route.handler(parsed, this.api);
@@ -450,12 +525,23 @@ export class TierRestServer {
     }
 
     // 404
+    this.observeLatency(res, startNs, parsed.method, 'unmatched');
     this.sendJson(res, 404, {
       success: false,
       error: { code: 'NOT_FOUND', message: `Route not found: ${parsed.method} ${parsed.path}` },
     });
   }
 
+  /**
+   * Record the request's latency in the /metrics histogram once the response is sent.
+   */
+  private observeLatency(res: http.ServerResponse, startNs: bigint, method: string, route: string): void {
+    res.once('finish', () => {
+      const seconds = Number(process.hrtime.bigint() - startNs) / 1e9;
+      getMetrics().observeRequest(method, route, res.statusCode, seconds);
+    });
+  }
+
   private async parseRequest(req: http.IncomingMessage): Promise<ParsedRequest> {
     const url = new URL(req.url || '/', `http://${req.headers.host}`);
 
@@ -0,0 +1,166 @@
+/**
+ * Budget Routes
+ *
+ * CRUD for spending budgets and their current-period status. Spend is tracked
+ * in the background (budgets.ts); crossing a budget's warning level or cap
+ * emits `budget_warning` / `budget_breach` on SSE /stream, and hard caps
+ * abort the offending execution (`budget_abort`).
+ *
+ * Endpoints:
+ *   GET    /budgets            List budgets with current spend and level
+ *   POST   /budgets            Create { scope, capUsd, target?, period?, warnAt?, hardCap?, name? }
+ *   GET    /budgets/status     Spend today/this week/this month, plus every budget's status
+ *   GET    /budgets/:id        Get one, with status
+ *   PUT    /budgets/:id        Update any field, or { enabled }
+ *   DELETE /budgets/:id        Delete
+ */
+
+import type { RouteHandler, RouteContext } from '../index';
+import { wrapResponse, wrapError } from '../../api/helpers';
+import {
+  getBudgets,
+  BUDGET_SCOPES,
+  BUDGET_PERIODS,
+  type Budget,
+  type BudgetInput,
+} from '../../budgets';
+
+/**
+ * Validate the fields of a create/update body against the resulting budget.
+ * Returns an error message or null.
+ */
+function validateInput(body: Record<string, unknown>, existing: Budget | null): string | null {
+  if (!existing || body.scope !== undefined) {
+    if (!BUDGET_SCOPES.includes(body.scope as any)) return `scope must be one of: ${BUDGET_SCOPES.join(', ')}`;
+  }
+  if (body.period !== undefined && !BUDGET_PERIODS.includes(body.period as any)) {
+    return `period must be one of: ${BUDGET_PERIODS.join(', ')}`;
+  }
+  if (!existing || body.capUsd !== undefined) {
+    if (typeof body.capUsd !== 'number' || !isFinite(body.capUsd) || body.capUsd <= 0) {
+      return 'capUsd must be a positive number';
+    }
+  }
+  if (body.warnAt !== undefined) {
+    if (typeof body.warnAt !== 'number' || !(body.warnAt > 0 && body.warnAt <= 1)) {
+      return 'warnAt must be a fraction between 0 and 1';
+    }
+  }
+  if (body.target !== undefined && body.target !== null && typeof body.target !== 'string') {
+    return 'target must be a string';
+  }
+  const scope = body.scope ?? existing?.scope;
+  const target = body.target !== undefined ? body.target : existing?.target;
+  if (scope === 'project' && !target) return 'target (project path) is required for project budgets';
+  if (body.hardCap !== undefined && typeof body.hardCap !== 'boolean') return 'hardCap must be a boolean';
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') return 'enabled must be a boolean';
+  return null;
+}
+
+function toInput(body: Record<string, unknown>): Partial<BudgetInput> {
+  const input: Partial<BudgetInput> = {};
+  if (body.name !== undefined) input.name = String(body.name || '');
+  if (body.scope !== undefined) input.scope = body.scope as BudgetInput['scope'];
+  if (body.target !== undefined) input.target = String(body.target || '');
+  if (body.period !== undefined) input.period = body.period as BudgetInput['period'];
+  if (body.capUsd !== undefined) input.capUsd = body.capUsd as number;
+  if (body.warnAt !== undefined) input.warnAt = body.warnAt as number;
+  if (body.hardCap !== undefined) input.hardCap = body.hardCap as boolean;
+  if (body.enabled !== undefined) input.enabled = body.enabled as boolean;
+  // A global budget has nothing to target
+  if (input.scope === 'global') input.target = '';
+  return input;
+}
+
+export function createBudgetsRoutes(_ctx: RouteContext): RouteHandler[] {
+  return [
+    // GET /budgets
+    {
+      method: 'GET',
+      pattern: /^\/budgets$/,
+      handler: async () => {
+        const start = Date.now();
+        const budgets = getBudgets().getAllStatus();
+        return wrapResponse({ budgets, total: budgets.length }, start);
+      },
+    },
+
+    // POST /budgets
+    {
+      method: 'POST',
+      pattern: /^\/budgets$/,
+      handler: async (req) => {
+        const start = Date.now();
+        const body = (req.body || {}) as Record<string, unknown>;
+        const invalid = validateInput(body, null);
+        if (invalid) return wrapError('INVALID_BUDGET', invalid, start);
+
+        const budgets = getBudgets();
+        const budget = budgets.create(toInput(body) as BudgetInput);
+        return wrapResponse(budgets.getStatus(budget), start);
+      },
+    },
+
+    // GET /budgets/status
+    {
+      method: 'GET',
+      pattern: /^\/budgets\/status$/,
+      handler: async () => {
+        const start = Date.now();
+        const budgets = getBudgets();
+        const statuses = budgets.getAllStatus();
+        return wrapResponse({
+          spend: budgets.getSpendSummary(),
+          budgets: statuses,
+          warnings: statuses.filter(b => b.enabled && b.level === 'warning').length,
+          breaches: statuses.filter(b => b.enabled && b.level === 'breach').length,
+        }, start);
+      },
+    },
+
+    // GET /budgets/:id
+    {
+      method: 'GET',
+      pattern: /^\/budgets\/(?<id>B\d+)$/,
+      handler: async (req) => {
+        const start = Date.now();
+        const budgets = getBudgets();
+        const budget = budgets.get(req.params.id);
+        if (!budget) return wrapError('NOT_FOUND', `Budget ${req.params.id} not found`, start);
+        return wrapResponse(budgets.getStatus(budget), start);
+      },
+    },
+
+    // PUT /budgets/:id
+    {
+      method: 'PUT',
+      pattern: /^\/budgets\/(?<id>B\d+)$/,
+      handler: async (req) => {
+        const start = Date.now();
+        const budgets = getBudgets();
+        const existing = budgets.get(req.params.id);
+        if (!existing) return wrapError('NOT_FOUND', `Budget ${req.params.id} not found`, start);
+
+        const body = (req.body || {}) as Record<string, unknown>;
+        const invalid = validateInput(body, existing);
+        if (invalid) return wrapError('INVALID_BUDGET', invalid, start);
+
+        const budget = budgets.update(req.params.id, toInput(body))!;
+        return wrapResponse(budgets.getStatus(budget), start);
+      },
+    },
+
+    // DELETE /budgets/:id
+    {
+      method: 'DELETE',
+      pattern: /^\/budgets\/(?<id>B\d+)$/,
+      handler: async (req) => {
+        const start = Date.now();
+        if (!getBudgets().delete(req.params.id)) {
+          return wrapError('NOT_FOUND', `Budget ${req.params.id} not found`, start);
+        }
+        return wrapResponse({ deleted: req.params.id }, start);
+      },
+    },
+  ];
+}
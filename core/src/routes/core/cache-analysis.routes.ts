@@ -0,0 +1,53 @@
+/**
+ * Cache Analysis Routes
+ *
+ * Prompt-cache efficiency for a session (cache-analysis.ts): per-request cache
+ * reads and writes, cache-busting events (idle gaps past the TTL, compactions,
+ * model switches, system prompt changes, CLAUDE.md edits), the estimated
+ * dollars lost to re-writes, and recommendations.
+ *
+ * Endpoints:
+ *   GET /sessions/:sessionId/cache-analysis   Analysis of a session, or of a subagent by its agent ID
+ */
+
+import * as path from 'path';
+import type { RouteHandler, RouteContext } from '../index';
+import { wrapResponse, wrapError } from '../../api/helpers';
+import { getSessionCache, type SessionCacheData } from '../../session-cache';
+import { getSessionDagService } from '../../session-dag';
+import { analyzeCacheEfficiency } from '../../cache-analysis';
+
+/**
+ * Session file for a session ID (<id>.jsonl) or agent ID (agent-<id>.jsonl).
+ * Cached entries are matched by file name, since subagent entries carry their
+ * parent's session ID; sessions not cached yet are looked up on disk.
+ */
+async function findSessionFile(sessionId: string): Promise<{ filePath: string; cacheData: SessionCacheData } | null> {
+  const cache = getSessionCache();
+  for (const { key: filePath, value: cacheData } of cache.allSessionsIncludingSubagents()) {
+    const name = path.basename(filePath, '.jsonl');
+    if (name === sessionId || name === `agent-${sessionId}`) return { filePath, cacheData };
+  }
+
+  const filePath = getSessionDagService().resolveSessionPath(sessionId);
+  const cacheData = filePath ? await cache.getSessionData(filePath) : null;
+  return filePath && cacheData ? { filePath, cacheData } : null;
+}
+
+export function createCacheAnalysisRoutes(_ctx: RouteContext): RouteHandler[] {
+  return [
+    // GET /sessions/:sessionId/cache-analysis
+    {
+      method: 'GET',
+      pattern: /^\/sessions\/(?<sessionId>[^/]+)\/cache-analysis$/,
+      handler: async (req) => {
+        const start = Date.now();
+        const found = await findSessionFile(req.params.sessionId);
+        if (!found) return wrapError('NOT_FOUND', `Session ${req.params.sessionId} not found`, start);
+
+        const analysis = await analyzeCacheEfficiency(found.filePath, found.cacheData);
+        return wrapResponse(analysis, start);
+      },
+    },
+  ];
+}
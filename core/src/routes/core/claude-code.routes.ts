@@ -44,6 +44,12 @@ import { execFileSync } from '../../utils/exec';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
+import {
+  CONTEXT_SOURCE_TYPES,
+  DEFAULT_CONTEXT_TOKEN_BUDGET,
+  DEFAULT_CONTEXT_SOURCE_SHARES,
+  type ContextSourceType,
+} from '../../context-assembler';
 
 const IS_WINDOWS = process.platform === 'win32';
 const CLAUDE_CODE_CONFIG_FILE = path.join(os.homedir(), '.claude-code-config.json');
@@ -300,6 +306,10 @@ interface ClaudeCodeConfig {
   contextInjectMode: 'mcp' | 'suggest' | 'both' | 'off';
   contextInjectKnowledge: boolean;
   contextInjectKnowledgeCount: number;
+  /** Token budget for /context/suggest (see context-assembler.ts) */
+  contextInjectTokenBudget: number;
+  /** Budget share per context source (relative weights; 0 disables a source) */
+  contextInjectSources: Record<ContextSourceType, number>;
   searchIncludeKnowledge: boolean;
   statuslinePromptCount: number;
   statuslineShowPrompts: boolean;
@@ -319,6 +329,8 @@ const DEFAULT_CONFIG: ClaudeCodeConfig = {
   contextInjectMode: 'mcp',
   contextInjectKnowledge: true,
   contextInjectKnowledgeCount: 3,
+  contextInjectTokenBudget: DEFAULT_CONTEXT_TOKEN_BUDGET,
+  contextInjectSources: { ...DEFAULT_CONTEXT_SOURCE_SHARES },
   searchIncludeKnowledge: true,
   statuslinePromptCount: 4,
   statuslineShowPrompts: true,
@@ -331,6 +343,17 @@ const DEFAULT_CONFIG: ClaudeCodeConfig = {
   devRepoPath: path.join(os.homedir(), 'lm-assist'),
 };
 
+/** Overlay valid per-source shares (numbers >= 0) onto a base */
+function mergeSourceShares(base: Record<ContextSourceType, number>, value: unknown): Record<ContextSourceType, number> {
+  const shares = { ...base };
+  if (!value || typeof value !== 'object') return shares;
+  for (const source of CONTEXT_SOURCE_TYPES) {
+    const share = (value as Record<string, unknown>)[source];
+    if (typeof share === 'number' && share >= 0) shares[source] = share;
+  }
+  return shares;
+}
+
 function loadConfig(): ClaudeCodeConfig {
   try {
     const raw = fs.readFileSync(CLAUDE_CODE_CONFIG_FILE, 'utf-8');
@@ -343,6 +366,8 @@ function loadConfig(): ClaudeCodeConfig {
       contextInjectMode: validModes.includes(parsed.contextInjectMode) ? parsed.contextInjectMode : DEFAULT_CONFIG.contextInjectMode,
       contextInjectKnowledge: typeof parsed.contextInjectKnowledge === 'boolean' ? parsed.contextInjectKnowledge : DEFAULT_CONFIG.contextInjectKnowledge,
       contextInjectKnowledgeCount: typeof parsed.contextInjectKnowledgeCount === 'number' && parsed.contextInjectKnowledgeCount >= 0 ? parsed.contextInjectKnowledgeCount : DEFAULT_CONFIG.contextInjectKnowledgeCount,
+      contextInjectTokenBudget: typeof parsed.contextInjectTokenBudget === 'number' && parsed.contextInjectTokenBudget > 0 ? parsed.contextInjectTokenBudget : DEFAULT_CONFIG.contextInjectTokenBudget,
+      contextInjectSources: mergeSourceShares(DEFAULT_CONFIG.contextInjectSources, parsed.contextInjectSources),
       searchIncludeKnowledge: typeof parsed.searchIncludeKnowledge === 'boolean' ? parsed.searchIncludeKnowledge : DEFAULT_CONFIG.searchIncludeKnowledge,
       statuslinePromptCount: typeof parsed.statuslinePromptCount === 'number' && parsed.statuslinePromptCount >= 0 && parsed.statuslinePromptCount <= 10 ? parsed.statuslinePromptCount : DEFAULT_CONFIG.statuslinePromptCount,
       statuslineShowPrompts: typeof parsed.statuslineShowPrompts === 'boolean' ? parsed.statuslineShowPrompts : DEFAULT_CONFIG.statuslineShowPrompts,
@@ -568,6 +593,17 @@ export function createClaudeCodeRoutes(_ctx: RouteContext): RouteHandler[] {
           current.contextInjectKnowledgeCount = body.contextInjectKnowledgeCount;
           changed = true;
         }
+        if (typeof body.contextInjectTokenBudget === 'number' && body.contextInjectTokenBudget >= 100 && body.contextInjectTokenBudget <= 8000 && body.contextInjectTokenBudget !== current.contextInjectTokenBudget) {
+          current.contextInjectTokenBudget = Math.floor(body.contextInjectTokenBudget);
+          changed = true;
+        }
+        if (body.contextInjectSources && typeof body.contextInjectSources === 'object') {
+          const shares = mergeSourceShares(current.contextInjectSources, body.contextInjectSources);
+          if (JSON.stringify(shares) !== JSON.stringify(current.contextInjectSources)) {
+            current.contextInjectSources = shares;
+            changed = true;
+          }
+        }
         if (typeof body.searchIncludeKnowledge === 'boolean' && body.searchIncludeKnowledge !== current.searchIncludeKnowledge) {
           current.searchIncludeKnowledge = body.searchIncludeKnowledge;
           changed = true;
@@ -5,12 +5,43 @@
  * Called by the UserPromptSubmit hook to inject relevant context before
  * Claude processes a prompt.
  *
+ * When the hook passes the session and project:
+ *   - knowledge from the current project ranks higher (compositeScore affinity)
+ *   - entries already injected earlier in the session are skipped
+ *     (knowledge/injection-ledger.ts)
+ *   - the session summary and recently touched files expand the search query,
+ *     so short follow-up prompts ("fix that too") still find related knowledge
+ *
+ * The injected context is assembled within a token budget from knowledge,
+ * project, task, past-session and learned-pattern sources (context-assembler.ts);
+ * the response's manifest lists every candidate and why it was or wasn't included.
+ * contextInjectKnowledge=false in ~/.claude-code-config.json turns injection
+ * off entirely, as before the other sources existed. An empty vector index
+ * only skips the knowledge source; the other sources don't need vectors.
+ *
  * Endpoints:
  *   POST /context/suggest  # Get context suggestions for a prompt
  */
 
 import type { RouteHandler, RouteContext } from '../index';
 import type { ScoredResult } from '../../search/composite-scorer';
+import type { SessionCacheData } from '../../session-cache';
+import {
+  assembleContext,
+  renderSections,
+  estimateTokens,
+  formatTimeAgo,
+  collectSessionCandidates,
+  collectProjectCandidates,
+  collectLearningCandidates,
+  collectTaskCandidates,
+  CONTEXT_SOURCE_TYPES,
+  DEFAULT_CONTEXT_TOKEN_BUDGET,
+  DEFAULT_CONTEXT_SOURCE_SHARES,
+  type ContextCandidate,
+  type ContextManifestEntry,
+  type ContextSourceType,
+} from '../../context-assembler';
 
 export function createContextRoutes(_ctx: RouteContext): RouteHandler[] {
   return [
@@ -19,14 +50,19 @@ export function createContextRoutes(_ctx: RouteContext): RouteHandler[] {
       method: 'POST',
       pattern: /^\/context\/suggest$/,
       handler: async (req) => {
-        const { prompt, sessionId, project } = req.body || {};
+        const { prompt, sessionId, project, tokenBudget } = req.body || {};
 
         if (!prompt || typeof prompt !== 'string') {
           return { success: false, error: 'prompt is required' };
         }
 
         try {
-          const result = await suggestContext(prompt, sessionId, project);
+          const result = await suggestContext(
+            prompt,
+            typeof sessionId === 'string' && sessionId ? sessionId : undefined,
+            typeof project === 'string' && project ? project : undefined,
+            typeof tokenBudget === 'number' && tokenBudget > 0 ? Math.floor(tokenBudget) : undefined,
+          );
           return { success: true, ...result };
         } catch (err) {
           const msg = err instanceof Error ? err.message : String(err);
@@ -43,12 +79,32 @@ interface ContextSuggestion {
   context: string;
   tokens: number;
   sources: string[];
+  budget?: number;
+  manifest?: ContextManifestEntry[];
+}
+
+interface SessionContext {
+  projectPath: string;
+  summary: string;
+  recentFiles: string[];
+  /** Latest context compaction; earlier injections are no longer in context */
+  compactedAt?: string;
 }
 
+/** Tools whose file_path counts as a file the session is working on */
+const FILE_TOOLS = new Set(['Read', 'Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+
+const MAX_RECENT_FILES = 5;
+const MAX_SUMMARY_CHARS = 300;
+
+/** Upper bound on candidates fetched to make up for already-injected entries */
+const MAX_KNOWLEDGE_FETCH = 50;
+
 async function suggestContext(
   prompt: string,
-  _sessionId?: string,
-  _project?: string,
+  sessionId?: string,
+  project?: string,
+  tokenBudget?: number,
 ): Promise<ContextSuggestion> {
   // Read config to check which sources are enabled
   const fs = await import('fs');
@@ -57,45 +113,63 @@ async function suggestContext(
   const configFile = path.join(os.homedir(), '.claude-code-config.json');
   let includeKnowledge = true;
   let knowledgeCount = 3;
+  let budget = DEFAULT_CONTEXT_TOKEN_BUDGET;
+  const shares = { ...DEFAULT_CONTEXT_SOURCE_SHARES };
   try {
     const raw = fs.readFileSync(configFile, 'utf-8');
     const parsed = JSON.parse(raw);
     if (typeof parsed.contextInjectKnowledge === 'boolean') includeKnowledge = parsed.contextInjectKnowledge;
     if (typeof parsed.contextInjectKnowledgeCount === 'number' && parsed.contextInjectKnowledgeCount >= 0) knowledgeCount = parsed.contextInjectKnowledgeCount;
+    if (typeof parsed.contextInjectTokenBudget === 'number' && parsed.contextInjectTokenBudget > 0) budget = parsed.contextInjectTokenBudget;
+    if (parsed.contextInjectSources && typeof parsed.contextInjectSources === 'object') {
+      for (const source of CONTEXT_SOURCE_TYPES) {
+        const share = parsed.contextInjectSources[source];
+        if (typeof share === 'number' && share >= 0) shares[source] = share;
+      }
+    }
   } catch { /* use defaults */ }
+  if (tokenBudget) budget = tokenBudget;
 
-  // If nothing enabled, return empty
+  // Master switch for context injection
   if (!includeKnowledge) {
     return { context: '', tokens: 0, sources: [] };
   }
 
+  // If nothing enabled, return empty
+  if (CONTEXT_SOURCE_TYPES.every(s => shares[s] <= 0)) {
+    return { context: '', tokens: 0, sources: [] };
+  }
+
   // Lazy-import to avoid startup dependency on vector/knowledge stores
   const { getVectorStore } = await import('../../vector/vector-store');
   const { getKnowledgeStore } = await import('../../knowledge/store');
+  const { getKnowledgeAnalytics } = await import('../../knowledge/analytics');
+  const { getKnowledgeConflicts } = await import('../../knowledge/conflicts');
+  const { getInjectionLedger } = await import('../../knowledge/injection-ledger');
+  const { compositeScore } = await import('../../search/composite-scorer');
 
   const vectorStore = getVectorStore();
 
-  // Initialize vector store (no-op if already initialized; loads index from disk)
+  // Initialize vector store (no-op if already initialized; loads index from disk).
+  // Without vectors only the knowledge source is skipped.
+  let vectorsReady = false;
   try {
     await vectorStore.init();
-  } catch {
-    return { context: '', tokens: 0, sources: [] };
-  }
-
-  const stats = await vectorStore.getStats();
+    vectorsReady = (await vectorStore.getStats()).totalVectors > 0;
+  } catch { /* knowledge unavailable */ }
 
-  // If store has no vectors, return empty
-  if (stats.totalVectors === 0) {
-    return { context: '', tokens: 0, sources: [] };
-  }
+  const candidates: Partial<Record<ContextSourceType, ContextCandidate[]>> = {};
+  const analytics = getKnowledgeAnalytics();
 
-  const sections: string[] = [];
-  const sources: string[] = [];
+  const session = sessionId ? await getSessionContext(sessionId) : null;
+  const currentProject = project || session?.projectPath || undefined;
+  const ledger = getInjectionLedger();
+  const alreadyInjected = sessionId ? ledger.getInjected(sessionId, session?.compactedAt) : new Set<string>();
 
   // 1. Hybrid knowledge search: vector + FTS, RRF merge → top N (configurable)
-  if (includeKnowledge && knowledgeCount > 0) try {
-    const kFetch = Math.max(knowledgeCount * 2, 5);
-    const hybridResults = await vectorStore.hybridSearch(prompt, kFetch, { type: 'knowledge' });
+  if (shares.knowledge > 0 && knowledgeCount > 0 && vectorsReady) try {
+    const kFetch = Math.min(Math.max((knowledgeCount + alreadyInjected.size) * 2, 5), MAX_KNOWLEDGE_FETCH);
+    const hybridResults = await vectorStore.hybridSearch(expandQuery(prompt, session), kFetch, { type: 'knowledge' });
 
     // Convert to ScoredResult format for downstream processing
     const merged: ScoredResult[] = hybridResults.map(r => ({
@@ -109,18 +183,33 @@ async function suggestContext(
       partId: r.partId,
       projectPath: r.projectPath,
       phase: r.phase as 1 | 2 | undefined,
+      machineId: r.machineId,
     }));
 
-    // Filter out orphaned vectors and bad-reviewed knowledge
+    // Filter out orphaned vectors, bad-reviewed knowledge and remote knowledge
+    // that contradicts local knowledge
     const knowledgeStore = getKnowledgeStore();
+    const conflicts = getKnowledgeConflicts();
     const validKnowledge = merged
       .filter(r => {
         const kId = (r.knowledgeId || r.id || '').split('.')[0];
         if (!kId) return false;
+        if (r.machineId && conflicts.isSuppressed(r.machineId, kId)) return false;
         const knowledge = knowledgeStore.getKnowledge(kId);
         return knowledge && knowledge.reviewRating !== 'bad';
       });
 
+    // Composite ranking: recency, current-project affinity and usefulness from
+    // usage analytics (entries agents flagged irrelevant/wrong sink, ones marked
+    // useful rise). Fold in new MCP log entries first (at most every 30s).
+    try {
+      analytics.refreshIfStale();
+    } catch { /* rank on the counts we have */ }
+    compositeScore(validKnowledge, {
+      currentProject,
+      usefulness: analytics.getUsefulnessLookup(),
+    });
+
     // Content-match: boost existing results AND inject missing content matches
     if (prompt.length > 15) {
       const qLower = prompt.toLowerCase().trim();
@@ -135,17 +224,17 @@ async function suggestContext(
         const part = r.partId ? knowledge.parts.find(p => p.partId === r.partId) : null;
         const haystack = [part?.title || '', part?.summary || '', part?.content || ''].join(' ').toLowerCase();
         if (haystack.includes(qLower)) {
-          r.score *= 2.0;
+          r.finalScore *= 2.0;
           changed = true;
         }
       }
 
       // 2. Scan knowledge store for content matches not in RRF pool.
       //    Compute injectionScore AFTER boost loop so it reflects boosted max.
-      const injectionScore = Math.max(...validKnowledge.map(r => r.score), 0.03);
+      const injectionScore = Math.max(...validKnowledge.map(r => r.finalScore), 0.03);
       const allKnowledge = knowledgeStore.getAllKnowledge();
       for (const k of allKnowledge) {
-        if (k.reviewRating === 'bad') continue;
+        if (k.reviewRating === 'bad' || k.status === 'pending') continue;
         for (const part of k.parts) {
           if (existingIds.has(part.partId)) continue;
           const haystack = [part.title, part.summary, part.content].join(' ').toLowerCase();
@@ -155,7 +244,7 @@ async function suggestContext(
               id: part.partId,
               sessionId: k.sourceSessionId || '',
               score: injectionScore,
-              finalScore: 0,
+              finalScore: injectionScore,
               timestamp: k.sourceTimestamp || k.createdAt || '',
               knowledgeId: k.id,
               partId: part.partId,
@@ -168,85 +257,135 @@ async function suggestContext(
       }
 
       if (changed) validKnowledge.sort((a, b) => {
-        const diff = b.score - a.score;
+        const diff = b.finalScore - a.finalScore;
         if (Math.abs(diff) > 0.0001) return diff;
         // Tiebreak by recency — newer entries first
         return new Date(b.timestamp || 0).getTime() - new Date(a.timestamp || 0).getTime();
       });
     }
 
-    const topKnowledge = validKnowledge.slice(0, knowledgeCount);
-
-    if (topKnowledge.length > 0) {
-      const knowledgeLines: string[] = [];
-
-      for (const r of topKnowledge) {
-        if (r.score <= 0) continue;
-        const kId = r.knowledgeId || r.id;
-        const partId = r.partId || '';
-        const knowledge = kId ? knowledgeStore.getKnowledge(kId.split('.')[0] || kId) : null;
-
-        if (knowledge && partId) {
-          const part = knowledge.parts.find(p => p.partId === partId);
-          if (part) {
-            const timeAgo = formatTimeAgo(knowledge.sourceTimestamp || knowledge.createdAt);
-            const summary = part.summary.length > 120 ? part.summary.slice(0, 120) + '...' : part.summary;
-            knowledgeLines.push(`- [${partId}] (${timeAgo}) ${knowledge.title} → ${part.title}: ${summary}`);
-            sources.push(partId);
-          }
-        } else if (knowledge) {
-          const timeAgo = formatTimeAgo(knowledge.sourceTimestamp || knowledge.createdAt);
-          knowledgeLines.push(`- [${kId}] (${timeAgo}) ${knowledge.title} [${knowledge.type}]`);
-          sources.push(kId);
-        }
-      }
-
-      if (knowledgeLines.length > 0) {
-        sections.push('**Knowledge:**');
-        sections.push(...knowledgeLines);
+    // Top N not yet in the session; already-injected ones are passed along so
+    // the manifest shows them as skipped
+    const knowledgeCandidates: ContextCandidate[] = [];
+    let fresh = 0;
+    for (const [rank, r] of validKnowledge.entries()) {
+      if (fresh >= knowledgeCount) break;
+      if (r.finalScore <= 0) continue;
+      const kId = r.knowledgeId || r.id;
+      const partId = r.partId || '';
+      const knowledge = kId ? knowledgeStore.getKnowledge(kId.split('.')[0] || kId) : null;
+      if (!knowledge) continue;
+
+      const reason = `rank ${rank + 1}, score ${r.finalScore.toFixed(4)}`;
+      const timeAgo = formatTimeAgo(knowledge.sourceTimestamp || knowledge.createdAt);
+      if (partId) {
+        const part = knowledge.parts.find(p => p.partId === partId);
+        if (!part) continue;
+        const summary = part.summary.length > 120 ? part.summary.slice(0, 120) + '...' : part.summary;
+        knowledgeCandidates.push({ source: 'knowledge', id: partId, text: `- [${partId}] (${timeAgo}) ${knowledge.title} → ${part.title}: ${summary}`, reason });
+        if (!alreadyInjected.has(partId)) fresh++;
+      } else {
+        knowledgeCandidates.push({ source: 'knowledge', id: kId, text: `- [${kId}] (${timeAgo}) ${knowledge.title} [${knowledge.type}]`, reason });
+        if (!alreadyInjected.has(kId)) fresh++;
       }
     }
+    candidates.knowledge = knowledgeCandidates;
   } catch {
     // Non-fatal — continue without knowledge
   }
 
-  // 2. Build final context
-  if (sections.length === 0) {
-    return { context: '', tokens: 0, sources: [] };
+  // 2. Project-scoped sources
+  if (currentProject) {
+    try {
+      if (shares.project > 0) candidates.project = collectProjectCandidates(currentProject);
+      if (shares.sessions > 0) candidates.sessions = collectSessionCandidates(prompt, currentProject, sessionId);
+      if (shares.learning > 0) candidates.learning = collectLearningCandidates(currentProject);
+      if (shares.tasks > 0) candidates.tasks = await collectTaskCandidates(currentProject, sessionId);
+    } catch {
+      // Non-fatal — assemble from what was collected
+    }
   }
 
-  const contextLines = [
-    '## Relevant Context',
-    '',
-    ...sections,
+  // 3. Fill the budget (less the fixed header/footer)
+  const header = ['## Relevant Context', ''];
+  const footer = [
     '',
     'Use the context above to inform your response. Knowledge entries (K###) contain verified facts extracted from past sessions.',
     'For deeper investigation, use MCP tools: search(query) to find more knowledge, detail(id) to expand any entry, feedback(id, type, content) to flag outdated or wrong context.',
   ];
+  const contentBudget = Math.max(budget - estimateTokens([...header, ...footer].join('\n')), 0);
+  const assembled = assembleContext(candidates, contentBudget, shares, alreadyInjected);
 
-  const context = contextLines.join('\n');
+  const sources = assembled.manifest.filter(m => m.included).map(m => m.id);
+  if (sources.length === 0) {
+    return { context: '', tokens: 0, sources: [], budget, manifest: assembled.manifest };
+  }
+
+  analytics.recordInjection(sources);
+  if (sessionId) ledger.record(sessionId, sources);
+
+  const context = [...header, ...renderSections(assembled.sections), ...footer].join('\n');
 
   // Rough token estimate: ~4 chars per token
-  const tokens = Math.ceil(context.length / 4);
+  const tokens = estimateTokens(context);
 
-  return { context, tokens, sources };
+  return { context, tokens, sources, budget, manifest: assembled.manifest };
 }
+// ─── Session Context ──────────────────────────────────────────────────
 
-// ─── Helpers ──────────────────────────────────────────────────
+/**
+ * Project, summary and recently touched files of the prompting session.
+ * Null when the session is not (yet) in the session cache.
+ */
+async function getSessionContext(sessionId: string): Promise<SessionContext | null> {
+  try {
+    const { getSessionCache } = await import('../../session-cache');
+    const { getProjectPathForSession } = await import('../../search/text-scorer');
+    const session = getSessionCache().getAllSessionsFromCache().find(s => s.sessionId === sessionId);
+    if (!session) return null;
+
+    return {
+      projectPath: getProjectPathForSession(session.cacheData, session.filePath),
+      summary: session.cacheData.sessionSummary || '',
+      recentFiles: getRecentFiles(session.cacheData),
+      compactedAt: session.cacheData.lastCompactedAt,
+    };
+  } catch {
+    return null;
+  }
+}
 
-function formatTimeAgo(timestamp?: string): string {
-  if (!timestamp) return 'unknown';
-  const ts = new Date(timestamp).getTime();
-  if (isNaN(ts)) return 'unknown';
+/**
+ * Most recently read/edited files, newest first, relative to the session cwd.
+ */
+function getRecentFiles(cacheData: SessionCacheData): string[] {
+  const files: string[] = [];
+  for (let i = cacheData.toolUses.length - 1; i >= 0 && files.length < MAX_RECENT_FILES; i--) {
+    const tool = cacheData.toolUses[i];
+    if (!FILE_TOOLS.has(tool.name)) continue;
+    let filePath = String(tool.input?.file_path || tool.input?.notebook_path || '');
+    if (!filePath) continue;
+    if (cacheData.cwd && filePath.startsWith(cacheData.cwd + '/')) {
+      filePath = filePath.slice(cacheData.cwd.length + 1);
+    }
+    if (!files.includes(filePath)) files.push(filePath);
+  }
+  return files;
+}
 
-  const diffMs = Date.now() - ts;
-  const diffMins = Math.floor(diffMs / 60000);
-  const diffHours = Math.floor(diffMs / 3600000);
-  const diffDays = Math.floor(diffMs / 86400000);
+/**
+ * Search query for the prompt, expanded with what the session is about.
+ * The prompt comes first; content matching still uses the prompt alone.
+ */
+function expandQuery(prompt: string, session: SessionContext | null): string {
+  if (!session) return prompt;
 
-  if (diffMins < 1) return 'just now';
-  if (diffMins < 60) return `${diffMins}m ago`;
-  if (diffHours < 24) return `${diffHours}h ago`;
-  if (diffDays < 7) return `${diffDays}d ago`;
-  return `${Math.floor(diffDays / 7)}w ago`;
+  const parts = [prompt];
+  if (session.summary) {
+    parts.push(session.summary.length > MAX_SUMMARY_CHARS ? session.summary.slice(0, MAX_SUMMARY_CHARS) : session.summary);
+  }
+  if (session.recentFiles.length > 0) {
+    parts.push(`Files: ${session.recentFiles.join(' ')}`);
+  }
+  return parts.join('\n');
 }
@@ -0,0 +1,119 @@
+/**
+ * Cost Analytics Routes
+ *
+ * Time-series spend and token usage (cost-analytics.ts) for charts, and
+ * breakdowns of where the money went: per project, model, subagent type,
+ * skill and preceding tool, with cache-hit ratio and cost per commit / per
+ * file changed.
+ *
+ * Range params (all endpoints): range=24h|7d|30d|90d (default 7d), or from/to
+ * as ISO dates; project=<path> limits to one project.
+ *
+ * Endpoints:
+ *   GET /costs/timeseries   Points per hour or day { granularity?, groupBy?, metric?, top? }
+ *   GET /costs/breakdown    Totals, outcomes and per-dimension rows for the range
+ *   GET /costs/status       Ingestion progress (tracked sessions, backfill)
+ */
+
+import type { RouteHandler, RouteContext } from '../index';
+import { wrapResponse, wrapError } from '../../api/helpers';
+import {
+  getCostAnalytics,
+  ANALYTICS_DIMENSIONS,
+  ANALYTICS_METRICS,
+  type AnalyticsDimension,
+  type AnalyticsGranularity,
+  type AnalyticsMetric,
+} from '../../cost-analytics';
+
+const RANGE_MS: Record<string, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000,
+};
+
+/** Longest range served from hour buckets when granularity is not given */
+const AUTO_HOUR_MAX_MS = 48 * 60 * 60 * 1000;
+
+/**
+ * Resolve range/from/to query params. Returns an error message when invalid.
+ */
+function parseRange(query: Record<string, string>): { from: Date; to: Date } | string {
+  const to = query.to ? new Date(query.to) : new Date();
+  if (isNaN(to.getTime())) return 'to must be an ISO date';
+
+  if (query.from) {
+    const from = new Date(query.from);
+    if (isNaN(from.getTime())) return 'from must be an ISO date';
+    if (from > to) return 'from must be before to';
+    return { from, to };
+  }
+
+  const range = query.range || '7d';
+  if (!RANGE_MS[range]) return `range must be one of: ${Object.keys(RANGE_MS).join(', ')}`;
+  return { from: new Date(to.getTime() - RANGE_MS[range]), to };
+}
+
+export function createCostAnalyticsRoutes(_ctx: RouteContext): RouteHandler[] {
+  return [
+    // GET /costs/timeseries
+    {
+      method: 'GET',
+      pattern: /^\/costs\/timeseries$/,
+      handler: async (req) => {
+        const start = Date.now();
+        const query = (req.query || {}) as Record<string, string>;
+        const range = parseRange(query);
+        if (typeof range === 'string') return wrapError('INVALID_RANGE', range, start);
+
+        if (query.granularity && query.granularity !== 'hour' && query.granularity !== 'day') {
+          return wrapError('INVALID_PARAM', 'granularity must be hour or day', start);
+        }
+        if (query.groupBy && !ANALYTICS_DIMENSIONS.includes(query.groupBy as AnalyticsDimension)) {
+          return wrapError('INVALID_PARAM', `groupBy must be one of: ${ANALYTICS_DIMENSIONS.join(', ')}`, start);
+        }
+        if (query.metric && !ANALYTICS_METRICS.includes(query.metric as AnalyticsMetric)) {
+          return wrapError('INVALID_PARAM', `metric must be one of: ${ANALYTICS_METRICS.join(', ')}`, start);
+        }
+
+        const granularity = (query.granularity
+          || (range.to.getTime() - range.from.getTime() <= AUTO_HOUR_MAX_MS ? 'hour' : 'day')) as AnalyticsGranularity;
+        const series = getCostAnalytics().getTimeSeries({
+          granularity,
+          from: range.from,
+          to: range.to,
+          project: query.project || undefined,
+          groupBy: (query.groupBy || undefined) as AnalyticsDimension | undefined,
+          metric: (query.metric || 'cost') as AnalyticsMetric,
+          top: query.top ? parseInt(query.top, 10) || undefined : undefined,
+        });
+        return wrapResponse(series, start);
+      },
+    },
+
+    // GET /costs/breakdown
+    {
+      method: 'GET',
+      pattern: /^\/costs\/breakdown$/,
+      handler: async (req) => {
+        const start = Date.now();
+        const query = (req.query || {}) as Record<string, string>;
+        const range = parseRange(query);
+        if (typeof range === 'string') return wrapError('INVALID_RANGE', range, start);
+
+        return wrapResponse(getCostAnalytics().getBreakdown(range.from, range.to, query.project || undefined), start);
+      },
+    },
+
+    // GET /costs/status
+    {
+      method: 'GET',
+      pattern: /^\/costs\/status$/,
+      handler: async () => {
+        const start = Date.now();
+        return wrapResponse(getCostAnalytics().getStatus(), start);
+      },
+    },
+  ];
+}
@@ -19,6 +19,12 @@ import { createClaudeCodeRoutes } from './claude-code.routes';
 import { createKnowledgeRoutes } from './knowledge.routes';
 import { createKnowledgeSettingsRoutes } from './knowledge-settings.routes';
 import { createSessionSearchRoutes } from './session-search.routes';
+import { createSavedSearchesRoutes } from './saved-searches.routes';
+import { createBudgetsRoutes } from './budgets.routes';
+import { createCostAnalyticsRoutes } from './cost-analytics.routes';
+import { createPricingRoutes } from './pricing.routes';
+import { createCacheAnalysisRoutes } from './cache-analysis.routes';
+import { createMetricsRoutes } from './metrics.routes';
 import { createAssistResourcesRoutes } from './assist-resources.routes';
 import { createShellConfigRoutes } from './shell-config.routes';
 import { createPlansRoutes } from './plans.routes';
@@ -49,6 +55,12 @@ export function createCoreRoutes(ctx: RouteContext): RouteHandler[] {
     ...createKnowledgeRoutes(ctx),
     ...createKnowledgeSettingsRoutes(ctx),
     ...createSessionSearchRoutes(ctx),
+    ...createSavedSearchesRoutes(ctx),
+    ...createBudgetsRoutes(ctx),
+    ...createCostAnalyticsRoutes(ctx),
+    ...createPricingRoutes(ctx),
+    ...createCacheAnalysisRoutes(ctx),
+    ...createMetricsRoutes(ctx),
     ...createAssistResourcesRoutes(ctx),
     ...createShellConfigRoutes(ctx),
     ...createPlansRoutes(ctx),
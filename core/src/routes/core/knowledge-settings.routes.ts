@@ -42,8 +42,42 @@ export function createKnowledgeSettingsRoutes(_ctx: RouteContext): RouteHandler[
           genericValidationModel: body.genericValidationModel,
           discoveryIntervalMinutes: body.discoveryIntervalMinutes,
           discoveryBatchSize: body.discoveryBatchSize,
+          stalenessCheckIntervalMinutes: body.stalenessCheckIntervalMinutes,
+          stalenessThreshold: body.stalenessThreshold,
+          stalenessMinLineChurn: body.stalenessMinLineChurn,
+          repoSyncProjects: body.repoSyncProjects,
+          policyIntervalMinutes: body.policyIntervalMinutes,
+          policyArchiveBadUnusedDays: body.policyArchiveBadUnusedDays,
+          policyOutdatedFeedbackCount: body.policyOutdatedFeedbackCount,
+          policyPurgeExcludedDays: body.policyPurgeExcludedDays,
+          embeddingProvider: body.embeddingProvider,
+          embeddingModel: body.embeddingModel,
+          embeddingDimension: body.embeddingDimension,
+          embeddingBaseUrl: body.embeddingBaseUrl,
+          toolResultIndexing: body.toolResultIndexing,
+          toolResultMaxVectorsPerProject: body.toolResultMaxVectorsPerProject,
+          rerankEnabled: body.rerankEnabled,
+          rerankModel: body.rerankModel,
+          rerankTopN: body.rerankTopN,
+          rerankBudgetMs: body.rerankBudgetMs,
         });
 
+        // Re-embed everything when the embedding model changes
+        if (['embeddingProvider', 'embeddingModel', 'embeddingDimension'].some(key => body[key] !== undefined)
+          && getProjectSettings().knowledgeEnabled) {
+          const { getVectorStore } = require('../../vector/vector-store');
+          const { startKnowledgeReindex } = require('../../vector/reindex');
+          getVectorStore().needsMigration()
+            .then((needed: boolean) => { if (needed) startKnowledgeReindex('model-change'); })
+            .catch((err: any) => console.error('[KnowledgeSettings] Embedding model check failed:', err.message));
+        }
+
+        // Pick up added/removed repo sync projects without a restart
+        if (body.repoSyncProjects !== undefined) {
+          const { getKnowledgeRepoSync } = require('../../knowledge/repo-sync');
+          getKnowledgeRepoSync().refresh();
+        }
+
         return { success: true, data: updated };
       },
     },
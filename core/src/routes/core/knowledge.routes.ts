@@ -14,6 +14,25 @@
  *   GET    /knowledge/:id/comments            # Get comments (query: includeAddressed)
  *   POST   /knowledge/:id/comments            # Add comment
  *   PUT    /knowledge/comments/:commentId     # Update comment state
+ *   GET    /knowledge/:id/revisions           # Revision history (query: includeMarkdown)
+ *   GET    /knowledge/:id/revisions/:rev      # Get one revision
+ *   GET    /knowledge/:id/diff                # Part-level diff (query: from, to)
+ *   POST   /knowledge/:id/revert/:rev         # Restore an earlier revision
+ *   GET    /knowledge/:id/anchors             # Code anchors + current drift report
+ *   POST   /knowledge/:id/anchors             # (Re)record code anchors from the source session
+ *   GET    /knowledge/:id/graph               # Linked documents around a doc (query: depth)
+ *   POST   /knowledge/:id/links/extract       # Re-extract mention/similarity links
+ *   POST   /knowledge/staleness/check         # Run staleness check now (query: dryRun)
+ *   GET    /knowledge/analytics               # Usage: retrievals, injections, feedback, usefulness
+ *   POST   /knowledge/policy/preview          # Retention policy dry run (body: project?)
+ *   GET    /knowledge/conflicts               # Local/remote contradictions (query: status, project, knowledgeId)
+ *   POST   /knowledge/conflicts/detect        # Pair local/remote docs and LLM-check them (body: project?, limit?)
+ *   POST   /knowledge/conflicts/:id/resolve   # Resolve: keep local, take remote, or LLM-merge
+ *   POST   /knowledge/export                  # Export bundle (JSON or ZIP)
+ *   POST   /knowledge/import                  # Import bundle (remaps IDs, dedups, re-indexes)
+ *   GET    /knowledge/repo-sync/status        # Repo-committed knowledge dirs: watchers, conflicts
+ *   POST   /knowledge/repo-sync/run           # Reconcile store ↔ repo dir now
+ *   POST   /knowledge/repo-sync/resolve       # Resolve a conflict by keeping one side
  *   POST   /knowledge/review                  # Trigger batch review
  *   GET    /knowledge/review/status           # Review process status
  *   GET    /knowledge/search                  # Hybrid search (vector + FTS)
@@ -25,6 +44,7 @@ import { getKnowledgeStore } from '../../knowledge/store';
 import { KNOWLEDGE_TYPES, COMMENT_TYPES } from '../../knowledge/types';
 import type { KnowledgeType, KnowledgeCommentType } from '../../knowledge/types';
 import { getProjectSettings } from '../../project-settings';
+import { diffKnowledge } from '../../knowledge/diff';
 
 /** Return empty/disabled response when knowledge is turned off */
 function knowledgeDisabledResponse(type: 'list' | 'item' | 'search' | 'action' = 'list') {
@@ -165,7 +185,7 @@ export function createKnowledgeRoutes(_ctx: RouteContext): RouteHandler[] {
             const injectionScore = Math.max(...valid.map((r: any) => r.score), 0.03);
             const allKnowledge = knowledgeStore.getAllKnowledge();
             for (const k of allKnowledge) {
-              if (k.reviewRating === 'bad' || k.status === 'excluded') continue;
+              if (k.reviewRating === 'bad' || k.status === 'excluded' || k.status === 'pending') continue;
               for (const part of k.parts) {
                 if (existingIds.has(part.partId)) continue;
                 const haystack = [part.title, part.summary, part.content].join(' ').toLowerCase();
@@ -570,12 +590,13 @@ export function createKnowledgeRoutes(_ctx: RouteContext): RouteHandler[] {
       method: 'POST',
       pattern: /^\/knowledge$/,
       handler: async (req) => {
-        const { title, type, project, parts, markdown, status } = req.body || {};
+        const { title, type, project, parts, markdown, status, sessionId } = req.body || {};
+        const revision = { author: 'user' as const, sourceSessionId: sessionId };
 
         // Option 1: Create from raw Markdown
         if (markdown) {
           const store = getKnowledgeStore();
-          const knowledge = store.createKnowledgeFromMd(markdown);
+          const knowledge = store.createKnowledgeFromMd(markdown, revision);
           if (!knowledge) {
             return { success: false, error: 'Failed to parse markdown' };
           }
@@ -601,7 +622,7 @@ export function createKnowledgeRoutes(_ctx: RouteContext): RouteHandler[] {
           project: project || '',
           parts: parts || [],
           status,
-        });
+        }, revision);
 
         return { success: true, data: knowledge };
       },
@@ -613,7 +634,8 @@ export function createKnowledgeRoutes(_ctx: RouteContext): RouteHandler[] {
       pattern: /^\/knowledge\/(?<id>K\d+)$/,
       handler: async (req) => {
         const store = getKnowledgeStore();
-        const { markdown, title, type, project, status, parts } = req.body || {};
+        const { markdown, title, type, project, status, parts, sessionId } = req.body || {};
+        const revision = { author: 'user' as const, sourceSessionId: sessionId };
 
         // Validate type and status if provided
         if (type && !KNOWLEDGE_TYPES.includes(type)) {
@@ -626,9 +648,9 @@ export function createKnowledgeRoutes(_ctx: RouteContext): RouteHandler[] {
         let knowledge;
 
         if (markdown) {
-          knowledge = store.updateKnowledgeFromMd(req.params.id, markdown);
+          knowledge = store.updateKnowledgeFromMd(req.params.id, markdown, revision);
         } else {
-          knowledge = store.updateKnowledge(req.params.id, { title, type, project, status, parts });
+          knowledge = store.updateKnowledge(req.params.id, { title, type, project, status, parts }, revision);
         }
 
         if (!knowledge) {
@@ -639,6 +661,409 @@ export function createKnowledgeRoutes(_ctx: RouteContext): RouteHandler[] {
       },
     },
 
+    // GET /knowledge/:id/revisions — Revision history (oldest first)
+    // ?machineId= — for remote knowledge
+    // ?includeMarkdown=true — include the full document snapshot of each revision
+    {
+      method: 'GET',
+      pattern: /^\/knowledge\/(?<id>K\d+)\/revisions$/,
+      handler: async (req) => {
+        const store = getKnowledgeStore();
+        const revisions = store.getRevisions(
+          req.params.id,
+          req.query.machineId || undefined,
+          req.query.includeMarkdown === 'true',
+        );
+        return { success: true, data: revisions };
+      },
+    },
+
+    // GET /knowledge/:id/revisions/:rev — Single revision with its parsed document
+    {
+      method: 'GET',
+      pattern: /^\/knowledge\/(?<id>K\d+)\/revisions\/(?<rev>\d+)$/,
+      handler: async (req) => {
+        const store = getKnowledgeStore();
+        const result = store.getRevision(req.params.id, parseInt(req.params.rev, 10), req.query.machineId || undefined);
+        if (!result) {
+          return { success: false, error: 'Revision not found' };
+        }
+        return { success: true, data: { ...result.revision, knowledge: result.knowledge } };
+      },
+    },
+
+    // GET /knowledge/:id/diff — Part-level diff between two revisions
+    // ?from=N — base revision (default: the revision before `to`)
+    // ?to=N   — target revision (default: current document)
+    {
+      method: 'GET',
+      pattern: /^\/knowledge\/(?<id>K\d+)\/diff$/,
+      handler: async (req) => {
+        const store = getKnowledgeStore();
+        const machineId = req.query.machineId || undefined;
+        const current = store.getKnowledge(req.params.id, machineId);
+        if (!current) {
+          return { success: false, error: 'Not found' };
+        }
+
+        const revisions = store.getRevisions(req.params.id, machineId);
+        if (revisions.length === 0) {
+          return { success: false, error: 'No revision history for this document' };
+        }
+
+        const toRev = req.query.to ? parseInt(req.query.to, 10) : undefined;
+        let fromRev = req.query.from ? parseInt(req.query.from, 10) : undefined;
+        if (fromRev === undefined) {
+          // Default base: the revision immediately before `to` (or before the latest)
+          const toPos = toRev !== undefined
+            ? revisions.findIndex(r => r.rev === toRev)
+            : revisions.length - 1;
+          if (toPos <= 0) {
+            return { success: false, error: 'No earlier revision to diff against' };
+          }
+          fromRev = revisions[toPos - 1].rev;
+        }
+
+        const from = store.getRevision(req.params.id, fromRev, machineId);
+        if (!from) {
+          return { success: false, error: `Revision ${fromRev} not found` };
+        }
+        const to = toRev !== undefined ? store.getRevision(req.params.id, toRev, machineId) : null;
+        if (toRev !== undefined && !to) {
+          return { success: false, error: `Revision ${toRev} not found` };
+        }
+
+        return {
+          success: true,
+          data: {
+            from: fromRev,
+            to: toRev ?? 'current',
+            ...diffKnowledge(from.knowledge, to ? to.knowledge : current),
+          },
+        };
+      },
+    },
+
+    // POST /knowledge/:id/revert/:rev — Restore an earlier revision (recorded as a new revision)
+    // Body: { sessionId? }
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/(?<id>K\d+)\/revert\/(?<rev>\d+)$/,
+      handler: async (req) => {
+        const store = getKnowledgeStore();
+        const knowledge = store.revertKnowledge(req.params.id, parseInt(req.params.rev, 10), {
+          author: 'user',
+          sourceSessionId: req.body?.sessionId,
+        });
+        if (!knowledge) {
+          return { success: false, error: 'Knowledge or revision not found' };
+        }
+        return { success: true, data: knowledge };
+      },
+    },
+
+    // GET /knowledge/:id/anchors — Code anchors recorded at generation time, with current drift
+    {
+      method: 'GET',
+      pattern: /^\/knowledge\/(?<id>K\d+)\/anchors$/,
+      handler: async (req) => {
+        const { getCodeAnchors, checkDrift } = require('../../knowledge/code-anchors');
+        const anchors = getCodeAnchors(req.params.id);
+        if (!anchors) {
+          return { success: false, error: 'No code anchors recorded for this document' };
+        }
+        return { success: true, data: { ...anchors, drift: await checkDrift(req.params.id) } };
+      },
+    },
+
+    // POST /knowledge/:id/anchors — Re-record anchors against the current working tree
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/(?<id>K\d+)\/anchors$/,
+      handler: async (req) => {
+        const store = getKnowledgeStore();
+        const knowledge = store.getKnowledge(req.params.id);
+        if (!knowledge) {
+          return { success: false, error: 'Not found' };
+        }
+        const { recordCodeAnchors } = require('../../knowledge/code-anchors');
+        const anchors = await recordCodeAnchors(knowledge);
+        if (!anchors) {
+          return { success: false, error: 'No anchorable files found (project is not a git repo or source session has no file references)' };
+        }
+        return { success: true, data: anchors };
+      },
+    },
+
+    // GET /knowledge/:id/graph — Documents linked to this one (both directions)
+    // ?depth=1..3 — hops to follow (default 1)
+    {
+      method: 'GET',
+      pattern: /^\/knowledge\/(?<id>K\d+)\/graph$/,
+      handler: async (req) => {
+        const { getKnowledgeGraph } = require('../../knowledge/links');
+        const depth = req.query.depth ? parseInt(req.query.depth, 10) : 1;
+        if (isNaN(depth) || depth < 1) {
+          return { success: false, error: 'depth must be a positive integer' };
+        }
+        const graph = getKnowledgeGraph(req.params.id, depth);
+        if (!graph) {
+          return { success: false, error: 'Not found' };
+        }
+        return { success: true, data: graph };
+      },
+    },
+
+    // GET /knowledge/analytics — Per-document usage from MCP calls and context injection
+    // ?project=... — limit to one project; ?includeUnused=true — list never-used documents too
+    {
+      method: 'GET',
+      pattern: /^\/knowledge\/analytics$/,
+      handler: async (req) => {
+        const { getKnowledgeAnalytics } = require('../../knowledge/analytics');
+        const analytics = getKnowledgeAnalytics();
+        try {
+          analytics.refresh();
+        } catch (err: any) {
+          return { success: false, error: `Failed to read MCP call log: ${err.message}` };
+        }
+        return {
+          success: true,
+          data: analytics.getSummary({
+            project: req.query.project || undefined,
+            includeUnused: req.query.includeUnused === 'true',
+          }),
+        };
+      },
+    },
+
+    // POST /knowledge/:id/links/extract — Re-extract automatic links (user links are kept)
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/(?<id>K\d+)\/links\/extract$/,
+      handler: async (req) => {
+        const store = getKnowledgeStore();
+        if (!store.getKnowledge(req.params.id)) {
+          return { success: false, error: 'Not found' };
+        }
+        const { refreshKnowledgeLinks } = require('../../knowledge/links');
+        const result = await refreshKnowledgeLinks(req.params.id);
+        return { success: true, data: { ...result, knowledge: store.getKnowledge(req.params.id) } };
+      },
+    },
+
+    // POST /knowledge/staleness/check — Compare anchors against git now
+    // ?dryRun=true — report stale documents without marking them outdated
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/staleness\/check$/,
+      handler: async (req) => {
+        const { runStalenessCheck } = require('../../knowledge/code-anchors');
+        const result = await runStalenessCheck({ dryRun: req.query.dryRun === 'true' });
+        return { success: true, data: result };
+      },
+    },
+
+    // POST /knowledge/policy/preview — What the retention policy would archive/outdate/purge
+    // Body: { project?: string }
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/policy\/preview$/,
+      handler: async (req) => {
+        const { runKnowledgePolicy } = require('../../knowledge/policy');
+        const { project } = req.body || {};
+        try {
+          const result = await runKnowledgePolicy({ dryRun: true, project: project || undefined });
+          return { success: true, data: result };
+        } catch (err: any) {
+          return { success: false, error: err.message };
+        }
+      },
+    },
+
+    // GET /knowledge/conflicts — Contradictions between local and remote knowledge
+    // ?status=open|resolved|consistent  ?project=...  ?knowledgeId=K001 (local side)
+    {
+      method: 'GET',
+      pattern: /^\/knowledge\/conflicts$/,
+      handler: async (req) => {
+        const { getKnowledgeConflicts } = require('../../knowledge/conflicts');
+        const { status, project, knowledgeId } = req.query;
+        if (status && !['open', 'resolved', 'consistent'].includes(status)) {
+          return { success: false, error: 'status must be one of: open, resolved, consistent' };
+        }
+        const conflicts = getKnowledgeConflicts().list({
+          status: status || undefined,
+          project: project || undefined,
+          knowledgeId: knowledgeId || undefined,
+        });
+        return { success: true, data: conflicts };
+      },
+    },
+
+    // POST /knowledge/conflicts/detect — Find local/remote pairs and ask the LLM whether they contradict
+    // Body: { project?: string, limit?: number } — limit caps LLM checks (cached verdicts are free)
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/conflicts\/detect$/,
+      handler: async (req) => {
+        if (!getProjectSettings().knowledgeEnabled) return knowledgeDisabledResponse('action');
+        const { getKnowledgeConflicts } = require('../../knowledge/conflicts');
+        const { project, limit } = req.body || {};
+        if (limit !== undefined && (typeof limit !== 'number' || limit < 0)) {
+          return { success: false, error: 'limit must be a non-negative number' };
+        }
+        try {
+          const result = await getKnowledgeConflicts().detect({ project: project || undefined, limit });
+          return { success: true, data: result };
+        } catch (err: any) {
+          return { success: false, error: err.message };
+        }
+      },
+    },
+
+    // POST /knowledge/conflicts/:id/resolve — Body: { resolution: 'local' | 'remote' | 'merge' }
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/conflicts\/(?<id>CF\d+)\/resolve$/,
+      handler: async (req) => {
+        const { getKnowledgeConflicts } = require('../../knowledge/conflicts');
+        const { resolution } = req.body || {};
+        if (!['local', 'remote', 'merge'].includes(resolution)) {
+          return { success: false, error: 'resolution must be one of: local, remote, merge' };
+        }
+        try {
+          const result = await getKnowledgeConflicts().resolve(req.params.id, resolution);
+          return { success: true, data: result };
+        } catch (err: any) {
+          return { success: false, error: err.message };
+        }
+      },
+    },
+
+    // GET /knowledge/repo-sync/status — Repo sync projects, watchers and open conflicts
+    {
+      method: 'GET',
+      pattern: /^\/knowledge\/repo-sync\/status$/,
+      handler: async () => {
+        const { getKnowledgeRepoSync } = require('../../knowledge/repo-sync');
+        return { success: true, data: getKnowledgeRepoSync().getStatus() };
+      },
+    },
+
+    // POST /knowledge/repo-sync/run — Reconcile now
+    // Body: { project? } — defaults to every configured project
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/repo-sync\/run$/,
+      handler: async (req) => {
+        const { getKnowledgeRepoSync } = require('../../knowledge/repo-sync');
+        const { getKnowledgeSettings } = require('../../knowledge/settings');
+        const configured: Record<string, string> = getKnowledgeSettings().repoSyncProjects;
+        const project = req.body?.project;
+        if (project && !configured[project]) {
+          return { success: false, error: `Repo sync is not configured for ${project}` };
+        }
+        const projects = project ? [project] : Object.keys(configured);
+        try {
+          const results = projects.map(p => getKnowledgeRepoSync().reconcile(p));
+          return { success: true, data: results };
+        } catch (err: any) {
+          return { success: false, error: err.message };
+        }
+      },
+    },
+
+    // POST /knowledge/repo-sync/resolve — Resolve a conflict
+    // Body: { project, id, keep: 'store' | 'repo' }
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/repo-sync\/resolve$/,
+      handler: async (req) => {
+        const { project, id, keep } = req.body || {};
+        if (!project || !id) {
+          return { success: false, error: 'project and id are required' };
+        }
+        if (keep !== 'store' && keep !== 'repo') {
+          return { success: false, error: "keep must be 'store' or 'repo'" };
+        }
+        const { getKnowledgeRepoSync } = require('../../knowledge/repo-sync');
+        try {
+          const resolved = getKnowledgeRepoSync().resolveConflict(project, id, keep);
+          if (!resolved) {
+            return { success: false, error: `${id} has no repo file in ${project}` };
+          }
+          return { success: true, data: { resolved: true, id, keep } };
+        } catch (err: any) {
+          return { success: false, error: err.message };
+        }
+      },
+    },
+
+    // POST /knowledge/export — Export local knowledge as a portable bundle
+    // Body: { project?, type?, status?, rating? ('good'|'borderline'|'bad'|'unrated'), ids?, format? ('json'|'zip') }
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/export$/,
+      handler: async (req) => {
+        const { project, type, status, rating, ids, format } = req.body || {};
+        if (type && !KNOWLEDGE_TYPES.includes(type)) {
+          return { success: false, error: `Invalid type. Must be one of: ${KNOWLEDGE_TYPES.join(', ')}` };
+        }
+        if (rating && !['good', 'borderline', 'bad', 'unrated'].includes(rating)) {
+          return { success: false, error: 'Invalid rating. Must be one of: good, borderline, bad, unrated' };
+        }
+
+        const { exportKnowledgeBundle, bundleToZip } = require('../../knowledge/bundle');
+        const bundle = exportKnowledgeBundle({
+          project: project || undefined,
+          type: type || undefined,
+          status: status || undefined,
+          rating: rating || undefined,
+          ids: Array.isArray(ids) ? ids : undefined,
+        });
+
+        if (format === 'zip') {
+          const filename = `knowledge-${bundle.exportedAt.slice(0, 10)}.zip`;
+          return {
+            success: true,
+            binary: true,
+            data: bundleToZip(bundle),
+            headers: {
+              'Content-Type': 'application/zip',
+              'Content-Disposition': `attachment; filename="${filename}"`,
+            },
+          };
+        }
+        return { success: true, data: bundle };
+      },
+    },
+
+    // POST /knowledge/import — Import a bundle
+    // Body: { bundle? (JSON bundle), zipBase64? (ZIP bundle), project? (override project path), dryRun? }
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/import$/,
+      handler: async (req) => {
+        const { bundle, zipBase64, project, dryRun } = req.body || {};
+        if (!bundle && !zipBase64) {
+          return { success: false, error: 'bundle or zipBase64 is required' };
+        }
+
+        try {
+          const { importKnowledgeBundle, bundleFromZip } = require('../../knowledge/bundle');
+          const parsed = zipBase64 ? bundleFromZip(Buffer.from(zipBase64, 'base64')) : bundle;
+          const result = await importKnowledgeBundle(parsed, {
+            project: project || undefined,
+            dryRun: dryRun === true,
+          });
+          return { success: true, data: result };
+        } catch (err: any) {
+          return { success: false, error: err.message };
+        }
+      },
+    },
+
     // DELETE /knowledge — Delete ALL knowledge
     {
       method: 'DELETE',
@@ -797,7 +1222,7 @@ export function createKnowledgeRoutes(_ctx: RouteContext): RouteHandler[] {
     },
 
     // GET /knowledge/identifications — List all identification results
-    // ?identifierType= — filter by type (explore-agent, generic-content)
+    // ?identifierType= — filter by type (explore-agent, generic-content, plan)
     // ?status= — filter by status (candidate, generated, skipped)
     // ?project= — filter by project path
     // ?sessionId= — filter by session ID
@@ -873,6 +1298,110 @@ export function createKnowledgeRoutes(_ctx: RouteContext): RouteHandler[] {
       },
     },
 
+    // POST /knowledge/generate/plan — Generate knowledge from an approved plan (ExitPlanMode)
+    // Body: { sessionId, lineIndex, project, title? }
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/generate\/plan$/,
+      handler: async (req) => {
+        const { sessionId, lineIndex, project, title } = req.body || {};
+        if (!sessionId || lineIndex === undefined || !project) {
+          return { success: false, error: 'sessionId, lineIndex, and project are required' };
+        }
+
+        try {
+          const { getKnowledgePipeline } = require('../../knowledge/pipeline');
+          const pipeline = getKnowledgePipeline();
+          const knowledge = await pipeline.resolveAndGenerate(
+            'plan',
+            project,
+            sessionId,
+            parseInt(String(lineIndex), 10),
+            undefined,
+            { title },
+          );
+          invalidateStatsCache();
+          return { success: true, data: knowledge };
+        } catch (err: any) {
+          return { success: false, error: err.message };
+        }
+      },
+    },
+
+    // POST /knowledge/discover/plans — Discover approved plans as knowledge candidates
+    // Body: { project }
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/discover\/plans$/,
+      handler: async (req) => {
+        const { project } = req.body || {};
+        if (!project) {
+          return { success: false, error: 'project is required' };
+        }
+
+        try {
+          const { getKnowledgePipeline } = require('../../knowledge/pipeline');
+          const pipeline = getKnowledgePipeline();
+          const results = await pipeline.discover(project, 'plan');
+          return { success: true, data: { discovered: results.length, identifications: results } };
+        } catch (err: any) {
+          return { success: false, error: err.message };
+        }
+      },
+    },
+
+    // POST /knowledge/generate/git-history — Generate knowledge from a commit message
+    // Body: { commitHash, project, sessionId?, lineIndex?, title? } — session defaults to the one that made the commit
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/generate\/git-history$/,
+      handler: async (req) => {
+        const { commitHash, project, sessionId, lineIndex, title } = req.body || {};
+        if (!commitHash || !project) {
+          return { success: false, error: 'commitHash and project are required' };
+        }
+
+        try {
+          const { getKnowledgePipeline } = require('../../knowledge/pipeline');
+          const pipeline = getKnowledgePipeline();
+          const knowledge = await pipeline.resolveAndGenerate(
+            'git-history',
+            project,
+            sessionId || '',
+            lineIndex !== undefined ? parseInt(String(lineIndex), 10) : -1,
+            { commitHash: String(commitHash) },
+            { title },
+          );
+          invalidateStatsCache();
+          return { success: true, data: knowledge };
+        } catch (err: any) {
+          return { success: false, error: err.message };
+        }
+      },
+    },
+
+    // POST /knowledge/discover/git-history — Discover commit messages as knowledge candidates
+    // Body: { project }
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/discover\/git-history$/,
+      handler: async (req) => {
+        const { project } = req.body || {};
+        if (!project) {
+          return { success: false, error: 'project is required' };
+        }
+
+        try {
+          const { getKnowledgePipeline } = require('../../knowledge/pipeline');
+          const pipeline = getKnowledgePipeline();
+          const results = await pipeline.discover(project, 'git-history');
+          return { success: true, data: { discovered: results.length, identifications: results } };
+        } catch (err: any) {
+          return { success: false, error: err.message };
+        }
+      },
+    },
+
     // POST /knowledge/score/preview — Score a message without storing anything
     // Body: { text } — returns the scoring result
     {
@@ -943,6 +1472,28 @@ export function createKnowledgeRoutes(_ctx: RouteContext): RouteHandler[] {
       },
     },
 
+    // POST /knowledge/validate/git-history — Discover + LLM-validate commit message candidates
+    // Body: { project, model? } — model defaults to 'sonnet'
+    {
+      method: 'POST',
+      pattern: /^\/knowledge\/validate\/git-history$/,
+      handler: async (req) => {
+        const { project, model } = req.body || {};
+        if (!project) {
+          return { success: false, error: 'project is required' };
+        }
+
+        try {
+          const { getKnowledgeValidator } = require('../../knowledge/validator');
+          const validator = getKnowledgeValidator();
+          const result = await validator.discoverAndValidate(project, model || 'sonnet', 'git-history');
+          return { success: true, data: result };
+        } catch (err: any) {
+          return { success: false, error: err.message };
+        }
+      },
+    },
+
     // GET /knowledge/validate/status — Get validator status
     {
       method: 'GET',
@@ -1,7 +1,7 @@
 /**
  * MCP API Routes
  *
- * REST endpoints that wrap the MCP tool handlers (search, detail, feedback).
+ * REST endpoints that wrap the MCP tool handlers (search, detail, feedback, remember).
  * These allow the MCP server to call the core API via HTTP instead of
  * directly opening LMDB, LanceDB, embedding model, and other stores.
  *
@@ -9,6 +9,7 @@
  *   POST /mcp/search    — unified search across knowledge and file history
  *   POST /mcp/detail    — progressive disclosure for any item by ID
  *   POST /mcp/feedback  — context quality feedback
+ *   POST /mcp/remember  — record new knowledge (pending LLM review)
  */
 
 import type { RouteHandler, RouteContext } from '../index';
@@ -16,6 +17,7 @@ import { wrapResponse, wrapError } from '../../api/helpers';
 import { handleSearch } from '../../mcp-server/tools/search';
 import { handleDetail } from '../../mcp-server/tools/detail';
 import { handleFeedback } from '../../mcp-server/tools/feedback';
+import { handleRemember } from '../../mcp-server/tools/remember';
 
 export function createMcpApiRoutes(_ctx: RouteContext): RouteHandler[] {
   return [
@@ -70,5 +72,22 @@ export function createMcpApiRoutes(_ctx: RouteContext): RouteHandler[] {
       },
     },
 
+    // POST /mcp/remember
+    {
+      method: 'POST',
+      pattern: /^\/mcp\/remember$/,
+      handler: async (req) => {
+        const start = Date.now();
+        try {
+          const args = req.body || {};
+          const result = await handleRemember(args);
+          return wrapResponse(result, start);
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          return wrapError('MCP_REMEMBER_ERROR', msg, start);
+        }
+      },
+    },
+
   ];
 }
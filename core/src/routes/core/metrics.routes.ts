@@ -0,0 +1,29 @@
+/**
+ * Metrics Routes
+ *
+ * Prometheus / OpenMetrics exposition (metrics.ts) for scraping lm-assist
+ * locally: Claude processes and memory, per-project tokens and cost, knowledge
+ * scheduler runs, vector index size, session cache lookups, startup timings,
+ * ttyd instances and per-route HTTP latency. When the server has an API key,
+ * send it as the X-API-Key header or the apiKey query parameter.
+ *
+ * Endpoints:
+ *   GET /metrics   All metrics in the OpenMetrics text format
+ */
+
+import type { RouteHandler, RouteContext } from '../index';
+import { getMetrics, OPENMETRICS_CONTENT_TYPE } from '../../metrics';
+
+export function createMetricsRoutes(_ctx: RouteContext): RouteHandler[] {
+  return [
+    // GET /metrics
+    {
+      method: 'GET',
+      pattern: /^\/metrics$/,
+      handler: async () => {
+        const data = await getMetrics().render();
+        return { success: true, raw: true, data, headers: { 'Content-Type': OPENMETRICS_CONTENT_TYPE } };
+      },
+    },
+  ];
+}
@@ -0,0 +1,188 @@
+/**
+ * Pricing Routes
+ *
+ * Offline, versioned model price tables (pricing-store.ts): built-in prices
+ * from core/data plus user overrides. Entries with an `effectiveFrom` date
+ * (YYYY-MM-DD, UTC) are price versions; each message is priced with the
+ * version in effect at its timestamp, and session totals one UTC day at a
+ * time. An undated override applies to every date.
+ *
+ * Endpoints:
+ *   GET    /pricing                    All entries (built-in and overrides) with the table version
+ *   GET    /pricing/resolve            Entry used for ?model= at ?at= (default now)
+ *   POST   /pricing                    Add or replace an override { modelPattern, inputPricePerMillion, outputPricePerMillion, ... , effectiveFrom? }
+ *   DELETE /pricing/:modelPattern      Remove an override (?effectiveFrom= for a dated version)
+ *   POST   /pricing/import             Import a LiteLLM price file's contents { prices, effectiveFrom?, match? }
+ *   POST   /pricing/reprice            Rebuild cost analytics with the current prices (background job)
+ *   GET    /pricing/reprice            Reprice job progress
+ */
+
+import type { RouteHandler, RouteContext } from '../index';
+import { wrapResponse, wrapError } from '../../api/helpers';
+import { getPricingStore } from '../../pricing-store';
+import { getCostAnalytics } from '../../cost-analytics';
+import type { ModelPricing } from '../../types';
+
+const REQUIRED_PRICE_FIELDS = ['inputPricePerMillion', 'outputPricePerMillion'] as const;
+
+const OPTIONAL_PRICE_FIELDS = [
+  'cache5mWritePricePerMillion',
+  'cache1hWritePricePerMillion',
+  'cacheReadPricePerMillion',
+  'inputPricePerMillionAbove200k',
+  'outputPricePerMillionAbove200k',
+  'cache5mWritePricePerMillionAbove200k',
+  'cache1hWritePricePerMillionAbove200k',
+  'cacheReadPricePerMillionAbove200k',
+  'tieredThreshold',
+] as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+}
+
+/**
+ * Validate an override body and build the entry. Returns an error message
+ * when invalid. Cache prices default to the usual Anthropic ratios of the
+ * input price.
+ */
+function toPricing(body: Record<string, unknown>): ModelPricing | string {
+  if (typeof body.modelPattern !== 'string' || !body.modelPattern.trim()) return 'modelPattern is required';
+  for (const field of [...REQUIRED_PRICE_FIELDS, ...OPTIONAL_PRICE_FIELDS]) {
+    const value = body[field];
+    if (value === undefined && !(REQUIRED_PRICE_FIELDS as readonly string[]).includes(field)) continue;
+    if (typeof value !== 'number' || !isFinite(value) || value < 0) return `${field} must be a non-negative number`;
+  }
+  if (body.effectiveFrom !== undefined && !isValidDate(body.effectiveFrom)) {
+    return 'effectiveFrom must be a date (YYYY-MM-DD)';
+  }
+
+  const input = body.inputPricePerMillion as number;
+  const pricing: ModelPricing = {
+    modelPattern: body.modelPattern.trim(),
+    displayName: typeof body.displayName === 'string' && body.displayName ? body.displayName : body.modelPattern.trim(),
+    inputPricePerMillion: input,
+    outputPricePerMillion: body.outputPricePerMillion as number,
+    cache5mWritePricePerMillion: input * 1.25,
+    cache1hWritePricePerMillion: input * 2,
+    cacheReadPricePerMillion: input * 0.1,
+  };
+  for (const field of OPTIONAL_PRICE_FIELDS) {
+    if (body[field] !== undefined) pricing[field] = body[field] as number;
+  }
+  if (body.effectiveFrom) pricing.effectiveFrom = body.effectiveFrom as string;
+  return pricing;
+}
+
+export function createPricingRoutes(_ctx: RouteContext): RouteHandler[] {
+  return [
+    // GET /pricing
+    {
+      method: 'GET',
+      pattern: /^\/pricing$/,
+      handler: async () => {
+        const start = Date.now();
+        const store = getPricingStore();
+        const entries = store.list();
+        return wrapResponse({ version: store.getVersion(), entries, total: entries.length }, start);
+      },
+    },
+
+    // GET /pricing/resolve
+    {
+      method: 'GET',
+      pattern: /^\/pricing\/resolve$/,
+      handler: async (req) => {
+        const start = Date.now();
+        const query = (req.query || {}) as Record<string, string>;
+        if (!query.model) return wrapError('INVALID_PARAM', 'model is required', start);
+        if (query.at && isNaN(new Date(query.at).getTime())) {
+          return wrapError('INVALID_PARAM', 'at must be an ISO date', start);
+        }
+
+        const resolved = getPricingStore().resolve(query.model, query.at || undefined);
+        if (!resolved) return wrapError('NOT_FOUND', `No pricing for model ${query.model}`, start);
+        return wrapResponse({ model: query.model, at: query.at || new Date().toISOString(), ...resolved }, start);
+      },
+    },
+
+    // POST /pricing
+    {
+      method: 'POST',
+      pattern: /^\/pricing$/,
+      handler: async (req) => {
+        const start = Date.now();
+        const pricing = toPricing((req.body || {}) as Record<string, unknown>);
+        if (typeof pricing === 'string') return wrapError('INVALID_PRICING', pricing, start);
+
+        const store = getPricingStore();
+        store.setOverride(pricing);
+        return wrapResponse({ pricing, version: store.getVersion() }, start);
+      },
+    },
+
+    // POST /pricing/import
+    {
+      method: 'POST',
+      pattern: /^\/pricing\/import$/,
+      handler: async (req) => {
+        const start = Date.now();
+        const body = (req.body || {}) as Record<string, unknown>;
+        if (!body.prices || typeof body.prices !== 'object' || Array.isArray(body.prices)) {
+          return wrapError('INVALID_PRICING', 'prices must be the contents of a LiteLLM price file', start);
+        }
+        if (body.effectiveFrom !== undefined && !isValidDate(body.effectiveFrom)) {
+          return wrapError('INVALID_PRICING', 'effectiveFrom must be a date (YYYY-MM-DD)', start);
+        }
+
+        const store = getPricingStore();
+        const imported = store.importLiteLLM(body.prices as Record<string, unknown>, {
+          effectiveFrom: body.effectiveFrom as string | undefined,
+          match: typeof body.match === 'string' ? body.match : undefined,
+        });
+        return wrapResponse({ imported: imported.length, models: imported.map(p => p.modelPattern), version: store.getVersion() }, start);
+      },
+    },
+
+    // POST /pricing/reprice
+    {
+      method: 'POST',
+      pattern: /^\/pricing\/reprice$/,
+      handler: async () => {
+        const start = Date.now();
+        const analytics = getCostAnalytics();
+        if (!analytics.startReprice()) {
+          return wrapError('BUSY', 'A backfill or reprice is already running', start);
+        }
+        return wrapResponse(analytics.getStatus(), start);
+      },
+    },
+
+    // GET /pricing/reprice
+    {
+      method: 'GET',
+      pattern: /^\/pricing\/reprice$/,
+      handler: async () => {
+        const start = Date.now();
+        return wrapResponse(getCostAnalytics().getStatus(), start);
+      },
+    },
+
+    // DELETE /pricing/:modelPattern
+    {
+      method: 'DELETE',
+      pattern: /^\/pricing\/(?<modelPattern>[^/]+)$/,
+      handler: async (req) => {
+        const start = Date.now();
+        const modelPattern = decodeURIComponent(req.params.modelPattern);
+        const query = (req.query || {}) as Record<string, string>;
+        if (!getPricingStore().deleteOverride(modelPattern, query.effectiveFrom || undefined)) {
+          return wrapError('NOT_FOUND', `No override for ${modelPattern}${query.effectiveFrom ? ` from ${query.effectiveFrom}` : ''}`, start);
+        }
+        return wrapResponse({ deleted: modelPattern, effectiveFrom: query.effectiveFrom || null, version: getPricingStore().getVersion() }, start);
+      },
+    },
+  ];
+}
@@ -0,0 +1,132 @@
+/**
+ * Saved Search Routes
+ *
+ * CRUD for saved searches. Matching runs in the background
+ * (search/saved-searches.ts); new matches arrive as `search_alert` events on
+ * SSE /stream and, when configured, on the search's webhook.
+ *
+ * Endpoints:
+ *   GET    /saved-searches        List saved searches (with recent matches)
+ *   POST   /saved-searches        Create { query, name?, scope?, project?, type?, webhookUrl? }
+ *   GET    /saved-searches/:id    Get one
+ *   PUT    /saved-searches/:id    Update any field, or { enabled }
+ *   DELETE /saved-searches/:id    Delete
+ */
+
+import type { RouteHandler, RouteContext } from '../index';
+import { wrapResponse, wrapError } from '../../api/helpers';
+import {
+  getSavedSearches,
+  SAVED_SEARCH_SCOPES,
+  SAVED_SEARCH_TYPES,
+  type SavedSearchInput,
+} from '../../search/saved-searches';
+import { parseQuery } from '../../search/query-parser';
+
+/**
+ * Validate the fields of a create/update body. Returns an error message or null.
+ */
+function validateInput(body: Record<string, unknown>, requireQuery: boolean): string | null {
+  if (requireQuery || body.query !== undefined) {
+    if (typeof body.query !== 'string' || !body.query.trim()) return 'query is required';
+    const parsed = parseQuery(body.query);
+    if (parsed.errors.length > 0) return `invalid query: ${parsed.errors.join('; ')}`;
+    if (!parsed.text && !parsed.filter) return 'query is required';
+  }
+  if (body.scope !== undefined && !SAVED_SEARCH_SCOPES.includes(body.scope as any)) {
+    return `scope must be one of: ${SAVED_SEARCH_SCOPES.join(', ')}`;
+  }
+  if (body.type !== undefined && !SAVED_SEARCH_TYPES.includes(body.type as any)) {
+    return `type must be one of: ${SAVED_SEARCH_TYPES.join(', ')}`;
+  }
+  if (body.webhookUrl !== undefined && body.webhookUrl !== '' && body.webhookUrl !== null) {
+    if (typeof body.webhookUrl !== 'string' || !/^https?:\/\//.test(body.webhookUrl)) {
+      return 'webhookUrl must be an http(s) URL';
+    }
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') return 'enabled must be a boolean';
+  return null;
+}
+
+function toInput(body: Record<string, unknown>): Partial<SavedSearchInput> {
+  const input: Partial<SavedSearchInput> = {};
+  if (body.query !== undefined) input.query = String(body.query);
+  if (body.name !== undefined) input.name = String(body.name || '');
+  if (body.scope !== undefined) input.scope = body.scope as SavedSearchInput['scope'];
+  if (body.type !== undefined) input.type = body.type as SavedSearchInput['type'];
+  if (body.project !== undefined) input.project = String(body.project || '');
+  if (body.webhookUrl !== undefined) input.webhookUrl = String(body.webhookUrl || '');
+  if (body.enabled !== undefined) input.enabled = body.enabled as boolean;
+  return input;
+}
+
+export function createSavedSearchesRoutes(_ctx: RouteContext): RouteHandler[] {
+  return [
+    // GET /saved-searches
+    {
+      method: 'GET',
+      pattern: /^\/saved-searches$/,
+      handler: async () => {
+        const start = Date.now();
+        const searches = getSavedSearches().list();
+        return wrapResponse({ searches, total: searches.length }, start);
+      },
+    },
+
+    // POST /saved-searches
+    {
+      method: 'POST',
+      pattern: /^\/saved-searches$/,
+      handler: async (req) => {
+        const start = Date.now();
+        const body = (req.body || {}) as Record<string, unknown>;
+        const invalid = validateInput(body, true);
+        if (invalid) return wrapError('INVALID_SAVED_SEARCH', invalid, start);
+
+        const search = getSavedSearches().create(toInput(body) as SavedSearchInput);
+        return wrapResponse(search, start);
+      },
+    },
+
+    // GET /saved-searches/:id
+    {
+      method: 'GET',
+      pattern: /^\/saved-searches\/(?<id>S\d+)$/,
+      handler: async (req) => {
+        const start = Date.now();
+        const search = getSavedSearches().get(req.params.id);
+        if (!search) return wrapError('NOT_FOUND', `Saved search ${req.params.id} not found`, start);
+        return wrapResponse(search, start);
+      },
+    },
+
+    // PUT /saved-searches/:id
+    {
+      method: 'PUT',
+      pattern: /^\/saved-searches\/(?<id>S\d+)$/,
+      handler: async (req) => {
+        const start = Date.now();
+        const body = (req.body || {}) as Record<string, unknown>;
+        const invalid = validateInput(body, false);
+        if (invalid) return wrapError('INVALID_SAVED_SEARCH', invalid, start);
+
+        const search = getSavedSearches().update(req.params.id, toInput(body));
+        if (!search) return wrapError('NOT_FOUND', `Saved search ${req.params.id} not found`, start);
+        return wrapResponse(search, start);
+      },
+    },
+
+    // DELETE /saved-searches/:id
+    {
+      method: 'DELETE',
+      pattern: /^\/saved-searches\/(?<id>S\d+)$/,
+      handler: async (req) => {
+        const start = Date.now();
+        if (!getSavedSearches().delete(req.params.id)) {
+          return wrapError('NOT_FOUND', `Saved search ${req.params.id} not found`, start);
+        }
+        return wrapResponse({ deleted: req.params.id }, start);
+      },
+    },
+  ];
+}
@@ -1,17 +1,25 @@
 /**
  * Session Search Routes
  *
- * Session-level search across indexed sessions.
+ * Session-level search across indexed sessions. Queries may mix free text with
+ * field filters and boolean operators (search/query-parser.ts), e.g.
+ * `tool:Bash AND file:src/api/* AND model:opus AND cost>2 since:3d`. Filters
+ * are checked against cached session data; the free text is what gets ranked.
+ * A filter-only query lists matching sessions, newest first.
  *
  * Endpoints:
  *   POST /session-search          Session keyword search (sync, fast)
- *   POST /session-search/vector   Vectra semantic search (when vectors are indexed)
+ *   POST /session-search/vector   Vectra semantic search (when vectors are indexed);
+ *                                 results carry a score breakdown, optionally cross-encoder re-ranked
  */
 
 import type { RouteHandler, RouteContext } from '../index';
 import { getVectorStore } from '../../vector/vector-store';
 import { compositeScore, type ScoredResult, type CompositeScoreOptions } from '../../search/composite-scorer';
-import { getSessionCache } from '../../session-cache';
+import { rerankResults } from '../../search/reranker';
+import { getSessionCache, type SessionCacheData } from '../../session-cache';
+import { parseQuery, type ParsedQuery } from '../../search/query-parser';
+import { matchesSessionFilter } from '../../search/session-filter';
 
 // ─── Types ──────────────────────────────────────────────────
 
@@ -43,6 +51,16 @@ function isWithinScope(timestamp: string | undefined, scope: Scope): boolean {
   return Date.now() - ts <= SCOPE_MS[scope];
 }
 
+// ─── Query Helpers ──────────────────────────────────────────────────
+
+function invalidQuery(parsed: ParsedQuery) {
+  return { success: false, error: { code: 'INVALID_QUERY', message: parsed.errors.join('; ') } };
+}
+
+function byRecency(a: { timestamp: string }, b: { timestamp: string }): number {
+  return (new Date(b.timestamp).getTime() || 0) - (new Date(a.timestamp).getTime() || 0);
+}
+
 // ─── Session Scoring ──────────────────────────────────────────────────
 
 function tokenize(text: string): string[] {
@@ -85,14 +103,20 @@ function sessionKeywordSearch(params: Record<string, string>) {
   if (!query) {
     return { success: false, error: { code: 'MISSING_QUERY', message: 'query is required' } };
   }
+  const parsed = parseQuery(query);
+  if (parsed.errors.length > 0) return invalidQuery(parsed);
+  // Operators alone (a bare "OR", "-") leave neither text nor a filter
+  if (!parsed.text && !parsed.filter) {
+    return { success: false, error: { code: 'MISSING_QUERY', message: 'query is required' } };
+  }
   const scope: Scope = params.scope && SCOPE_MS[params.scope as Scope] ? params.scope as Scope : 'all';
   const limit = params.limit ? parseInt(params.limit, 10) || 0 : 0;
 
   const cache = getSessionCache();
   const sessions = cache.getAllSessionsFromCache();
 
-  const queryTokens = tokenize(query);
-  const queryLower = query.toLowerCase();
+  const queryTokens = tokenize(parsed.text);
+  const queryLower = parsed.text.toLowerCase();
 
   interface SessionSearchResult {
     sessionId: string;
@@ -111,6 +135,13 @@ function sessionKeywordSearch(params: Record<string, string>) {
     if (params.projectPath && cacheData.cwd !== params.projectPath) continue;
 
     sessionsScanned++;
+    if (!matchesSessionFilter(parsed.filter, cacheData)) continue;
+
+    // Filter-only query: every match counts, ordered by recency below
+    if (!parsed.text) {
+      results.push({ sessionId, score: 1, timestamp: ts || '', project: cacheData.cwd || '', numTurns: cacheData.numTurns });
+      continue;
+    }
 
     // Score against session metadata
     let score = 0;
@@ -139,7 +170,7 @@ function sessionKeywordSearch(params: Record<string, string>) {
     });
   }
 
-  results.sort((a, b) => b.score - a.score);
+  results.sort((a, b) => b.score - a.score || byRecency(a, b));
 
   return {
     success: true,
@@ -147,6 +178,7 @@ function sessionKeywordSearch(params: Record<string, string>) {
       results: limit > 0 ? results.slice(0, limit) : results,
       total: results.length,
       query,
+      filters: parsed.fields,
       scope,
       searchTimeMs: Date.now() - startTime,
       sessionsScanned,
@@ -233,9 +265,51 @@ export function createSessionSearchRoutes(ctx: RouteContext): RouteHandler[] {
         if (!query) {
           return { success: false, error: { code: 'MISSING_QUERY', message: 'query is required' } };
         }
+        const parsed = parseQuery(query);
+        if (parsed.errors.length > 0) return invalidQuery(parsed);
+        // Operators alone (a bare "OR", "-") leave neither text nor a filter
+        if (!parsed.text && !parsed.filter) {
+          return { success: false, error: { code: 'MISSING_QUERY', message: 'query is required' } };
+        }
         const scope: Scope = body.scope && SCOPE_MS[body.scope as Scope] ? body.scope as Scope : 'all';
         const limit = body.limit || 0;
 
+        // Session data for filter checks (only needed when the query has filters)
+        let sessionData: Map<string, SessionCacheData> | null = null;
+        if (parsed.filter) {
+          sessionData = new Map();
+          for (const { sessionId, cacheData } of getSessionCache().getAllSessionsFromCache()) {
+            sessionData.set(sessionId, cacheData);
+          }
+        }
+
+        // Filter-only query: nothing to rank semantically, list matches by recency
+        if (!parsed.text) {
+          const matches = [...sessionData!.entries()]
+            .filter(([, data]) => isWithinScope(data.lastTimestamp, scope))
+            .filter(([, data]) => matchesSessionFilter(parsed.filter, data))
+            .map(([sessionId, data]) => ({
+              sessionId,
+              score: 1,
+              timestamp: data.lastTimestamp || '',
+              projectPath: data.cwd || '',
+            }))
+            .sort(byRecency);
+          const results = limit > 0 ? matches.slice(0, limit) : matches;
+          return {
+            success: true,
+            data: {
+              results,
+              total: results.length,
+              query,
+              filters: parsed.fields,
+              scope,
+              searchTimeMs: Date.now() - startTime,
+              vectorCandidates: 0,
+            },
+          };
+        }
+
         const vectorStore = getVectorStore();
         const stats = await vectorStore.getStats();
 
@@ -250,11 +324,18 @@ export function createSessionSearchRoutes(ctx: RouteContext): RouteHandler[] {
         }
 
         // Hybrid search: vector + FTS with RRF merge
-        const rawResults = await vectorStore.hybridSearch(query, limit * 3);
+        // Over-fetch when filtering — many candidates may fail the filter
+        const candidates = sessionData ? Math.max(limit, 20) * 5 : limit * 3;
+        const rawResults = await vectorStore.hybridSearch(parsed.text, candidates);
 
-        // Filter by scope
+        // Filter by scope and query filters
         const merged: ScoredResult[] = rawResults
           .filter(r => isWithinScope(r.timestamp, scope))
+          .filter(r => {
+            if (!sessionData) return true;
+            const data = sessionData.get(r.sessionId);
+            return !!data && matchesSessionFilter(parsed.filter, data);
+          })
           .map(r => ({
             type: r.type,
             id: r.sessionId,
@@ -264,6 +345,7 @@ export function createSessionSearchRoutes(ctx: RouteContext): RouteHandler[] {
             timestamp: r.timestamp || '',
             phase: r.phase as 1 | 2 | undefined,
             projectPath: r.projectPath,
+            snippet: r.text,
           }));
 
         const compositeOptions: CompositeScoreOptions = {};
@@ -272,12 +354,14 @@ export function createSessionSearchRoutes(ctx: RouteContext): RouteHandler[] {
         }
 
         const ranked = compositeScore(merged, compositeOptions);
+        const rerank = await rerankResults(parsed.text, ranked, r => r.snippet);
 
         const results = (limit > 0 ? ranked.slice(0, limit) : ranked).map(r => ({
           sessionId: r.sessionId,
           score: r.finalScore,
           timestamp: r.timestamp,
           projectPath: r.projectPath,
+          breakdown: r.breakdown,
         }));
 
         return {
@@ -286,9 +370,11 @@ export function createSessionSearchRoutes(ctx: RouteContext): RouteHandler[] {
             results,
             total: results.length,
             query,
+            filters: parsed.fields,
             scope,
             searchTimeMs: Date.now() - startTime,
             vectorCandidates: rawResults.length,
+            rerank,
           },
         };
       },
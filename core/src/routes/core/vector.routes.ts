@@ -5,11 +5,14 @@
  * are the primary vector type in the store.
  *
  * Endpoints:
- *   GET    /vectors/status    # Store status: total vectors, breakdown by type, initialized
- *   GET    /vectors/search    # Semantic search: ?q=...&type=knowledge&limit=10
- *   POST   /vectors/index     # Index items by type + IDs
- *   POST   /vectors/reindex   # Full reindex by type (async)
- *   DELETE /vectors           # Delete vectors by type and optional ID
+ *   GET    /vectors/status         # Store status: total vectors, breakdown by type, embedding model,
+ *                                  # index queue backlog and throughput
+ *   GET    /vectors/search         # Semantic search: ?q=...&type=knowledge&limit=10
+ *   POST   /vectors/index          # Queue items by type: listed IDs are re-embedded; without IDs only
+ *                                  # changed content is
+ *   POST   /vectors/reindex        # Full reindex by type into a fresh shadow table (async)
+ *   GET    /vectors/reindex-status # Progress of the most recent reindex
+ *   DELETE /vectors                # Delete vectors by type and optional ID
  */
 
 import type { RouteHandler, RouteContext } from '../index';
@@ -29,6 +32,7 @@ export function createVectorRoutes(_ctx: RouteContext): RouteHandler[] {
           const { getVectorStore } = require('../../vector/vector-store');
           const vectra = getVectorStore();
           const stats = await vectra.getStatsByType();
+          const index = await vectra.getIndexInfo();
 
           // Count stale knowledge vectors (indexed but source doc deleted)
           let staleKnowledge = 0;
@@ -43,6 +47,8 @@ export function createVectorRoutes(_ctx: RouteContext): RouteHandler[] {
             } catch { /* best-effort */ }
           }
 
+          const { getVectorIndexQueue } = require('../../vector/index-queue');
+
           return {
             success: true,
             data: {
@@ -55,6 +61,8 @@ export function createVectorRoutes(_ctx: RouteContext): RouteHandler[] {
               stale: {
                 knowledge: staleKnowledge,
               },
+              index,
+              queue: getVectorIndexQueue().getStatus(),
             },
           };
         } catch (err: any) {
@@ -90,7 +98,7 @@ export function createVectorRoutes(_ctx: RouteContext): RouteHandler[] {
       },
     },
 
-    // POST /vectors/index — Index specific items by type
+    // POST /vectors/index — Queue specific items by type (omit ids for all)
     // Body: { type: "knowledge", ids: ["K001"] }
     {
       method: 'POST',
@@ -102,31 +110,18 @@ export function createVectorRoutes(_ctx: RouteContext): RouteHandler[] {
         }
 
         try {
-          const { getVectorStore } = require('../../vector/vector-store');
-          const { extractKnowledgeVectors } = require('../../vector/indexer');
-          const vectra = getVectorStore();
+          const { getVectorIndexQueue } = require('../../vector/index-queue');
+          const queue = getVectorIndexQueue();
 
           if (type === 'knowledge') {
-            const { getKnowledgeStore } = require('../../knowledge/store');
-            const store = getKnowledgeStore();
-
-            const targetIds: string[] = ids && ids.length > 0 ? ids : store.getAllIds();
-            const allVectors: Array<{ text: string; metadata: any }> = [];
-
-            for (const id of targetIds) {
-              const knowledge = store.getKnowledge(id);
-              if (!knowledge) continue;
-              allVectors.push(...extractKnowledgeVectors(knowledge));
+            // Listed documents are re-embedded even if unchanged
+            if (ids && ids.length > 0) {
+              queue.enqueueKnowledge(ids, true);
+              return { success: true, data: { type, documentsQueued: ids.length } };
             }
 
-            if (allVectors.length > 0) {
-              await vectra.addVectors(allVectors);
-            }
-
-            return {
-              success: true,
-              data: { type, documentsProcessed: targetIds.length, vectorsIndexed: allVectors.length },
-            };
+            // All documents: the hash sweep queues only the ones that changed
+            return { success: true, data: { type, documentsQueued: queue.queueChangedKnowledge() } };
           }
 
           return { success: false, error: `Unsupported type: ${type}. Use 'knowledge'` };
@@ -148,57 +143,18 @@ export function createVectorRoutes(_ctx: RouteContext): RouteHandler[] {
         }
 
         try {
-          const { getVectorStore } = require('../../vector/vector-store');
-          const vectra = getVectorStore();
-
           if (type === 'knowledge') {
-            const { getKnowledgeStore } = require('../../knowledge/store');
-            const { extractKnowledgeVectors } = require('../../vector/indexer');
-            const store = getKnowledgeStore();
-
-            // Get all knowledge (local + remote) for reindex
-            const allKnowledge = store.getAllKnowledge();
-
-            // Collect all vector texts+metadata (cheap, no embedding yet), skip BAD-rated
-            const allVectors: Array<{ text: string; metadata: any }> = [];
-            let badSkipped = 0;
-            let excludedSkipped = 0;
-            for (const knowledge of allKnowledge) {
-              if (knowledge.reviewRating === 'bad') { badSkipped++; continue; }
-              if (knowledge.status === 'excluded') { excludedSkipped++; continue; }
-              const remoteOrigin = knowledge.origin === 'remote' && knowledge.machineId
-                ? { machineId: knowledge.machineId, machineHostname: knowledge.machineHostname || '', machineOS: knowledge.machineOS || '' }
-                : undefined;
-              allVectors.push(...extractKnowledgeVectors(knowledge, knowledge.project, remoteOrigin));
+            // Rebuilds into a new shadow table with the configured embedding model;
+            // search keeps serving the current index until cutover
+            const { startKnowledgeReindex } = require('../../vector/reindex');
+            const started = startKnowledgeReindex('manual', { fresh: true });
+            if (!started) {
+              return { success: false, error: 'A reindex is already running' };
             }
 
-            // Run delete + embed + insert in background (embedding is slow on CPU)
-            const { setReindexStatus } = require('../../vector/vector-store');
-            setReindexStatus({ type: 'knowledge', status: 'running', vectorsIndexed: 0, startedAt: new Date().toISOString(), completedAt: null });
-            (async () => {
-              try {
-                const startMs = Date.now();
-                console.log(`[Reindex] Starting knowledge: ${allVectors.length} vectors from ${allKnowledge.length} docs (${badSkipped} BAD + ${excludedSkipped} excluded skipped)`);
-                // Full reindex: delete all knowledge vectors (local + remote) and re-add
-                await vectra.deleteAllByType('knowledge');
-                console.log(`[Reindex] Deleted old knowledge vectors in ${((Date.now() - startMs) / 1000).toFixed(1)}s`);
-                if (allVectors.length > 0) {
-                  const embedStart = Date.now();
-                  await vectra.addVectors(allVectors);
-                  console.log(`[Reindex] Indexed ${allVectors.length} knowledge vectors in ${((Date.now() - embedStart) / 1000).toFixed(1)}s`);
-                }
-                await vectra.rebuildFtsIndex();
-                setReindexStatus({ status: 'done', vectorsIndexed: allVectors.length, completedAt: new Date().toISOString() });
-                console.log(`[Reindex] Knowledge done: ${allVectors.length} vectors in ${((Date.now() - startMs) / 1000).toFixed(1)}s`);
-              } catch (err: any) {
-                setReindexStatus({ status: 'error', completedAt: new Date().toISOString() });
-                console.error('[Reindex] Knowledge error:', err.message, err.stack);
-              }
-            })();
-
             return {
               success: true,
-              data: { status: 'started', type, documentsToProcess: allKnowledge.length, vectorsToIndex: allVectors.length, badSkipped, excludedSkipped },
+              data: { status: 'started', type, ...started },
             };
           }
 
@@ -2,9 +2,25 @@
  * Composite Scorer
  *
  * Multi-signal re-ranking for search results that combines Vectra cosine
- * similarity with contextual signals (recency, quality, affinity).
+ * similarity with contextual signals (recency, quality, affinity, usefulness).
+ * Each result records the multiplier applied per signal (breakdown) so
+ * rankings can be explained.
  */
 
+export interface ScoreBreakdown {
+  base: number;         // first-stage score (cosine or RRF)
+  knowledge: number;    // knowledge preference multiplier
+  recency: number;
+  affinity: number;     // same project
+  parent: number;       // parent/child session
+  usefulness: number;
+  /** Set when the cross-encoder stage re-ranked this result (search/reranker.ts) */
+  rerank?: {
+    score: number;      // cross-encoder relevance (0-1)
+    fromRank: number;   // 1-based rank before re-ranking
+  };
+}
+
 export interface ScoredResult {
   type: 'session' | 'knowledge';
   id: string;           // sessionId or knowledgeId/partId
@@ -17,41 +33,55 @@ export interface ScoredResult {
   knowledgeId?: string; // for knowledge results
   partId?: string;      // for knowledge part results
   machineId?: string;   // for remote knowledge results
+  lineIndex?: number;   // for tool result chunks: session line of the tool call
+  filePath?: string;    // for tool result chunks
+  startLine?: number;   // for tool result chunks: file lines covered
+  endLine?: number;
+  snippet?: string;     // stored vector text (chunk text for tool results)
+  breakdown?: ScoreBreakdown;
 }
 
 export interface CompositeScoreOptions {
   currentProject?: string;    // current session's project for affinity boost
   parentSessionId?: string;   // parent session for parent/child affinity
+  usefulness?: (knowledgeId: string) => number;  // knowledge usage multiplier (see knowledge/analytics)
 }
 
 export function compositeScore(results: ScoredResult[], options: CompositeScoreOptions = {}): ScoredResult[] {
   // Apply scoring adjustments
   for (const r of results) {
-    let multiplier = 1.0;
+    const breakdown: ScoreBreakdown = { base: r.score, knowledge: 1, recency: 1, affinity: 1, parent: 1, usefulness: 1 };
 
     // 1. Knowledge preference: 1.4x for knowledge (curated)
     if (r.type === 'knowledge') {
-      multiplier *= 1.4;
+      breakdown.knowledge = 1.4;
     }
 
     // 2. Recency boost
     const ts = new Date(r.timestamp).getTime();
     const ageMs = isNaN(ts) ? Infinity : Date.now() - ts;
     const ageHours = ageMs / (1000 * 60 * 60);
-    if (ageHours < 1) multiplier *= 2.0;
-    else if (ageHours < 6) multiplier *= 1.5;
-    else if (ageHours < 24) multiplier *= 1.3;
-    else if (ageHours < 72) multiplier *= 1.1;
+    if (ageHours < 1) breakdown.recency = 2.0;
+    else if (ageHours < 6) breakdown.recency = 1.5;
+    else if (ageHours < 24) breakdown.recency = 1.3;
+    else if (ageHours < 72) breakdown.recency = 1.1;
 
     // 3. Affinity: same project +20%, parent/child +40%
     if (options.currentProject && r.projectPath === options.currentProject) {
-      multiplier *= 1.2;
+      breakdown.affinity = 1.2;
     }
     if (options.parentSessionId && r.sessionId === options.parentSessionId) {
-      multiplier *= 1.4;
+      breakdown.parent = 1.4;
     }
 
+    // 4. Usefulness: knowledge flagged irrelevant/wrong sinks, useful rises
+    if (options.usefulness && r.type === 'knowledge') {
+      breakdown.usefulness = options.usefulness(r.partId || r.knowledgeId || r.id);
+    }
+
+    const multiplier = breakdown.knowledge * breakdown.recency * breakdown.affinity * breakdown.parent * breakdown.usefulness;
     r.finalScore = r.score * multiplier;
+    r.breakdown = breakdown;
   }
 
   // Sort by finalScore descending
@@ -59,3 +89,18 @@ export function compositeScore(results: ScoredResult[], options: CompositeScoreO
 
   return results;
 }
+
+/**
+ * One-line explanation of a result's score, e.g.
+ * "0.0412 = base 0.0164 × knowledge 1.4 × recency 1.3 × affinity 1.2 [rerank 0.91, was #4]"
+ */
+export function formatScoreBreakdown(r: ScoredResult): string {
+  const b = r.breakdown;
+  if (!b) return r.finalScore.toFixed(4);
+
+  const factors = (['knowledge', 'recency', 'affinity', 'parent', 'usefulness'] as const)
+    .filter(k => b[k] !== 1)
+    .map(k => `${k} ${Number(b[k].toFixed(2))}`);
+  const rerank = b.rerank ? ` [rerank ${b.rerank.score.toFixed(2)}, was #${b.rerank.fromRank}]` : '';
+  return `${r.finalScore.toFixed(4)} = base ${b.base.toFixed(4)}${factors.map(f => ` × ${f}`).join('')}${rerank}`;
+}
@@ -0,0 +1,273 @@
+/**
+ * Structured Query Parser
+ *
+ * Small query language for session search. A query mixes free text with
+ * field filters and boolean operators:
+ *
+ *   tool:Bash AND file:src/api/* AND model:opus AND cost>2 since:3d
+ *   (git:commit OR git:push) -agent:Explore flaky test
+ *
+ * Grammar (precedence NOT > AND > OR; juxtaposition means AND):
+ *
+ *   query   := or
+ *   or      := and ("OR" and)*
+ *   and     := unary (["AND"] unary)*
+ *   unary   := ("NOT" | "-") unary | "(" or ")" | term
+ *   term    := field ":" value | field op number | word | "quoted phrase"
+ *   op      := ">" | ">=" | "<" | "<=" | "="
+ *
+ * Fields (evaluated by session-filter.ts):
+ *   tool, file, model, git, agent, branch, project   match (value may use * and ** globs)
+ *   cost, turns                                       compare (cost in USD)
+ *   since, before                                     time (3d, 24h, 2w or an ISO date)
+ *
+ * Unknown `name:value` pairs stay free text, so URLs and "key: value" text
+ * still search normally, and unbalanced parentheses are tolerated. Only a
+ * malformed field term (cost>abc, since:yesterday) is an error. Free text is
+ * collected into `text` for keyword and vector ranking; it does not filter
+ * unless negated or combined with a filter by OR.
+ */
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type MatchField = 'tool' | 'file' | 'model' | 'git' | 'agent' | 'branch' | 'project';
+export type NumericField = 'cost' | 'turns';
+export type TimeField = 'since' | 'before';
+export type CompareOp = '>' | '>=' | '<' | '<=' | '=';
+
+export type QueryNode =
+  | { kind: 'and'; children: QueryNode[] }
+  | { kind: 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode }
+  | { kind: 'match'; field: MatchField; value: string }
+  | { kind: 'compare'; field: NumericField; op: CompareOp; value: number }
+  | { kind: 'time'; field: TimeField; at: number }
+  | { kind: 'text'; value: string };
+
+export interface ParsedQuery {
+  /** Free text (non-negated words and phrases), for keyword/vector ranking */
+  text: string;
+  /** Boolean filter tree, or null when the query has no field filters */
+  filter: QueryNode | null;
+  /** Field names used, for display/debugging */
+  fields: string[];
+  /** Malformed field terms */
+  errors: string[];
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const MATCH_FIELDS: MatchField[] = ['tool', 'file', 'model', 'git', 'agent', 'branch', 'project'];
+const NUMERIC_FIELDS: NumericField[] = ['cost', 'turns'];
+const TIME_FIELDS: TimeField[] = ['since', 'before'];
+
+const FIELD_ALIASES: Record<string, string> = {
+  tools: 'tool',
+  files: 'file',
+  path: 'file',
+  subagent: 'agent',
+  turn: 'turns',
+  after: 'since',
+};
+
+const DURATION_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const FIELD_TERM_RE = /^([a-z]+)(:|>=|<=|>|<|=)(.*)$/i;
+
+// ─── Tokenizer ──────────────────────────────────────────────────
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'and' | 'or' | 'not' }
+  | { type: 'term'; raw: string; quoted: boolean; negated: boolean };
+
+function tokenizeQuery(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === '(') { tokens.push({ type: 'lparen' }); i++; continue; }
+    if (ch === ')') { tokens.push({ type: 'rparen' }); i++; continue; }
+
+    const negated = ch === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    // Quoted phrase, or a field whose value is quoted: file:"my dir/*"
+    let raw = '';
+    let quoted = false;
+    while (i < input.length && !/[\s()]/.test(input[i])) {
+      if (input[i] === '"') {
+        const end = input.indexOf('"', i + 1);
+        const close = end === -1 ? input.length : end;
+        raw += input.slice(i + 1, close);
+        quoted = true;
+        i = close + 1;
+      } else {
+        raw += input[i++];
+      }
+    }
+
+    if (!quoted && !negated && (raw === 'AND' || raw === 'OR' || raw === 'NOT')) {
+      tokens.push({ type: raw.toLowerCase() as 'and' | 'or' | 'not' });
+    } else if (raw) {
+      tokens.push({ type: 'term', raw, quoted, negated });
+    }
+  }
+
+  return tokens;
+}
+
+// ─── Term Parsing ──────────────────────────────────────────────────
+
+/**
+ * Parse `since`/`before` values: relative durations (30m, 24h, 3d, 2w) or dates.
+ * Returns an epoch ms, or null if invalid.
+ */
+export function parseTimeValue(value: string, now = Date.now()): number | null {
+  const rel = value.match(/^(\d+(?:\.\d+)?)([mhdw])$/i);
+  if (rel) return now - parseFloat(rel[1]) * DURATION_MS[rel[2].toLowerCase()];
+  const ts = new Date(value).getTime();
+  return isNaN(ts) ? null : ts;
+}
+
+function parseTerm(token: Extract<Token, { type: 'term' }>, fields: Set<string>, errors: string[]): QueryNode {
+  const m = token.quoted && !token.raw.includes(':') ? null : token.raw.match(FIELD_TERM_RE);
+  const name = m ? (FIELD_ALIASES[m[1].toLowerCase()] || m[1].toLowerCase()) : '';
+  const op = m ? m[2] : '';
+  const value = m ? m[3] : '';
+
+  let node: QueryNode | null = null;
+
+  if (m && MATCH_FIELDS.includes(name as MatchField)) {
+    if (op !== ':') errors.push(`${name} takes a value (${name}:...), not a comparison`);
+    else if (!value) errors.push(`${name}: needs a value`);
+    else node = { kind: 'match', field: name as MatchField, value };
+  } else if (m && NUMERIC_FIELDS.includes(name as NumericField)) {
+    // cost:2 reads as cost>=2
+    const compareOp = (op === ':' ? '>=' : op) as CompareOp;
+    const num = parseFloat(value.replace(/^\$/, ''));
+    if (isNaN(num)) errors.push(`${name}${op}${value}: expected a number`);
+    else node = { kind: 'compare', field: name as NumericField, op: compareOp, value: num };
+  } else if (m && TIME_FIELDS.includes(name as TimeField)) {
+    const at = op === ':' ? parseTimeValue(value) : null;
+    if (at === null) errors.push(`${name}:${value}: expected a duration (3d, 24h, 2w) or a date`);
+    else node = { kind: 'time', field: name as TimeField, at };
+  }
+
+  if (node) {
+    fields.add(name);
+  } else if (!m || ![...MATCH_FIELDS, ...NUMERIC_FIELDS, ...TIME_FIELDS].includes(name as any)) {
+    node = { kind: 'text', value: token.raw };
+  } else {
+    // Invalid field term — already reported; keep the tree well-formed
+    node = { kind: 'and', children: [] };
+  }
+
+  return token.negated ? { kind: 'not', child: node } : node;
+}
+
+// ─── Parser ──────────────────────────────────────────────────
+
+/**
+ * Parse a search query. Never throws; malformed field terms are reported in
+ * `errors`.
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const tokens = tokenizeQuery(input);
+  const fields = new Set<string>();
+  const errors: string[] = [];
+  let pos = 0;
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (tokens[pos]?.type === 'or') {
+      pos++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = [];
+    while (pos < tokens.length) {
+      const t = tokens[pos];
+      if (t.type === 'or' || t.type === 'rparen') break;
+      if (t.type === 'and') { pos++; continue; }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const t = tokens[pos++];
+    if (t.type === 'not') {
+      // Trailing NOT has nothing to negate — drop it
+      if (pos >= tokens.length) return { kind: 'and', children: [] };
+      return { kind: 'not', child: parseUnary() };
+    }
+    if (t.type === 'lparen') {
+      const inner = parseOr();
+      if (tokens[pos]?.type === 'rparen') pos++;
+      return inner;
+    }
+    if (t.type === 'term') return parseTerm(t, fields, errors);
+    // Stray ")" — skip it
+    return { kind: 'and', children: [] };
+  };
+
+  let tree: QueryNode = { kind: 'and', children: [] };
+  while (pos < tokens.length) {
+    const node = parseOr();
+    tree = tree.kind === 'and' && tree.children.length === 0 ? node : { kind: 'and', children: [tree, node] };
+    // Stray ")" at the top level — skip it
+    if (tokens[pos]?.type === 'rparen') pos++;
+  }
+
+  const text: string[] = [];
+  collectText(tree, false, text);
+
+  return {
+    text: text.join(' '),
+    filter: hasFilter(tree) ? tree : null,
+    fields: [...fields],
+    errors,
+  };
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+function collectText(node: QueryNode, negated: boolean, out: string[]): void {
+  switch (node.kind) {
+    case 'text':
+      if (!negated) out.push(node.value);
+      break;
+    case 'not':
+      collectText(node.child, !negated, out);
+      break;
+    case 'and':
+    case 'or':
+      for (const child of node.children) collectText(child, negated, out);
+      break;
+  }
+}
+
+/** True when the tree contains anything besides plain (non-negated) text */
+function hasFilter(node: QueryNode): boolean {
+  switch (node.kind) {
+    case 'text':
+      return false;
+    case 'not':
+      return true;
+    case 'and':
+    case 'or':
+      return node.children.some(hasFilter);
+    default:
+      return true;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Cross-Encoder Reranker
+ *
+ * Optional second search stage (knowledge setting rerankEnabled): the top
+ * rerankTopN composite-scored results are re-ordered by a cross-encoder that
+ * reads query and result text together, which is far more precise than
+ * comparing embeddings but too slow to run over every candidate.
+ *
+ * The model runs on the embedder worker thread (vector/embedder-worker.ts).
+ * If it does not answer within rerankBudgetMs — e.g. on first use while the
+ * model downloads — the first-stage order is kept and the model finishes
+ * loading in the background for the next query.
+ *
+ * Re-ranked results keep their composite signals: the cross-encoder score is
+ * multiplied by the result's composite multiplier, and the window's original
+ * finalScores are handed out again in the new order so scores stay
+ * comparable with the results below the window.
+ */
+
+import { getKnowledgeSettings } from '../knowledge/settings';
+import { getEmbedder, TransformersEmbedder, DEFAULT_EMBEDDING_CONFIG } from '../vector/embedder';
+import type { ScoredResult } from './composite-scorer';
+
+export interface RerankOutcome {
+  applied: boolean;
+  /** Why results were left in first-stage order */
+  reason?: 'disabled' | 'timeout' | 'error' | 'too-few';
+  model?: string;
+  candidates?: number;
+  tookMs?: number;
+  error?: string;
+}
+
+/**
+ * Worker that hosts the cross-encoder. An HTTP embedding provider has no
+ * worker, so a local transformers worker is started for it.
+ */
+function getRerankHost(): TransformersEmbedder {
+  const embedder = getEmbedder();
+  if (embedder instanceof TransformersEmbedder) return embedder;
+  return getEmbedder(DEFAULT_EMBEDDING_CONFIG) as TransformersEmbedder;
+}
+
+/**
+ * Re-rank the top of an already sorted result list in place.
+ *
+ * @param getText Text the cross-encoder scores against the query
+ */
+export async function rerankResults(
+  query: string,
+  results: ScoredResult[],
+  getText: (r: ScoredResult) => string | undefined,
+): Promise<RerankOutcome> {
+  const settings = getKnowledgeSettings();
+  if (!settings.rerankEnabled) return { applied: false, reason: 'disabled' };
+
+  const window = results.slice(0, settings.rerankTopN);
+  const texts = window.map(r => getText(r) || '');
+  if (window.length < 2) return { applied: false, reason: 'too-few', model: settings.rerankModel };
+
+  const startMs = Date.now();
+  const outcome: RerankOutcome = { applied: false, model: settings.rerankModel, candidates: window.length };
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), settings.rerankBudgetMs);
+  });
+
+  let scores: number[] | null;
+  try {
+    const pending = getRerankHost().rerank(settings.rerankModel, query, texts);
+    // A late answer (or failure) after the budget is dropped
+    pending.catch(() => {});
+    scores = await Promise.race([pending, timeout]);
+  } catch (err: any) {
+    outcome.reason = 'error';
+    outcome.error = err.message;
+    outcome.tookMs = Date.now() - startMs;
+    return outcome;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  outcome.tookMs = Date.now() - startMs;
+  if (!scores || scores.length !== window.length) {
+    outcome.reason = 'timeout';
+    return outcome;
+  }
+
+  const slotScores = window.map(r => r.finalScore).sort((a, b) => b - a);
+  const reordered = window
+    .map((r, i) => {
+      const multiplier = r.score > 0 ? r.finalScore / r.score : 1;
+      return { r, fromRank: i + 1, ceScore: scores![i], order: scores![i] * multiplier };
+    })
+    .sort((a, b) => b.order - a.order);
+
+  reordered.forEach((entry, i) => {
+    entry.r.finalScore = slotScores[i];
+    if (entry.r.breakdown) {
+      entry.r.breakdown.rerank = { score: entry.ceScore, fromRank: entry.fromRank };
+    }
+    results[i] = entry.r;
+  });
+
+  outcome.applied = true;
+  return outcome;
+}
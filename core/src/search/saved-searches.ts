@@ -0,0 +1,399 @@
+/**
+ * Saved Searches & Search Alerts
+ *
+ * Queries that are re-run automatically: each saved search is evaluated
+ * against a session whenever the session cache reports a change, and against
+ * knowledge whenever an entry is created or becomes active. Sessions and
+ * knowledge entries that match for the first time are reported as alerts:
+ *
+ *   - to listeners registered with onAlert() (the REST server forwards them
+ *     to SSE /stream as `search_alert` events)
+ *   - to the search's webhook URL, if set (POST, JSON body, best-effort)
+ *
+ * Queries use the session search grammar (query-parser.ts). A session
+ * matches when it passes the field filters (tool:, cost>, since: ...) and
+ * one of its fields (user prompt, result, task, touched file path) contains
+ * every free-text token; a filter-only query needs no text. Knowledge matches
+ * free text on its title or any part; queries with field filters describe
+ * sessions and never match knowledge. Each match is reported once per saved
+ * search.
+ *
+ * State: ~/.lm-assist/saved-searches.json
+ * Singleton via getSavedSearches().
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDataDir } from '../utils/path-utils';
+import type { SessionCacheData } from '../session-cache';
+import type { Knowledge } from '../knowledge/types';
+import { parseQuery } from './query-parser';
+import { matchesSessionFilter } from './session-filter';
+
+// ── Types ──────────────────────────────────────────
+
+export type SavedSearchScope = '24h' | '3d' | '7d' | '30d' | 'all';
+export type SavedSearchType = 'sessions' | 'knowledge' | 'all';
+
+export const SAVED_SEARCH_SCOPES: SavedSearchScope[] = ['24h', '3d', '7d', '30d', 'all'];
+export const SAVED_SEARCH_TYPES: SavedSearchType[] = ['sessions', 'knowledge', 'all'];
+
+export interface SavedSearchMatch {
+  type: 'session' | 'knowledge';
+  id: string;                    // sessionId or knowledge ID
+  project: string;
+  snippet: string;               // Matching text, trimmed
+  matchedAt: string;             // ISO timestamp
+}
+
+export interface SavedSearch {
+  id: string;                    // S001
+  name: string;
+  query: string;
+  scope: SavedSearchScope;
+  project?: string;              // Only match this project path
+  type: SavedSearchType;
+  webhookUrl?: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastMatchAt?: string;
+  matchCount: number;
+  /** Most recent matches, newest first (capped at MAX_RECENT_MATCHES) */
+  recentMatches: SavedSearchMatch[];
+}
+
+export interface SavedSearchInput {
+  name?: string;
+  query: string;
+  scope?: SavedSearchScope;
+  project?: string;
+  type?: SavedSearchType;
+  webhookUrl?: string;
+  enabled?: boolean;
+}
+
+export interface SearchAlert {
+  searchId: string;
+  name: string;
+  query: string;
+  matches: SavedSearchMatch[];
+}
+
+interface SavedSearchFile {
+  searches: SavedSearch[];
+  /** Search ID → match keys already reported (type:id) */
+  seen: Record<string, string[]>;
+  nextId: number;
+}
+
+// ── Constants ──────────────────────────────────────────
+
+const STATE_FILE = path.join(getDataDir(), 'saved-searches.json');
+
+const MAX_RECENT_MATCHES = 50;
+const MAX_SEEN_PER_SEARCH = 2000;
+const SNIPPET_LENGTH = 160;
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+const SCOPE_MS: Record<SavedSearchScope, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '3d': 3 * 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  'all': Infinity,
+};
+
+const FILE_TOOLS = new Set(['Read', 'Write', 'Edit', 'MultiEdit', 'NotebookEdit']);
+
+// ── Matching ──────────────────────────────────────────
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9\s\-_./]/g, ' ').split(/\s+/).filter(t => t.length > 1);
+}
+
+function isWithinScope(timestamp: string | undefined, scope: SavedSearchScope): boolean {
+  if (scope === 'all') return true;
+  if (!timestamp) return false;
+  const ts = new Date(timestamp).getTime();
+  return !isNaN(ts) && Date.now() - ts <= SCOPE_MS[scope];
+}
+
+/**
+ * First text containing every query token, as a snippet around the first token.
+ */
+function findMatch(texts: Array<string | undefined>, tokens: string[]): string | null {
+  if (tokens.length === 0) return null;
+  for (const text of texts) {
+    if (!text) continue;
+    const lower = text.toLowerCase();
+    if (!tokens.every(t => lower.includes(t))) continue;
+
+    const at = Math.max(lower.indexOf(tokens[0]) - 40, 0);
+    const flat = text.slice(at, at + SNIPPET_LENGTH).replace(/\s+/g, ' ').trim();
+    return (at > 0 ? '...' : '') + flat;
+  }
+  return null;
+}
+
+/**
+ * Snippet for a filter-only match: the start of the session's first text.
+ */
+function leadSnippet(texts: string[]): string {
+  const first = texts.find(t => t.trim()) || '';
+  return first.slice(0, SNIPPET_LENGTH).replace(/\s+/g, ' ').trim();
+}
+
+function sessionTexts(cacheData: SessionCacheData): string[] {
+  const texts: string[] = [];
+  for (const p of cacheData.userPrompts) {
+    if (!p.promptType || p.promptType === 'user' || p.promptType === 'command') texts.push(p.text);
+  }
+  if (cacheData.result) texts.push(cacheData.result);
+  for (const t of cacheData.tasks) {
+    texts.push(t.subject);
+    if (t.description) texts.push(t.description);
+  }
+  for (const tu of cacheData.toolUses) {
+    const filePath = tu.input?.file_path || tu.input?.notebook_path;
+    if (FILE_TOOLS.has(tu.name) && typeof filePath === 'string') texts.push(filePath);
+  }
+  return texts;
+}
+
+function knowledgeTexts(knowledge: Knowledge): string[] {
+  return [knowledge.title, ...knowledge.parts.map(p => `${p.title}\n${p.summary}\n${p.content}`)];
+}
+
+// ── Saved Searches ──────────────────────────────────────────
+
+class SavedSearches {
+  private state: SavedSearchFile | null = null;
+  private alertListeners = new Set<(alert: SearchAlert) => void>();
+  private started = false;
+
+  /**
+   * Subscribe to session cache and knowledge store changes. Idempotent.
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    try {
+      const { getSessionCache } = require('../session-cache');
+      getSessionCache().onSessionChange((sessionId: string, cacheData: SessionCacheData) => {
+        this.evaluateSession(sessionId, cacheData);
+      });
+    } catch (err) {
+      console.warn('[SavedSearches] Failed to watch session changes:', err);
+    }
+
+    try {
+      const { getKnowledgeStore } = require('../knowledge/store');
+      getKnowledgeStore().onChange((_id: string, knowledge: Knowledge | null) => {
+        if (knowledge) this.evaluateKnowledge(knowledge);
+      });
+    } catch (err) {
+      console.warn('[SavedSearches] Failed to watch knowledge changes:', err);
+    }
+  }
+
+  onAlert(listener: (alert: SearchAlert) => void): () => void {
+    this.alertListeners.add(listener);
+    return () => { this.alertListeners.delete(listener); };
+  }
+
+  // ── CRUD ──────────────────────────────────────────
+
+  list(): SavedSearch[] {
+    return this.getState().searches;
+  }
+
+  get(id: string): SavedSearch | null {
+    return this.getState().searches.find(s => s.id === id) || null;
+  }
+
+  create(input: SavedSearchInput): SavedSearch {
+    const state = this.getState();
+    const now = new Date().toISOString();
+    const query = input.query.trim();
+    const search: SavedSearch = {
+      id: `S${String(state.nextId++).padStart(3, '0')}`,
+      name: input.name?.trim() || query,
+      query,
+      scope: input.scope || 'all',
+      project: input.project || undefined,
+      type: input.type || 'all',
+      webhookUrl: input.webhookUrl || undefined,
+      enabled: input.enabled ?? true,
+      createdAt: now,
+      updatedAt: now,
+      matchCount: 0,
+      recentMatches: [],
+    };
+    state.searches.push(search);
+    this.saveState();
+    return search;
+  }
+
+  update(id: string, updates: Partial<SavedSearchInput>): SavedSearch | null {
+    const search = this.get(id);
+    if (!search) return null;
+
+    if (updates.name !== undefined) search.name = updates.name.trim() || search.query;
+    if (updates.scope !== undefined) search.scope = updates.scope;
+    if (updates.type !== undefined) search.type = updates.type;
+    if (updates.project !== undefined) search.project = updates.project || undefined;
+    if (updates.webhookUrl !== undefined) search.webhookUrl = updates.webhookUrl || undefined;
+    if (updates.enabled !== undefined) search.enabled = updates.enabled;
+    if (updates.query !== undefined && updates.query.trim() !== search.query) {
+      // A new query starts over — earlier matches say nothing about it
+      if (updates.name === undefined && search.name === search.query) search.name = updates.query.trim();
+      search.query = updates.query.trim();
+      search.recentMatches = [];
+      search.matchCount = 0;
+      delete search.lastMatchAt;
+      delete this.getState().seen[id];
+    }
+    search.updatedAt = new Date().toISOString();
+    this.saveState();
+    return search;
+  }
+
+  delete(id: string): boolean {
+    const state = this.getState();
+    const before = state.searches.length;
+    state.searches = state.searches.filter(s => s.id !== id);
+    if (state.searches.length === before) return false;
+    delete state.seen[id];
+    this.saveState();
+    return true;
+  }
+
+  // ── Evaluation ──────────────────────────────────────────
+
+  evaluateSession(sessionId: string, cacheData: SessionCacheData): void {
+    const candidates = this.getState().searches.filter(s => s.enabled && s.type !== 'knowledge');
+    if (candidates.length === 0) return;
+    // Subagent files report their parent's sessionId — tell them apart by file name
+    if (sessionId.startsWith('agent-') || path.basename(cacheData.filePath || '').startsWith('agent-')) return;
+
+    const texts = sessionTexts(cacheData);
+    for (const search of candidates) {
+      if (search.project && cacheData.cwd !== search.project) continue;
+      if (!isWithinScope(cacheData.lastTimestamp, search.scope)) continue;
+
+      const parsed = parseQuery(search.query);
+      if (parsed.errors.length > 0 || (!parsed.text && !parsed.filter)) continue;
+      if (!matchesSessionFilter(parsed.filter, cacheData)) continue;
+      const snippet = parsed.text ? findMatch(texts, tokenize(parsed.text)) : leadSnippet(texts);
+      if (snippet === null) continue;
+      this.report(search, { type: 'session', id: sessionId, project: cacheData.cwd || '', snippet, matchedAt: new Date().toISOString() });
+    }
+  }
+
+  evaluateKnowledge(knowledge: Knowledge): void {
+    // Pending/excluded/outdated entries alert once they become active
+    if (knowledge.status !== 'active' || knowledge.origin === 'remote') return;
+
+    const candidates = this.getState().searches.filter(s => s.enabled && s.type !== 'sessions');
+    if (candidates.length === 0) return;
+
+    const texts = knowledgeTexts(knowledge);
+    for (const search of candidates) {
+      if (search.project && knowledge.project !== search.project) continue;
+      if (!isWithinScope(knowledge.createdAt, search.scope)) continue;
+
+      const parsed = parseQuery(search.query);
+      if (parsed.errors.length > 0 || parsed.filter) continue;
+      const snippet = findMatch(texts, tokenize(parsed.text));
+      if (snippet === null) continue;
+      this.report(search, { type: 'knowledge', id: knowledge.id, project: knowledge.project, snippet, matchedAt: new Date().toISOString() });
+    }
+  }
+
+  /**
+   * Record a match and notify, unless this search already reported it.
+   */
+  private report(search: SavedSearch, match: SavedSearchMatch): void {
+    const state = this.getState();
+    const key = `${match.type}:${match.id}`;
+    const seen = state.seen[search.id] || (state.seen[search.id] = []);
+    if (seen.includes(key)) return;
+
+    seen.push(key);
+    if (seen.length > MAX_SEEN_PER_SEARCH) seen.splice(0, seen.length - MAX_SEEN_PER_SEARCH);
+    search.recentMatches = [match, ...search.recentMatches].slice(0, MAX_RECENT_MATCHES);
+    search.matchCount++;
+    search.lastMatchAt = match.matchedAt;
+
+    try {
+      this.saveState();
+    } catch (err) {
+      console.warn('[SavedSearches] Failed to save state:', err);
+    }
+
+    const alert: SearchAlert = { searchId: search.id, name: search.name, query: search.query, matches: [match] };
+    for (const listener of this.alertListeners) {
+      try {
+        listener(alert);
+      } catch (err) {
+        console.error('[SavedSearches] Alert listener failed:', err);
+      }
+    }
+    if (search.webhookUrl) this.postWebhook(search.webhookUrl, alert);
+  }
+
+  private postWebhook(url: string, alert: SearchAlert): void {
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'search_alert', ...alert }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    }).then(res => {
+      if (!res.ok) console.warn(`[SavedSearches] Webhook ${url} returned ${res.status}`);
+    }).catch(err => {
+      console.warn(`[SavedSearches] Webhook ${url} failed:`, err.message);
+    });
+  }
+
+  // ── State ──────────────────────────────────────────
+
+  private getState(): SavedSearchFile {
+    if (this.state) return this.state;
+
+    let state: SavedSearchFile = { searches: [], seen: {}, nextId: 1 };
+    try {
+      if (fs.existsSync(STATE_FILE)) {
+        const data = JSON.parse(fs.readFileSync(STATE_FILE, 'utf-8'));
+        if (data && Array.isArray(data.searches)) {
+          state = { searches: data.searches, seen: data.seen || {}, nextId: data.nextId || data.searches.length + 1 };
+        }
+      }
+    } catch {
+      // Corrupt file — start empty rather than failing every session change
+    }
+    this.state = state;
+    return state;
+  }
+
+  private saveState(): void {
+    if (!this.state) return;
+    const dir = path.dirname(STATE_FILE);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(STATE_FILE, JSON.stringify(this.state, null, 2));
+  }
+}
+
+// ── Singleton ──────────────────────────────────────────
+
+let instance: SavedSearches | null = null;
+
+export function getSavedSearches(): SavedSearches {
+  if (!instance) {
+    instance = new SavedSearches();
+  }
+  return instance;
+}
@@ -0,0 +1,209 @@
+/**
+ * Session Filter
+ *
+ * Evaluates a structured query filter (query-parser.ts) against a session's
+ * cached data. Facts (tools, files, git operations, cost...) are derived
+ * lazily, so a filter on turns never walks tool uses.
+ *
+ * Plain text only ranks, except where it has to decide a match: negated
+ * (-flaky) or under an OR (tool:Bash OR flaky), where it is checked against
+ * the session's prompts, result and summary.
+ */
+
+import type { SessionCacheData } from '../session-cache';
+import { CostCalculator } from '../cost-calculator';
+import type { QueryNode, MatchField, CompareOp } from './query-parser';
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const GLOB_CHARS = /[*?]/;
+
+// ─── Glob Matching ──────────────────────────────────────────────────
+
+/**
+ * Convert a glob to a RegExp: ** spans directories, * and ? do not.
+ */
+function globToRegExp(glob: string, prefix: string): RegExp {
+  const body = glob
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*/g, '\u0000')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/\u0000/g, '.*');
+  return new RegExp(`${prefix}${body}$`, 'i');
+}
+
+/**
+ * File patterns match the end of a path on a segment boundary
+ * (file:src/api/* matches /repo/src/api/routes.ts); plain values match
+ * anywhere in the path, like the file search.
+ */
+function matchFile(pattern: string, files: string[]): boolean {
+  if (!GLOB_CHARS.test(pattern)) {
+    const lower = pattern.toLowerCase();
+    return files.some(f => f.toLowerCase().includes(lower));
+  }
+  const re = globToRegExp(pattern, pattern.startsWith('/') ? '^' : '(^|/)');
+  return files.some(f => re.test(f));
+}
+
+/**
+ * Name patterns: globs must match the whole value; plain values match
+ * exactly, or as a substring where `partial` is set (models, projects).
+ */
+function matchName(pattern: string, values: string[], partial: boolean): boolean {
+  if (GLOB_CHARS.test(pattern)) {
+    const re = globToRegExp(pattern, '^');
+    return values.some(v => re.test(v));
+  }
+  const lower = pattern.toLowerCase();
+  return values.some(v => {
+    const value = v.toLowerCase();
+    return partial ? value.includes(lower) : value === lower;
+  });
+}
+
+function compare(actual: number, op: CompareOp, expected: number): boolean {
+  switch (op) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '=': return Math.abs(actual - expected) < 1e-9;
+  }
+}
+
+// ─── Session Facts ──────────────────────────────────────────────────
+
+let costCalculator: CostCalculator | null = null;
+
+class SessionFacts {
+  private cache = new Map<string, unknown>();
+
+  constructor(private data: SessionCacheData) {}
+
+  private memo<T>(key: string, compute: () => T): T {
+    if (!this.cache.has(key)) this.cache.set(key, compute());
+    return this.cache.get(key) as T;
+  }
+
+  /** Tool names used; MCP tools also answer to their short name (mcp__server__search → search) */
+  get tools(): string[] {
+    return this.memo('tools', () => {
+      const names = new Set<string>();
+      for (const tu of this.data.toolUses) {
+        names.add(tu.name);
+        const short = tu.name.match(/^mcp__.+__(.+)$/);
+        if (short) names.add(short[1]);
+      }
+      return [...names];
+    });
+  }
+
+  get files(): string[] {
+    return this.memo('files', () => {
+      const files = new Set<string>();
+      for (const tu of this.data.toolUses) {
+        const fp = tu.input?.file_path || tu.input?.notebook_path || tu.input?.path;
+        if (typeof fp === 'string' && fp) files.add(fp);
+      }
+      return [...files];
+    });
+  }
+
+  get models(): string[] {
+    return this.memo('models', () => {
+      const models = new Set<string>();
+      if (this.data.model) models.add(this.data.model);
+      for (const model of Object.keys(this.data.modelUsage || {})) models.add(model);
+      for (const sub of this.data.subagents) {
+        if (sub.model) models.add(sub.model);
+      }
+      return [...models];
+    });
+  }
+
+  get gitOperations(): string[] {
+    return this.memo('git', () => {
+      const { extractGitOperationsFromToolUses } = require('../agent-session-store');
+      const ops: Array<{ type: string }> = extractGitOperationsFromToolUses(this.data.toolUses);
+      return [...new Set(ops.map(op => op.type))];
+    });
+  }
+
+  get agentTypes(): string[] {
+    return this.memo('agents', () => [...new Set(this.data.subagents.map(s => s.type).filter(Boolean))]);
+  }
+
+  get branches(): string[] {
+    return this.data.gitBranch ? [this.data.gitBranch] : [];
+  }
+
+  get costUsd(): number {
+    return this.memo('cost', () => {
+      let cost = this.data.totalCostUsd || this.data.cumulativeCostUsd || 0;
+      if (!cost && this.data.usage && this.data.usage.inputTokens > 0) {
+        if (!costCalculator) costCalculator = new CostCalculator();
+        cost = costCalculator.calculateSessionCost(this.data);
+      }
+      return cost;
+    });
+  }
+
+  /** Free-text check for negated or OR'd words: prompts, result and summary */
+  containsText(value: string): boolean {
+    const haystack = this.memo('text', () => [
+      ...this.data.userPrompts.map(p => p.text),
+      this.data.result || '',
+      this.data.sessionSummary || '',
+    ].join('\n').toLowerCase());
+    return haystack.includes(value.toLowerCase());
+  }
+
+  match(field: MatchField, value: string): boolean {
+    switch (field) {
+      case 'tool': return matchName(value, this.tools, false);
+      case 'file': return matchFile(value, this.files);
+      case 'model': return matchName(value, this.models, true);
+      case 'git': return matchName(value, this.gitOperations, false);
+      case 'agent': return matchName(value, this.agentTypes, false);
+      case 'branch': return matchName(value, this.branches, false);
+      case 'project': return matchName(value, this.data.cwd ? [this.data.cwd] : [], true);
+    }
+  }
+}
+
+// ─── Evaluation ──────────────────────────────────────────────────
+
+function evaluate(node: QueryNode, facts: SessionFacts, data: SessionCacheData, negated: boolean, inOr: boolean): boolean {
+  switch (node.kind) {
+    case 'and':
+      return node.children.every(c => evaluate(c, facts, data, negated, inOr));
+    case 'or':
+      return node.children.some(c => evaluate(c, facts, data, negated, true));
+    case 'not':
+      return !evaluate(node.child, facts, data, !negated, inOr);
+    case 'text':
+      // Plain text ranks rather than filters; negated text excludes, and text
+      // under OR must match, or `tool:Bash OR flaky` would match everything
+      return negated || inOr ? facts.containsText(node.value) : true;
+    case 'match':
+      return facts.match(node.field, node.value);
+    case 'compare':
+      return compare(node.field === 'cost' ? facts.costUsd : data.numTurns, node.op, node.value);
+    case 'time': {
+      const timestamp = node.field === 'since' ? data.lastTimestamp : (data.firstTimestamp || data.lastTimestamp);
+      const ts = timestamp ? new Date(timestamp).getTime() : NaN;
+      if (isNaN(ts)) return false;
+      return node.field === 'since' ? ts >= node.at : ts < node.at;
+    }
+  }
+}
+
+/**
+ * Does a session satisfy the filter? A null filter matches everything.
+ */
+export function matchesSessionFilter(filter: QueryNode | null, data: SessionCacheData): boolean {
+  if (!filter) return true;
+  return evaluate(filter, new SessionFacts(data), data, false, false);
+}
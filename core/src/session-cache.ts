@@ -26,7 +26,7 @@ import chokidar, { FSWatcher } from 'chokidar';
 import { getStartupProfiler } from './startup-profiler';
 import { SessionCacheStore } from './session-cache-store';
 import { getDataDir, legacyEncodeProjectPath } from './utils/path-utils';
-import { CostCalculator } from './cost-calculator';
+import { CostCalculator, addDailyUsage } from './cost-calculator';
 
 // ─── Types ──────────────────────────────────────────────────
 
@@ -206,6 +206,8 @@ export interface SessionCacheData {
   systemPrompt?: string;
   /** Human-readable session slug (e.g. "refactored-twirling-karp") */
   slug?: string;
+  /** Git branch the session was working on (latest seen) */
+  gitBranch?: string;
   /** Custom session title set via /rename */
   customTitle?: string;
 
@@ -240,6 +242,8 @@ export interface SessionCacheData {
   usage: CachedUsage;
   /** Per-model token usage breakdown */
   modelUsage: Record<string, CachedModelUsage>;
+  /** Token usage by UTC day (YYYY-MM-DD), then model, for pricing totals per day */
+  usageByDay?: Record<string, Record<string, CachedUsage>>;
 
   // Result info
   result?: string;
@@ -253,6 +257,8 @@ export interface SessionCacheData {
   // Timestamps
   firstTimestamp?: string;
   lastTimestamp?: string;
+  /** Latest context compaction (compact_boundary or compact summary) */
+  lastCompactedAt?: string;
 
   /** Auto-generated session summary for quick understanding of what the session does */
   sessionSummary?: string;
@@ -272,7 +278,7 @@ export interface RawMessagesCache {
 
 // ─── Constants ──────────────────────────────────────────────────
 
-const CACHE_VERSION = 12; // v12: Fix command-message detection in classifyUserPrompt
+const CACHE_VERSION = 14; // v14: Track usage per day for price-versioned session costs
 
 // ─── Skill Extraction Helpers ──────────────────────────────────────────────────
 
@@ -426,6 +432,9 @@ export class SessionCache {
   private updateDebounceMs = 500;  // Debounce file changes
   private isWatching = false;
 
+  // Lookup outcomes since startup: served as-is, incrementally updated, fully parsed
+  private lookups = { hits: 0, appends: 0, misses: 0 };
+
   // onChange callbacks for session data updates
   private onChangeCallbacks: Array<(sessionId: string, cacheData: SessionCacheData) => void> = [];
 
@@ -674,6 +683,7 @@ export class SessionCache {
       sessionCount: number;
       rawCount: number;
     };
+    lookups: { hits: number; appends: number; misses: number };
   } {
     return {
       memoryCacheSize: this.store.sessionCount,
@@ -685,6 +695,7 @@ export class SessionCache {
         sessionCount: this.store.sessionCount,
         rawCount: this.store.rawCount,
       },
+      lookups: { ...this.lookups },
     };
   }
 
@@ -908,6 +919,9 @@ export class SessionCache {
       if (msg.slug && !msg.isSidechain) {
         updated.slug = msg.slug;
       }
+      if (msg.gitBranch && !msg.isSidechain) {
+        updated.gitBranch = msg.gitBranch;
+      }
 
       // Custom title message (from /rename)
       if (msg.type === 'custom-title' && msg.customTitle) {
@@ -925,6 +939,11 @@ export class SessionCache {
         updated.mcpServers = msg.mcp_servers || updated.mcpServers;
       }
 
+      // Context compaction (/compact or auto-compact)
+      if ((msg.type === 'system' && msg.subtype === 'compact_boundary') || (msg.type === 'user' && msg.isCompactSummary)) {
+        updated.lastCompactedAt = msg.timestamp || lastTimestamp || updated.lastCompactedAt;
+      }
+
       // User message
       if (msg.type === 'user') {
         const content = msg.message?.content;
@@ -1364,6 +1383,18 @@ export class SessionCache {
             mu.cacheReadInputTokens += cacheReadToks;
             mu.messageCount++;
           }
+
+          // Track per-day usage so totals get each day's price version; a
+          // message without a timestamp counts on the last one seen
+          if (modelName !== '<synthetic>') {
+            if (!updated.usageByDay) updated.usageByDay = {};
+            addDailyUsage(updated.usageByDay, lastTimestamp, modelName || '', {
+              inputTokens: inputToks,
+              outputTokens: outputToks,
+              cacheCreationInputTokens: cacheCreateToks,
+              cacheReadInputTokens: cacheReadToks,
+            });
+          }
         }
 
         // Accumulate per-message costUSD (pre-calculated by Claude Code)
@@ -1554,6 +1585,7 @@ export class SessionCache {
     let cache = this.store.getSessionData(sessionPath);
 
     const validity = this.isCacheValid(cache || null, stats);
+    this.lookups[validity === 'valid' && cache ? 'hits' : validity === 'append' && cache ? 'appends' : 'misses']++;
 
     if (validity === 'valid' && cache) {
       return cache;
@@ -1832,6 +1864,7 @@ export class SessionCache {
     let cache = this.store.getSessionData(sessionPath);
 
     const validity = this.isCacheValid(cache || null, stats);
+    this.lookups[validity === 'valid' && cache ? 'hits' : validity === 'append' && cache ? 'appends' : 'misses']++;
 
     if (validity === 'valid' && cache) {
       return cache;
@@ -2154,7 +2187,7 @@ export class SessionCache {
       let cost = cacheData.totalCostUsd || cacheData.cumulativeCostUsd || 0;
       if (!cost && cacheData.usage && cacheData.usage.inputTokens > 0) {
         if (!calc) calc = new CostCalculator();
-        cost = calc.calculateCost(cacheData.usage, cacheData.model || '').totalCost;
+        cost = calc.calculateSessionCost(cacheData);
       }
 
       if (cost > 0) {
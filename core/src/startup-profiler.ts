@@ -55,6 +55,15 @@ class StartupProfiler {
     return this.entries.get(key)?.durationMs;
   }
 
+  /**
+   * Completed entries in start order.
+   */
+  getEntries(): Array<{ key: string; label: string; parent?: string; durationMs: number }> {
+    return [...this.entries]
+      .filter(([, entry]) => entry.durationMs !== undefined)
+      .map(([key, entry]) => ({ key, label: entry.label, parent: entry.parent, durationMs: entry.durationMs! }));
+  }
+
   /**
    * Get ms elapsed since boot (profiler creation).
    */
@@ -304,6 +304,11 @@ export interface ModelPricing {
   cacheReadPricePerMillionAbove200k?: number;
   /** Token threshold for tiered pricing (default: 200000) */
   tieredThreshold?: number;
+  /**
+   * First day (ISO date, UTC) this price applies. Versions of the same
+   * pattern are told apart by this date; omitted means since the beginning.
+   */
+  effectiveFrom?: string;
 }
 
 export interface CostEstimate {
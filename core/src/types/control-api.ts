@@ -574,6 +574,30 @@ export type TierEvent =
   | { type: "sdk_permission_request"; tier: string; executionId: string; toolName: string; decision: string }
   // Session events
   | { type: "session_update"; timestamp: Date; tier: string; data: SessionUpdateEventData }
+  // Saved search alerts (search/saved-searches.ts)
+  | {
+      type: "search_alert";
+      searchId: string;
+      name: string;
+      query: string;
+      matches: Array<{ type: "session" | "knowledge"; id: string; project: string; snippet: string; matchedAt: string }>;
+    }
+  // Budget alerts (budgets.ts)
+  | {
+      type: "budget_warning" | "budget_breach";
+      budgetId: string;
+      name: string;
+      scope: "global" | "project" | "session";
+      target?: string;
+      period: "day" | "week" | "month";
+      periodStart: string;
+      capUsd: number;
+      spentUsd: number;
+      sessionId: string;
+      project: string;
+      hardCap: boolean;
+    }
+  | { type: "budget_abort"; budgetId: string; name: string; sessionId: string; executionId: string }
   // Progress events (for Vibe Coder UI)
   | {
       type: "execution_progress";
@@ -0,0 +1,166 @@
+/**
+ * Chunker Module
+ *
+ * Splits tool output (file reads, edit snippets, command output) into
+ * embedding-sized chunks along language-aware boundaries: declarations for
+ * code, headings for markdown, blank lines otherwise. Leading comments and
+ * decorators stay with the declaration they describe.
+ *
+ * Line-numbered output (the `cat -n` style "  42→code" or "  42\tcode" used
+ * by Read and Edit results) is stripped of its prefixes and each chunk
+ * reports the file lines it covers.
+ */
+
+import * as path from 'path';
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface TextChunk {
+  text: string;
+  /** First/last file line, when the input was line-numbered */
+  startLine?: number;
+  endLine?: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+/** Target upper bound for a chunk (characters) */
+const MAX_CHUNK_CHARS = 1500;
+
+/** Chunks with less non-whitespace content than this are dropped */
+const MIN_CHUNK_CHARS = 40;
+
+const NUMBERED_LINE_RE = /^\s*(\d+)(?:→|\t)(.*)$/;
+
+const COMMENT_LINE_RE = /^\s*(\/\/|\/\*|\*|#(?!#)|@|--|"""|''')/;
+
+/** Lines that start a new top-level unit, per language */
+const BOUNDARIES: Array<{ extensions: string[]; pattern: RegExp }> = [
+  {
+    extensions: ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'],
+    pattern: /^(\s{0,4})(export\s+)?(default\s+)?(declare\s+)?(abstract\s+)?(async\s+)?(function\*?|class|interface|type|enum|const|let|namespace)\s|^\s{2,4}(public\s+|private\s+|protected\s+|static\s+|readonly\s+|async\s+|get\s+|set\s+)*[A-Za-z_$][\w$]*\s*(<[^>]*>)?\([^)]*\)?\s*(:[^=]*)?\{?\s*$/,
+  },
+  { extensions: ['.py'], pattern: /^\s{0,4}(async\s+)?(def|class)\s/ },
+  { extensions: ['.go'], pattern: /^(func|type|var|const)\s/ },
+  { extensions: ['.rs'], pattern: /^\s{0,4}(pub(\([\w:]+\))?\s+)?(async\s+)?(fn|struct|enum|impl|trait|mod|const|static)\s/ },
+  {
+    extensions: ['.java', '.kt', '.kts', '.cs', '.scala', '.swift'],
+    pattern: /^\s{0,4}(public|private|protected|internal|static|final|abstract|override|open|fun|func|class|interface|object|struct|enum)\b/,
+  },
+  { extensions: ['.rb'], pattern: /^\s{0,2}(def|class|module)\s/ },
+  { extensions: ['.php'], pattern: /^\s{0,4}((public|private|protected|static|abstract|final)\s+)*(function|class|interface|trait)\s/ },
+  { extensions: ['.c', '.h', '.cc', '.cpp', '.hpp'], pattern: /^[A-Za-z_][\w\s\*&:<>,]*\([^;]*$|^(struct|class|namespace|enum|typedef)\s/ },
+  { extensions: ['.sh', '.bash', '.zsh'], pattern: /^(function\s+)?[A-Za-z_][\w-]*\s*\(\)\s*\{?/ },
+  { extensions: ['.md', '.mdx'], pattern: /^#{1,6}\s/ },
+];
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+function boundaryFor(filePath: string | undefined): RegExp | null {
+  if (!filePath) return null;
+  const ext = path.extname(filePath).toLowerCase();
+  return BOUNDARIES.find(b => b.extensions.includes(ext))?.pattern || null;
+}
+
+/**
+ * Strip line-number prefixes when (nearly) every non-empty line has one.
+ */
+function parseLines(text: string): { lines: string[]; numbers: number[] | null } {
+  const raw = text.split('\n');
+  const nonEmpty = raw.filter(l => l.trim()).length;
+  const matches = raw.map(l => l.match(NUMBERED_LINE_RE));
+  const numbered = matches.filter(Boolean).length;
+
+  if (nonEmpty === 0 || numbered < nonEmpty * 0.9) {
+    return { lines: raw, numbers: null };
+  }
+
+  // Keep numbered lines only — drops headers like "The file ... has been updated"
+  const lines: string[] = [];
+  const numbers: number[] = [];
+  for (const m of matches) {
+    if (!m) continue;
+    lines.push(m[2]);
+    numbers.push(parseInt(m[1], 10));
+  }
+  return { lines, numbers };
+}
+
+/**
+ * Indices where a new segment begins. A boundary line pulls the comment or
+ * decorator lines directly above it into its segment.
+ */
+function segmentStarts(lines: string[], boundary: RegExp | null): number[] {
+  const starts = new Set<number>([0]);
+
+  for (let i = 1; i < lines.length; i++) {
+    const isBoundary = boundary
+      ? boundary.test(lines[i])
+      : lines[i].trim() !== '' && lines[i - 1].trim() === '';
+    if (!isBoundary) continue;
+
+    let start = i;
+    while (start > 0 && lines[start - 1].trim() && COMMENT_LINE_RE.test(lines[start - 1])) {
+      start--;
+    }
+    starts.add(start);
+  }
+
+  return Array.from(starts).sort((a, b) => a - b);
+}
+
+// ─── Chunking ──────────────────────────────────────────────────
+
+/**
+ * Split text into chunks of at most ~MAX_CHUNK_CHARS along language-aware
+ * boundaries. Adjacent small segments are packed together; segments larger
+ * than the limit are split by lines.
+ *
+ * @param filePath Used to pick the language from the extension
+ */
+export function chunkText(text: string, filePath?: string): TextChunk[] {
+  const { lines, numbers } = parseLines(text);
+  if (lines.length === 0) return [];
+
+  const starts = segmentStarts(lines, boundaryFor(filePath));
+  const segments: Array<[number, number]> = starts.map((start, i) => [start, (starts[i + 1] ?? lines.length) - 1]);
+
+  const chunks: TextChunk[] = [];
+  let current: string[] = [];
+  let currentStart = 0;
+  let currentSize = 0;
+
+  const flush = (endIndex: number) => {
+    const body = current.join('\n');
+    if (body.replace(/\s/g, '').length >= MIN_CHUNK_CHARS) {
+      chunks.push({
+        text: body.trim(),
+        startLine: numbers ? numbers[currentStart] : undefined,
+        endLine: numbers ? numbers[endIndex] : undefined,
+      });
+    }
+    current = [];
+    currentSize = 0;
+  };
+
+  for (const [start, end] of segments) {
+    const segmentSize = lines.slice(start, end + 1).reduce((n, l) => n + l.length + 1, 0);
+    if (current.length > 0 && currentSize + segmentSize > MAX_CHUNK_CHARS) {
+      flush(start - 1);
+    }
+
+    for (let i = start; i <= end; i++) {
+      if (current.length === 0) currentStart = i;
+      // Oversized segment: split by lines
+      if (current.length > 0 && currentSize + lines[i].length + 1 > MAX_CHUNK_CHARS) {
+        flush(i - 1);
+        currentStart = i;
+      }
+      current.push(lines[i]);
+      currentSize += lines[i].length + 1;
+    }
+  }
+  if (current.length > 0) flush(lines.length - 1);
+
+  return chunks;
+}
@@ -3,33 +3,48 @@
  *
  * Runs ONNX inference (transformers.js) on a separate thread so the main
  * event loop is never blocked by CPU-intensive embedding operations.
+ * The model name comes from workerData; the vector dimension is read from
+ * the model output. Also hosts cross-encoder re-ranking models, loaded on
+ * first use.
  *
  * Protocol:
  *   Main → Worker: { type: 'embed', id: number, texts: string[] }
+ *   Main → Worker: { type: 'rerank', id: number, model: string, query: string, documents: string[] }
  *   Worker → Main: { type: 'result', id: number, embeddings: number[][] }
+ *   Worker → Main: { type: 'result', id: number, scores: number[] }   (rerank, 0-1 relevance)
  *   Worker → Main: { type: 'error', id: number, message: string }
- *   Worker → Main: { type: 'ready' }
+ *   Worker → Main: { type: 'ready', dimension: number }   (dimension 0 + error on load failure)
  */
 
-import { parentPort } from 'worker_threads';
+import { parentPort, workerData } from 'worker_threads';
 import * as path from 'path';
 
 if (!parentPort) {
   throw new Error('This module must be run as a worker thread');
 }
 
-const MODEL_NAME = 'Xenova/all-MiniLM-L6-v2';
-const VECTOR_DIM = 384;
+const MODEL_NAME: string = workerData?.model || 'Xenova/all-MiniLM-L6-v2';
 
 let extractor: any = null;
+let dimension = 0;
+const rerankers = new Map<string, Promise<{ tokenizer: any; model: any }>>();
 
-async function loadModel(): Promise<void> {
+async function loadTransformers(): Promise<any> {
   const dataDir = process.env.LM_ASSIST_DATA_DIR || path.join(require('os').homedir(), '.lm-assist');
   const mod = await import('@huggingface/transformers');
   mod.env.cacheDir = path.join(dataDir, 'models');
   mod.env.allowRemoteModels = true;
   mod.env.useFSCache = true;
+  return mod;
+}
+
+async function loadModel(): Promise<void> {
+  const mod = await loadTransformers();
   extractor = await (mod.pipeline as any)('feature-extraction', MODEL_NAME, { quantized: true });
+
+  // Probe once to learn the output dimension
+  const probe = await extractor(['dimension probe'], { pooling: 'mean', normalize: true });
+  dimension = probe.dims[probe.dims.length - 1];
 }
 
 async function embedTexts(texts: string[]): Promise<number[][]> {
@@ -44,16 +59,68 @@ async function embedTexts(texts: string[]): Promise<number[][]> {
     const outputs = await extractor(batch, { pooling: 'mean', normalize: true });
     const data = Array.from(outputs.data as Float32Array);
     for (let j = 0; j < batch.length; j++) {
-      const start = j * VECTOR_DIM;
-      results.push(data.slice(start, start + VECTOR_DIM));
+      const start = j * dimension;
+      results.push(data.slice(start, start + dimension));
     }
   }
   return results;
 }
 
+function loadReranker(modelName: string): Promise<{ tokenizer: any; model: any }> {
+  let loading = rerankers.get(modelName);
+  if (!loading) {
+    loading = (async () => {
+      const mod: any = await loadTransformers();
+      const tokenizer = await mod.AutoTokenizer.from_pretrained(modelName);
+      const model = await mod.AutoModelForSequenceClassification.from_pretrained(modelName, { quantized: true });
+      return { tokenizer, model };
+    })();
+    // Retry on the next request if loading failed
+    loading.catch(() => rerankers.delete(modelName));
+    rerankers.set(modelName, loading);
+  }
+  return loading;
+}
+
+/**
+ * Score (query, document) pairs with a cross-encoder.
+ * Single-logit models use a sigmoid; multi-label models the softmax of the last label.
+ */
+async function rerank(modelName: string, query: string, documents: string[]): Promise<number[]> {
+  const { tokenizer, model } = await loadReranker(modelName);
+  const inputs = tokenizer(new Array(documents.length).fill(query), {
+    text_pair: documents.map(d => d.length > 2000 ? d.slice(0, 2000) : d),
+    padding: true,
+    truncation: true,
+  });
+  const { logits } = await model(inputs);
+  const data = Array.from(logits.data as Float32Array);
+  const labels = logits.dims[logits.dims.length - 1];
+
+  const scores: number[] = [];
+  for (let i = 0; i < documents.length; i++) {
+    const row = data.slice(i * labels, (i + 1) * labels);
+    if (labels === 1) {
+      scores.push(1 / (1 + Math.exp(-row[0])));
+    } else {
+      const max = Math.max(...row);
+      const exps = row.map(v => Math.exp(v - max));
+      scores.push(exps[labels - 1] / exps.reduce((a, b) => a + b, 0));
+    }
+  }
+  return scores;
+}
+
 // Message handler
 parentPort.on('message', async (msg: any) => {
-  if (msg.type === 'embed') {
+  if (msg.type === 'rerank') {
+    try {
+      const scores = await rerank(msg.model, msg.query, msg.documents);
+      parentPort!.postMessage({ type: 'result', id: msg.id, scores });
+    } catch (err: any) {
+      parentPort!.postMessage({ type: 'error', id: msg.id, message: err.message || String(err) });
+    }
+  } else if (msg.type === 'embed') {
     try {
       if (!extractor) await loadModel();
       const embeddings = await embedTexts(msg.texts);
@@ -68,9 +135,9 @@ parentPort.on('message', async (msg: any) => {
 (async () => {
   try {
     await loadModel();
-    parentPort!.postMessage({ type: 'ready' });
+    parentPort!.postMessage({ type: 'ready', dimension });
   } catch (err: any) {
     console.error('[EmbedderWorker] Failed to load model:', err);
-    parentPort!.postMessage({ type: 'ready' }); // still signal ready, will retry on first use
+    parentPort!.postMessage({ type: 'ready', dimension: 0, error: err.message || String(err) });
   }
 })();
@@ -1,31 +1,121 @@
 /**
  * Embedder Module
  *
- * Local text embedding using transformers.js (all-MiniLM-L6-v2).
- * Generates 384-dimensional vectors for semantic search.
+ * Pluggable text embedding providers:
+ *   - transformers:      local ONNX models via transformers.js (default
+ *                        all-MiniLM-L6-v2, 384-dim; any feature-extraction model)
+ *   - openai-compatible: a local HTTP endpoint serving POST {baseUrl}/embeddings
+ *                        (Ollama, llama.cpp server, LM Studio, ...)
  *
- * ONNX inference runs on a dedicated worker thread so it never blocks
- * the main Node.js event loop — even during heavy batch operations.
+ * The configured provider/model comes from knowledge settings. The vector store
+ * embeds with the model recorded on its active table, which differs from the
+ * configured one only while a model-change reindex is in flight.
  *
- * Loads model lazily on first use (~2-3s). Subsequent calls are fast (~5ms).
+ * transformers.js inference runs on a dedicated worker thread so it never blocks
+ * the main Node.js event loop — even during heavy batch operations. The same
+ * worker hosts cross-encoder re-ranking models (see search/reranker.ts).
+ * Models load lazily on first use (~2-3s). Subsequent calls are fast (~5ms).
+ * Vectors from every provider are L2-normalized.
  */
 
 import * as path from 'path';
 import { Worker } from 'worker_threads';
 import { getDataDir } from '../utils/path-utils';
+import { getKnowledgeSettings } from '../knowledge/settings';
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type EmbeddingProviderType = 'transformers' | 'openai-compatible';
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderType;
+  model: string;
+  /** Expected vector dimension; 0/undefined = detect from the model */
+  dimension?: number;
+  /** openai-compatible only: base URL, e.g. http://localhost:11434/v1 */
+  baseUrl?: string;
+}
+
+export interface EmbeddingProvider {
+  readonly config: EmbeddingConfig;
+  /** Load the model / probe the endpoint. Resolves once getDimension() is valid. */
+  load(): Promise<void>;
+  /** Embed a single text string */
+  embed(text: string): Promise<number[]>;
+  /** Embed multiple texts in batch */
+  embedBatch(texts: string[]): Promise<number[][]>;
+  isLoaded(): boolean;
+  /** Vector dimension (valid after load()) */
+  getDimension(): number;
+  /** Release the model / worker */
+  destroy(): void;
+}
+
+// ─── Constants ──────────────────────────────────────────────────
 
 const VECTOR_DIM = 384;
 
-export class Embedder {
+export const DEFAULT_EMBEDDING_CONFIG: EmbeddingConfig = {
+  provider: 'transformers',
+  model: 'Xenova/all-MiniLM-L6-v2',
+  dimension: VECTOR_DIM,
+};
+
+/** Longest text sent for embedding (characters) */
+const MAX_TEXT_CHARS = 2000;
+
+/** Texts per HTTP request */
+const HTTP_BATCH_SIZE = 32;
+const HTTP_TIMEOUT_MS = 60_000;
+
+/**
+ * Stable identity of an embedding model — vectors are only comparable within one key.
+ */
+export function embeddingModelKey(config: EmbeddingConfig): string {
+  return `${config.provider}:${config.model}`;
+}
+
+/**
+ * The embedding model selected in knowledge settings.
+ */
+export function getEmbeddingConfig(): EmbeddingConfig {
+  const settings = getKnowledgeSettings();
+  return {
+    provider: settings.embeddingProvider,
+    model: settings.embeddingModel,
+    dimension: settings.embeddingDimension || undefined,
+    baseUrl: settings.embeddingProvider === 'openai-compatible' ? settings.embeddingBaseUrl : undefined,
+  };
+}
+
+function normalize(vector: number[]): number[] {
+  let norm = 0;
+  for (const v of vector) norm += v * v;
+  norm = Math.sqrt(norm);
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+function checkDimension(config: EmbeddingConfig, actual: number): void {
+  if (config.dimension && config.dimension !== actual) {
+    throw new Error(`Embedding model ${config.model} returned ${actual}-dim vectors, expected ${config.dimension}`);
+  }
+}
+
+// ─── transformers.js (worker thread) ──────────────────────────────────
+
+export class TransformersEmbedder implements EmbeddingProvider {
   private worker: Worker | null = null;
   private ready = false;
   private readyPromise: Promise<void> | null = null;
+  private dimension = 0;
   private requestId = 0;
   private pending = new Map<number, {
-    resolve: (embeddings: number[][]) => void;
+    resolve: (result: any) => void;
     reject: (err: Error) => void;
   }>();
 
+  constructor(readonly config: EmbeddingConfig = DEFAULT_EMBEDDING_CONFIG) {}
+
   /**
    * Start the worker thread and wait for model load.
    */
@@ -38,7 +128,7 @@ export class Embedder {
 
     this.readyPromise = new Promise<void>((resolve, reject) => {
       const startTime = Date.now();
-      console.log('[Embedder] Starting worker thread...');
+      console.log(`[Embedder] Starting worker thread for ${this.config.model}...`);
 
       const workerPath = path.join(__dirname, 'embedder-worker.js');
       this.worker = new Worker(workerPath, {
@@ -46,18 +136,32 @@ export class Embedder {
           ...process.env,
           LM_ASSIST_DATA_DIR: getDataDir(),
         },
+        workerData: { model: this.config.model },
       });
 
       this.worker.on('message', (msg: any) => {
         if (msg.type === 'ready') {
+          if (!msg.dimension) {
+            reject(new Error(`Failed to load embedding model ${this.config.model}: ${msg.error || 'unknown error'}`));
+            this.destroy();
+            return;
+          }
+          try {
+            checkDimension(this.config, msg.dimension);
+          } catch (err: any) {
+            reject(err);
+            this.destroy();
+            return;
+          }
+          this.dimension = msg.dimension;
           this.ready = true;
-          console.log(`[Embedder] Worker ready in ${Date.now() - startTime}ms`);
+          console.log(`[Embedder] Worker ready in ${Date.now() - startTime}ms (${this.config.model}, ${msg.dimension}-dim)`);
           resolve();
         } else if (msg.type === 'result') {
           const p = this.pending.get(msg.id);
           if (p) {
             this.pending.delete(msg.id);
-            p.resolve(msg.embeddings);
+            p.resolve(msg.embeddings ?? msg.scores);
           }
         } else if (msg.type === 'error') {
           const p = this.pending.get(msg.id);
@@ -92,23 +196,33 @@ export class Embedder {
   }
 
   /**
-   * Send texts to the worker and receive embeddings back.
+   * Send a request to the worker and receive its result back.
    * Fully async — does not block the main event loop.
    */
-  private async requestEmbed(texts: string[]): Promise<number[][]> {
+  private async request<T>(message: Record<string, unknown>): Promise<T> {
     await this.load();
     if (!this.worker) throw new Error('Embedder worker not available');
 
     const id = this.requestId++;
     return new Promise((resolve, reject) => {
       this.pending.set(id, { resolve, reject });
-      this.worker!.postMessage({ type: 'embed', id, texts });
+      this.worker!.postMessage({ ...message, id });
     });
   }
 
+  private requestEmbed(texts: string[]): Promise<number[][]> {
+    return this.request<number[][]>({ type: 'embed', texts });
+  }
+
   /**
-   * Embed a single text string into a 384-dim vector
+   * Score documents against a query with a cross-encoder model (0-1 relevance).
+   * The model loads on the worker on first use.
    */
+  async rerank(model: string, query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) return [];
+    return this.request<number[]>({ type: 'rerank', model, query, documents });
+  }
+
   async embed(text: string): Promise<number[]> {
     const [result] = await this.requestEmbed([text]);
     return result;
@@ -123,45 +237,155 @@ export class Embedder {
     return this.requestEmbed(texts);
   }
 
-  /**
-   * Check if model is loaded
-   */
   isLoaded(): boolean {
     return this.ready;
   }
 
+  getDimension(): number {
+    return this.dimension || this.config.dimension || 0;
+  }
+
+  destroy(): void {
+    if (this.worker) {
+      try {
+        this.worker.terminate();
+      } catch {}
+    }
+    this.ready = false;
+    this.readyPromise = null;
+    this.worker = null;
+  }
+}
+
+/** @deprecated Use TransformersEmbedder / EmbeddingProvider */
+export { TransformersEmbedder as Embedder };
+
+// ─── OpenAI-compatible HTTP endpoint ──────────────────────────────────
+
+export class HttpEmbedder implements EmbeddingProvider {
+  private dimension: number;
+  private loaded = false;
+
+  constructor(readonly config: EmbeddingConfig) {
+    this.dimension = config.dimension || 0;
+  }
+
   /**
-   * Get vector dimension
+   * Probe the endpoint once to confirm it serves the model and learn the dimension.
    */
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    const [probe] = await this.request(['dimension probe']);
+    checkDimension(this.config, probe.length);
+    this.dimension = probe.length;
+    this.loaded = true;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [result] = await this.embedBatch([text]);
+    return result;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    await this.load();
+
+    const results: number[][] = [];
+    for (let i = 0; i < texts.length; i += HTTP_BATCH_SIZE) {
+      results.push(...await this.request(texts.slice(i, i + HTTP_BATCH_SIZE)));
+    }
+    return results;
+  }
+
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
   getDimension(): number {
-    return VECTOR_DIM;
+    return this.dimension;
+  }
+
+  destroy(): void {
+    this.loaded = false;
+  }
+
+  private async request(texts: string[]): Promise<number[][]> {
+    const baseUrl = (this.config.baseUrl || '').replace(/\/+$/, '');
+    if (!baseUrl) throw new Error('embeddingBaseUrl is required for the openai-compatible provider');
+
+    const response = await fetch(`${baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.config.model,
+        input: texts.map(t => t.length > MAX_TEXT_CHARS ? t.slice(0, MAX_TEXT_CHARS) : t),
+      }),
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Embedding endpoint ${baseUrl} returned ${response.status}`);
+    }
+
+    const data = await response.json() as any;
+    const rows: Array<{ index?: number; embedding: number[] }> = Array.isArray(data?.data) ? data.data : [];
+    if (rows.length !== texts.length) {
+      throw new Error(`Embedding endpoint returned ${rows.length} vectors for ${texts.length} inputs`);
+    }
+    return rows
+      .map((row, i) => ({ index: row.index ?? i, vector: normalize(row.embedding) }))
+      .sort((a, b) => a.index - b.index)
+      .map(r => r.vector);
   }
 }
 
-// Singleton
-let instance: Embedder | null = null;
+// ─── Factory / Registry ──────────────────────────────────────────────────
+
+export function createEmbedder(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return new HttpEmbedder(config);
+    case 'transformers':
+    default:
+      return new TransformersEmbedder(config);
+  }
+}
 
-export function getEmbedder(): Embedder {
+// One instance per model key
+const instances = new Map<string, EmbeddingProvider>();
+
+/**
+ * Get the embedder for a model (default: the one selected in settings).
+ */
+export function getEmbedder(config: EmbeddingConfig = getEmbeddingConfig()): EmbeddingProvider {
+  const key = embeddingModelKey(config);
+  let instance = instances.get(key);
   if (!instance) {
-    instance = new Embedder();
+    instance = createEmbedder(config);
+    instances.set(key, instance);
   }
   return instance;
 }
 
-/** Destroy the embedder singleton and terminate the worker thread to free memory. */
+/**
+ * Release one model's embedder (e.g. the previous model after a reindex cutover).
+ */
+export function releaseEmbedder(config: EmbeddingConfig): void {
+  const key = embeddingModelKey(config);
+  const instance = instances.get(key);
+  if (!instance) return;
+  instance.destroy();
+  instances.delete(key);
+  console.log(`[Embedder] Released ${key}`);
+}
+
+/** Destroy all embedders and terminate worker threads to free memory. */
 export function destroyEmbedder(): void {
-  if (instance) {
-    if (instance['worker']) {
-      try {
-        instance['worker'].terminate();
-      } catch {}
-    }
-    instance['ready'] = false;
-    instance['readyPromise'] = null;
-    instance['worker'] = null;
-    instance = null;
-    console.log('[Embedder] Destroyed — worker thread terminated');
+  if (instances.size === 0) return;
+  for (const instance of instances.values()) {
+    instance.destroy();
   }
+  instances.clear();
+  console.log('[Embedder] Destroyed — worker threads terminated');
 }
 
 export { VECTOR_DIM };
@@ -0,0 +1,581 @@
+/**
+ * Vector Index Queue
+ *
+ * Persistent work queue for incremental vector indexing. Knowledge documents
+ * and sessions are queued when they change and indexed one at a time; every
+ * indexed item records a content hash, so unchanged items are never embedded
+ * again and a restart continues with whatever was still queued.
+ *
+ * Sources:
+ *   - knowledge store writes/deletes (local knowledge): the document is
+ *     re-embedded when the hash of its vector texts changed, and its vectors
+ *     removed when it is deleted or no longer indexable (BAD, excluded, pending)
+ *   - POST /vectors/index with ids: re-embedded even when the hash matches
+ *   - session cache updates: tool results after the last indexed line
+ *     (tool-result-indexer.ts, only with toolResultIndexing on)
+ *   - syncKnowledge(): hash sweep over the whole store (startup, generation)
+ *
+ * Also keeps the checkpoint of a running full rebuild (reindex.ts), so a
+ * rebuild interrupted by a restart resumes from its shadow table.
+ *
+ * Items are tied to the active vector table; when it changes (a rebuild
+ * cutover) knowledge already in the new table is adopted without embedding.
+ *
+ * State: ~/.lm-assist/lance-store/index-queue.json
+ * Singleton via getVectorIndexQueue().
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { getDataDir } from '../utils/path-utils';
+import { getKnowledgeSettings } from '../knowledge/settings';
+import { getKnowledgeStore } from '../knowledge/store';
+import type { Knowledge } from '../knowledge/types';
+import type { SessionCacheData } from '../session-cache';
+import { getVectorStore, getReindexStatus } from './vector-store';
+import { extractKnowledgeVectors, type IndexableItem } from './indexer';
+
+// ─── Types ──────────────────────────────────────────────────
+
+export type IndexItemKind = 'knowledge' | 'session';
+
+interface IndexedItem {
+  kind: IndexItemKind;
+  /** Hash of the embedded content (chained over deltas for sessions) */
+  hash: string;
+  vectors: number;
+  indexedAt: string;
+  /** Sessions: last JSONL line covered */
+  lastLineIndex?: number;
+}
+
+export interface QueueEntry {
+  key: string;
+  kind: IndexItemKind;
+  id: string;
+  /** Sessions: transcript, project and the cache's line index when queued */
+  filePath?: string;
+  projectPath?: string;
+  lastLineIndex?: number;
+  /** Knowledge: re-embed even when the content hash is unchanged */
+  force?: boolean;
+  enqueuedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface ReindexCheckpoint {
+  /** Shadow table the rebuild is filling */
+  table: string;
+  reason: 'manual' | 'model-change';
+  /** Embedding model key (provider:model) */
+  model: string;
+  startedAt: string;
+}
+
+interface IndexQueueTotals {
+  processed: number;
+  /** Processed without embedding anything (hash unchanged) */
+  unchanged: number;
+  vectorsAdded: number;
+  vectorsRemoved: number;
+  /** Dropped after MAX_ATTEMPTS failures */
+  failed: number;
+}
+
+interface IndexQueueStateFile {
+  /** Vector table the items were indexed into */
+  table: string;
+  items: Record<string, IndexedItem>;
+  pending: QueueEntry[];
+  reindex: ReindexCheckpoint | null;
+  totals: IndexQueueTotals;
+}
+
+export interface IndexQueueStatus {
+  draining: boolean;
+  pending: {
+    total: number;
+    knowledge: number;
+    session: number;
+    oldestEnqueuedAt: string | null;
+  };
+  /** Oldest queued items first */
+  backlog: Array<QueueEntry & { waitingMs: number }>;
+  indexed: { knowledge: number; session: number };
+  throughput: {
+    windowMinutes: number;
+    itemsPerMinute: number;
+    vectorsPerMinute: number;
+    avgItemMs: number;
+  };
+  totals: IndexQueueTotals;
+  lastDrainAt: string | null;
+  reindex: ReindexCheckpoint | null;
+}
+
+interface ItemOutcome {
+  vectorsAdded: number;
+  vectorsRemoved: number;
+  unchanged: boolean;
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const STATE_FILE = path.join(getDataDir(), 'lance-store', 'index-queue.json');
+
+/** Debounce between a change and the drain, so bursts are indexed together */
+const DRAIN_DELAY_MS = 2_000;
+
+/** Wait while a rebuild or tool result run holds the index */
+const RETRY_DELAY_MS = 30_000;
+
+const MAX_ATTEMPTS = 5;
+const BACKLOG_LIMIT = 50;
+const THROUGHPUT_WINDOW_MS = 5 * 60_000;
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+function knowledgeKey(id: string): string {
+  return `knowledge:${id}`;
+}
+
+function sessionKey(id: string): string {
+  return `session:${id}`;
+}
+
+function emptyTotals(): IndexQueueTotals {
+  return { processed: 0, unchanged: 0, vectorsAdded: 0, vectorsRemoved: 0, failed: 0 };
+}
+
+/**
+ * Vectors for a local knowledge document, or null when it should not be
+ * searchable (same rules as collectKnowledgeVectors in reindex.ts).
+ */
+function knowledgeVectors(knowledge: Knowledge | null): IndexableItem[] | null {
+  if (!knowledge || knowledge.origin === 'remote') return null;
+  if (knowledge.reviewRating === 'bad') return null;
+  if (knowledge.status === 'excluded' || knowledge.status === 'pending') return null;
+  return extractKnowledgeVectors(knowledge);
+}
+
+function hashVectors(items: IndexableItem[]): string {
+  const hash = crypto.createHash('sha256');
+  for (const item of items) {
+    hash.update(item.metadata.projectPath || '');
+    hash.update('\u0000');
+    hash.update(item.text);
+    hash.update('\u0000');
+  }
+  return hash.digest('hex').slice(0, 16);
+}
+
+// ─── Queue ──────────────────────────────────────────────────
+
+class VectorIndexQueue {
+  private state: IndexQueueStateFile | null = null;
+  private started = false;
+  private draining = false;
+  private syncRequested = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private lastDrainAt: string | null = null;
+  private samples: Array<{ at: number; vectors: number; ms: number }> = [];
+
+  /**
+   * Subscribe to knowledge and session changes and sweep for knowledge that
+   * changed while the server was down.
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    // Remote knowledge is indexed by remote-sync; deletions carry no origin and
+    // are resolved against the local store when processed
+    getKnowledgeStore().onChange((id, knowledge) => {
+      if (knowledge?.origin === 'remote') return;
+      this.enqueueKnowledge([id]);
+    });
+
+    const { getSessionCache } = require('../session-cache');
+    getSessionCache().onSessionChange((sessionId: string, cacheData: SessionCacheData) => {
+      this.enqueueSession(sessionId, cacheData);
+    });
+
+    this.syncKnowledge();
+  }
+
+  /**
+   * Queue knowledge documents for (re)indexing or removal. With `force`,
+   * they are re-embedded even if their content is unchanged.
+   */
+  enqueueKnowledge(ids: string[], force = false): void {
+    const state = this.getState();
+    for (const id of ids) {
+      this.push(state, { key: knowledgeKey(id), kind: 'knowledge', id, ...(force ? { force: true } : {}) });
+    }
+    this.schedule();
+  }
+
+  /**
+   * Queue a session whose transcript grew past its last indexed line.
+   */
+  enqueueSession(sessionId: string, cacheData: SessionCacheData): void {
+    if (!getKnowledgeSettings().toolResultIndexing) return;
+    if (!cacheData.filePath || cacheData.filePath.includes(`${path.sep}subagents${path.sep}`)) return;
+
+    const state = this.getState();
+    const key = sessionKey(sessionId);
+    const item = state.items[key];
+    if (item?.lastLineIndex !== undefined && item.lastLineIndex >= cacheData.lastLineIndex) return;
+
+    const { getProjectPathForSession } = require('../search/text-scorer');
+    this.push(state, {
+      key,
+      kind: 'session',
+      id: sessionId,
+      filePath: cacheData.filePath,
+      projectPath: getProjectPathForSession(cacheData, cacheData.filePath),
+      lastLineIndex: cacheData.lastLineIndex,
+    });
+    this.schedule();
+  }
+
+  /**
+   * Compare every local knowledge document against its recorded hash on the
+   * next drain and queue the ones that changed.
+   */
+  syncKnowledge(): void {
+    this.syncRequested = true;
+    this.schedule();
+  }
+
+  /**
+   * Run the hash sweep now and return how many documents it queued.
+   */
+  queueChangedKnowledge(): number {
+    const state = this.getState();
+    const queued = this.sweepKnowledge(state);
+    this.saveState(state);
+    this.schedule();
+    return queued;
+  }
+
+  // ── Rebuild checkpoint ──────────────────────────────────────────
+
+  getReindexCheckpoint(): ReindexCheckpoint | null {
+    return this.getState().reindex;
+  }
+
+  setReindexCheckpoint(checkpoint: ReindexCheckpoint | null): void {
+    const state = this.getState();
+    state.reindex = checkpoint;
+    this.saveState(state);
+  }
+
+  // ── Status ──────────────────────────────────────────
+
+  getStatus(): IndexQueueStatus {
+    const state = this.getState();
+    const now = Date.now();
+    this.pruneSamples(now);
+
+    const indexed = { knowledge: 0, session: 0 };
+    for (const item of Object.values(state.items)) indexed[item.kind]++;
+
+    const windowMinutes = THROUGHPUT_WINDOW_MS / 60_000;
+    const totalMs = this.samples.reduce((sum, s) => sum + s.ms, 0);
+    const vectors = this.samples.reduce((sum, s) => sum + s.vectors, 0);
+
+    return {
+      draining: this.draining,
+      pending: {
+        total: state.pending.length,
+        knowledge: state.pending.filter(e => e.kind === 'knowledge').length,
+        session: state.pending.filter(e => e.kind === 'session').length,
+        oldestEnqueuedAt: state.pending[0]?.enqueuedAt || null,
+      },
+      backlog: state.pending.slice(0, BACKLOG_LIMIT).map(e => ({
+        ...e,
+        waitingMs: now - new Date(e.enqueuedAt).getTime(),
+      })),
+      indexed,
+      throughput: {
+        windowMinutes,
+        itemsPerMinute: Math.round((this.samples.length / windowMinutes) * 10) / 10,
+        vectorsPerMinute: Math.round((vectors / windowMinutes) * 10) / 10,
+        avgItemMs: this.samples.length > 0 ? Math.round(totalMs / this.samples.length) : 0,
+      },
+      totals: { ...state.totals },
+      lastDrainAt: this.lastDrainAt,
+      reindex: state.reindex,
+    };
+  }
+
+  // ── Draining ──────────────────────────────────────────
+
+  private schedule(delayMs = DRAIN_DELAY_MS): void {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain().catch(err => console.error('[IndexQueue] Drain failed:', err.message));
+    }, delayMs);
+  }
+
+  /**
+   * Process queued items in order. Each item stays queued until it is done,
+   * and the state is saved after every item.
+   */
+  private async drain(): Promise<void> {
+    // Items queued meanwhile are picked up by the running loop
+    if (this.draining) return;
+    this.draining = true;
+
+    const vectra = getVectorStore();
+    const state = this.getState();
+    const deferred: QueueEntry[] = [];
+    let vectorsChanged = 0;
+
+    try {
+      // Started alongside the store's pre-warm — wait for it to open
+      try {
+        await vectra.init();
+      } catch (err: any) {
+        console.warn('[IndexQueue] Vector store not ready:', err.message);
+        this.schedule(RETRY_DELAY_MS);
+        return;
+      }
+
+      // A rebuild replaces the table; changes made meanwhile are caught up after cutover
+      if (getReindexStatus().status === 'running') {
+        this.saveState(state);
+        this.schedule(RETRY_DELAY_MS);
+        return;
+      }
+
+      const { table } = await vectra.getIndexInfo();
+      if (state.table !== table) await this.adoptTable(state, table);
+
+      while (true) {
+        if (this.syncRequested) {
+          this.syncRequested = false;
+          const queued = this.sweepKnowledge(state);
+          if (queued > 0) console.log(`[IndexQueue] ${queued} knowledge documents changed since last indexed`);
+        }
+
+        const entry = state.pending[0];
+        if (!entry) break;
+        if (getReindexStatus().status === 'running') break;
+
+        const startMs = Date.now();
+        try {
+          const outcome = entry.kind === 'knowledge'
+            ? await this.indexKnowledge(state, entry)
+            : await this.indexSession(state, entry);
+          state.pending.shift();
+
+          if (!outcome) {
+            // Tool result indexer busy with its periodic run
+            deferred.push(entry);
+          } else {
+            state.totals.processed++;
+            if (outcome.unchanged) state.totals.unchanged++;
+            state.totals.vectorsAdded += outcome.vectorsAdded;
+            state.totals.vectorsRemoved += outcome.vectorsRemoved;
+            vectorsChanged += outcome.vectorsAdded + outcome.vectorsRemoved;
+            this.samples.push({ at: Date.now(), vectors: outcome.vectorsAdded, ms: Date.now() - startMs });
+          }
+        } catch (err: any) {
+          state.pending.shift();
+          entry.attempts++;
+          entry.lastError = err.message;
+          if (entry.attempts >= MAX_ATTEMPTS) {
+            state.totals.failed++;
+            console.warn(`[IndexQueue] Giving up on ${entry.key} after ${entry.attempts} attempts: ${err.message}`);
+          } else {
+            deferred.push(entry);
+          }
+        }
+        this.saveState(state);
+      }
+
+      if (deferred.length > 0 || state.pending.length > 0) {
+        state.pending.push(...deferred);
+        this.schedule(RETRY_DELAY_MS);
+      }
+      this.saveState(state);
+
+      if (vectorsChanged > 0) await vectra.rebuildFtsIndex();
+    } finally {
+      this.draining = false;
+      this.lastDrainAt = new Date().toISOString();
+    }
+  }
+
+  private async indexKnowledge(state: IndexQueueStateFile, entry: QueueEntry): Promise<ItemOutcome> {
+    const vectra = getVectorStore();
+    const vectors = knowledgeVectors(getKnowledgeStore().getKnowledge(entry.id));
+    const item = state.items[entry.key];
+
+    if (!vectors) {
+      delete state.items[entry.key];
+      const removed = await vectra.deleteKnowledge(entry.id);
+      return { vectorsAdded: 0, vectorsRemoved: removed, unchanged: removed === 0 };
+    }
+
+    const hash = hashVectors(vectors);
+    if (item?.hash === hash && !entry.force) {
+      return { vectorsAdded: 0, vectorsRemoved: 0, unchanged: true };
+    }
+
+    const removed = await vectra.deleteKnowledge(entry.id);
+    if (vectors.length > 0) await vectra.addVectors(vectors);
+    state.items[entry.key] = {
+      kind: 'knowledge',
+      hash,
+      vectors: vectors.length,
+      indexedAt: new Date().toISOString(),
+    };
+    return { vectorsAdded: vectors.length, vectorsRemoved: removed, unchanged: false };
+  }
+
+  /**
+   * Returns null when the tool result indexer is busy — the entry is retried.
+   */
+  private async indexSession(state: IndexQueueStateFile, entry: QueueEntry): Promise<ItemOutcome | null> {
+    // Transcript deleted — the periodic run removes its vectors
+    if (!entry.filePath || !fs.existsSync(entry.filePath)) {
+      delete state.items[entry.key];
+      return { vectorsAdded: 0, vectorsRemoved: 0, unchanged: true };
+    }
+
+    const { getToolResultIndexer } = require('./tool-result-indexer');
+    const delta = await getToolResultIndexer().indexSession(entry.id, entry.projectPath || '', entry.filePath);
+    if (!delta) return null;
+
+    // Evicted sessions come back through the periodic run when they fit the cap
+    if (delta.skipped !== 'evicted') {
+      state.items[entry.key] = {
+        kind: 'session',
+        hash: delta.contentHash,
+        vectors: delta.vectors,
+        indexedAt: new Date().toISOString(),
+        lastLineIndex: delta.lastLineIndex,
+      };
+    }
+    return { vectorsAdded: delta.vectorsAdded, vectorsRemoved: 0, unchanged: delta.vectorsAdded === 0 };
+  }
+
+  /**
+   * Queue local knowledge whose hash differs from what was indexed, and
+   * documents that were indexed but have since been deleted.
+   */
+  private sweepKnowledge(state: IndexQueueStateFile): number {
+    const seen = new Set<string>();
+    let queued = 0;
+
+    for (const knowledge of getKnowledgeStore().getAllKnowledge(undefined, undefined, undefined, 'local')) {
+      const key = knowledgeKey(knowledge.id);
+      seen.add(key);
+      const vectors = knowledgeVectors(knowledge);
+      const item = state.items[key];
+      const changed = vectors ? item?.hash !== hashVectors(vectors) : !!item;
+      if (changed) {
+        this.push(state, { key, kind: 'knowledge', id: knowledge.id });
+        queued++;
+      }
+    }
+
+    for (const [key, item] of Object.entries(state.items)) {
+      if (item.kind !== 'knowledge' || seen.has(key)) continue;
+      this.push(state, { key, kind: 'knowledge', id: key.slice('knowledge:'.length) });
+      queued++;
+    }
+
+    return queued;
+  }
+
+  /**
+   * Start tracking a new table (first run, or a rebuild cutover). Knowledge
+   * already in it is recorded as indexed without embedding; session items
+   * reset along with the tool result index.
+   */
+  private async adoptTable(state: IndexQueueStateFile, table: string): Promise<void> {
+    const indexedIds = new Set(await getVectorStore().getIndexedKnowledgeIds());
+    const now = new Date().toISOString();
+
+    state.table = table;
+    state.items = {};
+    for (const knowledge of getKnowledgeStore().getAllKnowledge(undefined, undefined, undefined, 'local')) {
+      if (!indexedIds.has(knowledge.id)) continue;
+      const vectors = knowledgeVectors(knowledge);
+      if (!vectors) continue;
+      state.items[knowledgeKey(knowledge.id)] = {
+        kind: 'knowledge',
+        hash: hashVectors(vectors),
+        vectors: vectors.length,
+        indexedAt: now,
+      };
+    }
+
+    console.log(`[IndexQueue] Tracking ${table}: ${Object.keys(state.items).length} knowledge documents already indexed`);
+    this.syncRequested = true;
+  }
+
+  private push(state: IndexQueueStateFile, entry: Omit<QueueEntry, 'enqueuedAt' | 'attempts'>): void {
+    const existing = state.pending.find(e => e.key === entry.key);
+    if (existing) {
+      // Keep its place in the queue; take the newer session position
+      Object.assign(existing, entry);
+      return;
+    }
+    state.pending.push({ ...entry, enqueuedAt: new Date().toISOString(), attempts: 0 });
+  }
+
+  private pruneSamples(now: number): void {
+    while (this.samples.length > 0 && now - this.samples[0].at > THROUGHPUT_WINDOW_MS) {
+      this.samples.shift();
+    }
+  }
+
+  // ── State ──────────────────────────────────────────
+
+  private getState(): IndexQueueStateFile {
+    if (this.state) return this.state;
+
+    let state: IndexQueueStateFile = { table: '', items: {}, pending: [], reindex: null, totals: emptyTotals() };
+    try {
+      if (fs.existsSync(STATE_FILE)) {
+        const data = JSON.parse(fs.readFileSync(STATE_FILE, 'utf-8'));
+        if (data && typeof data.items === 'object' && Array.isArray(data.pending)) {
+          state = { ...state, ...data, totals: { ...emptyTotals(), ...data.totals } };
+        }
+      }
+    } catch {
+      // Corrupt state — the table check re-adopts what the vector store holds
+    }
+    this.state = state;
+    return state;
+  }
+
+  private saveState(state: IndexQueueStateFile): void {
+    const dir = path.dirname(STATE_FILE);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    // Rewritten after every item, so kept compact
+    fs.writeFileSync(STATE_FILE, JSON.stringify(state));
+    this.state = state;
+  }
+}
+
+// ─── Singleton ──────────────────────────────────────────────────
+
+let instance: VectorIndexQueue | null = null;
+
+export function getVectorIndexQueue(): VectorIndexQueue {
+  if (!instance) {
+    instance = new VectorIndexQueue();
+  }
+  return instance;
+}
@@ -0,0 +1,169 @@
+/**
+ * Knowledge Reindex
+ *
+ * Rebuilds the vector index from the knowledge store (local + remote, skipping
+ * BAD-rated and excluded documents) with the embedding model selected in
+ * settings. The rebuild runs in the background into a shadow table
+ * (VectorStore.rebuildIndex), so search keeps working on the old index until
+ * cutover. Progress is reported through ReindexStatus.
+ *
+ * The shadow table is checkpointed in the index queue (index-queue.ts): a
+ * rebuild interrupted by a restart or an error continues from it at the next
+ * startup or model-change rebuild instead of embedding everything again, as
+ * long as the model is unchanged. A manual reindex always starts fresh.
+ *
+ * Session vectors (indexed tool results) are not rebuilt here: with an
+ * unchanged model they are copied into the new table; after a model change
+ * the tool-result indexer re-embeds them.
+ *
+ * Triggered by POST /vectors/reindex, by an embedding model change in
+ * knowledge settings, and at startup when the active index was built with a
+ * different model or a rebuild was interrupted.
+ */
+
+import { getVectorStore, getReindexStatus, setReindexStatus, type VectorMetadata } from './vector-store';
+import { getEmbeddingConfig, embeddingModelKey } from './embedder';
+import { extractKnowledgeVectors } from './indexer';
+import { getKnowledgeStore } from '../knowledge/store';
+import { getVectorIndexQueue } from './index-queue';
+
+export interface KnowledgeVectorCollection {
+  vectors: Array<{ text: string; metadata: VectorMetadata }>;
+  documents: number;
+  badSkipped: number;
+  excludedSkipped: number;
+}
+
+export interface KnowledgeReindexOptions {
+  /** Discard the shadow table of an interrupted rebuild instead of continuing it */
+  fresh?: boolean;
+}
+
+export interface KnowledgeReindexStart {
+  documentsToProcess: number;
+  vectorsToIndex: number;
+  badSkipped: number;
+  excludedSkipped: number;
+  model: string;
+  /** Continuing the shadow table of an interrupted rebuild */
+  resumed: boolean;
+}
+
+/**
+ * Collect vector texts+metadata for all indexable knowledge (cheap, no embedding).
+ */
+export function collectKnowledgeVectors(): KnowledgeVectorCollection {
+  const allKnowledge = getKnowledgeStore().getAllKnowledge();
+  const vectors: Array<{ text: string; metadata: VectorMetadata }> = [];
+  let badSkipped = 0;
+  let excludedSkipped = 0;
+
+  for (const knowledge of allKnowledge) {
+    if (knowledge.reviewRating === 'bad') { badSkipped++; continue; }
+    if (knowledge.status === 'excluded') { excludedSkipped++; continue; }
+    if (knowledge.status === 'pending') continue;
+    const remoteOrigin = knowledge.origin === 'remote' && knowledge.machineId
+      ? { machineId: knowledge.machineId, machineHostname: knowledge.machineHostname || '', machineOS: knowledge.machineOS || '' }
+      : undefined;
+    vectors.push(...extractKnowledgeVectors(knowledge, knowledge.project, remoteOrigin));
+  }
+
+  return { vectors, documents: allKnowledge.length, badSkipped, excludedSkipped };
+}
+
+/**
+ * Start a background knowledge reindex with the configured embedding model.
+ * Returns null if a reindex is already running.
+ */
+export function startKnowledgeReindex(
+  reason: 'manual' | 'model-change',
+  options: KnowledgeReindexOptions = {},
+): KnowledgeReindexStart | null {
+  if (getReindexStatus().status === 'running') return null;
+
+  const config = getEmbeddingConfig();
+  const model = embeddingModelKey(config);
+  const collection = collectKnowledgeVectors();
+  const queue = getVectorIndexQueue();
+
+  // A checkpoint for another model (or a fresh run) is still passed on so its table gets dropped
+  const interrupted = queue.getReindexCheckpoint();
+  const resumed = !options.fresh && interrupted?.model === model;
+  const startedAt = resumed ? interrupted!.startedAt : new Date().toISOString();
+
+  setReindexStatus({
+    type: 'knowledge',
+    status: 'running',
+    reason,
+    model,
+    vectorsIndexed: 0,
+    vectorsTotal: collection.vectors.length,
+    vectorsResumed: undefined,
+    startedAt,
+    completedAt: null,
+    error: undefined,
+  });
+
+  (async () => {
+    const vectra = getVectorStore();
+    try {
+      const startMs = Date.now();
+      console.log(`[Reindex] Starting knowledge (${reason}, ${model}): ${collection.vectors.length} vectors from ${collection.documents} docs (${collection.badSkipped} BAD + ${collection.excludedSkipped} excluded skipped)`);
+
+      let first = true;
+      const total = await vectra.rebuildIndex(
+        config,
+        // First call reuses the collection counted above; later calls catch up
+        () => {
+          if (first) { first = false; return collection.vectors; }
+          return collectKnowledgeVectors().vectors;
+        },
+        (vectorsIndexed) => setReindexStatus({ vectorsIndexed }),
+        {
+          resumeTable: interrupted?.table,
+          fresh: options.fresh,
+          carryOverSessions: true,
+          onShadowTable: (table, vectorsResumed) => {
+            queue.setReindexCheckpoint({ table, reason, model, startedAt });
+            if (vectorsResumed > 0) setReindexStatus({ vectorsResumed, vectorsIndexed: vectorsResumed });
+          },
+        },
+      );
+
+      queue.setReindexCheckpoint(null);
+      setReindexStatus({ status: 'done', vectorsIndexed: total, completedAt: new Date().toISOString() });
+      console.log(`[Reindex] Knowledge done: ${total} vectors in ${((Date.now() - startMs) / 1000).toFixed(1)}s`);
+    } catch (err: any) {
+      setReindexStatus({ status: 'error', error: err.message, completedAt: new Date().toISOString() });
+      console.error('[Reindex] Knowledge error:', err.message, err.stack);
+      return;
+    }
+
+    // Adopt the new table and index anything changed since the final catch-up
+    queue.syncKnowledge();
+
+    // The model may have changed again while this run was in flight
+    try {
+      if (await vectra.needsMigration()) startKnowledgeReindex('model-change');
+    } catch { /* checked again at next startup */ }
+  })();
+
+  return {
+    documentsToProcess: collection.documents,
+    vectorsToIndex: collection.vectors.length,
+    badSkipped: collection.badSkipped,
+    excludedSkipped: collection.excludedSkipped,
+    model,
+    resumed,
+  };
+}
+
+/**
+ * Continue a rebuild interrupted by the last shutdown. Returns null when
+ * there is none (or one is already running).
+ */
+export function resumeInterruptedReindex(): KnowledgeReindexStart | null {
+  const checkpoint = getVectorIndexQueue().getReindexCheckpoint();
+  if (!checkpoint) return null;
+  return startKnowledgeReindex(checkpoint.reason);
+}
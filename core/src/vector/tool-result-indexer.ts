@@ -0,0 +1,417 @@
+/**
+ * Tool Result Indexer
+ *
+ * Opt-in (knowledge setting toolResultIndexing) indexing of the large tool
+ * results in session transcripts, so search can answer "where did an agent
+ * last look at X" with the exact session:lineIndex.
+ *
+ * Read, Edit/MultiEdit and Bash results are chunked along language-aware
+ * boundaries (chunker.ts) and stored as session vectors with
+ * contentType 'tool_result', the file path, the tool call's JSONL line and the
+ * file lines each chunk covers.
+ *
+ * Runs incrementally: the vector index queue (index-queue.ts) indexes a
+ * session's new lines as soon as the session cache sees it grow, and the
+ * scheduler's periodic run() catches up on anything missed. Either way a
+ * session is re-read only when its file grew, starting after the last indexed
+ * line. Storage is capped per project (toolResultMaxVectorsPerProject) by
+ * run() — sessions are kept newest first and older ones evicted once the cap
+ * is reached.
+ *
+ * The index follows the active vector table. A knowledge rebuild with the
+ * same model carries the tool result vectors into its new table; after a
+ * model-change rebuild the state resets and sessions are re-indexed.
+ *
+ * State: ~/.lm-assist/lance-store/tool-result-index.json
+ * Singleton via getToolResultIndexer().
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { getDataDir } from '../utils/path-utils';
+import { getKnowledgeSettings } from '../knowledge/settings';
+import { getVectorStore, type VectorIndexInfo } from './vector-store';
+import { chunkText } from './chunker';
+import type { IndexableItem } from './indexer';
+
+// ─── Types ──────────────────────────────────────────────────
+
+interface SessionIndexState {
+  projectPath: string;
+  /** Session file size when last indexed */
+  sizeBytes: number;
+  /** Last JSONL line whose tool results were processed */
+  lastLineIndex: number;
+  vectors: number;
+  lastModified: string;
+  /** Hash chained over the chunk texts indexed so far */
+  contentHash?: string;
+  /** Dropped to stay under the project cap; re-indexed if the session grows */
+  evicted?: boolean;
+}
+
+interface ToolResultIndexStateFile {
+  /** Vector table the index was built against */
+  table: string;
+  /** Embedding model key (provider:model) of that table */
+  model?: string;
+  sessions: Record<string, SessionIndexState>;
+}
+
+export interface SessionIndexDelta {
+  vectorsAdded: number;
+  /** Tool result vectors now held for the session */
+  vectors: number;
+  lastLineIndex: number;
+  contentHash: string;
+  /** Set when nothing was read: the file did not grow, or the session is evicted */
+  skipped?: 'unchanged' | 'evicted';
+}
+
+export interface ToolResultIndexRun {
+  sessionsIndexed: number;
+  vectorsAdded: number;
+  sessionsEvicted: number;
+  vectorsEvicted: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const STATE_FILE = path.join(getDataDir(), 'lance-store', 'tool-result-index.json');
+
+const INDEXED_TOOLS = new Set(['Read', 'Edit', 'MultiEdit', 'Bash']);
+
+/** Tool results shorter than this are not worth embedding */
+const MIN_RESULT_CHARS = 200;
+
+/** Chunks kept per tool result (the head of very large outputs) */
+const MAX_CHUNKS_PER_RESULT = 20;
+
+/** Sessions (re)indexed per run — the rest wait for the next tick */
+const MAX_SESSIONS_PER_RUN = 25;
+
+// ─── Extraction ──────────────────────────────────────────────────
+
+function resultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .filter((b: any) => b?.type === 'text' && b.text)
+      .map((b: any) => b.text)
+      .join('\n');
+  }
+  return '';
+}
+
+function describeCall(name: string, input: any): { filePath: string; label: string } {
+  if (name === 'Bash') {
+    const command = String(input?.command || '').replace(/\s+/g, ' ').trim();
+    return { filePath: '', label: `Bash: ${command.length > 120 ? command.slice(0, 117) + '...' : command}` };
+  }
+  const filePath = String(input?.file_path || input?.path || '');
+  return { filePath, label: `${name} ${filePath}` };
+}
+
+/**
+ * Extract chunked tool result vectors from raw session messages.
+ * Only results on lines after afterLineIndex are returned; the tool call
+ * itself may be on any earlier line.
+ */
+export function extractToolResultVectors(
+  sessionId: string,
+  projectPath: string,
+  messages: Array<any & { lineIndex: number }>,
+  afterLineIndex = -1,
+): IndexableItem[] {
+  const calls = new Map<string, { name: string; input: any; lineIndex: number }>();
+  const items: IndexableItem[] = [];
+
+  for (const msg of messages) {
+    const content = msg.message?.content;
+    if (!Array.isArray(content)) continue;
+
+    if (msg.type === 'assistant') {
+      for (const block of content) {
+        if (block?.type === 'tool_use' && block.id && INDEXED_TOOLS.has(block.name)) {
+          calls.set(block.id, { name: block.name, input: block.input, lineIndex: msg.lineIndex });
+        }
+      }
+      continue;
+    }
+
+    if (msg.type !== 'user' || msg.lineIndex <= afterLineIndex) continue;
+
+    for (const block of content) {
+      if (block?.type !== 'tool_result' || block.is_error) continue;
+      const call = calls.get(block.tool_use_id);
+      if (!call) continue;
+
+      const text = resultText(block.content);
+      if (text.length < MIN_RESULT_CHARS) continue;
+
+      const { filePath, label } = describeCall(call.name, call.input);
+      const chunks = chunkText(text, filePath || undefined).slice(0, MAX_CHUNKS_PER_RESULT);
+
+      for (const chunk of chunks) {
+        const range = chunk.startLine !== undefined ? `:${chunk.startLine}-${chunk.endLine}` : '';
+        const embedText = `${label}${range}\n${chunk.text}`;
+        items.push({
+          text: embedText,
+          metadata: {
+            type: 'session',
+            sessionId,
+            contentType: 'tool_result',
+            text: embedText,
+            timestamp: msg.timestamp,
+            projectPath,
+            filePath: filePath || undefined,
+            lineIndex: call.lineIndex,
+            startLine: chunk.startLine,
+            endLine: chunk.endLine,
+          },
+        });
+      }
+    }
+  }
+
+  return items;
+}
+
+// ─── Indexer ──────────────────────────────────────────────────
+
+class ToolResultIndexer {
+  private state: ToolResultIndexStateFile | null = null;
+  private running = false;
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Index new tool results across all projects and enforce the per-project cap.
+   */
+  async run(): Promise<ToolResultIndexRun> {
+    const result: ToolResultIndexRun = { sessionsIndexed: 0, vectorsAdded: 0, sessionsEvicted: 0, vectorsEvicted: 0 };
+    if (this.running) return result;
+    this.running = true;
+
+    try {
+      const { getProjectsService } = require('../projects-service');
+      const { getSessionReader } = require('../session-reader');
+
+      const settings = getKnowledgeSettings();
+      const vectra = getVectorStore();
+      const reader = getSessionReader();
+
+      const state = this.getState();
+      this.followTable(state, await vectra.getIndexInfo());
+
+      let budget = MAX_SESSIONS_PER_RUN;
+
+      for (const project of getProjectsService().listProjects({ includeSize: false })) {
+        const sessions = reader.listSessions(project.path);
+        const present = new Set(sessions.map((s: any) => s.sessionId));
+
+        // Sessions whose transcript is gone
+        for (const [sessionId, entry] of Object.entries(state.sessions)) {
+          if (entry.projectPath !== project.path || present.has(sessionId)) continue;
+          if (!entry.evicted) await vectra.deleteToolResults(sessionId);
+          delete state.sessions[sessionId];
+        }
+
+        // Newest first: index until the cap is reached, evict everything older
+        let kept = 0;
+        for (const session of sessions) {
+          const entry = state.sessions[session.sessionId];
+
+          if (kept >= settings.toolResultMaxVectorsPerProject) {
+            if (entry && !entry.evicted) {
+              result.vectorsEvicted += await vectra.deleteToolResults(session.sessionId);
+              result.sessionsEvicted++;
+            }
+            state.sessions[session.sessionId] = {
+              projectPath: project.path,
+              sizeBytes: session.sizeBytes,
+              lastLineIndex: -1,
+              vectors: 0,
+              lastModified: session.lastModified.toISOString(),
+              evicted: true,
+            };
+            continue;
+          }
+
+          if (entry && entry.sizeBytes === session.sizeBytes && !entry.evicted) {
+            kept += entry.vectors;
+            continue;
+          }
+          if (budget <= 0) {
+            kept += entry && !entry.evicted ? entry.vectors : 0;
+            continue;
+          }
+          budget--;
+
+          const delta = await this.indexDelta(
+            state,
+            session.sessionId,
+            project.path,
+            reader.getSessionFilePath(session.sessionId, project.path),
+            session.sizeBytes,
+            session.lastModified.toISOString(),
+          );
+          result.vectorsAdded += delta.vectorsAdded;
+          kept += delta.vectors;
+          result.sessionsIndexed++;
+        }
+      }
+
+      this.saveState(state);
+      if (result.vectorsAdded > 0) await vectra.rebuildFtsIndex();
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Index the new tool results of one session (driven by the index queue).
+   * Evicted sessions are left to run(), which owns the project cap.
+   * Returns null while run() holds the index — the caller retries later.
+   */
+  async indexSession(sessionId: string, projectPath: string, filePath: string): Promise<SessionIndexDelta | null> {
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      const state = this.getState();
+      this.followTable(state, await getVectorStore().getIndexInfo());
+
+      const entry = state.sessions[sessionId];
+      if (entry?.evicted) {
+        return { vectorsAdded: 0, vectors: 0, lastLineIndex: entry.lastLineIndex, contentHash: '', skipped: 'evicted' };
+      }
+
+      const stat = fs.statSync(filePath);
+      if (entry && entry.sizeBytes === stat.size) {
+        return {
+          vectorsAdded: 0,
+          vectors: entry.vectors,
+          lastLineIndex: entry.lastLineIndex,
+          contentHash: entry.contentHash || '',
+          skipped: 'unchanged',
+        };
+      }
+
+      const delta = await this.indexDelta(state, sessionId, projectPath, filePath, stat.size, stat.mtime.toISOString());
+      return delta;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Embed the tool results after the session's last indexed line and record
+   * the new position. Persists the state so an interrupted run doesn't re-embed.
+   */
+  private async indexDelta(
+    state: ToolResultIndexStateFile,
+    sessionId: string,
+    projectPath: string,
+    filePath: string,
+    sizeBytes: number,
+    lastModified: string,
+  ): Promise<SessionIndexDelta> {
+    const { getSessionCache } = require('../session-cache');
+    const entry = state.sessions[sessionId];
+    const previous = entry && !entry.evicted ? entry : null;
+    const fromLine = previous ? previous.lastLineIndex : -1;
+
+    const messages: any[] = await getSessionCache().getRawMessages(filePath) || [];
+    const items = extractToolResultVectors(sessionId, projectPath, messages, fromLine);
+    if (items.length > 0) {
+      await getVectorStore().addVectors(items);
+    }
+
+    const hash = crypto.createHash('sha256').update(previous?.contentHash || '');
+    for (const item of items) hash.update(item.text);
+    const contentHash = hash.digest('hex').slice(0, 16);
+
+    const updated: SessionIndexState = {
+      projectPath,
+      sizeBytes,
+      lastLineIndex: messages.length > 0 ? messages[messages.length - 1].lineIndex : fromLine,
+      vectors: (previous?.vectors || 0) + items.length,
+      lastModified,
+      contentHash,
+    };
+    state.sessions[sessionId] = updated;
+    this.saveState(state);
+
+    return { vectorsAdded: items.length, vectors: updated.vectors, lastLineIndex: updated.lastLineIndex, contentHash };
+  }
+
+  /**
+   * Indexed tool result vectors per project.
+   */
+  getStats(): Record<string, { sessions: number; vectors: number }> {
+    const stats: Record<string, { sessions: number; vectors: number }> = {};
+    for (const entry of Object.values(this.getState().sessions)) {
+      if (entry.evicted) continue;
+      const s = stats[entry.projectPath] || (stats[entry.projectPath] = { sessions: 0, vectors: 0 });
+      s.sessions++;
+      s.vectors += entry.vectors;
+    }
+    return stats;
+  }
+
+  // ── State ──────────────────────────────────────────
+
+  /**
+   * Adopt the active vector table. Same-model rebuilds carry the vectors over;
+   * a new model (or the first run) means nothing is indexed in it yet.
+   */
+  private followTable(state: ToolResultIndexStateFile, info: VectorIndexInfo): void {
+    const model = `${info.provider}:${info.model}`;
+    if (state.table !== info.table && (!state.table || state.model !== model)) {
+      state.sessions = {};
+    }
+    state.table = info.table;
+    state.model = model;
+  }
+
+  private getState(): ToolResultIndexStateFile {
+    if (this.state) return this.state;
+
+    let state: ToolResultIndexStateFile = { table: '', sessions: {} };
+    try {
+      if (fs.existsSync(STATE_FILE)) {
+        const data = JSON.parse(fs.readFileSync(STATE_FILE, 'utf-8'));
+        if (data && typeof data.sessions === 'object' && data.sessions !== null) state = data;
+      }
+    } catch {
+      // Corrupt state — the table check resets it against the vector store
+    }
+    this.state = state;
+    return state;
+  }
+
+  private saveState(state: ToolResultIndexStateFile): void {
+    const dir = path.dirname(STATE_FILE);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(STATE_FILE, JSON.stringify(state, null, 2));
+    this.state = state;
+  }
+}
+
+// ─── Singleton ──────────────────────────────────────────────────
+
+let instance: ToolResultIndexer | null = null;
+
+export function getToolResultIndexer(): ToolResultIndexer {
+  if (!instance) {
+    instance = new ToolResultIndexer();
+  }
+  return instance;
+}
@@ -2,8 +2,8 @@
  * Vector Store (LanceDB)
  *
  * Vector database for semantic search over session and knowledge data.
- * Uses LanceDB (embedded Rust engine via NAPI) with local embeddings
- * from transformers.js.
+ * Uses LanceDB (embedded Rust engine via NAPI) with embeddings from the
+ * configured provider (see embedder.ts).
  *
  * All heavy operations (indexing, search, I/O) run in native Rust threads
  * and do NOT block the Node.js event loop.
@@ -12,14 +12,32 @@
  *   search()       — Pure vector (cosine) similarity search
  *   hybridSearch() — Vector + FTS (full-text) with RRF merge
  *
+ * Model migration:
+ *   Each table records the embedding provider/model/dimension in its schema
+ *   metadata and is always queried with that model. The active table is named
+ *   by lance-store/active-index.json (legacy stores use 'vectors', which
+ *   predates metadata and holds all-MiniLM-L6-v2 vectors). rebuildIndex()
+ *   embeds into a shadow table and switches the pointer only once it is
+ *   complete; other processes notice the pointer change on their next call.
+ *
  * Persists to ~/.lm-assist/lance-store/
  */
 
 import * as path from 'path';
 import * as fs from 'fs';
 import * as crypto from 'crypto';
-import { getEmbedder, VECTOR_DIM } from './embedder';
+import {
+  getEmbedder,
+  getEmbeddingConfig,
+  releaseEmbedder,
+  embeddingModelKey,
+  DEFAULT_EMBEDDING_CONFIG,
+  type EmbeddingConfig,
+  type EmbeddingProvider,
+  type EmbeddingProviderType,
+} from './embedder';
 import { getDataDir } from '../utils/path-utils';
+import { getKnowledgeSettings } from '../knowledge/settings';
 
 // ─── Types ──────────────────────────────────────────────────
 
@@ -32,7 +50,7 @@ export interface VectorMetadata {
   knowledgeId?: string;
   /** Knowledge part ID (e.g., "K001.2") — set when type='knowledge' */
   partId?: string;
-  /** What this vector represents: 'prompt', 'result', 'task', 'files', 'title', 'fact', 'knowledge_title', 'knowledge_part' */
+  /** What this vector represents: 'prompt', 'result', 'task', 'files', 'title', 'fact', 'tool_result', 'knowledge_title', 'knowledge_part' */
   contentType: string;
   /** Original text that was embedded (truncated for storage) */
   text: string;
@@ -52,6 +70,13 @@ export interface VectorMetadata {
   machineOS?: string;
   /** True if remote source no longer has this entry */
   stale?: boolean;
+  /** File the chunk was read from — set when contentType='tool_result' */
+  filePath?: string;
+  /** Session JSONL line of the tool call — set when contentType='tool_result' */
+  lineIndex?: number;
+  /** First/last file line covered by the chunk, when the tool output is line-numbered */
+  startLine?: number;
+  endLine?: number;
 }
 
 export interface VectorSearchResult {
@@ -71,6 +96,10 @@ export interface VectorSearchResult {
   machineHostname?: string;
   machineOS?: string;
   stale?: boolean;
+  filePath?: string;
+  lineIndex?: number;
+  startLine?: number;
+  endLine?: number;
 }
 
 // ─── Reindex Status Tracker ─────────────────────────────────
@@ -81,6 +110,41 @@ export interface ReindexStatus {
   vectorsIndexed: number;
   startedAt: string | null;
   completedAt: string | null;
+  /** Why the reindex ran: explicit request or embedding model change */
+  reason?: 'manual' | 'model-change';
+  /** Target embedding model key (provider:model) */
+  model?: string;
+  /** Vectors to embed in the initial pass */
+  vectorsTotal?: number;
+  /** Vectors already in the shadow table when an interrupted rebuild was resumed */
+  vectorsResumed?: number;
+  error?: string;
+}
+
+/**
+ * Lets a rebuild survive restarts: the caller records the shadow table and
+ * passes it back to continue where the interrupted run stopped.
+ */
+export interface RebuildCheckpoint {
+  /** Shadow table of an interrupted rebuild to continue filling */
+  resumeTable?: string;
+  /** Drop resumeTable and start from an empty shadow table instead */
+  fresh?: boolean;
+  /** Called once the shadow table exists (new or resumed) */
+  onShadowTable?: (table: string, vectorsResumed: number) => void;
+  /**
+   * Copy session vectors (indexed tool results) from the active table instead
+   * of dropping them. Only done when the active table uses the rebuild's model;
+   * otherwise their vectors are unusable and they are re-embedded later.
+   */
+  carryOverSessions?: boolean;
+}
+
+export interface VectorIndexInfo {
+  table: string;
+  provider: EmbeddingProviderType;
+  model: string;
+  dimension: number;
 }
 
 let _reindexStatus: ReindexStatus = {
@@ -122,8 +186,20 @@ interface LanceRow {
   machineHostname: string; // '' = local
   machineOS: string;       // '' = local
   stale: number;           // 0 = fresh, 1 = stale
+  filePath: string;        // '' = not a file chunk
+  lineIndex: number;
+  startLine: number;
+  endLine: number;
 }
 
+/** Columns added after the first release, with SQL defaults for existing rows */
+const ADDED_COLUMNS = [
+  { name: 'filePath', valueSql: "''" },
+  { name: 'lineIndex', valueSql: 'CAST(-1 AS DOUBLE)' },
+  { name: 'startLine', valueSql: 'CAST(-1 AS DOUBLE)' },
+  { name: 'endLine', valueSql: 'CAST(-1 AS DOUBLE)' },
+];
+
 function metadataToRow(vector: number[], meta: VectorMetadata): LanceRow {
   return {
     id: crypto.randomUUID(),
@@ -143,6 +219,10 @@ function metadataToRow(vector: number[], meta: VectorMetadata): LanceRow {
     machineHostname: meta.machineHostname || '',
     machineOS: meta.machineOS || '',
     stale: meta.stale ? 1 : 0,
+    filePath: meta.filePath || '',
+    lineIndex: meta.lineIndex ?? -1,
+    startLine: meta.startLine ?? -1,
+    endLine: meta.endLine ?? -1,
   };
 }
 
@@ -164,9 +244,66 @@ function rowToResult(row: any, score: number): VectorSearchResult {
     machineHostname: row.machineHostname || undefined,
     machineOS: row.machineOS || undefined,
     stale: row.stale === 1 ? true : undefined,
+    filePath: row.filePath || undefined,
+    lineIndex: row.lineIndex === -1 || row.lineIndex == null ? undefined : row.lineIndex,
+    startLine: row.startLine === -1 || row.startLine == null ? undefined : row.startLine,
+    endLine: row.endLine === -1 || row.endLine == null ? undefined : row.endLine,
+  };
+}
+
+function seedRow(dimension: number): LanceRow {
+  return {
+    id: SEED_ID,
+    vector: new Array(dimension).fill(0),
+    type: '_seed',
+    sessionId: '',
+    milestoneIndex: -1,
+    knowledgeId: '',
+    partId: '',
+    contentType: '',
+    text: '',
+    timestamp: '',
+    projectPath: '',
+    phase: -1,
+    origin: '',
+    machineId: '',
+    machineHostname: '',
+    machineOS: '',
+    stale: 0,
+    filePath: '',
+    lineIndex: -1,
+    startLine: -1,
+    endLine: -1,
   };
 }
 
+/**
+ * Identity of an indexed item across rebuild passes. Uses the stored (truncated)
+ * text so rows read back from a resumed shadow table produce the same key.
+ */
+function itemKey(meta: VectorMetadata): string {
+  return [meta.type, meta.origin || '', meta.machineId || '', meta.sessionId, meta.knowledgeId || '',
+    meta.partId || '', meta.contentType, meta.lineIndex ?? '', meta.startLine ?? '', meta.text.slice(0, 500)].join('\u0000');
+}
+
+/** Columns needed to rebuild itemKey() from a stored row */
+const ITEM_KEY_COLUMNS = ['id', 'type', 'origin', 'machineId', 'sessionId', 'knowledgeId', 'partId', 'contentType', 'lineIndex', 'startLine', 'text'];
+
+function rowItemKey(row: any): string {
+  return itemKey({
+    type: row.type,
+    origin: row.origin || undefined,
+    machineId: row.machineId,
+    sessionId: row.sessionId,
+    knowledgeId: row.knowledgeId,
+    partId: row.partId,
+    contentType: row.contentType,
+    lineIndex: row.lineIndex >= 0 ? row.lineIndex : undefined,
+    startLine: row.startLine >= 0 ? row.startLine : undefined,
+    text: row.text,
+  });
+}
+
 // ─── Where clause builder ───────────────────────────────────
 
 function buildWhere(filter: Record<string, unknown>): string {
@@ -190,13 +327,26 @@ function entityId(row: any): string {
   if (row.type === 'knowledge') {
     return row.partId || row.knowledgeId || '';
   }
+  // Tool result chunks: one entity per tool call
+  if (row.contentType === 'tool_result') {
+    return `${row.sessionId}:${row.lineIndex}`;
+  }
   return row.sessionId;
 }
 
 // ─── Vector Store ──────────────────────────────────────────────────
 
 const STORE_DIR = path.join(getDataDir(), 'lance-store');
+/** Legacy table name, also used for the first table of a new store */
 const TABLE_NAME = 'vectors';
+const ACTIVE_INDEX_FILE = 'active-index.json';
+const SEED_ID = '__seed__';
+const WRITE_CHUNK = 50;
+
+// Schema metadata keys recording the embedding model of a table
+const META_PROVIDER = 'lm_assist.embedding_provider';
+const META_MODEL = 'lm_assist.embedding_model';
+const META_DIMENSION = 'lm_assist.embedding_dim';
 
 /** Minimum cosine similarity to consider a vector result relevant.
  *  Cosine distance ∈ [0, 2]; similarity = 1 - distance/2.
@@ -211,6 +361,11 @@ export class VectorStore {
   private initializing: Promise<void> | null = null;
   private ftsReady = false;
   private _reinitAttempted = false;
+  private tableName = TABLE_NAME;
+  private embedConfig: EmbeddingConfig = DEFAULT_EMBEDDING_CONFIG;
+  private dimension = 0;
+  /** mtime of active-index.json when the table was opened (0 = absent) */
+  private pointerMtime = 0;
 
   constructor(storeDir?: string) {
     this.storeDir = storeDir || STORE_DIR;
@@ -221,9 +376,16 @@ export class VectorStore {
 
   /**
    * Initialize the LanceDB connection, table, and FTS index.
+   * Reopens when another process has switched the active table.
    */
   async init(): Promise<void> {
-    if (this.initialized) return;
+    if (this.initialized) {
+      if (this.readPointerMtime() === this.pointerMtime) return;
+      console.log('[VectorStore] Active index changed, reopening');
+      this.initialized = false;
+      this.initializing = null;
+      this.ftsReady = false;
+    }
     if (this.initializing) {
       await this.initializing;
       return;
@@ -232,12 +394,16 @@ export class VectorStore {
     this.initializing = (async () => {
       const lancedb = require('@lancedb/lancedb');
       this.db = await lancedb.connect(this.storeDir);
+      this.table = null;
+
+      this.pointerMtime = this.readPointerMtime();
+      this.tableName = this.readPointer()?.table || TABLE_NAME;
 
       // Open existing table or create with seed row
       const tableNames = await this.db.tableNames();
-      if (tableNames.includes(TABLE_NAME)) {
+      if (tableNames.includes(this.tableName)) {
         try {
-          this.table = await this.db.openTable(TABLE_NAME);
+          this.table = await this.db.openTable(this.tableName);
           // Validate table is readable (detects stale/corrupt data files)
           await this.table.countRows();
           // Schema migration: check if table has required columns (added for remote sync)
@@ -246,54 +412,50 @@ export class VectorStore {
             const fieldNames = schema.fields.map((f: any) => f.name);
             if (!fieldNames.includes('origin')) {
               console.warn('[VectorStore] Table missing new columns (origin, machineId, etc.), recreating for schema migration');
-              try { await this.db.dropTable(TABLE_NAME); } catch { /* best effort */ }
+              try { await this.db.dropTable(this.tableName); } catch { /* best effort */ }
               this.table = null;
+            } else {
+              const missing = ADDED_COLUMNS.filter(c => !fieldNames.includes(c.name));
+              if (missing.length > 0) {
+                console.log(`[VectorStore] Adding columns: ${missing.map(c => c.name).join(', ')}`);
+                await this.table.addColumns(missing);
+              }
+              this.readTableModel(schema);
             }
           } catch {
             // If schema check fails, continue with existing table
           }
         } catch (openErr: any) {
           console.warn(`[VectorStore] Existing table corrupt, recreating: ${openErr.message}`);
-          try { await this.db.dropTable(TABLE_NAME); } catch { /* best effort */ }
+          try { await this.db.dropTable(this.tableName); } catch { /* best effort */ }
           this.table = null;
         }
       }
 
       if (!this.table) {
         console.log('[VectorStore] Creating new LanceDB table');
-        // Seed with a dummy row so LanceDB can infer schema, then delete it
-        const seedId = '__seed__';
-        this.table = await this.db.createTable(TABLE_NAME, [{
-          id: seedId,
-          vector: new Array(VECTOR_DIM).fill(0),
-          type: '_seed',
-          sessionId: '',
-          milestoneIndex: -1,
-          knowledgeId: '',
-          partId: '',
-          contentType: '',
-          text: '',
-          timestamp: '',
-          projectPath: '',
-          phase: -1,
-          origin: '',
-          machineId: '',
-          machineHostname: '',
-          machineOS: '',
-          stale: 0,
-        }]);
-        try { await this.table.delete(`id = '${seedId}'`); } catch { /* best effort */ }
+        const config = getEmbeddingConfig();
+        const embedder = getEmbedder(config);
+        await embedder.load();
+        this.table = await this.createTable(this.tableName, config, embedder.getDimension());
+        this.embedConfig = config;
+        this.dimension = embedder.getDimension();
       }
 
       this.initialized = true;
       this._reinitAttempted = false;
-      console.log('[VectorStore] LanceDB initialized');
+      console.log(`[VectorStore] LanceDB initialized (${this.tableName}, ${embeddingModelKey(this.embedConfig)})`);
 
       // Create FTS index on text column (async, non-blocking)
       this.ensureFtsIndex().catch(() => {});
     })();
 
-    await this.initializing;
+    try {
+      await this.initializing;
+    } catch (err) {
+      this.initializing = null;
+      throw err;
+    }
   }
 
   /**
@@ -337,10 +499,10 @@ export class VectorStore {
    * Create or recreate the FTS index on the `text` column.
    * Called during init() and after bulk writes that add new data.
    */
-  private async ensureFtsIndex(): Promise<void> {
+  private async ensureFtsIndex(table: any = this.table): Promise<void> {
     try {
       const lancedb = require('@lancedb/lancedb');
-      await this.table.createIndex('text', {
+      await table.createIndex('text', {
         config: lancedb.Index.fts({ withPosition: true }),
         replace: true,
       });
@@ -356,7 +518,7 @@ export class VectorStore {
    */
   async addVector(text: string, metadata: VectorMetadata): Promise<void> {
     await this.init();
-    const embedder = getEmbedder();
+    const embedder = this.getActiveEmbedder();
     const vector = await embedder.embed(text);
 
     try {
@@ -379,8 +541,7 @@ export class VectorStore {
     if (items.length === 0) return 0;
     await this.init();
 
-    const WRITE_CHUNK = 50;
-    const embedder = getEmbedder();
+    const embedder = this.getActiveEmbedder();
     let totalAdded = 0;
 
     const doAdd = async () => {
@@ -424,7 +585,7 @@ export class VectorStore {
   async search(query: string, limit: number = 20, filter?: Record<string, unknown>): Promise<VectorSearchResult[]> {
     await this.init();
 
-    const embedder = getEmbedder();
+    const embedder = this.getActiveEmbedder();
     const queryVector = await embedder.embed(query);
 
     const doSearch = async () => {
@@ -469,7 +630,7 @@ export class VectorStore {
   async hybridSearch(query: string, limit: number = 20, filter?: Record<string, unknown>): Promise<VectorSearchResult[]> {
     await this.init();
 
-    const embedder = getEmbedder();
+    const embedder = this.getActiveEmbedder();
     const queryVector = await embedder.embed(query);
 
     const runSearches = async (): Promise<[any[], any[]]> => {
@@ -651,6 +812,20 @@ export class VectorStore {
     return count;
   }
 
+  /**
+   * Delete tool result chunks for a session.
+   */
+  async deleteToolResults(sessionId: string): Promise<number> {
+    await this.init();
+
+    const where = `sessionId = '${sessionId.replace(/'/g, "''")}' AND contentType = 'tool_result'`;
+    const count = await this.countWhere(where);
+    if (count === 0) return 0;
+
+    await this.table.delete(where);
+    return count;
+  }
+
   /**
    * Delete remote knowledge vectors for a specific machine + knowledge ID.
    */
@@ -769,8 +944,266 @@ export class VectorStore {
     };
   }
 
+  // ─── Embedding Model ──────────────────────────────────────────
+
+  /**
+   * Active table and the embedding model its vectors were built with.
+   */
+  async getIndexInfo(): Promise<VectorIndexInfo> {
+    await this.init();
+    return {
+      table: this.tableName,
+      provider: this.embedConfig.provider,
+      model: this.embedConfig.model,
+      dimension: this.dimension,
+    };
+  }
+
+  /**
+   * True when the model selected in settings differs from the active table's.
+   */
+  async needsMigration(): Promise<boolean> {
+    await this.init();
+    const target = getEmbeddingConfig();
+    if (embeddingModelKey(target) !== embeddingModelKey(this.embedConfig)) return true;
+    return !!target.dimension && target.dimension !== this.dimension;
+  }
+
+  /**
+   * Rebuild the index into a shadow table with the given model, then switch
+   * to it atomically. The active table keeps serving reads and writes until
+   * cutover.
+   *
+   * The new table holds exactly what collect() returns. It is called twice:
+   * once for the bulk pass and once more afterwards to catch up with items
+   * added or removed while embedding ran.
+   *
+   * With checkpoint.resumeTable, a shadow table left by an interrupted run is
+   * reused when it was built with the same model: items it already holds are
+   * not embedded again (unless checkpoint.fresh). A failed run keeps its
+   * shadow table for the next attempt when the caller tracks a checkpoint.
+   *
+   * @returns Number of vectors in the new table
+   */
+  async rebuildIndex(
+    config: EmbeddingConfig,
+    collect: () => Array<{ text: string; metadata: VectorMetadata }>,
+    onProgress?: (vectorsIndexed: number) => void,
+    checkpoint?: RebuildCheckpoint,
+  ): Promise<number> {
+    await this.init();
+
+    const embedder = getEmbedder(config);
+    await embedder.load();
+    const dimension = embedder.getDimension();
+
+    const rowIds = new Map<string, string[]>();
+    let indexed = 0;
+    let shadowName = '';
+    if (checkpoint?.resumeTable && checkpoint.fresh && checkpoint.resumeTable !== this.tableName) {
+      try { await this.db.dropTable(checkpoint.resumeTable); } catch { /* already gone */ }
+    }
+    let shadow = checkpoint?.resumeTable && !checkpoint.fresh
+      ? await this.openShadowTable(checkpoint.resumeTable, config, dimension)
+      : null;
+
+    if (shadow) {
+      shadowName = checkpoint!.resumeTable!;
+      const rows = await shadow.query().where(`type = 'knowledge'`).select(ITEM_KEY_COLUMNS).toArray();
+      for (const row of rows) {
+        const key = rowItemKey(row);
+        rowIds.set(key, [...(rowIds.get(key) || []), row.id]);
+      }
+      indexed = rows.length;
+      console.log(`[VectorStore] Resuming rebuild in ${shadowName} (${indexed} vectors already embedded)`);
+    } else {
+      shadowName = `${TABLE_NAME}_${Date.now().toString(36)}`;
+      shadow = await this.createTable(shadowName, config, dimension);
+    }
+    checkpoint?.onShadowTable?.(shadowName, indexed);
+
+    const insert = async (items: Array<{ text: string; metadata: VectorMetadata }>) => {
+      for (let offset = 0; offset < items.length; offset += WRITE_CHUNK) {
+        const chunk = items.slice(offset, offset + WRITE_CHUNK);
+        const vectors = await embedder.embedBatch(chunk.map(i => i.text));
+        const rows = chunk.map((item, i) => metadataToRow(vectors[i], item.metadata));
+        await shadow.add(rows);
+
+        chunk.forEach((item, i) => {
+          const key = itemKey(item.metadata);
+          rowIds.set(key, [...(rowIds.get(key) || []), rows[i].id]);
+        });
+        indexed += chunk.length;
+        onProgress?.(indexed);
+      }
+    };
+
+    try {
+      await insert(collect().filter(i => !rowIds.has(itemKey(i.metadata))));
+
+      // Catch up with changes made during the bulk pass
+      const current = collect();
+      const currentKeys = new Set(current.map(i => itemKey(i.metadata)));
+      await insert(current.filter(i => !rowIds.has(itemKey(i.metadata))));
+      const staleIds = Array.from(rowIds.entries())
+        .filter(([key]) => !currentKeys.has(key))
+        .flatMap(([, ids]) => ids);
+      for (let offset = 0; offset < staleIds.length; offset += WRITE_CHUNK) {
+        const escaped = staleIds.slice(offset, offset + WRITE_CHUNK).map(id => `'${id}'`).join(', ');
+        await shadow.delete(`id IN (${escaped})`);
+      }
+
+      // Last, so session vectors added to the active table meanwhile come along
+      if (checkpoint?.carryOverSessions) {
+        const carried = await this.carryOverSessionRows(shadow, config);
+        if (carried > 0) console.log(`[VectorStore] Carried ${carried} session vectors into ${shadowName}`);
+      }
+
+      await this.ensureFtsIndex(shadow);
+    } catch (err) {
+      if (!checkpoint) {
+        try { await this.db.dropTable(shadowName); } catch { /* best effort */ }
+      }
+      throw err;
+    }
+
+    // Cutover
+    const previousName = this.tableName;
+    const previousConfig = this.embedConfig;
+    this.writePointer(shadowName);
+    this.table = shadow;
+    this.tableName = shadowName;
+    this.embedConfig = config;
+    this.dimension = dimension;
+    this.ftsReady = true;
+    this.pointerMtime = this.readPointerMtime();
+
+    // Processes still reading the old table recover via handleLanceError()
+    try { await this.db.dropTable(previousName); } catch { /* best effort */ }
+    if (embeddingModelKey(previousConfig) !== embeddingModelKey(config)) {
+      releaseEmbedder(previousConfig);
+    }
+
+    const total = await shadow.countRows();
+    console.log(`[VectorStore] Switched to ${shadowName} (${embeddingModelKey(config)}, ${dimension}-dim, ${total} vectors)`);
+    return total;
+  }
+
   // ─── Helpers ──────────────────────────────────────────────────
 
+  /**
+   * Open a shadow table left by an interrupted rebuild. Returns null (dropping
+   * the table) when it was built with a different model than the rebuild's.
+   */
+  private async openShadowTable(name: string, config: EmbeddingConfig, dimension: number): Promise<any | null> {
+    if (name === this.tableName) return null;
+    const tableNames: string[] = await this.db.tableNames();
+    if (!tableNames.includes(name)) return null;
+
+    try {
+      const table = await this.db.openTable(name);
+      const metadata: Map<string, string> | undefined = (await table.schema()).metadata;
+      const sameModel = metadata?.get(META_PROVIDER) === config.provider
+        && metadata?.get(META_MODEL) === config.model
+        && metadata?.get(META_DIMENSION) === String(dimension);
+      if (sameModel) return table;
+    } catch {
+      // Unreadable — rebuild from scratch
+    }
+
+    try { await this.db.dropTable(name); } catch { /* best effort */ }
+    return null;
+  }
+
+  /**
+   * Copy session vectors missing from the shadow table out of the active
+   * table, when both use the same model. Returns the number of rows copied.
+   */
+  private async carryOverSessionRows(shadow: any, config: EmbeddingConfig): Promise<number> {
+    if (!this.table || embeddingModelKey(this.embedConfig) !== embeddingModelKey(config)) return 0;
+
+    const present = new Set<string>(
+      (await shadow.query().where(`type = 'session'`).select(ITEM_KEY_COLUMNS).toArray()).map(rowItemKey),
+    );
+    const rows: LanceRow[] = (await this.table.query().where(`type = 'session'`).toArray())
+      .map((row: any) => ({ ...row.toJSON?.() ?? row, vector: Array.from(row.vector as ArrayLike<number>) }))
+      .filter((row: LanceRow) => !present.has(rowItemKey(row)));
+
+    for (let offset = 0; offset < rows.length; offset += WRITE_CHUNK) {
+      await shadow.add(rows.slice(offset, offset + WRITE_CHUNK));
+    }
+    return rows.length;
+  }
+
+  private getActiveEmbedder(): EmbeddingProvider {
+    return getEmbedder(this.embedConfig);
+  }
+
+  /**
+   * Create a table for a model, recording the model in the schema metadata.
+   */
+  private async createTable(name: string, config: EmbeddingConfig, dimension: number): Promise<any> {
+    const lancedb = require('@lancedb/lancedb');
+    // Seed with a dummy row so LanceDB can infer schema, then delete it
+    const data = lancedb.makeArrowTable([seedRow(dimension)], undefined, new Map([
+      [META_PROVIDER, config.provider],
+      [META_MODEL, config.model],
+      [META_DIMENSION, String(dimension)],
+    ]));
+    const table = await this.db.createTable(name, data);
+    try { await table.delete(`id = '${SEED_ID}'`); } catch { /* best effort */ }
+    return table;
+  }
+
+  /**
+   * Load the embedding model recorded on the open table.
+   * Tables without metadata predate configurable models.
+   */
+  private readTableModel(schema: any): void {
+    const metadata: Map<string, string> | undefined = schema.metadata;
+    const provider = metadata?.get(META_PROVIDER) as EmbeddingProviderType | undefined;
+    const model = metadata?.get(META_MODEL);
+    if (!provider || !model) {
+      this.embedConfig = DEFAULT_EMBEDDING_CONFIG;
+      this.dimension = DEFAULT_EMBEDDING_CONFIG.dimension!;
+      return;
+    }
+    this.dimension = parseInt(metadata!.get(META_DIMENSION) || '0', 10);
+    this.embedConfig = {
+      provider,
+      model,
+      dimension: this.dimension || undefined,
+      baseUrl: provider === 'openai-compatible' ? getKnowledgeSettings().embeddingBaseUrl : undefined,
+    };
+  }
+
+  private readPointer(): { table: string; activatedAt: string } | null {
+    try {
+      const data = JSON.parse(fs.readFileSync(path.join(this.storeDir, ACTIVE_INDEX_FILE), 'utf-8'));
+      return typeof data.table === 'string' && data.table ? data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private readPointerMtime(): number {
+    try {
+      return fs.statSync(path.join(this.storeDir, ACTIVE_INDEX_FILE)).mtimeMs;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Point the store at a table (write + rename so readers never see a partial file).
+   */
+  private writePointer(table: string): void {
+    const file = path.join(this.storeDir, ACTIVE_INDEX_FILE);
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify({ table, activatedAt: new Date().toISOString() }, null, 2));
+    fs.renameSync(tmp, file);
+  }
+
   private async countWhere(where: string): Promise<number> {
     const rows = await this.table.query().where(where).select(['id']).toArray();
     return rows.length;
@@ -0,0 +1,7 @@
+'use client';
+
+import { CostsPage } from '@/components/costs/CostsPage';
+
+export default function CostsRoute() {
+  return <CostsPage />;
+}
@@ -106,6 +106,8 @@ interface ClaudeCodeConfig {
   contextInjectMode: 'mcp' | 'suggest' | 'both' | 'off';
   contextInjectKnowledge: boolean;
   contextInjectKnowledgeCount: number;
+  contextInjectTokenBudget?: number;
+  contextInjectSources?: Record<'knowledge' | 'sessions' | 'project' | 'tasks' | 'learning', number>;
   searchIncludeKnowledge: boolean;
   statuslinePromptCount: number;
   statuslineShowPrompts: boolean;
@@ -328,8 +330,8 @@ export default function SettingsPage() {
   const upgradePollRef = useRef(false);
 
   // remote knowledge sync state
-  const [knowledgeSettings, setKnowledgeSettings] = useState<{ remoteSyncEnabled: boolean; syncIntervalMinutes: number; lastSyncTimestamps: Record<string, string>; reviewModel: 'haiku' | 'sonnet' | 'opus'; autoReview: boolean; autoExploreGeneration: boolean; autoGenericDiscovery: boolean; genericValidationModel: 'haiku' | 'sonnet' | 'opus'; discoveryIntervalMinutes: number; discoveryBatchSize: number } | null>(null);
-  const [schedulerStatus, setSchedulerStatus] = useState<{ running: boolean; agentDiscovery: { enabled: boolean; intervalMinutes: number; lastRunAt: string | null; lastResult: string | null; isRunning: boolean }; genericDiscovery: { enabled: boolean; intervalMinutes: number; lastRunAt: string | null; lastResult: string | null; isRunning: boolean }; generation: { enabled: boolean; lastRunAt: string | null; lastResult: string | null; isRunning: boolean }; remoteSync: { enabled: boolean; intervalMinutes: number; lastRunAt: string | null; lastResult: string | null; isRunning: boolean } } | null>(null);
+  const [knowledgeSettings, setKnowledgeSettings] = useState<{ remoteSyncEnabled: boolean; syncIntervalMinutes: number; lastSyncTimestamps: Record<string, string>; reviewModel: 'haiku' | 'sonnet' | 'opus'; autoReview: boolean; autoExploreGeneration: boolean; autoGenericDiscovery: boolean; genericValidationModel: 'haiku' | 'sonnet' | 'opus'; discoveryIntervalMinutes: number; discoveryBatchSize: number; toolResultIndexing?: boolean; rerankEnabled?: boolean } | null>(null);
+  const [schedulerStatus, setSchedulerStatus] = useState<{ running: boolean; agentDiscovery: { enabled: boolean; intervalMinutes: number; lastRunAt: string | null; lastResult: string | null; isRunning: boolean }; genericDiscovery: { enabled: boolean; intervalMinutes: number; lastRunAt: string | null; lastResult: string | null; isRunning: boolean }; generation: { enabled: boolean; lastRunAt: string | null; lastResult: string | null; isRunning: boolean }; remoteSync: { enabled: boolean; intervalMinutes: number; lastRunAt: string | null; lastResult: string | null; isRunning: boolean }; stalenessCheck?: { enabled: boolean; intervalMinutes: number; lastRunAt: string | null; lastResult: string | null; isRunning: boolean }; retentionPolicy?: { enabled: boolean; intervalMinutes: number; lastRunAt: string | null; lastResult: string | null; isRunning: boolean }; toolResultIndexing?: { enabled: boolean; intervalMinutes: number; lastRunAt: string | null; lastResult: string | null; isRunning: boolean } } | null>(null);
   const [remoteSyncStatus, setRemoteSyncStatus] = useState<{ status: string; machinesChecked: number; machinesMatched: number; entriesSynced: number; entriesSkipped: number; entriesFlaggedStale: number; errors: string[]; startedAt: string | null; completedAt: string | null } | null>(null);
   const [isRemoteSyncing, setIsRemoteSyncing] = useState(false);
   const [isSchedulerRunning, setIsSchedulerRunning] = useState(false);
@@ -2770,7 +2772,7 @@ export default function SettingsPage() {
                         <div style={{ borderTop: '1px solid var(--color-border)', margin: '0' }} />
                         <ToggleRow
                           label="Include knowledge"
-                          description="Include knowledge entries (verified facts from past sessions) in context injection."
+                          description="Inject context into prompts: knowledge entries (verified facts from past sessions), plus project, task, past-session and learned-pattern context. Off disables context injection entirely."
                           checked={claudeCodeConfig.contextInjectKnowledge}
                           onChange={(v) => handleClaudeCodeConfigChange('contextInjectKnowledge', v)}
                         />
@@ -2803,6 +2805,34 @@ export default function SettingsPage() {
                             </span>
                           </div>
                         )}
+                        <div style={{ display: 'flex', alignItems: 'center', gap: 8, paddingLeft: 4 }}>
+                          <span style={{ fontSize: 10, color: 'var(--color-text-tertiary)', minWidth: 60 }}>Token budget</span>
+                          <input
+                            type="number"
+                            min={100}
+                            max={8000}
+                            step={100}
+                            value={claudeCodeConfig.contextInjectTokenBudget ?? 800}
+                            onChange={(e) => {
+                              const v = Math.max(100, Math.min(8000, parseInt(e.target.value) || 800));
+                              handleClaudeCodeConfigChange('contextInjectTokenBudget', v);
+                            }}
+                            style={{
+                              width: 60,
+                              padding: '2px 6px',
+                              fontSize: 11,
+                              fontFamily: 'var(--font-mono)',
+                              background: 'var(--color-bg-primary)',
+                              border: '1px solid var(--color-border)',
+                              borderRadius: 4,
+                              color: 'var(--color-text-primary)',
+                              textAlign: 'center',
+                            }}
+                          />
+                          <span style={{ fontSize: 10, color: 'var(--color-text-tertiary)' }}>
+                            shared by knowledge, project, tasks, past sessions and learned patterns
+                          </span>
+                        </div>
                       </div>
                     ) : (
                       <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)' }}>
@@ -4219,6 +4249,40 @@ export default function SettingsPage() {
                       />
                     )}
 
+                    {/* 3. Tool Result Indexing Toggle */}
+                    {knowledgeSettings && (
+                      <ToggleRow
+                        label="Index tool results"
+                        description="Embed file reads, edits and command output from sessions so search can find where an agent looked at code. Capped per project."
+                        checked={knowledgeSettings.toolResultIndexing === true}
+                        onChange={(checked) => {
+                          setKnowledgeSettings({ ...knowledgeSettings, toolResultIndexing: checked });
+                          fetch(tierAgentUrl + '/knowledge-settings', {
+                            method: 'PUT',
+                            headers: { 'Content-Type': 'application/json' },
+                            body: JSON.stringify({ toolResultIndexing: checked }),
+                          }).catch(() => {});
+                        }}
+                      />
+                    )}
+
+                    {/* 4. Search Re-ranking Toggle */}
+                    {knowledgeSettings && (
+                      <ToggleRow
+                        label="Re-rank search results"
+                        description="Re-order the top search results with a local cross-encoder model. More precise, adds a little latency; falls back to normal ranking if slow."
+                        checked={knowledgeSettings.rerankEnabled === true}
+                        onChange={(checked) => {
+                          setKnowledgeSettings({ ...knowledgeSettings, rerankEnabled: checked });
+                          fetch(tierAgentUrl + '/knowledge-settings', {
+                            method: 'PUT',
+                            headers: { 'Content-Type': 'application/json' },
+                            body: JSON.stringify({ rerankEnabled: checked }),
+                          }).catch(() => {});
+                        }}
+                      />
+                    )}
+
                     {/* ── Auto Generation ── */}
 
                     {knowledgeSettings && (
@@ -4293,7 +4357,7 @@ export default function SettingsPage() {
                             {isSchedulerRunning ? 'Running...' : 'Run Now'}
                           </button>
                         </div>
-                        {(schedulerStatus.agentDiscovery.lastRunAt || schedulerStatus.genericDiscovery.lastRunAt || schedulerStatus.generation.lastRunAt || schedulerStatus.remoteSync.lastRunAt) && (
+                        {(schedulerStatus.agentDiscovery.lastRunAt || schedulerStatus.genericDiscovery.lastRunAt || schedulerStatus.generation.lastRunAt || schedulerStatus.remoteSync.lastRunAt || schedulerStatus.stalenessCheck?.lastRunAt || schedulerStatus.retentionPolicy?.lastRunAt || schedulerStatus.toolResultIndexing?.lastRunAt) && (
                           <div style={{ fontSize: 10, color: 'var(--color-text-tertiary)', lineHeight: 1.6 }}>
                             {schedulerStatus.agentDiscovery.lastRunAt && (
                               <div>Agent discovery: {schedulerStatus.agentDiscovery.lastResult} · {new Date(schedulerStatus.agentDiscovery.lastRunAt).toLocaleTimeString()}</div>
@@ -4307,6 +4371,15 @@ export default function SettingsPage() {
                             {schedulerStatus.remoteSync.lastRunAt && (
                               <div>Remote sync: {schedulerStatus.remoteSync.lastResult} · {new Date(schedulerStatus.remoteSync.lastRunAt).toLocaleTimeString()}</div>
                             )}
+                            {schedulerStatus.stalenessCheck?.lastRunAt && (
+                              <div>Staleness check: {schedulerStatus.stalenessCheck.lastResult} · {new Date(schedulerStatus.stalenessCheck.lastRunAt).toLocaleTimeString()}</div>
+                            )}
+                            {schedulerStatus.retentionPolicy?.lastRunAt && (
+                              <div>Retention policy: {schedulerStatus.retentionPolicy.lastResult} · {new Date(schedulerStatus.retentionPolicy.lastRunAt).toLocaleTimeString()}</div>
+                            )}
+                            {schedulerStatus.toolResultIndexing?.lastRunAt && (
+                              <div>Tool result indexing: {schedulerStatus.toolResultIndexing.lastResult} · {new Date(schedulerStatus.toolResultIndexing.lastRunAt).toLocaleTimeString()}</div>
+                            )}
                           </div>
                         )}
                       </div>
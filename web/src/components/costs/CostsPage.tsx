@@ -0,0 +1,380 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { Loader2, DollarSign, RefreshCw } from 'lucide-react';
+import { useAppMode } from '@/contexts/AppModeContext';
+import { useMachineContext } from '@/contexts/MachineContext';
+import { formatCost, formatTokens } from '@/lib/utils';
+
+interface Metrics {
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  messages: number;
+  cacheHitRatio: number;
+}
+
+interface BreakdownRow extends Metrics {
+  key: string;
+  share: number;
+  commits?: number;
+  filesChanged?: number;
+}
+
+interface Breakdown {
+  total: Metrics;
+  outcomes: {
+    commits: number;
+    filesChanged: number;
+    costPerCommit: number | null;
+    costPerFileChanged: number | null;
+  };
+  projects: BreakdownRow[];
+  models: BreakdownRow[];
+  agents: BreakdownRow[];
+  skills: BreakdownRow[];
+  tools: BreakdownRow[];
+}
+
+interface TimeSeries {
+  granularity: 'hour' | 'day';
+  keys: string[];
+  points: Array<Metrics & { start: string; commits: number; filesChanged: number; groups?: Record<string, number> }>;
+}
+
+type Range = '24h' | '7d' | '30d' | '90d';
+type GroupBy = 'model' | 'project' | 'agent' | 'skill' | 'tool';
+
+const RANGES: Array<{ value: Range; label: string }> = [
+  { value: '24h', label: 'Last 24 hours' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+];
+
+const GROUP_BY: Array<{ value: GroupBy; label: string }> = [
+  { value: 'model', label: 'By model' },
+  { value: 'project', label: 'By project' },
+  { value: 'agent', label: 'By subagent' },
+  { value: 'skill', label: 'By skill' },
+  { value: 'tool', label: 'By preceding tool' },
+];
+
+const SERIES_COLORS = [
+  'var(--color-accent)',
+  'var(--color-status-blue)',
+  'var(--color-status-green)',
+  'var(--color-status-purple)',
+  'var(--color-status-cyan)',
+  'var(--color-status-orange)',
+  'var(--color-status-pink)',
+  'var(--color-text-tertiary)',
+];
+
+const sectionTitle: React.CSSProperties = {
+  fontSize: 11,
+  fontWeight: 600,
+  color: 'var(--color-text-tertiary)',
+  textTransform: 'uppercase',
+  letterSpacing: '0.5px',
+  marginBottom: 10,
+};
+
+function totalTokens(m: Metrics): number {
+  return m.inputTokens + m.outputTokens + m.cacheCreationInputTokens + m.cacheReadInputTokens;
+}
+
+function projectName(projectPath: string): string {
+  return projectPath.split(/[\\/]/).filter(Boolean).pop() || projectPath || '(unknown)';
+}
+
+function pointLabel(start: string, granularity: 'hour' | 'day'): string {
+  const d = new Date(start);
+  return granularity === 'hour'
+    ? d.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric' })
+    : d.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+export function CostsPage() {
+  const { apiClient, proxy } = useAppMode();
+  const { selectedMachineId } = useMachineContext();
+
+  const machineIdRef = useRef(selectedMachineId);
+  machineIdRef.current = selectedMachineId;
+  const apiClientRef = useRef(apiClient);
+  apiClientRef.current = apiClient;
+
+  const apiFetch = useCallback(async <T,>(path: string): Promise<T> => {
+    return apiClientRef.current.fetchPath<T>(path, {
+      machineId: machineIdRef.current || proxy.machineId || undefined,
+    });
+  }, [proxy.machineId]);
+
+  const [range, setRange] = useState<Range>('7d');
+  const [groupBy, setGroupBy] = useState<GroupBy>('model');
+  const [project, setProject] = useState('');
+  const [projects, setProjects] = useState<string[]>([]);
+  const [breakdown, setBreakdown] = useState<Breakdown | null>(null);
+  const [series, setSeries] = useState<TimeSeries | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    const projectParam = project ? `&project=${encodeURIComponent(project)}` : '';
+    Promise.all([
+      apiFetch<Breakdown>(`/costs/breakdown?range=${range}${projectParam}`),
+      apiFetch<TimeSeries>(`/costs/timeseries?range=${range}&groupBy=${groupBy}${projectParam}`),
+    ]).then(([breakdownData, seriesData]) => {
+      if (cancelled) return;
+      setBreakdown(breakdownData);
+      setSeries(seriesData);
+      // Keep the project list from the unfiltered view
+      if (!project) setProjects(breakdownData.projects.map(p => p.key));
+    }).catch(err => {
+      if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load costs');
+    }).finally(() => {
+      if (!cancelled) setLoading(false);
+    });
+
+    return () => { cancelled = true; };
+  }, [apiFetch, range, groupBy, project, selectedMachineId, reloadKey]);
+
+  return (
+    <div style={{ padding: 20, overflowY: 'auto', height: '100%' }} className="scrollbar-thin">
+      {/* Header */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 16 }}>
+        <h2 style={{ fontSize: 16, fontWeight: 600 }}>Costs</h2>
+        {loading && <Loader2 size={14} style={{ animation: 'spin 1s linear infinite', color: 'var(--color-text-tertiary)' }} />}
+        <div style={{ flex: 1 }} />
+        <select className="input" style={{ width: 'auto', fontSize: 12 }} value={project} onChange={e => setProject(e.target.value)}>
+          <option value="">All projects</option>
+          {projects.map(p => <option key={p} value={p}>{projectName(p)}</option>)}
+        </select>
+        <select className="input" style={{ width: 'auto', fontSize: 12 }} value={range} onChange={e => setRange(e.target.value as Range)}>
+          {RANGES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+        </select>
+        <button className="btn btn-sm btn-ghost" onClick={() => setReloadKey(k => k + 1)} title="Refresh">
+          <RefreshCw size={13} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="empty-state">
+          <span style={{ fontSize: 13, color: 'var(--color-status-red)' }}>{error}</span>
+          <button className="btn btn-sm btn-secondary" onClick={() => setReloadKey(k => k + 1)}>Retry</button>
+        </div>
+      )}
+
+      {!error && breakdown && breakdown.total.messages === 0 && !loading && (
+        <div className="empty-state">
+          <DollarSign size={40} className="empty-state-icon" />
+          <span style={{ fontSize: 14 }}>No usage in this range</span>
+          <span style={{ fontSize: 12, color: 'var(--color-text-tertiary)' }}>
+            Sessions are ingested in the background; older history appears once the backfill finishes
+          </span>
+        </div>
+      )}
+
+      {!error && breakdown && breakdown.total.messages > 0 && (
+        <>
+          {/* Overview */}
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, minmax(0, 1fr))', gap: 10, marginBottom: 16 }}>
+            <div className="stat-card amber">
+              <div className="stat-label">Spend</div>
+              <div className="stat-value">{formatCost(breakdown.total.costUsd)}</div>
+            </div>
+            <div className="stat-card blue">
+              <div className="stat-label">Tokens</div>
+              <div className="stat-value">{formatTokens(totalTokens(breakdown.total))}</div>
+            </div>
+            <div className="stat-card green">
+              <div className="stat-label">Cache Hit Ratio</div>
+              <div className="stat-value">{Math.round(breakdown.total.cacheHitRatio * 100)}%</div>
+            </div>
+            <div className="stat-card purple">
+              <div className="stat-label">Per Commit ({breakdown.outcomes.commits})</div>
+              <div className="stat-value">
+                {breakdown.outcomes.costPerCommit !== null ? formatCost(breakdown.outcomes.costPerCommit) : '—'}
+              </div>
+            </div>
+            <div className="stat-card cyan">
+              <div className="stat-label">Per File Changed ({breakdown.outcomes.filesChanged})</div>
+              <div className="stat-value">
+                {breakdown.outcomes.costPerFileChanged !== null ? formatCost(breakdown.outcomes.costPerFileChanged) : '—'}
+              </div>
+            </div>
+          </div>
+
+          {/* Spend over time */}
+          <div className="card" style={{ padding: 16, marginBottom: 16 }}>
+            <div style={{ display: 'flex', alignItems: 'center', marginBottom: 10 }}>
+              <div style={{ ...sectionTitle, marginBottom: 0 }}>Spend over time</div>
+              <div style={{ flex: 1 }} />
+              <select className="input" style={{ width: 'auto', fontSize: 11, padding: '3px 6px' }} value={groupBy} onChange={e => setGroupBy(e.target.value as GroupBy)}>
+                {GROUP_BY.map(g => <option key={g.value} value={g.value}>{g.label}</option>)}
+              </select>
+            </div>
+            {series && <SpendChart series={series} groupBy={groupBy} />}
+          </div>
+
+          {/* Breakdowns */}
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(320px, 1fr))', gap: 12 }}>
+            {!project && <BreakdownCard title="Projects" rows={breakdown.projects} label={projectName} showOutcomes />}
+            <BreakdownCard title="Models" rows={breakdown.models} />
+            <BreakdownCard title="Subagents" rows={breakdown.agents} />
+            <BreakdownCard title="Skills" rows={breakdown.skills} empty="No spend inside skills" />
+            <BreakdownCard title="Preceding Tool" rows={breakdown.tools} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function SpendChart({ series, groupBy }: { series: TimeSeries; groupBy: GroupBy }) {
+  const max = Math.max(...series.points.map(p => p.costUsd), 0.0001);
+  const labelEvery = Math.max(1, Math.ceil(series.points.length / 8));
+  const keyLabel = (key: string) => groupBy === 'project' && key !== 'other' ? projectName(key) : key;
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'flex-end', gap: 2, height: 180 }}>
+        {series.points.map(point => {
+          const title = [
+            pointLabel(point.start, series.granularity),
+            `Total ${formatCost(point.costUsd)}`,
+            ...series.keys.filter(k => point.groups?.[k]).map(k => `${keyLabel(k)}: ${formatCost(point.groups![k])}`),
+          ].join('\n');
+          return (
+            <div key={point.start} title={title} style={{
+              flex: 1,
+              height: `${(point.costUsd / max) * 100}%`,
+              minHeight: point.costUsd > 0 ? 2 : 0,
+              display: 'flex',
+              flexDirection: 'column-reverse',
+              borderRadius: 'var(--radius-sm) var(--radius-sm) 0 0',
+              overflow: 'hidden',
+              background: 'var(--color-bg-root)',
+            }}>
+              {series.keys.map((key, i) => {
+                const value = point.groups?.[key] || 0;
+                if (value <= 0 || point.costUsd <= 0) return null;
+                return (
+                  <div key={key} style={{
+                    height: `${(value / point.costUsd) * 100}%`,
+                    background: SERIES_COLORS[i % SERIES_COLORS.length],
+                  }} />
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+      <div style={{ display: 'flex', gap: 2, marginTop: 4 }}>
+        {series.points.map((point, i) => (
+          <div key={point.start} style={{
+            flex: 1,
+            fontSize: 9,
+            color: 'var(--color-text-tertiary)',
+            whiteSpace: 'nowrap',
+            overflow: 'visible',
+          }}>
+            {i % labelEvery === 0 ? pointLabel(point.start, series.granularity) : ''}
+          </div>
+        ))}
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12, marginTop: 12 }}>
+        {series.keys.map((key, i) => (
+          <span key={key} style={{ display: 'inline-flex', alignItems: 'center', gap: 6, fontSize: 11, color: 'var(--color-text-secondary)' }}>
+            <span style={{ width: 10, height: 10, borderRadius: 2, background: SERIES_COLORS[i % SERIES_COLORS.length] }} />
+            {keyLabel(key)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function BreakdownCard({ title, rows, label, showOutcomes, empty }: {
+  title: string;
+  rows: BreakdownRow[];
+  label?: (key: string) => string;
+  showOutcomes?: boolean;
+  empty?: string;
+}) {
+  const max = rows.length > 0 ? rows[0].costUsd : 1;
+
+  return (
+    <div className="card" style={{ padding: 16 }}>
+      <div style={sectionTitle}>{title}</div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+        {rows.slice(0, 10).map((row, idx) => (
+          <div
+            key={row.key}
+            title={`${formatTokens(totalTokens(row))} tokens · ${row.messages} turns · ${Math.round(row.cacheHitRatio * 100)}% cache hits`
+              + (showOutcomes ? ` · ${row.commits || 0} commits · ${row.filesChanged || 0} files` : '')}
+            style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 11 }}
+          >
+            <span style={{
+              width: 120,
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+              color: 'var(--color-text-primary)',
+              flexShrink: 0,
+            }}>
+              {label ? label(row.key) : row.key}
+            </span>
+            <div style={{
+              flex: 1,
+              height: 14,
+              background: 'var(--color-bg-root)',
+              borderRadius: 'var(--radius-sm)',
+              overflow: 'hidden',
+            }}>
+              <div style={{
+                height: '100%',
+                width: `${max > 0 ? (row.costUsd / max) * 100 : 0}%`,
+                background: SERIES_COLORS[idx % SERIES_COLORS.length],
+                borderRadius: 'var(--radius-sm)',
+                minWidth: 2,
+              }} />
+            </div>
+            <span style={{
+              fontFamily: 'var(--font-mono)',
+              color: 'var(--color-text-secondary)',
+              fontSize: 10,
+              flexShrink: 0,
+              width: 60,
+              textAlign: 'right',
+            }}>
+              {formatCost(row.costUsd)}
+            </span>
+            <span style={{
+              fontFamily: 'var(--font-mono)',
+              color: 'var(--color-text-tertiary)',
+              fontSize: 10,
+              flexShrink: 0,
+              width: 32,
+              textAlign: 'right',
+            }}>
+              {Math.round(row.share * 100)}%
+            </span>
+          </div>
+        ))}
+        {rows.length === 0 && (
+          <div style={{ fontSize: 12, color: 'var(--color-text-tertiary)', textAlign: 'center', padding: 12 }}>
+            {empty || 'No data'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
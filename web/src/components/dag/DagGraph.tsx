@@ -15,6 +15,8 @@ interface DagGraphProps {
   highlightDepth?: number;
   onNodeClick?: (node: DagNode) => void;
   onNodeHover?: (node: DagNode | null) => void;
+  /** Stroke color per edge type (unhighlighted edges); default border color */
+  edgeColor?: (type: string) => string | undefined;
   renderNode?: (props: {
     node: DagNode;
     x: number;
@@ -28,7 +30,7 @@ interface DagGraphProps {
 const MIN_ZOOM = 0.05;
 const MAX_ZOOM = 3;
 
-export function DagGraph({ graph, layoutOptions, selectedNodeId, highlightDepth = 1, onNodeClick, onNodeHover, renderNode }: DagGraphProps) {
+export function DagGraph({ graph, layoutOptions, selectedNodeId, highlightDepth = 1, onNodeClick, onNodeHover, edgeColor, renderNode }: DagGraphProps) {
   const [zoom, setZoom] = useState(1);
   const [pan, setPan] = useState({ x: 0, y: 0 });
   const [dragging, setDragging] = useState(false);
@@ -254,7 +256,7 @@ export function DagGraph({ graph, layoutOptions, selectedNodeId, highlightDepth
                 key={i}
                 d={d}
                 fill="none"
-                stroke={highlighted ? 'var(--color-accent, #3b82f6)' : 'var(--color-border-default, #334155)'}
+                stroke={highlighted ? 'var(--color-accent, #3b82f6)' : (edgeColor?.(edge.type) || 'var(--color-border-default, #334155)')}
                 strokeWidth={highlighted ? 2 : 1.5}
                 strokeOpacity={highlighted ? 1 : selectedNodeId ? 0.15 : 0.6}
                 markerEnd={highlighted ? 'url(#dag-arrowhead-hl)' : 'url(#dag-arrowhead)'}
@@ -17,6 +17,10 @@ import {
   ArrowLeft,
   Loader2,
   ExternalLink,
+  History,
+  RotateCcw,
+  Network,
+  GitCommit,
 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
@@ -24,6 +28,8 @@ import rehypeHighlight from 'rehype-highlight';
 import { useAppMode } from '@/contexts/AppModeContext';
 import { useMachineContext } from '@/contexts/MachineContext';
 import { useDeviceInfo } from '@/hooks/useDeviceInfo';
+import { DagGraph } from '@/components/dag/DagGraph';
+import type { DagNode, DagGraph as DagGraphType } from '@/components/dag/dag-types';
 
 // ============================================================================
 // Types
@@ -60,11 +66,28 @@ interface KnowledgeFull {
   sourceSessionId?: string;
   sourceAgentId?: string;
   sourceTimestamp?: string;
+  sourceIdentifier?: string;
+  planExecution?: 'executed' | 'partial' | 'not-executed';
+  executionSessionId?: string;
+  sourceCommit?: string;
   origin?: string;
   machineId?: string;
   machineHostname?: string;
   machineOS?: string;
-  parts: Array<{ partId: string; title: string; summary: string; content: string }>;
+  parts: Array<{ partId: string; title: string; summary: string; content: string; links?: KnowledgeLink[] }>;
+}
+
+interface KnowledgeLink {
+  type: 'depends-on' | 'supersedes' | 'contradicts' | 'example-of';
+  target: string;
+  source: 'mention' | 'similarity' | 'user';
+  score?: number;
+}
+
+interface KnowledgeGraphData {
+  rootId: string;
+  nodes: Array<{ id: string; title: string; type: string; status: string; project: string; depth: number }>;
+  edges: Array<{ from: string; to: string; fromDoc: string; toDoc: string; type: KnowledgeLink['type']; source: KnowledgeLink['source'] }>;
 }
 
 interface ExploreCandidate {
@@ -90,6 +113,30 @@ interface KnowledgeComment {
   addressedBy?: string;
 }
 
+interface KnowledgeRevision {
+  rev: number;
+  knowledgeId: string;
+  author: 'user' | 'reviewer' | 'generator' | 'remote-sync' | 'repo-sync';
+  sourceSessionId?: string;
+  createdAt: string;
+  revertedFrom?: number;
+}
+
+interface KnowledgeDiff {
+  from: number;
+  to: number | 'current';
+  fields: Record<string, { from: unknown; to: unknown }>;
+  parts: Array<{
+    partId: string;
+    status: 'added' | 'removed' | 'modified' | 'unchanged';
+    changedFields: string[];
+    oldTitle?: string;
+    newTitle?: string;
+    lines: Array<{ op: 'equal' | 'add' | 'remove'; text: string }>;
+  }>;
+  stats: { added: number; removed: number; modified: number; unchanged: number };
+}
+
 interface SearchResult {
   type: string;
   knowledgeId?: string;
@@ -107,7 +154,7 @@ interface SearchResult {
 }
 
 const KNOWLEDGE_TYPES = ['algorithm', 'contract', 'schema', 'wiring', 'invariant', 'flow'] as const;
-const COMMENT_TYPES = ['outdated', 'update', 'expand', 'remove', 'general'] as const;
+const COMMENT_TYPES = ['outdated', 'update', 'expand', 'remove', 'contradicts', 'general'] as const;
 
 const TYPE_COLORS: Record<string, string> = {
   algorithm: 'badge-blue',
@@ -118,10 +165,32 @@ const TYPE_COLORS: Record<string, string> = {
   flow: 'badge-cyan',
 };
 
+const AUTHOR_COLORS: Record<string, string> = {
+  user: 'badge-blue',
+  reviewer: 'badge-purple',
+  generator: 'badge-green',
+  'remote-sync': 'badge-orange',
+  'repo-sync': 'badge-cyan',
+};
+
 const STATUS_COLORS: Record<string, string> = {
   active: 'badge-green',
   outdated: 'badge-orange',
   archived: 'badge-default',
+  pending: 'badge-blue',
+};
+
+const LINK_COLORS: Record<string, { badge: string; stroke: string }> = {
+  'depends-on': { badge: 'badge-blue', stroke: '#3b82f6' },
+  supersedes: { badge: 'badge-orange', stroke: '#f59e0b' },
+  contradicts: { badge: 'badge-red', stroke: '#ef4444' },
+  'example-of': { badge: 'badge-green', stroke: '#22c55e' },
+};
+
+const PLAN_EXECUTION_COLORS: Record<string, string> = {
+  executed: 'badge-green',
+  partial: 'badge-orange',
+  'not-executed': 'badge-default',
 };
 
 // ============================================================================
@@ -193,6 +262,8 @@ export function KnowledgePage() {
   const [regenerating, setRegenerating] = useState(false);
   const [processingAll, setProcessingAll] = useState(false);
   const [processAllProgress, setProcessAllProgress] = useState<{ processed: number; total: number; errors: number } | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showGraph, setShowGraph] = useState(false);
 
   const { viewMode } = useDeviceInfo();
   const isMobile = viewMode === 'mobile';
@@ -280,6 +351,7 @@ export function KnowledgePage() {
   }, [urlId, urlPart]); // eslint-disable-line react-hooks/exhaustive-deps
 
   useEffect(() => {
+    setShowHistory(false);
     if (selectedId) {
       fetchKnowledge(selectedId, selectedItemMachineId);
     } else {
@@ -708,6 +780,7 @@ export function KnowledgePage() {
                 <option value="active">active</option>
                 <option value="outdated">outdated</option>
                 <option value="archived">archived</option>
+                <option value="pending">pending review</option>
               </select>
               </div>
               <select
@@ -1090,6 +1163,11 @@ export function KnowledgePage() {
                   <span className={`badge ${STATUS_COLORS[knowledge.status] || 'badge-default'}`}>
                     {knowledge.status}
                   </span>
+                  {knowledge.planExecution && (
+                    <span className={`badge ${PLAN_EXECUTION_COLORS[knowledge.planExecution] || 'badge-default'}`} title="Whether this plan was carried out">
+                      plan {knowledge.planExecution}
+                    </span>
+                  )}
                   {knowledge.project && (
                     <span style={{ fontSize: 11, color: 'var(--color-text-tertiary)', fontFamily: 'var(--font-mono)' }}>
                       {knowledge.project}
@@ -1119,6 +1197,26 @@ export function KnowledgePage() {
                   />
                   Show addressed
                 </label>
+                {knowledge.sourceCommit && (
+                  <span
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 4,
+                      padding: '4px 10px',
+                      color: 'var(--color-text-secondary)',
+                      border: '1px solid var(--color-border)',
+                      borderRadius: 'var(--radius-md)',
+                      fontSize: 12,
+                      fontFamily: 'var(--font-mono)',
+                      opacity: 0.85,
+                    }}
+                    title={`Mined from commit ${knowledge.sourceCommit}`}
+                  >
+                    <GitCommit size={13} />
+                    {knowledge.sourceCommit.slice(0, 7)}
+                  </span>
+                )}
                 {knowledge.sourceSessionId && (
                   <>
                     <a
@@ -1145,6 +1243,32 @@ export function KnowledgePage() {
                       <ExternalLink size={13} />
                       Source
                     </a>
+                    {knowledge.executionSessionId && knowledge.executionSessionId !== knowledge.sourceSessionId && (
+                      <a
+                        href={`/sessions?session=${knowledge.executionSessionId}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        style={{
+                          display: 'flex',
+                          alignItems: 'center',
+                          gap: 4,
+                          padding: '4px 10px',
+                          background: 'var(--color-bg-surface)',
+                          color: 'var(--color-text-secondary)',
+                          border: '1px solid var(--color-border)',
+                          borderRadius: 'var(--radius-md)',
+                          fontSize: 12,
+                          cursor: 'pointer',
+                          fontFamily: 'var(--font-sans)',
+                          textDecoration: 'none',
+                          opacity: 0.85,
+                        }}
+                        title="View the session that executed this plan"
+                      >
+                        <ExternalLink size={13} />
+                        Executed in
+                      </a>
+                    )}
                     <button
                       onClick={handleRegenerate}
                       disabled={regenerating}
@@ -1173,6 +1297,46 @@ export function KnowledgePage() {
                     </button>
                   </>
                 )}
+                <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 4,
+                    padding: '4px 10px',
+                    background: showHistory ? 'var(--color-accent-glow)' : 'var(--color-bg-surface)',
+                    color: showHistory ? 'var(--color-accent)' : 'var(--color-text-secondary)',
+                    border: '1px solid var(--color-border-default)',
+                    borderRadius: 'var(--radius-md)',
+                    fontSize: 12,
+                    cursor: 'pointer',
+                    fontFamily: 'var(--font-sans)',
+                  }}
+                  title="Revision history"
+                >
+                  <History size={13} />
+                  History
+                </button>
+                <button
+                  onClick={() => setShowGraph(!showGraph)}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 4,
+                    padding: '4px 10px',
+                    background: showGraph ? 'var(--color-accent-glow)' : 'var(--color-bg-surface)',
+                    color: showGraph ? 'var(--color-accent)' : 'var(--color-text-secondary)',
+                    border: '1px solid var(--color-border-default)',
+                    borderRadius: 'var(--radius-md)',
+                    fontSize: 12,
+                    cursor: 'pointer',
+                    fontFamily: 'var(--font-sans)',
+                  }}
+                  title="Linked knowledge"
+                >
+                  <Network size={13} />
+                  Graph
+                </button>
                 <button
                   onClick={() => setCommentForm(commentForm ? null : { type: 'general', content: '' })}
                   style={{
@@ -1211,7 +1375,19 @@ export function KnowledgePage() {
               />
             )}
 
-            {/* Content */}
+            {/* Knowledge graph (stays open while navigating between linked documents) */}
+            {showGraph && !knowledge.machineId && (
+              <KnowledgeGraphPanel
+                knowledgeId={knowledge.id}
+                updatedAt={knowledge.updatedAt}
+                apiFetch={apiFetch}
+                onSelect={(id) => { setSelectedId(id); setSelectedPartId(null); setSelectedItemMachineId(undefined); }}
+                onClose={() => setShowGraph(false)}
+              />
+            )}
+
+            {/* Content (+ history drawer) */}
+            <div style={{ flex: 1, display: 'flex', overflow: 'hidden' }}>
             <div style={{ flex: 1, overflowY: 'auto', padding: '12px 20px 24px' }}>
               {/* Document-level comments */}
               {docComments.length > 0 && (
@@ -1228,6 +1404,16 @@ export function KnowledgePage() {
                   onAddComment={(partId) =>
                     setCommentForm({ partId, type: 'general', content: '' })
                   }
+                  onSelectLink={(target) => {
+                    const docId = target.replace(/\.\d+$/, '');
+                    setSelectedItemMachineId(undefined);
+                    if (docId === target) {
+                      setSelectedId(docId);
+                      setSelectedPartId(null);
+                    } else {
+                      selectPart(docId, target);
+                    }
+                  }}
                 />
               ))}
 
@@ -1254,6 +1440,17 @@ export function KnowledgePage() {
                 <span>Updated: {formatDate(knowledge.updatedAt)}</span>
               </div>
             </div>
+            {showHistory && (
+              <HistoryDrawer
+                knowledgeId={knowledge.id}
+                machineId={selectedItemMachineId}
+                updatedAt={knowledge.updatedAt}
+                apiFetch={apiFetch}
+                onClose={() => setShowHistory(false)}
+                onReverted={() => { fetchKnowledge(knowledge.id, selectedItemMachineId); fetchList(); }}
+              />
+            )}
+            </div>
           </>
         )}
       </div>
@@ -1539,11 +1736,13 @@ function PartSection({
   comments,
   isHighlighted,
   onAddComment,
+  onSelectLink,
 }: {
-  part: { partId: string; title: string; summary: string; content: string };
+  part: { partId: string; title: string; summary: string; content: string; links?: KnowledgeLink[] };
   comments: KnowledgeComment[];
   isHighlighted: boolean;
   onAddComment: (partId: string) => void;
+  onSelectLink: (target: string) => void;
 }) {
   // Combine summary + content into markdown
   const md = part.content ? `${part.summary}\n\n${part.content}` : part.summary;
@@ -1616,6 +1815,25 @@ function PartSection({
         </ReactMarkdown>
       </div>
 
+      {/* Typed links */}
+      {part.links && part.links.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginTop: 8 }}>
+          {part.links.map(link => (
+            <button
+              key={`${link.type}-${link.target}`}
+              onClick={() => onSelectLink(link.target)}
+              className={`badge ${LINK_COLORS[link.type]?.badge || 'badge-default'}`}
+              style={{ fontSize: 10, cursor: 'pointer', border: 'none', fontFamily: 'var(--font-mono)' }}
+              title={link.source === 'similarity' && link.score !== undefined
+                ? `Found by similarity (${Math.round(link.score * 100)}%)`
+                : link.source === 'mention' ? 'Mentioned in text' : 'Added by user'}
+            >
+              {link.type} → {link.target}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Part comments */}
       {comments.length > 0 && (
         <CommentList comments={comments} label={`Comments on ${part.partId}`} />
@@ -1624,6 +1842,406 @@ function PartSection({
   );
 }
 
+function KnowledgeGraphPanel({
+  knowledgeId,
+  updatedAt,
+  apiFetch,
+  onSelect,
+  onClose,
+}: {
+  knowledgeId: string;
+  updatedAt: string;
+  apiFetch: <T>(path: string, opts?: RequestInit) => Promise<T>;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [data, setData] = useState<KnowledgeGraphData | null>(null);
+  const [depth, setDepth] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [extracting, setExtracting] = useState(false);
+
+  const load = useCallback(() => {
+    setLoading(true);
+    apiFetch<KnowledgeGraphData>(`/knowledge/${knowledgeId}/graph?depth=${depth}`)
+      .then(setData)
+      .catch(() => setData(null))
+      .finally(() => setLoading(false));
+  }, [knowledgeId, depth, apiFetch]);
+
+  useEffect(() => { load(); }, [load, updatedAt]);
+
+  const extract = useCallback(async () => {
+    setExtracting(true);
+    try {
+      await apiFetch(`/knowledge/${knowledgeId}/links/extract`, { method: 'POST' });
+      load();
+    } catch { /* ignore */ } finally {
+      setExtracting(false);
+    }
+  }, [knowledgeId, apiFetch, load]);
+
+  // Collapse part-level links into one edge per (doc, doc, type)
+  const graph = useMemo((): DagGraphType | null => {
+    if (!data) return null;
+    const edges = new Map<string, { from: string; to: string; type: string }>();
+    for (const e of data.edges) {
+      if (e.fromDoc === e.toDoc) continue;
+      edges.set(`${e.fromDoc}|${e.toDoc}|${e.type}`, { from: e.fromDoc, to: e.toDoc, type: e.type });
+    }
+    return {
+      nodes: data.nodes.map(n => ({
+        id: n.id,
+        type: n.type,
+        label: `${n.id}: ${n.title}`,
+        metadata: { status: n.status === 'active' ? 'completed' : 'pending', depth: n.depth },
+      })),
+      edges: [...edges.values()],
+      rootId: data.rootId,
+      stats: { nodeCount: data.nodes.length, edgeCount: edges.size, maxDepth: depth, branchCount: 0 },
+    };
+  }, [data, depth]);
+
+  return (
+    <div style={{
+      height: 300,
+      flexShrink: 0,
+      borderBottom: '1px solid var(--color-border-default)',
+      background: 'var(--color-bg-surface)',
+      display: 'flex',
+      flexDirection: 'column',
+    }}>
+      <div style={{
+        padding: '6px 12px',
+        borderBottom: '1px solid var(--color-border-default)',
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        flexWrap: 'wrap',
+      }}>
+        <Network size={14} style={{ color: 'var(--color-accent)' }} />
+        <span style={{ fontSize: 13, fontWeight: 600, color: 'var(--color-text-primary)' }}>
+          Linked knowledge
+        </span>
+        <select
+          value={depth}
+          onChange={(e) => setDepth(Number(e.target.value))}
+          style={{ fontSize: 11, padding: '1px 4px', background: 'var(--color-bg-elevated)', color: 'var(--color-text-secondary)', border: '1px solid var(--color-border-default)', borderRadius: 'var(--radius-sm)' }}
+          title="Hops to follow"
+        >
+          {[1, 2, 3].map(d => <option key={d} value={d}>{d} hop{d > 1 ? 's' : ''}</option>)}
+        </select>
+        {Object.entries(LINK_COLORS).map(([type, c]) => (
+          <span key={type} style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: 10, color: 'var(--color-text-tertiary)' }}>
+            <span style={{ width: 12, height: 2, background: c.stroke, display: 'inline-block' }} />
+            {type}
+          </span>
+        ))}
+        <button
+          onClick={extract}
+          disabled={extracting}
+          style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: 4, background: 'none', border: 'none', cursor: extracting ? 'not-allowed' : 'pointer', fontSize: 11, color: 'var(--color-text-secondary)', padding: 0 }}
+          title="Re-extract links from mentions and similar knowledge"
+        >
+          {extracting ? <Loader2 size={12} style={{ animation: 'spin 1s linear infinite' }} /> : <RefreshCw size={12} />}
+          Re-link
+        </button>
+        <button
+          onClick={onClose}
+          style={{ background: 'none', border: 'none', cursor: 'pointer', padding: 0, display: 'flex' }}
+          title="Close graph"
+        >
+          <X size={14} style={{ color: 'var(--color-text-tertiary)' }} />
+        </button>
+      </div>
+
+      <div style={{ flex: 1, position: 'relative', overflow: 'hidden' }}>
+        {loading && !graph ? (
+          <div style={{ padding: 16, textAlign: 'center', color: 'var(--color-text-tertiary)', fontSize: 12 }}>
+            Loading...
+          </div>
+        ) : !graph || graph.edges.length === 0 ? (
+          <div style={{ padding: 16, textAlign: 'center', color: 'var(--color-text-tertiary)', fontSize: 12 }}>
+            No linked knowledge yet. Links come from K### mentions and similar documents — try Re-link.
+          </div>
+        ) : (
+          <DagGraph
+            graph={graph}
+            // No selection: selection highlighting would repaint every typed edge in the accent color
+            selectedNodeId={null}
+            onNodeClick={(node: DagNode) => { if (node.id !== knowledgeId) onSelect(node.id); }}
+            edgeColor={(type) => LINK_COLORS[type]?.stroke}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function HistoryDrawer({
+  knowledgeId,
+  machineId,
+  updatedAt,
+  apiFetch,
+  onClose,
+  onReverted,
+}: {
+  knowledgeId: string;
+  machineId?: string;
+  updatedAt: string;
+  apiFetch: <T>(path: string, opts?: RequestInit) => Promise<T>;
+  onClose: () => void;
+  onReverted: () => void;
+}) {
+  const [revisions, setRevisions] = useState<KnowledgeRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedRev, setSelectedRev] = useState<number | null>(null);
+  const [diff, setDiff] = useState<KnowledgeDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [reverting, setReverting] = useState(false);
+
+  const machineQs = machineId ? `machineId=${encodeURIComponent(machineId)}` : '';
+
+  // Reload history whenever the document changes (e.g. after a revert)
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    apiFetch<KnowledgeRevision[]>(`/knowledge/${knowledgeId}/revisions${machineQs ? `?${machineQs}` : ''}`)
+      .then(data => { if (!cancelled) setRevisions(Array.isArray(data) ? [...data].reverse() : []); })
+      .catch(() => { if (!cancelled) setRevisions([]); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [knowledgeId, machineQs, updatedAt]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const selectRevision = useCallback(async (rev: number) => {
+    setSelectedRev(rev);
+    setDiff(null);
+    // Oldest revision has nothing to diff against
+    if (revisions.length > 0 && revisions[revisions.length - 1].rev === rev) return;
+    setDiffLoading(true);
+    try {
+      const params = new URLSearchParams({ to: String(rev) });
+      if (machineId) params.set('machineId', machineId);
+      const data = await apiFetch<KnowledgeDiff>(`/knowledge/${knowledgeId}/diff?${params}`);
+      setDiff((data as any)?.parts ? data : null);
+    } catch {
+      setDiff(null);
+    } finally {
+      setDiffLoading(false);
+    }
+  }, [knowledgeId, machineId, revisions]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const revert = useCallback(async (rev: number) => {
+    if (!confirm(`Restore ${knowledgeId} to revision ${rev}? The current content is kept in history.`)) return;
+    setReverting(true);
+    try {
+      await apiFetch(`/knowledge/${knowledgeId}/revert/${rev}`, { method: 'POST' });
+      setSelectedRev(null);
+      setDiff(null);
+      onReverted();
+    } catch (err) {
+      console.error('Failed to revert knowledge:', err);
+    } finally {
+      setReverting(false);
+    }
+  }, [knowledgeId, onReverted]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const latestRev = revisions[0]?.rev;
+
+  return (
+    <div style={{
+      width: 380,
+      flexShrink: 0,
+      borderLeft: '1px solid var(--color-border-default)',
+      background: 'var(--color-bg-surface)',
+      display: 'flex',
+      flexDirection: 'column',
+      overflow: 'hidden',
+    }}>
+      <div style={{
+        padding: '8px 12px',
+        borderBottom: '1px solid var(--color-border-default)',
+        display: 'flex',
+        alignItems: 'center',
+        gap: 6,
+      }}>
+        <History size={14} style={{ color: 'var(--color-accent)' }} />
+        <span style={{ fontSize: 13, fontWeight: 600, color: 'var(--color-text-primary)' }}>
+          History
+        </span>
+        <span style={{ fontSize: 11, color: 'var(--color-text-tertiary)' }}>
+          {revisions.length} revision{revisions.length === 1 ? '' : 's'}
+        </span>
+        <button
+          onClick={onClose}
+          style={{ marginLeft: 'auto', background: 'none', border: 'none', cursor: 'pointer', padding: 0, display: 'flex' }}
+          title="Close history"
+        >
+          <X size={14} style={{ color: 'var(--color-text-tertiary)' }} />
+        </button>
+      </div>
+
+      <div style={{ flex: 1, overflowY: 'auto' }}>
+        {loading ? (
+          <div style={{ padding: 16, textAlign: 'center', color: 'var(--color-text-tertiary)', fontSize: 12 }}>
+            Loading...
+          </div>
+        ) : revisions.length === 0 ? (
+          <div style={{ padding: 16, textAlign: 'center', color: 'var(--color-text-tertiary)', fontSize: 12 }}>
+            No revisions recorded yet. History starts with the next change.
+          </div>
+        ) : revisions.map(r => (
+          <div key={r.rev} style={{ borderBottom: '1px solid var(--color-border-default)' }}>
+            <button
+              onClick={() => selectRevision(r.rev)}
+              style={{
+                width: '100%',
+                textAlign: 'left',
+                padding: '8px 12px',
+                background: selectedRev === r.rev ? 'var(--color-bg-active)' : 'transparent',
+                border: 'none',
+                cursor: 'pointer',
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 2,
+              }}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                <span style={{ fontSize: 11, fontFamily: 'var(--font-mono)', color: 'var(--color-accent)', fontWeight: 600 }}>
+                  r{r.rev}
+                </span>
+                <span className={`badge ${AUTHOR_COLORS[r.author] || 'badge-default'}`} style={{ fontSize: 10 }}>
+                  {r.author}
+                </span>
+                {r.rev === latestRev && (
+                  <span style={{ fontSize: 10, color: 'var(--color-text-tertiary)' }}>current</span>
+                )}
+                <span style={{ marginLeft: 'auto', fontSize: 11, color: 'var(--color-text-tertiary)' }}>
+                  {formatDate(r.createdAt)}
+                </span>
+              </div>
+              {(r.revertedFrom !== undefined || r.sourceSessionId) && (
+                <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)' }}>
+                  {r.revertedFrom !== undefined && <span>Restored r{r.revertedFrom}</span>}
+                  {r.revertedFrom !== undefined && r.sourceSessionId && <span> &middot; </span>}
+                  {r.sourceSessionId && (
+                    <span style={{ fontFamily: 'var(--font-mono)' }}>session {r.sourceSessionId.slice(0, 8)}</span>
+                  )}
+                </div>
+              )}
+            </button>
+
+            {selectedRev === r.rev && (
+              <div style={{ padding: '4px 12px 10px' }}>
+                {!machineId && r.rev !== latestRev && (
+                  <button
+                    onClick={() => revert(r.rev)}
+                    disabled={reverting}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 4,
+                      padding: '3px 10px',
+                      marginBottom: 8,
+                      background: 'var(--color-bg-elevated)',
+                      color: 'var(--color-text-secondary)',
+                      border: '1px solid var(--color-border-default)',
+                      borderRadius: 'var(--radius-md)',
+                      fontSize: 11,
+                      cursor: reverting ? 'not-allowed' : 'pointer',
+                      opacity: reverting ? 0.6 : 1,
+                    }}
+                  >
+                    {reverting
+                      ? <Loader2 size={11} style={{ animation: 'spin 1s linear infinite' }} />
+                      : <RotateCcw size={11} />}
+                    Restore this revision
+                  </button>
+                )}
+                {diffLoading ? (
+                  <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)' }}>Loading diff...</div>
+                ) : diff ? (
+                  <RevisionDiffView diff={diff} />
+                ) : (
+                  <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)' }}>First recorded revision</div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function RevisionDiffView({ diff }: { diff: KnowledgeDiff }) {
+  const changedParts = diff.parts.filter(p => p.status !== 'unchanged');
+  const fieldNames = Object.keys(diff.fields);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)' }}>
+        vs r{diff.from}: {diff.stats.modified} modified &middot; {diff.stats.added} added &middot; {diff.stats.removed} removed
+      </div>
+      {fieldNames.map(f => (
+        <div key={f} style={{ fontSize: 11, color: 'var(--color-text-secondary)' }}>
+          <span style={{ fontWeight: 600 }}>{f}:</span>{' '}
+          <span style={{ textDecoration: 'line-through', color: 'var(--color-status-red, #e55)' }}>{String(diff.fields[f].from ?? '')}</span>
+          {' → '}
+          <span style={{ color: 'var(--color-status-green)' }}>{String(diff.fields[f].to ?? '')}</span>
+        </div>
+      ))}
+      {changedParts.length === 0 && fieldNames.length === 0 && (
+        <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)' }}>No content changes</div>
+      )}
+      {changedParts.map(p => (
+        <div key={p.partId} style={{
+          border: '1px solid var(--color-border-default)',
+          borderRadius: 'var(--radius-md)',
+          overflow: 'hidden',
+        }}>
+          <div style={{
+            padding: '4px 8px',
+            fontSize: 11,
+            background: 'var(--color-bg-elevated)',
+            display: 'flex',
+            gap: 6,
+          }}>
+            <span style={{ fontFamily: 'var(--font-mono)', color: 'var(--color-accent)' }}>{p.partId}</span>
+            <span style={{ color: 'var(--color-text-secondary)', flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {p.newTitle || p.oldTitle}
+            </span>
+            <span className={`badge ${p.status === 'added' ? 'badge-green' : p.status === 'removed' ? 'badge-red' : 'badge-blue'}`} style={{ fontSize: 10 }}>
+              {p.status}
+            </span>
+          </div>
+          <pre style={{
+            margin: 0,
+            padding: '4px 0',
+            fontSize: 11,
+            fontFamily: 'var(--font-mono)',
+            maxHeight: 240,
+            overflow: 'auto',
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word',
+          }}>
+            {p.lines.filter(l => l.op !== 'equal').map((l, i) => (
+              <div key={i} style={{
+                padding: '0 8px',
+                background: l.op === 'add'
+                  ? 'color-mix(in srgb, var(--color-status-green) 12%, transparent)'
+                  : 'color-mix(in srgb, var(--color-status-red, #e55) 12%, transparent)',
+                color: 'var(--color-text-secondary)',
+              }}>
+                {l.op === 'add' ? '+ ' : '- '}{l.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function CommentList({ comments, label }: { comments: KnowledgeComment[]; label: string }) {
   return (
     <div style={{
@@ -1659,6 +2277,7 @@ function CommentList({ comments, label }: { comments: KnowledgeComment[]; label:
               c.type === 'outdated' ? 'badge-red' :
               c.type === 'update' ? 'badge-blue' :
               c.type === 'expand' ? 'badge-green' :
+              c.type === 'contradicts' ? 'badge-purple' :
               c.type === 'remove' ? 'badge-orange' : 'badge-default'
             }`} style={{ fontSize: 10, marginRight: 4 }}>
               {c.type}
@@ -16,6 +16,7 @@ import {
   BookOpen,
   Compass,
   Zap,
+  DollarSign,
 } from 'lucide-react';
 import { useExperiment } from '@/hooks/useExperiment';
 import { usePlatform } from '@/hooks/usePlatform';
@@ -28,6 +29,7 @@ const baseNavItems = [
   { href: '/search', icon: Search, label: 'Search' },
   { href: '/tasks', icon: CheckSquare, label: 'Tasks' },
   { href: '/projects', icon: FolderOpen, label: 'Projects' },
+  { href: '/costs', icon: DollarSign, label: 'Costs' },
   { href: '/knowledge', icon: BookOpen, label: 'Knowledge' },
   { href: '/skills', icon: Zap, label: 'Skills' },
   { href: '/assist-resources', icon: Compass, label: 'Assist Resources' },
@@ -2,6 +2,8 @@
 
 import { useEffect, useCallback } from 'react';
 import { useSearch } from '@/contexts/SearchContext';
+import { useAppMode } from '@/contexts/AppModeContext';
+import { useMachineContext } from '@/contexts/MachineContext';
 import { useDeviceInfo } from '@/hooks/useDeviceInfo';
 import { SessionSearch } from './SessionSearch';
 
@@ -9,6 +11,17 @@ export function SearchOverlay() {
   const { isOpen, close, initialQuery, directory, projectPath } = useSearch();
   const { viewMode } = useDeviceInfo();
   const isMobile = viewMode === 'mobile';
+  const { apiClient } = useAppMode();
+  const { selectedMachine } = useMachineContext();
+
+  // "Watch this query": save it as a saved search; new matches arrive as alerts
+  const handleWatch = useCallback(async ({ query, scope, projectPath: watchProject }: { query: string; scope: string; projectPath?: string }) => {
+    await apiClient.fetchPath('/saved-searches', {
+      method: 'POST',
+      body: { query, scope: scope === 'smart' ? 'all' : scope, project: watchProject, type: 'all' },
+      machineId: selectedMachine?.id,
+    });
+  }, [apiClient, selectedMachine?.id]);
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     if (e.key === 'Escape') close();
@@ -60,6 +73,7 @@ export function SearchOverlay() {
           directory={directory}
           projectPath={projectPath}
           onClose={close}
+          onWatch={handleWatch}
         />
       </div>
     </div>
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { Search, X, Clock, Loader2, ExternalLink, Copy, Check, Terminal, GitFork, SquareTerminal, BookOpen, Circle, MessageSquareMore } from 'lucide-react';
+import { Search, X, Clock, Loader2, ExternalLink, Copy, Check, Terminal, GitFork, SquareTerminal, BookOpen, Circle, MessageSquareMore, Bell, BellRing } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { useAppMode } from '@/contexts/AppModeContext';
 import { useMachineContext } from '@/contexts/MachineContext';
@@ -74,6 +74,8 @@ interface SessionSearchProps {
   directory?: string;
   projectPath?: string;
   onClose?: () => void;
+  /** Save the current query as a saved search; shows a "Watch" action when set */
+  onWatch?: (params: { query: string; scope: Scope; projectPath?: string }) => Promise<void>;
 }
 
 const SCOPES: { value: Scope; label: string }[] = [
@@ -97,7 +99,7 @@ function timeAgo(ts: string): string {
   return `${days}d ago`;
 }
 
-export function SessionSearch({ mode, initialQuery = '', directory: initialDirectory, projectPath: initialProjectPath, onClose }: SessionSearchProps) {
+export function SessionSearch({ mode, initialQuery = '', directory: initialDirectory, projectPath: initialProjectPath, onClose, onWatch }: SessionSearchProps) {
   const { apiClient, isLocal, proxy } = useAppMode();
   const { selectedMachine } = useMachineContext();
   const machineId = selectedMachine?.id;
@@ -123,6 +125,7 @@ export function SessionSearch({ mode, initialQuery = '', directory: initialDirec
   const [loadingKnowledge, setLoadingKnowledge] = useState(false);
   const [selectedKnowledgeMachineId, setSelectedKnowledgeMachineId] = useState<string | undefined>();
   const [highlightKnowledgePartId, setHighlightKnowledgePartId] = useState<string | null>(null);
+  const [watchState, setWatchState] = useState<'idle' | 'saving' | 'watching' | 'error'>('idle');
 
   // Recent knowledge for default view (no query)
   const [recentKnowledge, setRecentKnowledge] = useState<Array<{
@@ -198,6 +201,7 @@ export function SessionSearch({ mode, initialQuery = '', directory: initialDirec
   // Debounced input handler
   const handleInputChange = useCallback((value: string) => {
     setQuery(value);
+    setWatchState('idle');
     userSelectedRef.current = false;
     if (debounceRef.current) clearTimeout(debounceRef.current);
     debounceRef.current = setTimeout(() => doSearch(value, scope), 200);
@@ -386,7 +390,7 @@ export function SessionSearch({ mode, initialQuery = '', directory: initialDirec
           {SCOPES.map(s => (
             <button
               key={s.value}
-              onClick={() => setScope(s.value)}
+              onClick={() => { setScope(s.value); setWatchState('idle'); }}
               style={{
                 padding: '4px 8px',
                 fontSize: 10,
@@ -404,6 +408,36 @@ export function SessionSearch({ mode, initialQuery = '', directory: initialDirec
           ))}
         </div>
 
+        {/* Watch this query (saved search alerts) */}
+        {onWatch && query.trim() && (
+          <button
+            onClick={async () => {
+              setWatchState('saving');
+              try {
+                await onWatch({ query: query.trim(), scope, projectPath: initialProjectPath });
+                setWatchState('watching');
+              } catch {
+                setWatchState('error');
+              }
+            }}
+            disabled={watchState === 'saving' || watchState === 'watching'}
+            className="btn btn-ghost"
+            style={{
+              display: 'flex', alignItems: 'center', gap: 4,
+              padding: '4px 8px', fontSize: 10, flexShrink: 0,
+              color: watchState === 'watching' ? 'var(--color-accent)'
+                : watchState === 'error' ? 'var(--color-status-red)'
+                : 'var(--color-text-tertiary)',
+            }}
+            title="Save this query and get alerts when new sessions or knowledge match it"
+          >
+            {watchState === 'saving' ? <Loader2 size={11} className="spin" />
+              : watchState === 'watching' ? <BellRing size={11} />
+              : <Bell size={11} />}
+            {watchState === 'watching' ? 'Watching' : watchState === 'error' ? 'Retry watch' : 'Watch'}
+          </button>
+        )}
+
         {mode === 'popup' && onClose && (
           <button
             onClick={onClose}
@@ -1025,6 +1059,7 @@ function KnowledgeCommentBlock({ comments, label }: { comments: KnowledgeComment
               c.type === 'outdated' ? 'badge-red' :
               c.type === 'update' ? 'badge-blue' :
               c.type === 'expand' ? 'badge-green' :
+              c.type === 'contradicts' ? 'badge-purple' :
               c.type === 'remove' ? 'badge-orange' : 'badge-default'
             }`} style={{ fontSize: 9, marginRight: 3 }}>
               {c.type}
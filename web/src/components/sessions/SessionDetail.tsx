@@ -21,6 +21,7 @@ import { DbTab } from './tabs/DbTab';
 import { JsonTab } from './tabs/JsonTab';
 import { TeamTab } from './tabs/TeamTab';
 import { DagTab } from './tabs/DagTab';
+import { CacheTab } from './tabs/CacheTab';
 import { SkillTimeline } from '../skills/SkillTimeline';
 import { CommandTimeline } from '../skills/CommandTimeline';
 import {
@@ -71,7 +72,7 @@ interface SessionDetailProps {
   onSelectSession?: (sessionId: string, machineId?: string) => void;
 }
 
-type TabId = 'chat' | 'console' | 'tasks' | 'plans' | 'files' | 'thinking' | 'git' | 'agents' | 'team' | 'dag' | 'db' | 'json' | 'meta' | 'skills' | 'commands';
+type TabId = 'chat' | 'console' | 'tasks' | 'plans' | 'files' | 'thinking' | 'git' | 'agents' | 'team' | 'dag' | 'db' | 'json' | 'meta' | 'skills' | 'commands' | 'cache';
 
 // Session status badge config
 function getStatusBadge(detail: SessionDetailType | null): { label: string; className: string } | null {
@@ -295,6 +296,7 @@ export function SessionDetail({ sessionId, machineId, onLastSuggestion, onSubage
     { id: 'thinking', label: 'Thinking', count: thinkingBlocks.length || undefined },
     { id: 'git', label: 'Git', count: gitOperations.length || undefined },
     { id: 'db', label: 'DB', count: dbOperations.length || undefined },
+    { id: 'cache', label: 'Cache' },
     { id: 'json', label: 'JSON' },
     { id: 'meta', label: 'Meta' },
   ];
@@ -701,6 +703,9 @@ export function SessionDetail({ sessionId, machineId, onLastSuggestion, onSubage
         {activeTab === 'db' && (
           <DbTab operations={dbOperations} />
         )}
+        {activeTab === 'cache' && (
+          <CacheTab sessionId={sessionId} machineId={machineId} />
+        )}
         {activeTab === 'json' && detail && (
           <JsonTab detail={detail} />
         )}
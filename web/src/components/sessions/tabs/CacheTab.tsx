@@ -0,0 +1,269 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Loader2, Database, RefreshCw } from 'lucide-react';
+import { useAppMode } from '@/contexts/AppModeContext';
+import { useMachineContext } from '@/contexts/MachineContext';
+import { formatCost, formatTokens } from '@/lib/utils';
+
+type BustCause = 'idle_gap' | 'compaction' | 'model_switch' | 'system_prompt_change' | 'claude_md_edit' | 'unknown';
+
+interface CacheRequest {
+  lineIndex: number;
+  timestamp?: string;
+  turnIndex: number;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  cacheWrite1hTokens: number;
+  hitRatio: number;
+  gapSeconds?: number;
+  bust?: { cause: BustCause; causes: BustCause[]; rewrittenTokens: number; lostUsd: number };
+}
+
+interface CacheAnalysis {
+  totals: {
+    requests: number;
+    cacheReadTokens: number;
+    cacheWrite5mTokens: number;
+    cacheWrite1hTokens: number;
+    hitRatio: number;
+    cacheReadCostUsd: number;
+    cacheWriteCostUsd: number;
+    totalCostUsd: number;
+  };
+  busts: number;
+  estimatedLossUsd: number;
+  requests: CacheRequest[];
+  recommendations: Array<{ cause: string; severity: 'high' | 'medium' | 'low'; message: string; estimatedSavingsUsd: number }>;
+}
+
+interface CacheTabProps {
+  sessionId: string;
+  machineId?: string;
+}
+
+const CAUSE_LABELS: Record<BustCause, string> = {
+  idle_gap: 'Idle gap',
+  compaction: 'Compaction',
+  model_switch: 'Model switch',
+  system_prompt_change: 'System prompt change',
+  claude_md_edit: 'CLAUDE.md edit',
+  unknown: 'Unknown',
+};
+
+const SEVERITY_BADGES: Record<string, string> = {
+  high: 'badge-red',
+  medium: 'badge-yellow',
+  low: 'badge-blue',
+};
+
+function formatGap(seconds?: number): string {
+  if (seconds === undefined) return '—';
+  if (seconds >= 3600) return `${(seconds / 3600).toFixed(1)}h`;
+  if (seconds >= 60) return `${Math.round(seconds / 60)}m`;
+  return `${seconds}s`;
+}
+
+export function CacheTab({ sessionId, machineId }: CacheTabProps) {
+  const { apiClient, proxy } = useAppMode();
+  const { selectedMachineId } = useMachineContext();
+
+  const apiClientRef = useRef(apiClient);
+  apiClientRef.current = apiClient;
+  const machineIdRef = useRef(machineId || selectedMachineId);
+  machineIdRef.current = machineId || selectedMachineId;
+
+  const apiFetch = useCallback(async <T,>(path: string): Promise<T> => {
+    return apiClientRef.current.fetchPath<T>(path, {
+      machineId: machineIdRef.current || proxy.machineId || undefined,
+    });
+  }, [proxy.machineId]);
+
+  const [analysis, setAnalysis] = useState<CacheAnalysis | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    apiFetch<CacheAnalysis>(`/sessions/${sessionId}/cache-analysis`)
+      .then(data => {
+        if (!cancelled) setAnalysis(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err?.message || 'Failed to load cache analysis');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [apiFetch, sessionId, machineId, selectedMachineId, reloadKey]);
+
+  if (loading && !analysis) {
+    return (
+      <div className="empty-state" style={{ height: '100%' }}>
+        <Loader2 size={20} style={{ animation: 'spin 1s linear infinite' }} />
+        <span style={{ fontSize: 12 }}>Analyzing prompt cache...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="empty-state" style={{ height: '100%' }}>
+        <span style={{ fontSize: 13, color: 'var(--color-status-red)' }}>{error}</span>
+      </div>
+    );
+  }
+
+  if (!analysis || analysis.totals.requests === 0) {
+    return (
+      <div className="empty-state" style={{ height: '100%' }}>
+        <Database size={32} style={{ color: 'var(--color-text-tertiary)', opacity: 0.5 }} />
+        <span style={{ fontSize: 13, color: 'var(--color-text-tertiary)', marginTop: 8 }}>
+          No API requests with usage in this session
+        </span>
+      </div>
+    );
+  }
+
+  const { totals, requests } = analysis;
+  const maxInput = Math.max(1, ...requests.map(r => r.inputTokens + r.cacheReadTokens + r.cacheWriteTokens));
+  const busted = requests.filter(r => r.bust);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      {/* Header bar */}
+      <div style={{
+        padding: '8px 16px',
+        borderBottom: '1px solid var(--color-border-default)',
+        display: 'flex',
+        alignItems: 'center',
+        gap: 10,
+        fontSize: 11,
+        color: 'var(--color-text-tertiary)',
+      }}>
+        <Database size={12} style={{ color: 'var(--color-accent)' }} />
+        <span style={{ fontFamily: 'var(--font-mono)' }}>
+          {totals.requests} request{totals.requests !== 1 ? 's' : ''} · {analysis.busts} cache bust{analysis.busts !== 1 ? 's' : ''}
+        </span>
+        <div style={{ flex: 1 }} />
+        <button className="btn btn-sm btn-ghost" onClick={() => setReloadKey(k => k + 1)} title="Refresh">
+          <RefreshCw size={12} style={loading ? { animation: 'spin 1s linear infinite' } : undefined} />
+        </button>
+      </div>
+
+      <div style={{ flex: 1, overflow: 'auto', padding: 16 }} className="scrollbar-thin">
+        {/* Overview */}
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, minmax(0, 1fr))', gap: 10, marginBottom: 16 }}>
+          <div className="stat-card green">
+            <div className="stat-label">Cache Hit Ratio</div>
+            <div className="stat-value">{Math.round(totals.hitRatio * 100)}%</div>
+          </div>
+          <div className="stat-card blue">
+            <div className="stat-label">Cache Reads ({formatTokens(totals.cacheReadTokens)})</div>
+            <div className="stat-value">{formatCost(totals.cacheReadCostUsd)}</div>
+          </div>
+          <div className="stat-card amber">
+            <div className="stat-label">Cache Writes ({formatTokens(totals.cacheWrite5mTokens + totals.cacheWrite1hTokens)})</div>
+            <div className="stat-value">{formatCost(totals.cacheWriteCostUsd)}</div>
+          </div>
+          <div className="stat-card purple">
+            <div className="stat-label">Lost to Busts</div>
+            <div className="stat-value">{formatCost(analysis.estimatedLossUsd)}</div>
+          </div>
+        </div>
+
+        {/* Recommendations */}
+        {analysis.recommendations.length > 0 && (
+          <div className="card" style={{ padding: 14, marginBottom: 16 }}>
+            <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 10 }}>Recommendations</div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+              {analysis.recommendations.map((rec, i) => (
+                <div key={`${rec.cause}-${i}`} style={{ display: 'flex', alignItems: 'flex-start', gap: 8, fontSize: 12 }}>
+                  <span className={`badge ${SEVERITY_BADGES[rec.severity]}`} style={{ flexShrink: 0 }}>{rec.severity}</span>
+                  <span style={{ color: 'var(--color-text-secondary)', lineHeight: 1.5 }}>{rec.message}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Per-request cache reads vs writes */}
+        <div className="card" style={{ padding: 14, marginBottom: 16 }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 12, fontSize: 12, fontWeight: 600, marginBottom: 10 }}>
+            <span>Requests</span>
+            <span style={{ display: 'flex', alignItems: 'center', gap: 4, fontWeight: 400, color: 'var(--color-text-tertiary)', fontSize: 11 }}>
+              <span style={{ width: 8, height: 8, borderRadius: 2, background: 'var(--color-status-green)' }} /> read
+              <span style={{ width: 8, height: 8, borderRadius: 2, background: 'var(--color-status-orange)', marginLeft: 6 }} /> write
+              <span style={{ width: 8, height: 8, borderRadius: 2, background: 'var(--color-status-red)', marginLeft: 6 }} /> bust
+            </span>
+          </div>
+          <div style={{ display: 'flex', alignItems: 'flex-end', gap: 1, height: 120 }}>
+            {requests.map((r, i) => {
+              const total = r.inputTokens + r.cacheReadTokens + r.cacheWriteTokens;
+              const title = [
+                `Request ${i + 1} (turn ${r.turnIndex + 1}, line ${r.lineIndex})`,
+                r.model,
+                `read ${formatTokens(r.cacheReadTokens)} · write ${formatTokens(r.cacheWriteTokens)} · ${Math.round(r.hitRatio * 100)}% hit`,
+                r.gapSeconds !== undefined ? `gap ${formatGap(r.gapSeconds)}` : '',
+                r.bust ? `bust: ${r.bust.causes.map(c => CAUSE_LABELS[c]).join(', ')} (${formatCost(r.bust.lostUsd)})` : '',
+              ].filter(Boolean).join('\n');
+              return (
+                <div key={r.lineIndex} title={title} style={{
+                  flex: 1,
+                  minWidth: 2,
+                  height: `${(total / maxInput) * 100}%`,
+                  display: 'flex',
+                  flexDirection: 'column',
+                  borderTop: r.bust ? '3px solid var(--color-status-red)' : undefined,
+                }}>
+                  <div style={{ flex: r.cacheWriteTokens + r.inputTokens, background: 'var(--color-status-orange)', opacity: 0.8 }} />
+                  <div style={{ flex: r.cacheReadTokens, background: 'var(--color-status-green)', opacity: 0.8 }} />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Busts */}
+        {busted.length > 0 && (
+          <div className="card" style={{ padding: 14 }}>
+            <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 10 }}>Cache Busts</div>
+            <table style={{ width: '100%', fontSize: 12, borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ color: 'var(--color-text-tertiary)', textAlign: 'left' }}>
+                  <th style={{ fontWeight: 500, padding: '4px 8px 4px 0' }}>Turn</th>
+                  <th style={{ fontWeight: 500, padding: '4px 8px' }}>Time</th>
+                  <th style={{ fontWeight: 500, padding: '4px 8px' }}>Cause</th>
+                  <th style={{ fontWeight: 500, padding: '4px 8px' }}>Gap</th>
+                  <th style={{ fontWeight: 500, padding: '4px 8px', textAlign: 'right' }}>Re-written</th>
+                  <th style={{ fontWeight: 500, padding: '4px 0 4px 8px', textAlign: 'right' }}>Lost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {busted.map(r => (
+                  <tr key={r.lineIndex} style={{ borderTop: '1px solid var(--color-border-default)' }}>
+                    <td style={{ padding: '6px 8px 6px 0', fontFamily: 'var(--font-mono)' }}>{r.turnIndex + 1}</td>
+                    <td style={{ padding: '6px 8px', color: 'var(--color-text-secondary)' }}>
+                      {r.timestamp ? new Date(r.timestamp).toLocaleTimeString() : '—'}
+                    </td>
+                    <td style={{ padding: '6px 8px' }}>{r.bust!.causes.map(c => CAUSE_LABELS[c]).join(', ')}</td>
+                    <td style={{ padding: '6px 8px', fontFamily: 'var(--font-mono)' }}>{formatGap(r.gapSeconds)}</td>
+                    <td style={{ padding: '6px 8px', textAlign: 'right', fontFamily: 'var(--font-mono)' }}>{formatTokens(r.bust!.rewrittenTokens)}</td>
+                    <td style={{ padding: '6px 0 6px 8px', textAlign: 'right', fontFamily: 'var(--font-mono)' }}>{formatCost(r.bust!.lostUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -47,6 +47,13 @@ export function formatCost(cost: number): string {
   return `$${cost.toFixed(2)}`;
 }
 
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000_000) return `${(tokens / 1_000_000_000).toFixed(1)}B`;
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+  return String(tokens);
+}
+
 /** Extract the platform domain from a hub WebSocket URL.
  *  e.g. wss://assist-api.xeenhub.com → xeenhub.com */
 export function getHubDomain(hubUrl: string | null | undefined): string {